@@ -0,0 +1,195 @@
+import { and, asc, desc, eq, gt, gte, lt, lte, sql } from "drizzle-orm";
+import { canvasChatMessages, canvasCommentThreads, canvasComments, canvasEvents, canvasSnapshots } from "./canvas-events-schema";
+import type {
+  CanvasEventsDB,
+  CanvasEventRow,
+  InsertCanvasEventRow,
+  CanvasSnapshotRow,
+  CanvasCommentThreadRow,
+  CanvasCommentRow,
+  InsertCanvasCommentRow,
+  CanvasChatMessageRow,
+  InsertCanvasChatMessageRow,
+} from "./canvas-events-types";
+
+// Returns null when an event with the same id was already stored (e.g. a client resend)
+export async function appendCanvasEvent(db: CanvasEventsDB, event: Omit<InsertCanvasEventRow, 'seq'>): Promise<CanvasEventRow | null> {
+  const [result] = await db
+    .insert(canvasEvents)
+    .values(event)
+    .onConflictDoNothing({ target: canvasEvents.id })
+    .returning();
+  return result || null;
+}
+
+// Events in sequence order, optionally only those after a given seq
+export async function getCanvasEvents(db: CanvasEventsDB, afterSeq = 0): Promise<CanvasEventRow[]> {
+  return await db
+    .select()
+    .from(canvasEvents)
+    .where(gt(canvasEvents.seq, afterSeq))
+    .orderBy(asc(canvasEvents.seq));
+}
+
+// A page of events in sequence order whose timestamps fall within [from, to] (either bound optional)
+export async function getCanvasEventsInTimeRange(
+  db: CanvasEventsDB,
+  options: { from?: number; to?: number; afterSeq?: number; limit: number },
+): Promise<CanvasEventRow[]> {
+  const conditions = [gt(canvasEvents.seq, options.afterSeq ?? 0)];
+  if (options.from !== undefined) conditions.push(gte(canvasEvents.timestamp, options.from));
+  if (options.to !== undefined) conditions.push(lte(canvasEvents.timestamp, options.to));
+  return await db
+    .select()
+    .from(canvasEvents)
+    .where(and(...conditions))
+    .orderBy(asc(canvasEvents.seq))
+    .limit(options.limit);
+}
+
+// Events after afterSeq up to and including throughSeq, in sequence order
+export async function getCanvasEventsThrough(db: CanvasEventsDB, throughSeq: number, afterSeq = 0): Promise<CanvasEventRow[]> {
+  return await db
+    .select()
+    .from(canvasEvents)
+    .where(and(gt(canvasEvents.seq, afterSeq), lte(canvasEvents.seq, throughSeq)))
+    .orderBy(asc(canvasEvents.seq));
+}
+
+// Seq of the last event recorded at or before a timestamp, or 0 if there is none
+export async function getLastCanvasEventSeqAt(db: CanvasEventsDB, timestamp: number): Promise<number> {
+  const [result] = await db
+    .select({ seq: canvasEvents.seq })
+    .from(canvasEvents)
+    .where(lte(canvasEvents.timestamp, timestamp))
+    .orderBy(desc(canvasEvents.seq))
+    .limit(1);
+  return result?.seq ?? 0;
+}
+
+export async function countCanvasEventsAfter(db: CanvasEventsDB, afterSeq: number): Promise<number> {
+  const [result] = await db
+    .select({ count: sql<number>`count(*)` })
+    .from(canvasEvents)
+    .where(gt(canvasEvents.seq, afterSeq));
+  return result.count;
+}
+
+export async function getLatestCanvasSnapshot(db: CanvasEventsDB): Promise<CanvasSnapshotRow | null> {
+  const [result] = await db
+    .select()
+    .from(canvasSnapshots)
+    .orderBy(desc(canvasSnapshots.upToSeq))
+    .limit(1);
+  return result || null;
+}
+
+// Stores a new snapshot and drops the ones it supersedes
+export async function saveCanvasSnapshot(
+  db: CanvasEventsDB,
+  upToSeq: number,
+  shapes: unknown[],
+  history: Record<string, unknown> | null = null,
+): Promise<CanvasSnapshotRow> {
+  const [result] = await db
+    .insert(canvasSnapshots)
+    .values({ upToSeq, shapes, history, created: Date.now() })
+    .returning();
+  await db
+    .delete(canvasSnapshots)
+    .where(lt(canvasSnapshots.upToSeq, upToSeq));
+  return result;
+}
+
+export type CanvasCommentThreadWithComments = CanvasCommentThreadRow & { comments: CanvasCommentRow[] };
+
+// Every comment thread with its comments, oldest thread and comment first
+export async function getCanvasCommentThreads(db: CanvasEventsDB): Promise<CanvasCommentThreadWithComments[]> {
+  const threads = await db.select().from(canvasCommentThreads).orderBy(asc(canvasCommentThreads.created));
+  const comments = await db.select().from(canvasComments).orderBy(asc(canvasComments.created));
+  return threads.map(thread => ({ ...thread, comments: comments.filter(comment => comment.threadId === thread.id) }));
+}
+
+export async function getCanvasCommentThread(db: CanvasEventsDB, threadId: string): Promise<CanvasCommentThreadWithComments | null> {
+  const [thread] = await db.select().from(canvasCommentThreads).where(eq(canvasCommentThreads.id, threadId));
+  if (!thread) return null;
+  const comments = await db
+    .select()
+    .from(canvasComments)
+    .where(eq(canvasComments.threadId, threadId))
+    .orderBy(asc(canvasComments.created));
+  return { ...thread, comments };
+}
+
+export async function countCanvasCommentThreads(db: CanvasEventsDB): Promise<number> {
+  const [result] = await db.select({ count: sql<number>`count(*)` }).from(canvasCommentThreads);
+  return result.count;
+}
+
+// Opens a thread with its first comment; returns false when the thread id is taken
+export async function createCanvasCommentThread(
+  db: CanvasEventsDB,
+  thread: { id: string; anchorX: number; anchorY: number; anchorShapeId: string | null; createdBy: string; created: number },
+  comment: InsertCanvasCommentRow,
+): Promise<boolean> {
+  const [created] = await db
+    .insert(canvasCommentThreads)
+    .values({ ...thread, updated: thread.created })
+    .onConflictDoNothing({ target: canvasCommentThreads.id })
+    .returning({ id: canvasCommentThreads.id });
+  if (!created) return false;
+  await db.insert(canvasComments).values(comment);
+  return true;
+}
+
+// Adds a reply and bumps the thread's updated time; returns false when the comment id is taken
+export async function addCanvasComment(db: CanvasEventsDB, comment: InsertCanvasCommentRow): Promise<boolean> {
+  const [added] = await db
+    .insert(canvasComments)
+    .values(comment)
+    .onConflictDoNothing({ target: canvasComments.id })
+    .returning({ id: canvasComments.id });
+  if (!added) return false;
+  await db
+    .update(canvasCommentThreads)
+    .set({ updated: comment.created })
+    .where(eq(canvasCommentThreads.id, comment.threadId));
+  return true;
+}
+
+export async function setCanvasCommentThreadResolved(db: CanvasEventsDB, threadId: string, resolved: boolean, userId: string, at: number): Promise<void> {
+  await db
+    .update(canvasCommentThreads)
+    .set({ resolved, resolvedBy: resolved ? userId : null, resolvedAt: resolved ? at : null, updated: at })
+    .where(eq(canvasCommentThreads.id, threadId));
+}
+
+// Returns null when a message with the same id was already stored (e.g. a client resend)
+export async function appendCanvasChatMessage(db: CanvasEventsDB, message: Omit<InsertCanvasChatMessageRow, 'seq'>): Promise<CanvasChatMessageRow | null> {
+  const [result] = await db
+    .insert(canvasChatMessages)
+    .values(message)
+    .onConflictDoNothing({ target: canvasChatMessages.id })
+    .returning();
+  return result || null;
+}
+
+// Up to `limit` messages before a seq (or the latest ones), in seq order
+export async function getCanvasChatMessages(db: CanvasEventsDB, before: number | null, limit: number): Promise<CanvasChatMessageRow[]> {
+  const rows = await db
+    .select()
+    .from(canvasChatMessages)
+    .where(before === null ? undefined : lt(canvasChatMessages.seq, before))
+    .orderBy(desc(canvasChatMessages.seq))
+    .limit(limit);
+  return rows.reverse();
+}
+
+export async function getCanvasChatMessage(db: CanvasEventsDB, id: string): Promise<CanvasChatMessageRow | null> {
+  const [result] = await db.select().from(canvasChatMessages).where(eq(canvasChatMessages.id, id));
+  return result || null;
+}
+
+export async function deleteCanvasChatMessage(db: CanvasEventsDB, id: string): Promise<void> {
+  await db.delete(canvasChatMessages).where(eq(canvasChatMessages.id, id));
+}
@@ -0,0 +1,64 @@
+import { sqliteTable, text, integer, real, index } from "drizzle-orm/sqlite-core";
+
+// Append-only log of drawing events, stored in each CanvasRoom Durable Object's SQLite storage.
+// seq is the room-local ordering of events and never reused.
+export const canvasEvents = sqliteTable("canvas_events", {
+  seq: integer("seq").primaryKey({ autoIncrement: true }),
+  id: text("id").notNull().unique(),
+  roomId: text("room_id").notNull(),
+  userId: text("user_id").notNull(),
+  clientId: text("client_id").notNull(),
+  type: text("type").notNull(),
+  data: text("data", { mode: "json" }).$type<unknown>(),
+  userColor: text("user_color"),
+  timestamp: integer("timestamp").notNull(), // Milliseconds since epoch, as sent to clients
+}, (table) => [
+  index("canvas_events_timestamp_idx").on(table.timestamp),
+]);
+
+// Compacted state of the canvas: the live shapes after replaying every event up to upToSeq.
+// New clients receive the latest snapshot plus the events after it instead of the full history.
+export const canvasSnapshots = sqliteTable("canvas_snapshots", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  upToSeq: integer("up_to_seq").notNull(),
+  shapes: text("shapes", { mode: "json" }).$type<unknown[]>().notNull(),
+  history: text("history", { mode: "json" }).$type<Record<string, unknown>>(), // Undo/redo stacks carried across compaction
+  created: integer("created").notNull(), // Milliseconds since epoch
+});
+
+// Comment threads pinned to the canvas, see src/lib/canvas-comments.ts
+export const canvasCommentThreads = sqliteTable("canvas_comment_threads", {
+  id: text("id").primaryKey(),
+  anchorX: real("anchor_x").notNull(),
+  anchorY: real("anchor_y").notNull(),
+  anchorShapeId: text("anchor_shape_id"), // Null for threads pinned to a point
+  resolved: integer("resolved", { mode: "boolean" }).notNull().default(false),
+  resolvedBy: text("resolved_by"),
+  resolvedAt: integer("resolved_at"),
+  createdBy: text("created_by").notNull(),
+  created: integer("created").notNull(), // Milliseconds since epoch
+  updated: integer("updated").notNull(),
+});
+
+export const canvasComments = sqliteTable("canvas_comments", {
+  id: text("id").primaryKey(),
+  threadId: text("thread_id").notNull(),
+  userId: text("user_id").notNull(),
+  userName: text("user_name").notNull(),
+  text: text("text").notNull(),
+  mentions: text("mentions", { mode: "json" }).$type<{ userId: string; name: string }[]>().notNull(),
+  created: integer("created").notNull(),
+}, (table) => [
+  index("canvas_comments_thread_idx").on(table.threadId, table.created),
+]);
+
+// Room chat, kept apart from canvas_events so it never ends up in snapshots or init_state
+export const canvasChatMessages = sqliteTable("canvas_chat_messages", {
+  seq: integer("seq").primaryKey({ autoIncrement: true }),
+  id: text("id").notNull().unique(),
+  userId: text("user_id").notNull(),
+  userName: text("user_name").notNull(),
+  userColor: text("user_color").notNull(),
+  text: text("text").notNull(),
+  created: integer("created").notNull(), // Milliseconds since epoch
+});
@@ -0,0 +1,13 @@
+import type { DrizzleSqliteDODatabase } from "drizzle-orm/durable-sqlite";
+import type * as schema from "./canvas-events-schema";
+import { canvasChatMessages, canvasCommentThreads, canvasComments, canvasEvents, canvasSnapshots } from "./canvas-events-schema";
+
+export type CanvasEventsDB = DrizzleSqliteDODatabase<typeof schema>;
+export type CanvasEventRow = typeof canvasEvents.$inferSelect;
+export type InsertCanvasEventRow = typeof canvasEvents.$inferInsert;
+export type CanvasSnapshotRow = typeof canvasSnapshots.$inferSelect;
+export type CanvasCommentThreadRow = typeof canvasCommentThreads.$inferSelect;
+export type CanvasCommentRow = typeof canvasComments.$inferSelect;
+export type InsertCanvasCommentRow = typeof canvasComments.$inferInsert;
+export type CanvasChatMessageRow = typeof canvasChatMessages.$inferSelect;
+export type InsertCanvasChatMessageRow = typeof canvasChatMessages.$inferInsert;
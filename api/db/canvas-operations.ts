@@ -1,6 +1,8 @@
-import { eq, and, desc } from 'drizzle-orm';
-import type { CanvasD1DB, NewCanvasRoom, CanvasRoom, NewCanvasParticipant, CanvasParticipant, NewCanvasInvite, CanvasInvite } from './canvas-types';
-import { canvasRooms, canvasParticipants, canvasInvites } from './canvas-schema';
+import { eq, and, or, desc, ne, inArray, isNull, isNotNull, sql, type SQL } from 'drizzle-orm';
+import type { CanvasD1DB, NewCanvasRoom, CanvasRoom, NewCanvasParticipant, CanvasParticipant, NewCanvasInvite, CanvasInvite, CanvasAsset, NewCanvasAsset, CanvasTemplate, NewCanvasTemplate, CanvasShareLink } from './canvas-types';
+import { canvasRooms, canvasParticipants, canvasInvites, canvasAssets, canvasTemplates, canvasShareLinks } from './canvas-schema';
+import { user } from '../../src/db/auth-schema';
+import type { CanvasRoomSettings } from '../../src/lib/canvas-settings';
 
 // Explicit type for creating a canvas room, reflecting new fields
 export interface CreateCanvasRoomData {
@@ -9,6 +11,7 @@ export interface CreateCanvasRoomData {
   description?: string | null;
   is_public?: boolean;
   max_participants?: number;
+  settings?: Partial<CanvasRoomSettings>; // Canvas settings, e.g. copied from the room being duplicated
 }
 
 // TODO: Implement actual operations as needed. These are examples.
@@ -36,8 +39,15 @@ export async function createCanvasRoom(db: CanvasD1DB, roomData: CreateCanvasRoo
   if (roomData.max_participants !== undefined) {
     valuesToInsert.max_participants = roomData.max_participants;
   }
+  if (roomData.settings) {
+    Object.assign(valuesToInsert, roomData.settings);
+  }
 
   const [room] = await db.insert(canvasRooms).values(valuesToInsert).returning();
+
+  // The creator is the room's first participant and its owner
+  await addParticipantToRoom(db, { room_id: room.id, user_id: room.creator_id, role: 'owner' });
+
   return room;
 }
 
@@ -45,21 +55,107 @@ export async function getCanvasRoomById(db: CanvasD1DB, roomId: string): Promise
   return await db.select().from(canvasRooms).where(eq(canvasRooms.id, roomId)).get();
 }
 
-export async function getAllCanvasRoomsForUser(db: CanvasD1DB, userId: string): Promise<CanvasRoom[]> {
-  // Fetch rooms where the user is the creator.
-  // Future enhancement: could also fetch rooms where the user is a participant by joining with canvasParticipants.
-  return await db.select()
+export type CanvasRoomListScope = 'mine' | 'shared' | 'public' | 'archived';
+
+export interface CanvasRoomListOptions {
+  scope?: CanvasRoomListScope;
+  page?: number; // 1-based
+  pageSize?: number;
+  search?: string;
+}
+
+// Room row plus aggregate participant info for list views
+export interface CanvasRoomListItem extends CanvasRoom {
+  participant_count: number;
+  last_activity: Date | null;
+}
+
+export interface CanvasRoomListResult {
+  rooms: CanvasRoomListItem[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+/**
+ * Lists rooms visible to a user in one of three scopes:
+ * - mine: rooms the user created
+ * - shared: rooms the user participates in but did not create
+ * - public: rooms marked is_public
+ * - archived: archived rooms the user created, which the other scopes leave out
+ * Results are ordered by most recently updated and can be filtered by name.
+ */
+export async function getAllCanvasRoomsForUser(
+  db: CanvasD1DB,
+  userId: string,
+  options: CanvasRoomListOptions = {}
+): Promise<CanvasRoomListResult> {
+  const scope = options.scope ?? 'mine';
+  const page = Math.max(1, Math.floor(options.page ?? 1));
+  const pageSize = Math.min(100, Math.max(1, Math.floor(options.pageSize ?? 20)));
+
+  const conditions: SQL[] = [scope === 'archived' ? isNotNull(canvasRooms.archived_at) : isNull(canvasRooms.archived_at)];
+  if (scope === 'mine' || scope === 'archived') {
+    conditions.push(eq(canvasRooms.creator_id, userId));
+  } else if (scope === 'shared') {
+    const memberRoomIds = db.select({ room_id: canvasParticipants.room_id })
+      .from(canvasParticipants)
+      .where(eq(canvasParticipants.user_id, userId));
+    conditions.push(inArray(canvasRooms.id, memberRoomIds), ne(canvasRooms.creator_id, userId));
+  } else {
+    conditions.push(eq(canvasRooms.is_public, true));
+  }
+  if (options.search && options.search.trim() !== '') {
+    const escaped = options.search.trim().replace(/[\\%_]/g, char => `\\${char}`);
+    conditions.push(sql`${canvasRooms.name} LIKE ${`%${escaped}%`} ESCAPE '\\'`);
+  }
+  const where = and(...conditions);
+
+  const participantStats = db.select({
+      room_id: canvasParticipants.room_id,
+      participant_count: sql<number>`count(*)`.as('participant_count'),
+      last_activity: sql<number | null>`max(${canvasParticipants.last_active})`.as('last_activity'),
+    })
+    .from(canvasParticipants)
+    .groupBy(canvasParticipants.room_id)
+    .as('participant_stats');
+
+  const rows = await db.select({
+      room: canvasRooms,
+      participant_count: participantStats.participant_count,
+      last_activity: participantStats.last_activity,
+    })
     .from(canvasRooms)
-    .where(eq(canvasRooms.creator_id, userId))
+    .leftJoin(participantStats, eq(participantStats.room_id, canvasRooms.id))
+    .where(where)
     .orderBy(desc(canvasRooms.updated)) // Order by most recently updated
+    .limit(pageSize)
+    .offset((page - 1) * pageSize)
     .all();
+
+  const [{ total }] = await db.select({ total: sql<number>`count(*)` })
+    .from(canvasRooms)
+    .where(where)
+    .all();
+
+  return {
+    rooms: rows.map(row => ({
+      ...row.room,
+      participant_count: row.participant_count ?? 0,
+      // last_active is stored in seconds (timestamp mode)
+      last_activity: row.last_activity != null ? new Date(row.last_activity * 1000) : null,
+    })),
+    total,
+    page,
+    pageSize,
+  };
 }
 
 export async function updateCanvasRoomSettings(
   db: CanvasD1DB, 
   roomId: string, 
   userId: string, // ID of the user attempting the update
-  settings: Partial<Pick<CanvasRoom, 'name' | 'description' | 'is_public' | 'max_participants'>>
+  settings: Partial<Pick<CanvasRoom, 'name' | 'description' | 'is_public' | 'max_participants'> & CanvasRoomSettings>
 ): Promise<CanvasRoom> {
   const room = await db.select().from(canvasRooms).where(eq(canvasRooms.id, roomId)).get();
 
@@ -90,16 +186,38 @@ export async function updateCanvasRoomSettings(
   return updatedRoom;
 }
 
-// Add more operations for canvasRooms (e.g., delete, list by user)
+// Archives a room, or restores it when archived is false
+export async function setCanvasRoomArchived(db: CanvasD1DB, roomId: string, archived: boolean): Promise<CanvasRoom | undefined> {
+  const now = new Date();
+  const [room] = await db.update(canvasRooms)
+    .set({ archived_at: archived ? now : null, updated: now })
+    .where(eq(canvasRooms.id, roomId))
+    .returning();
+  return room;
+}
+
+// Deletes a room along with its participants, invites and share link
+export async function deleteCanvasRoom(db: CanvasD1DB, roomId: string): Promise<CanvasRoom | undefined> {
+  const [, , , , [room]] = await db.batch([
+    db.delete(canvasInvites).where(eq(canvasInvites.room_id, roomId)),
+    db.delete(canvasShareLinks).where(eq(canvasShareLinks.room_id, roomId)),
+    db.delete(canvasParticipants).where(eq(canvasParticipants.room_id, roomId)),
+    db.delete(canvasAssets).where(eq(canvasAssets.room_id, roomId)), // Blobs must be removed from storage first
+    db.delete(canvasRooms).where(eq(canvasRooms.id, roomId)).returning(),
+  ]);
+  return room;
+}
 
 /**
  * Canvas Participants Operations
  */
 
+export type CanvasRole = CanvasParticipant['role'];
+
 interface AddParticipantData {
     room_id: string;
     user_id: string;
-    role?: 'owner' | 'editor' | 'viewer';
+    role?: CanvasRole;
 }
 
 export async function addParticipantToRoom(db: CanvasD1DB, participantData: AddParticipantData): Promise<CanvasParticipant> {
@@ -125,7 +243,100 @@ export async function getParticipantsByRoomId(db: CanvasD1DB, roomId: string): P
   return await db.select().from(canvasParticipants).where(eq(canvasParticipants.room_id, roomId)).all();
 }
 
-// Add more operations for canvasParticipants (e.g., remove, update role)
+export async function getParticipantByRoomAndUser(db: CanvasD1DB, roomId: string, userId: string): Promise<CanvasParticipant | undefined> {
+  return await db.select()
+    .from(canvasParticipants)
+    .where(and(eq(canvasParticipants.room_id, roomId), eq(canvasParticipants.user_id, userId)))
+    .get();
+}
+
+/**
+ * Resolves the role a user has in a room, or null if they are not allowed in.
+ * The creator is always treated as owner, participants use their stored role,
+ * and anyone else may only join public rooms as a viewer.
+ */
+export async function getUserRoleInRoom(db: CanvasD1DB, room: CanvasRoom, userId: string): Promise<CanvasRole | null> {
+  if (room.creator_id === userId) {
+    return 'owner';
+  }
+  const participant = await getParticipantByRoomAndUser(db, room.id, userId);
+  if (participant) {
+    return participant.role;
+  }
+  return room.is_public ? 'viewer' : null;
+}
+
+// Participant row joined with the member's public profile from the auth user table
+export interface CanvasParticipantWithUser extends CanvasParticipant {
+  name: string | null;
+  email: string | null;
+  image: string | null;
+}
+
+export async function getParticipantsWithUsersByRoomId(db: CanvasD1DB, roomId: string): Promise<CanvasParticipantWithUser[]> {
+  return await db.select({
+      id: canvasParticipants.id,
+      room_id: canvasParticipants.room_id,
+      user_id: canvasParticipants.user_id,
+      role: canvasParticipants.role,
+      joined: canvasParticipants.joined,
+      last_active: canvasParticipants.last_active,
+      name: user.name,
+      email: user.email,
+      image: user.image,
+    })
+    .from(canvasParticipants)
+    .leftJoin(user, eq(canvasParticipants.user_id, user.id))
+    .where(eq(canvasParticipants.room_id, roomId))
+    .orderBy(canvasParticipants.joined)
+    .all();
+}
+
+// Records that a participant was just active in the room
+export async function touchParticipant(db: CanvasD1DB, roomId: string, userId: string): Promise<void> {
+  await db.update(canvasParticipants)
+    .set({ last_active: new Date() })
+    .where(and(eq(canvasParticipants.room_id, roomId), eq(canvasParticipants.user_id, userId)));
+}
+
+export async function updateParticipantRole(db: CanvasD1DB, roomId: string, userId: string, role: CanvasRole): Promise<CanvasParticipant | undefined> {
+  const [participant] = await db.update(canvasParticipants)
+    .set({ role })
+    .where(and(eq(canvasParticipants.room_id, roomId), eq(canvasParticipants.user_id, userId)))
+    .returning();
+  return participant;
+}
+
+export async function removeParticipantFromRoom(db: CanvasD1DB, roomId: string, userId: string): Promise<CanvasParticipant | undefined> {
+  const [participant] = await db.delete(canvasParticipants)
+    .where(and(eq(canvasParticipants.room_id, roomId), eq(canvasParticipants.user_id, userId)))
+    .returning();
+  return participant;
+}
+
+/**
+ * Hands ownership of a room to another participant. The new owner becomes the room's
+ * creator_id and the previous owner stays in the room as an editor.
+ */
+export async function transferRoomOwnership(db: CanvasD1DB, roomId: string, fromUserId: string, toUserId: string): Promise<CanvasRoom> {
+  const now = new Date();
+  const [[updatedRoom]] = await db.batch([
+    db.update(canvasRooms)
+      .set({ creator_id: toUserId, updated: now })
+      .where(eq(canvasRooms.id, roomId))
+      .returning(),
+    db.update(canvasParticipants)
+      .set({ role: 'owner' })
+      .where(and(eq(canvasParticipants.room_id, roomId), eq(canvasParticipants.user_id, toUserId))),
+    db.update(canvasParticipants)
+      .set({ role: 'editor' })
+      .where(and(eq(canvasParticipants.room_id, roomId), eq(canvasParticipants.user_id, fromUserId))),
+  ]);
+  if (!updatedRoom) {
+    throw new Error('Room not found');
+  }
+  return updatedRoom;
+}
 
 /**
  * Canvas Invites Operations
@@ -136,6 +347,7 @@ interface CreateCanvasInviteData {
     created_by_user_id: string;
     expires: Date;
     email?: string | null;
+    role?: CanvasRole;
 }
 
 export async function createCanvasInvite(db: CanvasD1DB, inviteData: CreateCanvasInviteData): Promise<CanvasInvite> {
@@ -156,6 +368,9 @@ export async function createCanvasInvite(db: CanvasD1DB, inviteData: CreateCanva
   if (inviteData.email !== undefined) {
     valuesToInsert.email = inviteData.email;
   }
+  if (inviteData.role) {
+    valuesToInsert.role = inviteData.role;
+  }
 
   const [invite] = await db.insert(canvasInvites).values(valuesToInsert).returning();
   return invite;
@@ -165,7 +380,142 @@ export async function getCanvasInviteByToken(db: CanvasD1DB, token: string): Pro
   return await db.select().from(canvasInvites).where(eq(canvasInvites.token, token)).get();
 }
 
-// Add more operations for canvasInvites (e.g., update status)
+export async function getCanvasInviteById(db: CanvasD1DB, inviteId: string): Promise<CanvasInvite | undefined> {
+  return await db.select().from(canvasInvites).where(eq(canvasInvites.id, inviteId)).get();
+}
+
+export async function getCanvasInvitesByRoomId(db: CanvasD1DB, roomId: string): Promise<CanvasInvite[]> {
+  return await db.select()
+    .from(canvasInvites)
+    .where(eq(canvasInvites.room_id, roomId))
+    .orderBy(desc(canvasInvites.created))
+    .all();
+}
+
+export async function updateCanvasInviteStatus(
+  db: CanvasD1DB,
+  inviteId: string,
+  status: CanvasInvite['status'],
+  used?: Date
+): Promise<CanvasInvite | undefined> {
+  const updatePayload: Partial<NewCanvasInvite> = { status };
+  if (used) {
+    updatePayload.used = used;
+  }
+  const [invite] = await db.update(canvasInvites)
+    .set(updatePayload)
+    .where(eq(canvasInvites.id, inviteId))
+    .returning();
+  return invite;
+}
+
+/**
+ * Canvas Assets Operations
+ */
+
+export async function createCanvasAsset(db: CanvasD1DB, asset: NewCanvasAsset): Promise<CanvasAsset> {
+  const [created] = await db.insert(canvasAssets).values(asset).returning();
+  return created;
+}
+
+export async function getCanvasAsset(db: CanvasD1DB, roomId: string, assetId: string): Promise<CanvasAsset | undefined> {
+  return await db.select()
+    .from(canvasAssets)
+    .where(and(eq(canvasAssets.room_id, roomId), eq(canvasAssets.id, assetId)))
+    .get();
+}
+
+export async function getCanvasAssetsByRoomId(db: CanvasD1DB, roomId: string): Promise<CanvasAsset[]> {
+  return await db.select().from(canvasAssets).where(eq(canvasAssets.room_id, roomId)).all();
+}
+
+export async function countCanvasAssets(db: CanvasD1DB, roomId: string): Promise<number> {
+  const [result] = await db.select({ count: sql<number>`count(*)` }).from(canvasAssets).where(eq(canvasAssets.room_id, roomId));
+  return result.count;
+}
+
+export async function deleteCanvasAssets(db: CanvasD1DB, roomId: string, assetIds: string[]): Promise<void> {
+  if (assetIds.length === 0) return;
+  await db.delete(canvasAssets).where(and(eq(canvasAssets.room_id, roomId), inArray(canvasAssets.id, assetIds)));
+}
+
+/**
+ * Canvas Templates Operations
+ */
+
+// A saved template without its document, for listings
+export type CanvasTemplateSummary = Omit<CanvasTemplate, 'document'>;
+
+export async function createCanvasTemplate(db: CanvasD1DB, data: Omit<NewCanvasTemplate, 'id' | 'created'>): Promise<CanvasTemplate> {
+  const [created] = await db.insert(canvasTemplates).values({
+    ...data,
+    id: crypto.randomUUID(),
+    created: new Date(),
+  }).returning();
+  return created;
+}
+
+export async function getCanvasTemplateById(db: CanvasD1DB, templateId: string): Promise<CanvasTemplate | undefined> {
+  return await db.select().from(canvasTemplates).where(eq(canvasTemplates.id, templateId)).get();
+}
+
+// The user's own templates and everyone's public ones, newest first
+export async function getCanvasTemplatesForUser(db: CanvasD1DB, userId: string): Promise<CanvasTemplateSummary[]> {
+  return await db.select({
+    id: canvasTemplates.id,
+    name: canvasTemplates.name,
+    description: canvasTemplates.description,
+    creator_id: canvasTemplates.creator_id,
+    is_public: canvasTemplates.is_public,
+    shape_count: canvasTemplates.shape_count,
+    created: canvasTemplates.created,
+  })
+    .from(canvasTemplates)
+    .where(or(eq(canvasTemplates.creator_id, userId), eq(canvasTemplates.is_public, true)))
+    .orderBy(desc(canvasTemplates.created))
+    .all();
+}
+
+export async function deleteCanvasTemplate(db: CanvasD1DB, templateId: string): Promise<void> {
+  await db.delete(canvasTemplates).where(eq(canvasTemplates.id, templateId));
+}
+
+/**
+ * Canvas Share Links Operations
+ */
+
+export async function getCanvasShareLinkByRoomId(db: CanvasD1DB, roomId: string): Promise<CanvasShareLink | undefined> {
+  return await db.select().from(canvasShareLinks).where(eq(canvasShareLinks.room_id, roomId)).get();
+}
+
+// The link with this token, unless it has expired
+export async function getActiveCanvasShareLinkByToken(db: CanvasD1DB, token: string): Promise<CanvasShareLink | undefined> {
+  const link = await db.select().from(canvasShareLinks).where(eq(canvasShareLinks.token, token)).get();
+  return link && (!link.expires || link.expires.getTime() > Date.now()) ? link : undefined;
+}
+
+// Creates the room's share link, or replaces its token and expiry so the old URL stops working
+export async function upsertCanvasShareLink(
+  db: CanvasD1DB,
+  roomId: string,
+  createdByUserId: string,
+  expires: Date | null
+): Promise<CanvasShareLink> {
+  // 32 random bytes as base64url, far too many to guess (UUIDs carry only 122 random bits)
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  const token = btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  const values = { room_id: roomId, token, created_by_user_id: createdByUserId, created: new Date(), expires };
+  const [link] = await db.insert(canvasShareLinks)
+    .values(values)
+    .onConflictDoUpdate({ target: canvasShareLinks.room_id, set: values })
+    .returning();
+  return link;
+}
+
+export async function deleteCanvasShareLink(db: CanvasD1DB, roomId: string): Promise<boolean> {
+  const deleted = await db.delete(canvasShareLinks).where(eq(canvasShareLinks.room_id, roomId)).returning();
+  return deleted.length > 0;
+}
 
 // Note: Ensure error handling, and consider if these operations should be part of the Durable Object 
 // or directly accessed via Hono routes (which might be less common if state is managed in DO). 
\ No newline at end of file
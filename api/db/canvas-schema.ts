@@ -1,4 +1,6 @@
 import { sqliteTable, text, integer, primaryKey } from 'drizzle-orm/sqlite-core';
+import type { CanvasTool } from '../../src/lib/canvas-settings';
+import type { CanvasExportDocument } from '../../src/lib/canvas-export';
 
 export const canvasRooms = sqliteTable('canvas_rooms', {
   id: text('id').primaryKey().notNull(),
@@ -7,6 +9,15 @@ export const canvasRooms = sqliteTable('canvas_rooms', {
   creator_id: text('creator_id').notNull(),
   is_public: integer('is_public', { mode: 'boolean' }).default(false),
   max_participants: integer('max_participants').default(10),
+  // Canvas settings, enforced live by the room's Durable Object (see src/lib/canvas-settings.ts)
+  background_color: text('background_color'),
+  background_pattern: text('background_pattern', { enum: ['none', 'dots', 'grid', 'lines'] }).notNull().default('none'),
+  snap_to_grid: integer('snap_to_grid', { mode: 'boolean' }).notNull().default(false),
+  grid_size: integer('grid_size').notNull().default(20),
+  is_locked: integer('is_locked', { mode: 'boolean' }).notNull().default(false),
+  allowed_tools: text('allowed_tools', { mode: 'json' }).$type<CanvasTool[]>(), // null allows every tool
+  user_colors: text('user_colors', { mode: 'json' }).$type<Record<string, string>>(),
+  archived_at: integer('archived_at', { mode: 'timestamp' }), // Archived rooms are hidden from listings and can't be joined until restored
   created: integer('created', { mode: 'timestamp' }).notNull(),
   updated: integer('updated', { mode: 'timestamp' }).notNull(),
 });
@@ -26,8 +37,46 @@ export const canvasInvites = sqliteTable('canvas_invites', {
   email: text('email'),
   token: text('token').notNull().unique(),
   created_by_user_id: text('created_by_user_id').notNull(),
+  role: text('role', { enum: ['owner', 'editor', 'viewer'] }).notNull().default('viewer'), // Role granted on acceptance
   status: text('status', { enum: ['pending', 'accepted', 'expired', 'revoked'] }).notNull().default('pending'),
   created: integer('created', { mode: 'timestamp' }).notNull(),
   expires: integer('expires', { mode: 'timestamp' }).notNull(),
   used: integer('used', { mode: 'timestamp' }),
-}); 
\ No newline at end of file
+});
+
+// Files uploaded to a room; the blobs live in object storage under canvasAssetKey(room_id, id).
+// Duplicated rooms get copies with the same id, so their image shapes keep working.
+export const canvasAssets = sqliteTable('canvas_assets', {
+  id: text('id').notNull(),
+  room_id: text('room_id').notNull(),
+  uploader_id: text('uploader_id').notNull(),
+  content_type: text('content_type', { enum: ['image/png', 'image/jpeg', 'image/gif', 'image/webp'] }).notNull(),
+  size: integer('size').notNull(), // Bytes
+  name: text('name'), // Original file name, if the upload had one
+  created: integer('created', { mode: 'timestamp' }).notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.room_id, table.id] }),
+]);
+
+// Rooms saved as templates: a canvas export document new rooms are seeded from. Personal templates
+// are only offered to their creator; public ones to everyone (built-ins live in api/lib/canvasTemplates.ts)
+export const canvasTemplates = sqliteTable('canvas_templates', {
+  id: text('id').primaryKey().notNull(),
+  name: text('name').notNull(),
+  description: text('description'),
+  creator_id: text('creator_id').notNull(),
+  is_public: integer('is_public', { mode: 'boolean' }).notNull().default(false),
+  document: text('document', { mode: 'json' }).$type<CanvasExportDocument>().notNull(),
+  shape_count: integer('shape_count').notNull(),
+  created: integer('created', { mode: 'timestamp' }).notNull(),
+});
+
+// A room's public view-only link; anyone holding the token can watch the room live without signing in.
+// One link per room: rotating replaces the token, revoking deletes the row
+export const canvasShareLinks = sqliteTable('canvas_share_links', {
+  room_id: text('room_id').primaryKey().notNull(),
+  token: text('token').notNull().unique(),
+  created_by_user_id: text('created_by_user_id').notNull(),
+  created: integer('created', { mode: 'timestamp' }).notNull(),
+  expires: integer('expires', { mode: 'timestamp' }), // null never expires
+});
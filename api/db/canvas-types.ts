@@ -15,4 +15,13 @@ export type CanvasParticipant = typeof schema.canvasParticipants.$inferSelect;
 export type NewCanvasParticipant = typeof schema.canvasParticipants.$inferInsert;
 
 export type CanvasInvite = typeof schema.canvasInvites.$inferSelect;
-export type NewCanvasInvite = typeof schema.canvasInvites.$inferInsert; 
\ No newline at end of file
+export type NewCanvasInvite = typeof schema.canvasInvites.$inferInsert;
+
+export type CanvasAsset = typeof schema.canvasAssets.$inferSelect;
+export type NewCanvasAsset = typeof schema.canvasAssets.$inferInsert;
+
+export type CanvasTemplate = typeof schema.canvasTemplates.$inferSelect;
+export type NewCanvasTemplate = typeof schema.canvasTemplates.$inferInsert;
+
+export type CanvasShareLink = typeof schema.canvasShareLinks.$inferSelect;
+export type NewCanvasShareLink = typeof schema.canvasShareLinks.$inferInsert;
@@ -1,89 +1,457 @@
-import { drizzle } from 'drizzle-orm/d1';
+import { drizzle } from 'drizzle-orm/durable-sqlite';
 import type { D1Database } from '@cloudflare/workers-types';
-import * as schema from '../db/canvas-schema';
+import * as eventsSchema from '../db/canvas-events-schema';
+import * as canvasEventOps from '../db/canvas-events-operations';
+import type { CanvasEventsDB, CanvasEventRow } from '../db/canvas-events-types';
+import { COMMENT_LIMITS, type CanvasCommentThread } from '../../src/lib/canvas-comments';
+import { canDeleteChatMessage, CHAT_LIMITS, type ChatMessage } from '../../src/lib/canvas-chat';
+import { canvasAssetKey, collectCanvasAssetIds } from '../../src/lib/canvas-assets';
+import {
+  applyCanvasEvent,
+  createCanvasHistoryState,
+  getRedoTarget,
+  getUndoTarget,
+  replayCanvasEvents,
+  type CanvasHistoryState,
+  type CanvasUndoHistory,
+} from '../../src/lib/canvas-state';
+import { isCanvasShapeType, validateCanvasEventData, type PathData } from '../../src/lib/canvas-shapes';
+import {
+  CLOSE_CODE_ABUSE,
+  CLOSE_CODE_REMOVED,
+  CLOSE_CODE_ROOM_CLOSED,
+  CLOSE_CODE_SHARE_ENDED,
+  isCanvasChangeType,
+  isClientMessageTooLarge,
+  MAX_CLIENT_MESSAGE_BYTES,
+  parseCanvasClientMessage,
+  type CanvasErrorCode,
+  type CanvasErrorMessage,
+  type CanvasServerMessage,
+  type ChatClientMessage,
+  type ChatHistoryMessage,
+  type CommentClientMessage,
+  type CommentThreadMessage,
+  type CommentThreadsMessage,
+  type CanvasEvent,
+  type CanvasSnapshot,
+  type ClientInitMessage,
+  type CursorUpdateMessage,
+  type DuplicateEventMessage,
+  type EventsMessage,
+  type InitialStateMessage,
+  type MissedEventsMessage,
+  type ParticipantRole,
+  type PresenceLeaveMessage,
+  type PresenceSnapshotMessage,
+  type PresenceUpdateMessage,
+  type RoleUpdateMessage,
+  type RoomParticipant,
+  type RoomSettingsMessage,
+} from '../../src/lib/canvas-protocol';
+import {
+  DEFAULT_CANVAS_ROOM_SETTINGS,
+  isChangeAllowedByTools,
+  isToolAllowed,
+  pickCanvasRoomSettings,
+  validateCanvasRoomSettings,
+  type CanvasRoomSettings,
+} from '../../src/lib/canvas-settings';
+import {
+  CANVAS_PROTOCOL_VERSION,
+  decodeClientFrame,
+  encodeRelayedFrame,
+  type ClientFrame,
+} from '../../src/lib/canvas-wire';
 import { getCanvasD1DB, type CanvasRoom as DBCanvasRoom, type CanvasParticipant, type CanvasInvite } from '../db/canvas-types';
+import { deleteCanvasAssets, getCanvasAssetsByRoomId } from '../db/canvas-operations';
+import { getCanvasAssetStorage } from '../lib/assetStorage';
 // import * as canvasOps from '../db/canvas-operations'; // We might use these if DO interacts with D1 directly for some ops
 
 // Define the environment for the Durable Object
 export interface Env {
   DB: D1Database; // For D1 interactions if needed directly, or passed to drizzle
+  CANVAS_COMPACTION_EVENT_THRESHOLD?: string; // Events since the last snapshot before compaction is scheduled
+  CANVAS_COMPACTION_DELAY_MS?: string; // How long after crossing the threshold the compaction alarm fires
+  CANVAS_ASSETS?: R2Bucket; // Uploaded canvas files, swept here once no image shape uses them
   // USER_NOTES_DATABASE: DurableObjectNamespace; // Example, if it needed to talk to another DO
   // Add other bindings from wrangler.jsonc that this DO might need
 }
 
-// Event structure for canvas (as defined in the plan)
-interface CanvasEvent {
-  id: string;
-  room_id: string;
-  user_id: string; // The user who performed the action
-  client_id: string; // The specific client connection that sent the event
-  timestamp: number;
-  type: 'path' | 'text' | 'delete' | 'cursor' | 'clear' | 'undo' | 'redo'; // Added more common canvas event types
-  data: any; // PathData | TextData | DeleteData | CursorData; // Define these more specifically later
-  userColor?: string; // Add userColor directly to the event for easier access
-}
+// Compaction defaults, overridable through the CANVAS_COMPACTION_* environment variables
+const DEFAULT_COMPACTION_EVENT_THRESHOLD = 500;
+const DEFAULT_COMPACTION_DELAY_MS = 30_000;
 
-interface PathData {
-  points: number[];
-  strokeWidth: number;
-  strokeColor: string;
-  tool: string;
-}
+// Uploads no image shape referenced yet are left alone for this long, so a file that is still being
+// placed isn't swept; the sweep itself runs in an alarm shortly after images may have been removed
+const ASSET_CLEANUP_GRACE_MS = 60 * 60 * 1000;
+const ASSET_CLEANUP_DELAY_MS = 60_000;
 
-// Message sent to a client upon successful WebSocket connection
-interface ClientInitMessage {
-  type: 'client_init';
-  clientId: string;
-  userColor: string;
-}
+// Events that can take an image off the canvas
+const ASSET_RELEASING_EVENT_TYPES = new Set(['delete', 'clear', 'undo', 'redo']);
+
+// Page sizes for the history endpoint used by playback
+const DEFAULT_HISTORY_PAGE_SIZE = 1000;
+const MAX_HISTORY_PAGE_SIZE = 5000;
+
+// Per-connection token buckets: stored events (drawing, undo/redo) and relayed live traffic
+// (cursors, presence, stroke frames), which clients already throttle to ~25 messages/s each
+const EVENT_RATE_LIMIT = { capacity: 30, refillPerSecond: 10 };
+const LIVE_RATE_LIMIT = { capacity: 200, refillPerSecond: 100 };
+// Oversized or malformed messages tolerated per window before the socket is closed. Going over the
+// rate limits isn't a strike: the excess is dropped or refused, and held keys or fast drawing hit them
+const MAX_STRIKES = 50;
+const STRIKE_WINDOW_MS = 10_000;
 
-// Message to send initial state
-interface InitialStateMessage {
-  type: 'init_state';
-  initialEvents: CanvasEvent[];
+interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
 }
 
-// Message to broadcast cursor updates
-interface CursorUpdateMessage {
-  type: 'cursor_update';
-  clientId: string;
-  userColor: string;
-  cursorData: any; // Should match CursorData from the client hook ideally {x, y}
+// Per-connection abuse tracking; kept in memory only, so it resets if the object hibernates
+interface ConnectionLimits {
+  events: TokenBucket;
+  live: TokenBucket;
+  strikes: number;
+  strikeWindowStart: number;
 }
 
-// ... other data interfaces as needed
+// Error replies that mean the client sent broken input; these count as strikes
+const STRIKE_ERROR_CODES = new Set<CanvasErrorCode>(['message_too_large', 'invalid_message', 'invalid_event']);
+
+// Takes a token if one is available; otherwise returns how long until one will be
+const takeToken = (bucket: TokenBucket, limit: { capacity: number; refillPerSecond: number }, now: number): number => {
+  bucket.tokens = Math.min(limit.capacity, bucket.tokens + (now - bucket.updatedAt) / 1000 * limit.refillPerSecond);
+  bucket.updatedAt = now;
+  if (bucket.tokens >= 1) {
+    bucket.tokens--;
+    return 0;
+  }
+  return Math.ceil((1 - bucket.tokens) / limit.refillPerSecond * 1000);
+};
+
+// A connected client. Stored as the socket's attachment so it survives hibernation, and sent as-is
+// in presence messages.
+type RoomSession = RoomParticipant;
 
 export class CanvasRoom {
   private state: DurableObjectState;
   private env: Env;
   private db: ReturnType<typeof getCanvasD1DB>; // Drizzle instance for D1 if used by DO directly
+  private eventsDb: CanvasEventsDB; // Drizzle instance for this room's own SQLite storage (event history)
   private roomId: string;
 
   // WebSocket state
-  private sessions: Map<WebSocket, { clientId: string; userId: string; userColor: string }> = new Map();
-  private lastKnownRoomState: CanvasEvent[] = []; // Store a history of events for new connections or replay
+  private sessions: Map<WebSocket, RoomSession> = new Map();
+  private connectionLimits: Map<WebSocket, ConnectionLimits> = new Map();
   
   // Batching for broadcasting updates
   private pendingBroadcastEvents: CanvasEvent[] = [];
   private broadcastTimeout: number | null = null;
   private readonly BROADCAST_INTERVAL_MS = 16; // ~60fps, adjust as needed
 
+  // History compaction into snapshots
+  private readonly compactionEventThreshold: number;
+  private readonly compactionDelayMs: number;
+  private eventsSinceSnapshot = 0;
+
+  // Resolved canvas (shapes plus per-user undo/redo stacks) as of lastSeq, kept in memory
+  // so undo/redo can be resolved without replaying history on every message
+  private canvasState: CanvasHistoryState<CanvasEvent> = createCanvasHistoryState();
+  private lastSeq = 0;
+
+  // Canvas settings from D1, pushed by the settings route and refreshed on every connect
+  private settings: CanvasRoomSettings = DEFAULT_CANVAS_ROOM_SETTINGS;
+
   constructor(state: DurableObjectState, env: Env) {
     this.state = state;
     this.env = env;
     this.roomId = state.id.toString();
     this.db = getCanvasD1DB(env.DB); // Initialize D1 access for the DO
+    this.eventsDb = drizzle(state.storage, { schema: eventsSchema });
+    this.compactionEventThreshold = this.readPositiveInt(env.CANVAS_COMPACTION_EVENT_THRESHOLD, DEFAULT_COMPACTION_EVENT_THRESHOLD);
+    this.compactionDelayMs = this.readPositiveInt(env.CANVAS_COMPACTION_DELAY_MS, DEFAULT_COMPACTION_DELAY_MS);
+
+    // Sockets accepted before the object hibernated carry their session as an attachment
+    for (const ws of state.getWebSockets()) {
+      const session = ws.deserializeAttachment() as RoomSession | null;
+      if (session) this.sessions.set(ws, session);
+    }
+
+    // Create the events table (and move any legacy history into it) before handling requests
+    this.state.blockConcurrencyWhile(async () => {
+      await this._migrate();
+    });
+  }
+
+  private async _migrate() {
+    try {
+      await this.eventsDb.run(`
+        CREATE TABLE IF NOT EXISTS canvas_events (
+          seq INTEGER PRIMARY KEY AUTOINCREMENT,
+          id TEXT NOT NULL UNIQUE,
+          room_id TEXT NOT NULL,
+          user_id TEXT NOT NULL,
+          client_id TEXT NOT NULL,
+          type TEXT NOT NULL,
+          data TEXT,
+          user_color TEXT,
+          timestamp INTEGER NOT NULL
+        )
+      `);
+      await this.eventsDb.run(`CREATE INDEX IF NOT EXISTS canvas_events_timestamp_idx ON canvas_events (timestamp)`);
+      await this.eventsDb.run(`
+        CREATE TABLE IF NOT EXISTS canvas_snapshots (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          up_to_seq INTEGER NOT NULL,
+          shapes TEXT NOT NULL,
+          history TEXT,
+          created INTEGER NOT NULL
+        )
+      `);
+      await this.eventsDb.run(`
+        CREATE TABLE IF NOT EXISTS canvas_comment_threads (
+          id TEXT PRIMARY KEY,
+          anchor_x REAL NOT NULL,
+          anchor_y REAL NOT NULL,
+          anchor_shape_id TEXT,
+          resolved INTEGER NOT NULL DEFAULT 0,
+          resolved_by TEXT,
+          resolved_at INTEGER,
+          created_by TEXT NOT NULL,
+          created INTEGER NOT NULL,
+          updated INTEGER NOT NULL
+        )
+      `);
+      await this.eventsDb.run(`
+        CREATE TABLE IF NOT EXISTS canvas_comments (
+          id TEXT PRIMARY KEY,
+          thread_id TEXT NOT NULL,
+          user_id TEXT NOT NULL,
+          user_name TEXT NOT NULL,
+          text TEXT NOT NULL,
+          mentions TEXT NOT NULL,
+          created INTEGER NOT NULL
+        )
+      `);
+      await this.eventsDb.run(`CREATE INDEX IF NOT EXISTS canvas_comments_thread_idx ON canvas_comments (thread_id, created)`);
+      await this.eventsDb.run(`
+        CREATE TABLE IF NOT EXISTS canvas_chat_messages (
+          seq INTEGER PRIMARY KEY AUTOINCREMENT,
+          id TEXT NOT NULL UNIQUE,
+          user_id TEXT NOT NULL,
+          user_name TEXT NOT NULL,
+          user_color TEXT NOT NULL,
+          text TEXT NOT NULL,
+          created INTEGER NOT NULL
+        )
+      `);
+      // Snapshot tables created before undo history was stored lack the history column
+      const snapshotColumns = await this.eventsDb.all<{ name: string }>(`PRAGMA table_info(canvas_snapshots)`);
+      if (!snapshotColumns.some(column => column.name === 'history')) {
+        await this.eventsDb.run(`ALTER TABLE canvas_snapshots ADD COLUMN history TEXT`);
+      }
+
+      await this.migrateLegacyEventBlob();
+      this.settings = await this.state.storage.get<CanvasRoomSettings>('room_settings') ?? DEFAULT_CANVAS_ROOM_SETTINGS;
 
-    // Load persisted state if any (e.g., canvas events)
-    this.state.storage.get<CanvasEvent[]>('canvas_events').then(events => {
-      if (events) {
-        this.lastKnownRoomState = events;
+      const { snapshot, tail } = await this.loadSnapshotAndTail();
+      this.canvasState = replayCanvasEvents(
+        tail.map(row => this.fromEventRow(row)),
+        createCanvasHistoryState(snapshot?.shapes, snapshot?.history),
+      );
+      this.lastSeq = tail.length > 0 ? tail[tail.length - 1].seq : snapshot?.seq ?? 0;
+      this.eventsSinceSnapshot = tail.length;
+    } catch (error: any) {
+      console.error(`Error running migration for room ${this.roomId}:`, error);
+      throw error;
+    }
+  }
+
+  // Rooms created before the events table kept their whole history as one array under
+  // the 'canvas_events' storage key. Copy it into the table once, then drop the key.
+  private async migrateLegacyEventBlob() {
+    const legacyEvents = await this.state.storage.get<CanvasEvent[]>('canvas_events');
+    if (!legacyEvents) return;
+
+    this.state.storage.transactionSync(() => {
+      for (const event of legacyEvents) {
+        this.eventsDb.insert(eventsSchema.canvasEvents)
+          .values(this.toEventRow(event))
+          .onConflictDoNothing()
+          .run();
       }
     });
+    await this.state.storage.delete('canvas_events');
+    console.log(`Migrated ${legacyEvents.length} legacy events into the events table for room ${this.roomId}`);
+  }
+
+  private toEventRow(event: CanvasEvent): Omit<CanvasEventRow, 'seq'> {
+    return {
+      id: event.id,
+      roomId: event.room_id,
+      userId: event.user_id,
+      clientId: event.client_id,
+      type: event.type,
+      data: event.data ?? null,
+      userColor: event.userColor ?? null,
+      timestamp: event.timestamp,
+    };
+  }
+
+  private fromEventRow(row: CanvasEventRow): CanvasEvent {
+    return {
+      id: row.id,
+      room_id: row.roomId,
+      user_id: row.userId,
+      client_id: row.clientId,
+      type: row.type as CanvasEvent['type'],
+      data: row.data,
+      userColor: row.userColor ?? undefined,
+      timestamp: row.timestamp,
+      seq: row.seq,
+    };
+  }
+
+  private readPositiveInt(value: string | undefined, fallback: number): number {
+    const parsed = Number(value);
+    return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+  }
+
+  // Full drawing history in sequence order
+  private async loadEvents(): Promise<CanvasEvent[]> {
+    const rows = await canvasEventOps.getCanvasEvents(this.eventsDb);
+    return rows.map(row => this.fromEventRow(row));
+  }
+
+  // Latest stored snapshot plus the events recorded after it
+  private async loadSnapshotAndTail(): Promise<{ snapshot: CanvasSnapshot | null; tail: CanvasEventRow[] }> {
+    const snapshotRow = await canvasEventOps.getLatestCanvasSnapshot(this.eventsDb);
+    const tail = await canvasEventOps.getCanvasEvents(this.eventsDb, snapshotRow?.upToSeq ?? 0);
+    const snapshot = snapshotRow
+      ? {
+          seq: snapshotRow.upToSeq,
+          created: snapshotRow.created,
+          shapes: snapshotRow.shapes as CanvasEvent[],
+          history: (snapshotRow.history as CanvasUndoHistory<CanvasEvent> | null) ?? null,
+        }
+      : null;
+    return { snapshot, tail };
+  }
+
+  // Current resolved canvas, without persisting it. Serialized through JSON so later
+  // events applied to the in-memory state cannot leak into the returned snapshot.
+  private resolveCurrentSnapshot(): CanvasSnapshot {
+    const { shapes, undoStacks, redoStacks, actions } = this.canvasState;
+    return JSON.parse(JSON.stringify({
+      seq: this.lastSeq,
+      created: Date.now(),
+      shapes,
+      history: { undoStacks, redoStacks, actions },
+    }));
+  }
+
+  // Canvas as it was right after the event with seq `throughSeq`. Starts from the latest snapshot
+  // when it is old enough, otherwise replays from the beginning of the history.
+  private async resolveSnapshotAt(throughSeq: number): Promise<CanvasSnapshot> {
+    if (throughSeq >= this.lastSeq) return this.resolveCurrentSnapshot();
+    const { snapshot } = await this.loadSnapshotAndTail();
+    const base = snapshot && snapshot.seq <= throughSeq ? snapshot : null;
+    const rows = await canvasEventOps.getCanvasEventsThrough(this.eventsDb, throughSeq, base?.seq ?? 0);
+    const state = replayCanvasEvents(
+      rows.map(row => this.fromEventRow(row)),
+      createCanvasHistoryState(base?.shapes, base?.history),
+    );
+    return {
+      seq: throughSeq,
+      created: Date.now(),
+      shapes: state.shapes,
+      history: { undoStacks: state.undoStacks, redoStacks: state.redoStacks, actions: state.actions },
+    };
+  }
+
+  // Schedules a compaction once enough events have accumulated since the last snapshot
+  private async maybeScheduleCompaction(): Promise<void> {
+    if (this.eventsSinceSnapshot < this.compactionEventThreshold) return;
+    await this.scheduleAlarm(Date.now() + this.compactionDelayMs);
+  }
+
+  // The alarm is shared by compaction, the upload sweep and share link expiry; it only ever moves earlier
+  private async scheduleAlarm(at: number): Promise<void> {
+    const existingAlarm = await this.state.storage.getAlarm();
+    if (existingAlarm === null || existingAlarm > at) {
+      await this.state.storage.setAlarm(at);
+    }
+  }
+
+  // Folds the history since the last snapshot into a new snapshot
+  private async compact(): Promise<void> {
+    const snapshot = this.resolveCurrentSnapshot();
+    const latest = await canvasEventOps.getLatestCanvasSnapshot(this.eventsDb);
+    if (latest && latest.upToSeq >= snapshot.seq) {
+      this.eventsSinceSnapshot = 0;
+      return; // Nothing new to compact
+    }
+    await canvasEventOps.saveCanvasSnapshot(this.eventsDb, snapshot.seq, snapshot.shapes, snapshot.history as unknown as Record<string, unknown>);
+    this.eventsSinceSnapshot = await canvasEventOps.countCanvasEventsAfter(this.eventsDb, snapshot.seq);
+    console.log(`Compacted room ${this.roomId} up to seq ${snapshot.seq} (${snapshot.shapes.length} live shapes)`);
+  }
+
+  // Flags the uploads for a sweep and makes sure an alarm will run it
+  private async scheduleAssetCleanup(): Promise<void> {
+    await this.state.storage.put('asset_cleanup_due', true);
+    await this.scheduleAlarm(Date.now() + ASSET_CLEANUP_DELAY_MS);
+  }
+
+  // Remembers when the share link guests joined through expires, so an alarm can disconnect them then.
+  // There is one link per room and guests of a replaced link are disconnected, so one expiry suffices
+  private async trackShareExpiry(expires: number | null): Promise<void> {
+    if (expires === null || !Number.isFinite(expires)) {
+      await this.state.storage.delete('share_expires');
+      return;
+    }
+    if (expires !== await this.state.storage.get<number>('share_expires')) {
+      await this.state.storage.put('share_expires', expires);
+    }
+    await this.scheduleAlarm(expires);
+  }
+
+  // Deletes uploads that no live shape and no undoable or redoable action references any more.
+  // Deleting an image keeps its file while the delete can be undone; the file goes once the action
+  // leaves the undo history. Past points of the history can therefore show missing images
+  private async cleanupOrphanedAssets(): Promise<void> {
+    // The in-memory stub's files live in the worker, out of reach from here (see assetStorage.ts)
+    if (!this.env.CANVAS_ASSETS) return;
+    const canvasRoomId = await this.state.storage.get<string>('canvas_room_id');
+    if (!canvasRoomId) return; // Nobody has connected since uploads were possible
+
+    const { shapes, actions } = this.canvasState;
+    const referenced = collectCanvasAssetIds([
+      ...shapes,
+      ...Object.values(actions).flatMap(action => [action.event, ...action.removed]),
+    ]);
+    const cutoff = Date.now() - ASSET_CLEANUP_GRACE_MS;
+    const orphaned = (await getCanvasAssetsByRoomId(this.db, canvasRoomId))
+      .filter(asset => !referenced.has(asset.id) && asset.created.getTime() < cutoff)
+      .map(asset => asset.id);
+    if (orphaned.length === 0) return;
+
+    // Files first: a row without a file is harmless, a file without a row would never be swept
+    await getCanvasAssetStorage(this.env).delete(orphaned.map(assetId => canvasAssetKey(canvasRoomId, assetId)));
+    await deleteCanvasAssets(this.db, canvasRoomId, orphaned);
+    console.log(`Deleted ${orphaned.length} unused uploads of room ${canvasRoomId}`);
+  }
+
+  // Records a session in memory and on the socket, so it is restored after hibernation
+  private setSession(ws: WebSocket, session: RoomSession): void {
+    this.sessions.set(ws, session);
+    ws.serializeAttachment(session);
   }
 
   // Assigns a consistent color to a user based on their ID
   private getUserColor(userId: string): string {
+    const override = this.settings.user_colors[userId];
+    if (override) return override;
     const colors = [
       '#FF5733', '#33FF57', '#3357FF', '#F033FF', '#FF33F0',
       '#33FFF0', '#F0FF33', '#FFB033', '#33DFFF', '#C433FF'
@@ -100,25 +468,79 @@ export class CanvasRoom {
     const url = new URL(request.url);
 
     if (url.pathname === '/websocket' && request.headers.get('Upgrade') === 'websocket') {
-      if (this.sessions.size >= 200) { // Example: Limit concurrent connections
-        return new Response('Too many connections', { status: 429 });
-      }
-
-      const pair = new WebSocketPair();
-      const [client, server] = Object.values(pair);
-
-      // Extract client ID and user ID from query parameters (ensure they are passed by the client)
+      // Extract client ID, user ID and access info from query parameters (set by canvasWebSocketRouter)
       const clientId = url.searchParams.get('clientId') || crypto.randomUUID();
       const userId = url.searchParams.get('userId');
+      const userName = url.searchParams.get('userName') || 'Anonymous';
+      const userImage = url.searchParams.get('userImage') || null;
+      const role = url.searchParams.get('role') as ParticipantRole | null;
+      const maxParticipants = Number(url.searchParams.get('maxParticipants'));
+      // Guests watching through the room's share link; limited separately from members
+      const anonymous = url.searchParams.get('anonymous') === '1';
+      const maxAnonymous = Number(url.searchParams.get('maxAnonymous'));
+      const shareExpires = url.searchParams.get('shareExpires'); // ms timestamp, absent if the link never expires
+      const sinceParam = url.searchParams.get('since'); // Last seq a reconnecting client has seen
+      // Highest protocol version the client speaks; clients predating binary frames don't send one
+      const requestedProtocol = Number(url.searchParams.get('protocol'));
+      const protocolVersion = Number.isInteger(requestedProtocol) && requestedProtocol > 1
+        ? Math.min(requestedProtocol, CANVAS_PROTOCOL_VERSION)
+        : 1;
+      const since = sinceParam !== null ? Number(sinceParam) : NaN;
 
       if (!userId) {
         return new Response('userId query parameter is required', { status: 400 });
       }
+      if (role !== 'owner' && role !== 'editor' && role !== 'viewer') {
+        return new Response('A valid role query parameter is required', { status: 400 });
+      }
+
+      if (anonymous && role !== 'viewer') {
+        return new Response('Guests can only join as viewers', { status: 400 });
+      }
+
+      // Limit the room to its configured number of people; more tabs of someone already here don't count,
+      // and guests don't take members' places. Attachments also cover sockets accepted before hibernation
+      const connectedUserIds = new Set<string>();
+      for (const ws of this.state.getWebSockets()) {
+        const sessionData = ws.deserializeAttachment() as RoomSession | null;
+        if (sessionData && !!sessionData.anonymous === anonymous) connectedUserIds.add(sessionData.userId);
+      }
+      const capacity = anonymous ? maxAnonymous : maxParticipants;
+      if (Number.isFinite(capacity) && capacity > 0 && !connectedUserIds.has(userId) && connectedUserIds.size >= capacity) {
+        return new Response('Room is full', { status: 429 });
+      }
+
+      if (anonymous) {
+        await this.trackShareExpiry(shareExpires !== null ? Number(shareExpires) : null);
+      }
+
+      // The D1 id of the room (this object's id is derived from it); needed to sweep its uploads
+      const canvasRoomId = url.searchParams.get('roomId');
+      if (canvasRoomId && canvasRoomId !== await this.state.storage.get<string>('canvas_room_id')) {
+        await this.state.storage.put('canvas_room_id', canvasRoomId);
+      }
+
+      // The settings D1 had when access was checked; adopt them if a pushed change was missed
+      const forwardedSettings = this.parseSettings(url.searchParams.get('settings'));
+      if (forwardedSettings && JSON.stringify(forwardedSettings) !== JSON.stringify(this.settings)) {
+        await this.applySettings(forwardedSettings);
+      }
+
+      const pair = new WebSocketPair();
+      const [client, server] = Object.values(pair);
 
       const userColor = this.getUserColor(userId);
-      this.sessions.set(server, { clientId, userId, userColor });
+      const session: RoomSession = {
+        clientId, userId, userName, userImage, userColor, role,
+        joinedAt: Date.now(),
+        idle: false,
+        viewport: null,
+        protocolVersion,
+        ...(anonymous ? { anonymous: true } : {}),
+      };
 
       this.state.acceptWebSocket(server);
+      this.setSession(server, session);
 
       // Send initial state and client-specific info to the newly connected client
       // Use a try-catch as the socket might close unexpectedly
@@ -127,18 +549,60 @@ export class CanvasRoom {
         const clientInitMsg: ClientInitMessage = {
           type: 'client_init',
           clientId: clientId,
+          userId: userId,
           userColor: userColor,
+          role: role,
+          protocolVersion,
         };
         server.send(JSON.stringify(clientInitMsg));
 
-        // Send the current canvas state (history of events)
-        if (this.lastKnownRoomState.length > 0) {
+        const roomSettingsMsg: RoomSettingsMessage = { type: 'room_settings', settings: this.settings };
+        server.send(JSON.stringify(roomSettingsMsg));
+
+        const presenceSnapshotMsg: PresenceSnapshotMessage = {
+          type: 'presence_snapshot',
+          participants: [...this.sessions.values()],
+        };
+        server.send(JSON.stringify(presenceSnapshotMsg));
+        this.broadcastPresence(server, { type: 'presence_join', participant: session });
+
+        // A reconnecting client only needs what it missed, unless it fell further behind
+        // than a snapshot would cost (or claims a seq this room never reached)
+        const canResume = Number.isInteger(since) && since >= 0 && since <= this.lastSeq
+          && this.lastSeq - since <= this.compactionEventThreshold;
+
+        if (canResume) {
+          const missedRows = await canvasEventOps.getCanvasEvents(this.eventsDb, since);
+          const missedEventsMsg: MissedEventsMessage = {
+            type: 'missed_events',
+            since,
+            events: missedRows.map(row => this.fromEventRow(row)),
+            lastSeq: this.lastSeq,
+          };
+          server.send(JSON.stringify(missedEventsMsg));
+        } else {
+          // Send the current canvas state (latest snapshot plus the events after it)
+          const { snapshot, tail } = await this.loadSnapshotAndTail();
           const initStateMsg: InitialStateMessage = {
             type: 'init_state',
-            initialEvents: this.lastKnownRoomState,
+            snapshot,
+            initialEvents: tail.map(row => this.fromEventRow(row)),
+            lastSeq: this.lastSeq,
           };
           server.send(JSON.stringify(initStateMsg));
         }
+
+        // Comments and chat are for members only
+        if (!anonymous) {
+          const commentThreadsMsg: CommentThreadsMessage = {
+            type: 'comment_threads',
+            threads: (await canvasEventOps.getCanvasCommentThreads(this.eventsDb)).map(thread => this.fromCommentThreadRow(thread)),
+          };
+          server.send(JSON.stringify(commentThreadsMsg));
+
+          // Only the latest chat page; older ones are fetched with chat_load
+          server.send(JSON.stringify(await this.getChatHistory(null)));
+        }
       } catch (e) {
         console.error(`Error sending initial messages to client ${clientId} in room ${this.roomId}:`, e);
         // The WebSocket will likely be closed by the error handler if it's critical
@@ -147,41 +611,342 @@ export class CanvasRoom {
       return new Response(null, { status: 101, webSocket: client });
     }
 
+    // Apply new canvas settings to the live room (sent by the settings route after D1 is updated)
+    if (url.pathname === '/settings' && request.method === 'POST') {
+      const settings = this.parseSettings(await request.text());
+      if (!settings) {
+        return Response.json({ error: 'Invalid settings' }, { status: 400 });
+      }
+      await this.applySettings(settings);
+      return Response.json({ settings });
+    }
+
+    // Disconnect every live session of a user who was removed from the room
+    if (url.pathname === '/participants/kick' && request.method === 'POST') {
+      const { userId, reason } = await request.json() as { userId?: string; reason?: string };
+      if (!userId) {
+        return Response.json({ error: 'userId is required' }, { status: 400 });
+      }
+      let closed = 0;
+      this.sessions.forEach((sessionData, ws) => {
+        if (sessionData.userId === userId) {
+          try {
+            ws.close(CLOSE_CODE_REMOVED, reason || 'Removed from room');
+          } catch (e) {
+            console.error(`Failed to close socket for client ${sessionData.clientId} in room ${this.roomId}:`, e);
+          }
+          this.sessions.delete(ws);
+          this.connectionLimits.delete(ws);
+          this.broadcastLeave(sessionData);
+          closed++;
+        }
+      });
+      return Response.json({ closed });
+    }
+
+    // Disconnect everyone, e.g. when the room is archived; the room's data is kept
+    if (url.pathname === '/close' && request.method === 'POST') {
+      const { reason } = await request.json() as { reason?: string };
+      return Response.json({ closed: this.closeAllSessions(reason || 'Room closed') });
+    }
+
+    // Disconnect the guests of a share link that was revoked or rotated; members stay connected
+    if (url.pathname === '/share/close' && request.method === 'POST') {
+      const { reason } = await request.json() as { reason?: string };
+      await this.state.storage.delete('share_expires');
+      return Response.json({ closed: this.closeAnonymousSessions(reason || 'The share link was revoked') });
+    }
+
+    // Disconnect everyone and delete all of the room's storage, when the room is deleted
+    if (url.pathname === '/destroy' && request.method === 'POST') {
+      const closed = this.closeAllSessions('Room deleted');
+      if (this.broadcastTimeout !== null) {
+        clearTimeout(this.broadcastTimeout);
+        this.broadcastTimeout = null;
+      }
+      this.pendingBroadcastEvents = [];
+      await this.state.storage.deleteAlarm();
+      await this.state.storage.deleteAll();
+      this.canvasState = createCanvasHistoryState();
+      this.lastSeq = 0;
+      this.eventsSinceSnapshot = 0;
+      this.settings = DEFAULT_CANVAS_ROOM_SETTINGS;
+      return Response.json({ closed });
+    }
+
+    // Apply a role change to a user's live sessions
+    if (url.pathname === '/participants/role' && request.method === 'POST') {
+      const { userId, role } = await request.json() as { userId?: string; role?: ParticipantRole };
+      if (!userId || (role !== 'owner' && role !== 'editor' && role !== 'viewer')) {
+        return Response.json({ error: 'userId and a valid role are required' }, { status: 400 });
+      }
+      const roleUpdateMsg: RoleUpdateMessage = { type: 'role_update', role };
+      this.sessions.forEach((sessionData, ws) => {
+        if (sessionData.userId === userId) {
+          const session = { ...sessionData, role };
+          this.setSession(ws, session);
+          if (ws.readyState === WebSocket.OPEN) {
+            ws.send(JSON.stringify(roleUpdateMsg));
+          }
+          this.broadcastPresence(ws, { type: 'presence_update', participant: session });
+        }
+      });
+      return Response.json({ success: true });
+    }
+
     // TODO: Add HTTP endpoints for room management if DO is responsible (e.g., get room details, settings)
     // Example: Get current room state (event history)
     if (url.pathname === '/events' && request.method === 'GET') {
-      return Response.json(this.lastKnownRoomState);
+      return Response.json(await this.loadEvents());
+    }
+
+    // Current resolved canvas (live shapes) and the seq it reflects
+    if (url.pathname === '/snapshot' && request.method === 'GET') {
+      return Response.json(this.resolveCurrentSnapshot());
+    }
+
+    // Page of the event history for playback: ?from=&to= bound timestamps (ms), ?afterSeq= continues
+    // from the previous page's last event
+    if (url.pathname === '/history' && request.method === 'GET') {
+      const readBound = (name: string) => {
+        const value = url.searchParams.get(name);
+        return value === null ? undefined : Number(value);
+      };
+      const from = readBound('from');
+      const to = readBound('to');
+      const afterSeq = readBound('afterSeq') ?? 0;
+      const limit = readBound('limit') ?? DEFAULT_HISTORY_PAGE_SIZE;
+      if ([from, to, afterSeq].some(value => value !== undefined && !Number.isFinite(value))
+        || !Number.isInteger(limit) || limit < 1 || limit > MAX_HISTORY_PAGE_SIZE) {
+        return Response.json({ error: `from, to and afterSeq must be numbers and limit between 1 and ${MAX_HISTORY_PAGE_SIZE}` }, { status: 400 });
+      }
+      // One extra row tells whether another page follows
+      const rows = await canvasEventOps.getCanvasEventsInTimeRange(this.eventsDb, { from, to, afterSeq, limit: limit + 1 });
+      return Response.json({
+        events: rows.slice(0, limit).map(row => this.fromEventRow(row)),
+        hasMore: rows.length > limit,
+        lastSeq: this.lastSeq,
+      });
+    }
+
+    // Resolved canvas at a point in history, given as ?seq= or ?at= (timestamp in ms)
+    if (url.pathname === '/snapshot-at' && request.method === 'GET') {
+      const seqParam = url.searchParams.get('seq');
+      const atParam = url.searchParams.get('at');
+      let throughSeq: number;
+      if (seqParam !== null && Number.isInteger(Number(seqParam)) && Number(seqParam) >= 0) {
+        throughSeq = Number(seqParam);
+      } else if (atParam !== null && Number.isFinite(Number(atParam))) {
+        throughSeq = await canvasEventOps.getLastCanvasEventSeqAt(this.eventsDb, Number(atParam));
+      } else {
+        return Response.json({ error: 'A non-negative integer seq or a numeric at timestamp is required' }, { status: 400 });
+      }
+      return Response.json(await this.resolveSnapshotAt(throughSeq));
+    }
+
+    // Seed an empty room with shapes from an export document, drawn in order by the importing user
+    if (url.pathname === '/import' && request.method === 'POST') {
+      const { userId, shapes } = await request.json() as { userId?: string; shapes?: Array<{ type?: string; data?: unknown }> };
+      if (!userId || !Array.isArray(shapes)) {
+        return Response.json({ error: 'userId and a shapes array are required' }, { status: 400 });
+      }
+      if (this.lastSeq > 0) {
+        return Response.json({ error: 'Only empty rooms can be seeded from an import' }, { status: 409 });
+      }
+
+      const timestamp = Date.now();
+      const events: CanvasEvent[] = [];
+      for (const [i, shape] of shapes.entries()) {
+        const validation = typeof shape.type === 'string' && isCanvasShapeType(shape.type)
+          ? validateCanvasEventData(shape.type, shape.data)
+          : { ok: false as const, error: 'type must be a drawable shape type' };
+        if (!validation.ok) {
+          return Response.json({ error: `shapes[${i}]: ${validation.error}` }, { status: 400 });
+        }
+        events.push({
+          id: crypto.randomUUID(),
+          room_id: this.roomId,
+          user_id: userId,
+          client_id: 'import',
+          timestamp,
+          type: shape.type as CanvasEvent['type'],
+          data: validation.data,
+          userColor: this.getUserColor(userId),
+        });
+      }
+
+      // All or nothing, so a failed import never leaves a half-seeded room
+      const rows = this.state.storage.transactionSync(() => events.map(event =>
+        this.eventsDb.insert(eventsSchema.canvasEvents).values(this.toEventRow(event)).returning().get()));
+      rows.forEach((row, i) => {
+        events[i].seq = row.seq;
+        applyCanvasEvent(this.canvasState, events[i]);
+      });
+      this.lastSeq = rows.length > 0 ? rows[rows.length - 1].seq : this.lastSeq;
+      this.eventsSinceSnapshot += rows.length;
+      await this.maybeScheduleCompaction();
+
+      if (events.length > 0) {
+        this.pendingBroadcastEvents.push(...events);
+        this.scheduleBroadcast();
+      }
+      return Response.json({ imported: events.length, lastSeq: this.lastSeq });
     }
 
     return new Response('Not found', { status: 404 });
   }
 
+  // Replies with a structured error; rejections caused by the client count as strikes
+  private sendError(ws: WebSocket, error: Omit<CanvasErrorMessage, 'type'>): void {
+    if (STRIKE_ERROR_CODES.has(error.code)) this.addStrike(ws);
+    if (ws.readyState !== WebSocket.OPEN) return;
+    const errorMsg: CanvasErrorMessage = { type: 'error', ...error };
+    ws.send(JSON.stringify(errorMsg));
+  }
+
+  private getConnectionLimits(ws: WebSocket, now: number): ConnectionLimits {
+    let limits = this.connectionLimits.get(ws);
+    if (!limits) {
+      limits = {
+        events: { tokens: EVENT_RATE_LIMIT.capacity, updatedAt: now },
+        live: { tokens: LIVE_RATE_LIMIT.capacity, updatedAt: now },
+        strikes: 0,
+        strikeWindowStart: now,
+      };
+      this.connectionLimits.set(ws, limits);
+    }
+    return limits;
+  }
+
+  // Closes sockets that keep getting rejected; the client shows the reason instead of reconnecting
+  private addStrike(ws: WebSocket): void {
+    const now = Date.now();
+    const limits = this.getConnectionLimits(ws, now);
+    if (now - limits.strikeWindowStart > STRIKE_WINDOW_MS) {
+      limits.strikes = 0;
+      limits.strikeWindowStart = now;
+    }
+    if (++limits.strikes <= MAX_STRIKES) return;
+    const sessionInfo = this.sessions.get(ws);
+    console.warn(`Closing socket of client ${sessionInfo?.clientId || 'unknown'} in room ${this.roomId}: too many invalid messages`);
+    try {
+      ws.close(CLOSE_CODE_ABUSE, 'Too many invalid messages');
+    } catch (e) {
+      console.error(`Failed to close abusive socket in room ${this.roomId}:`, e);
+    }
+  }
+
   async webSocketMessage(ws: WebSocket, message: string | ArrayBuffer): Promise<void> {
     const sessionInfo = this.sessions.get(ws);
     if (!sessionInfo) return; // Should not happen if session is managed correctly
 
+    if (isClientMessageTooLarge(message)) {
+      this.sendError(ws, { code: 'message_too_large', message: `Messages may be at most ${MAX_CLIENT_MESSAGE_BYTES} bytes` });
+      return;
+    }
+    const now = Date.now();
+    const limits = this.getConnectionLimits(ws, now);
+
+    // Guests only watch: whatever they send is dropped
+    if (sessionInfo.anonymous) return;
+
     try {
-      // Parse the incoming message first to determine its type
-      const parsedMessage = JSON.parse(typeof message === 'string' ? message : new TextDecoder().decode(message));
-
-      if (parsedMessage.type === 'cursor') {
-        // Handle cursor events separately: do not persist, broadcast immediately to others
-        const cursorData = parsedMessage.data;
-        this.broadcastCursorUpdate(ws, {
-          type: 'cursor_update',
-          clientId: sessionInfo.clientId,
-          userColor: sessionInfo.userColor,
-          cursorData: cursorData,
-        });
-        return; // Cursor event handled, no further processing needed for it
+      // Binary frames carry cursors and live stroke points; anything else binary is treated as JSON text
+      if (typeof message !== 'string') {
+        const frame = decodeClientFrame(message);
+        if (frame) {
+          // Dropping live traffic is harmless, so it isn't answered
+          if (takeToken(limits.live, LIVE_RATE_LIMIT, now) === 0) this.handleFrame(ws, sessionInfo, frame);
+          return;
+        }
+      }
+
+      let rawMessage: unknown;
+      try {
+        rawMessage = JSON.parse(typeof message === 'string' ? message : new TextDecoder().decode(message));
+      } catch {
+        this.sendError(ws, { code: 'invalid_message', message: 'Messages must be JSON objects or binary frames' });
+        return;
+      }
+      const rawType = (rawMessage as { type?: unknown } | null)?.type;
+      const rawId = (rawMessage as { id?: unknown } | null)?.id;
+      // Named in error replies so the client can settle its pending copy of the event
+      const errorId = typeof rawId === 'string' && rawId.length > 0 && rawId.length <= 64 ? rawId : undefined;
+
+      if (rawType === 'cursor' || rawType === 'presence' || rawType === 'chat_typing') {
+        if (takeToken(limits.live, LIVE_RATE_LIMIT, now) > 0) return;
+      } else {
+        const retryAfterMs = takeToken(limits.events, EVENT_RATE_LIMIT, now);
+        if (retryAfterMs > 0) {
+          this.sendError(ws, { code: 'rate_limited', message: 'Too many changes, slow down', id: errorId, retryAfterMs });
+          return;
+        }
+      }
+
+      if (isCanvasChangeType(rawType)) {
+        // Viewers may move their cursor but cannot change the drawing
+        if (sessionInfo.role === 'viewer') {
+          this.sendError(ws, { code: 'forbidden', message: 'Viewers cannot modify the canvas', id: errorId });
+          return;
+        }
+        if (this.settings.is_locked) {
+          this.sendError(ws, { code: 'forbidden', message: 'This room is locked', id: errorId });
+          return;
+        }
+        // Clearing wipes everyone's work, so only the owner may do it (and undo it)
+        if (rawType === 'clear' && sessionInfo.role !== 'owner') {
+          this.sendError(ws, { code: 'forbidden', message: 'Only the room owner can clear the canvas', id: errorId });
+          return;
+        }
+      }
+
+      // Reject unknown types and malformed payloads before anything is stored or relayed
+      const parsed = parseCanvasClientMessage(rawMessage);
+      if (!parsed.ok) {
+        this.sendError(ws, { code: isCanvasChangeType(rawType) ? 'invalid_event' : 'invalid_message', message: parsed.error, id: errorId });
+        return;
+      }
+      const clientMessage = parsed.data;
+
+      // Comments don't change the drawing, so viewers and locked rooms allow them too
+      if (clientMessage.type === 'comment_create' || clientMessage.type === 'comment_reply' || clientMessage.type === 'comment_resolve') {
+        await this.handleCommentMessage(ws, sessionInfo, clientMessage);
+        return;
+      }
+      // Chat isn't part of the drawing either: everyone may talk, also in locked rooms
+      if (clientMessage.type === 'chat_send' || clientMessage.type === 'chat_load'
+          || clientMessage.type === 'chat_delete' || clientMessage.type === 'chat_typing') {
+        await this.handleChatMessage(ws, sessionInfo, clientMessage);
+        return;
+      }
+
+      if (clientMessage.type !== 'cursor' && clientMessage.type !== 'presence'
+          && !isChangeAllowedByTools(this.settings, clientMessage.type)) {
+        this.sendError(ws, { code: 'forbidden', message: 'That tool is disabled in this room', id: errorId });
+        return;
+      }
+
+      if (clientMessage.type === 'cursor') {
+        // Cursors are never persisted, only relayed to the others
+        this.relayFrame(ws, sessionInfo, { kind: 'cursor', ...clientMessage.data });
+        return;
+      }
+
+      if (clientMessage.type === 'presence') {
+        // Idle state and viewport are relayed, never persisted; viewers may share them too
+        const session: RoomSession = { ...sessionInfo };
+        if (clientMessage.idle !== undefined) session.idle = clientMessage.idle;
+        if (clientMessage.viewport) session.viewport = clientMessage.viewport;
+        this.setSession(ws, session);
+        this.broadcastPresence(ws, { type: 'presence_update', participant: session });
+        return;
       }
 
-      // For other event types (like 'path'), proceed as before
-      const eventData = parsedMessage as Omit<CanvasEvent, 'id' | 'room_id' | 'user_id' | 'client_id' | 'timestamp' | 'userColor'>;
-      
       const fullEvent: CanvasEvent = {
-        ...eventData,
-        id: crypto.randomUUID(),
+        type: clientMessage.type,
+        data: clientMessage.data, // Normalized copy: only known fields survive
+        // Keep the client's id so its optimistic copy and the broadcast refer to the same event
+        id: clientMessage.id ?? crypto.randomUUID(),
         room_id: this.roomId,
         user_id: sessionInfo.userId,
         client_id: sessionInfo.clientId,
@@ -189,32 +954,47 @@ export class CanvasRoom {
         userColor: sessionInfo.userColor, // Assign user's color to the event
       };
 
-      // If it's a path event, ensure its data also reflects the user's color for drawing
-      if (fullEvent.type === 'path' && fullEvent.data) {
+      // Strokes are drawn in the user's color
+      if (fullEvent.type === 'path') {
         (fullEvent.data as PathData).strokeColor = sessionInfo.userColor;
       }
 
-      // Process the event (e.g., update local state, validate)
-      this.lastKnownRoomState.push(fullEvent);
-      // Optional: Limit the size of lastKnownRoomState to prevent memory issues
-      if (this.lastKnownRoomState.length > 1000) { // Example limit
-         this.lastKnownRoomState.shift(); 
+      // Undo/redo requests name no target; resolve it against the sender's own stacks so
+      // users only ever revert their own actions
+      if (fullEvent.type === 'undo' || fullEvent.type === 'redo') {
+        const targetId = fullEvent.type === 'undo'
+          ? getUndoTarget(this.canvasState, sessionInfo.userId)
+          : getRedoTarget(this.canvasState, sessionInfo.userId);
+        if (!targetId) return; // Nothing to undo/redo
+        fullEvent.data = { targetId };
+      }
+
+      // Persist the event before broadcasting so every broadcast event is in the history
+      const row = await canvasEventOps.appendCanvasEvent(this.eventsDb, this.toEventRow(fullEvent));
+      if (!row) {
+        // Already stored and broadcast, e.g. resent from a client's offline queue after a reconnect
+        if (ws.readyState === WebSocket.OPEN) {
+          const duplicateMsg: DuplicateEventMessage = { type: 'duplicate_event', id: fullEvent.id };
+          ws.send(JSON.stringify(duplicateMsg));
+        }
+        return;
+      }
+      fullEvent.seq = row.seq;
+      applyCanvasEvent(this.canvasState, fullEvent);
+      this.lastSeq = row.seq;
+      this.eventsSinceSnapshot++;
+      await this.maybeScheduleCompaction();
+      if (ASSET_RELEASING_EVENT_TYPES.has(fullEvent.type)) {
+        await this.scheduleAssetCleanup();
       }
 
       // Add to batch for broadcasting
       this.pendingBroadcastEvents.push(fullEvent);
       this.scheduleBroadcast();
 
-      // Persist event (optional, can be batched or conditional)
-      // For simplicity, persisting all for now. Can be optimized.
-      await this.state.storage.put('canvas_events', this.lastKnownRoomState);
-
     } catch (error) {
       console.error(`Failed to process WebSocket message for room ${this.roomId}:`, error);
-      // Optionally send an error message back to the client
-      if (ws.readyState === WebSocket.OPEN) {
-        ws.send(JSON.stringify({ type: 'error', message: 'Invalid event data' }));
-      }
+      this.sendError(ws, { code: 'internal_error', message: 'Failed to process the message' });
     }
   }
 
@@ -222,20 +1002,10 @@ export class CanvasRoom {
     const sessionInfo = this.sessions.get(ws);
     if (sessionInfo) {
       console.log(`Client ${sessionInfo.clientId} (User: ${sessionInfo.userId}) disconnected from room ${this.roomId}. Reason: ${reason} (Code: ${code})`);
-      // Optionally, broadcast a 'user_left' event to other clients
-      const leaveEvent: CanvasEvent = {
-        id: crypto.randomUUID(),
-        room_id: this.roomId,
-        user_id: sessionInfo.userId,
-        client_id: sessionInfo.clientId,
-        timestamp: Date.now(),
-        type: 'cursor', // Or a new 'user_left' type
-        data: { type: 'disconnect' } // Inform clients this user/cursor is gone
-      };
-      this.pendingBroadcastEvents.push(leaveEvent);
-      this.scheduleBroadcast();
+      this.broadcastLeave(sessionInfo);
     }
     this.sessions.delete(ws);
+    this.connectionLimits.delete(ws);
   }
 
   async webSocketError(ws: WebSocket, error: any): Promise<void> {
@@ -244,6 +1014,228 @@ export class CanvasRoom {
     // webSocketClose will be called subsequently, so cleanup is handled there.
   }
 
+  // Closes every session without broadcasting leaves, since nobody stays to receive them
+  private closeAllSessions(reason: string): number {
+    let closed = 0;
+    this.sessions.forEach((sessionData, ws) => {
+      try {
+        ws.close(CLOSE_CODE_ROOM_CLOSED, reason);
+      } catch (e) {
+        console.error(`Failed to close socket for client ${sessionData.clientId} in room ${this.roomId}:`, e);
+      }
+      closed++;
+    });
+    this.sessions.clear();
+    this.connectionLimits.clear();
+    return closed;
+  }
+
+  // Disconnects the guests watching through the share link
+  private closeAnonymousSessions(reason: string): number {
+    let closed = 0;
+    this.sessions.forEach((sessionData, ws) => {
+      if (!sessionData.anonymous) return;
+      try {
+        ws.close(CLOSE_CODE_SHARE_ENDED, reason);
+      } catch (e) {
+        console.error(`Failed to close socket for client ${sessionData.clientId} in room ${this.roomId}:`, e);
+      }
+      this.sessions.delete(ws);
+      this.connectionLimits.delete(ws);
+      this.broadcastLeave(sessionData);
+      closed++;
+    });
+    return closed;
+  }
+
+  // Tell other clients that a session (and its cursor) is gone
+  private broadcastLeave(sessionInfo: { clientId: string; userId: string }): void {
+    this.broadcastPresence(null, { type: 'presence_leave', clientId: sessionInfo.clientId, userId: sessionInfo.userId });
+  }
+
+  // Full settings from a JSON string, with defaults for omitted keys; null if invalid
+  private parseSettings(json: string | null): CanvasRoomSettings | null {
+    if (!json) return null;
+    try {
+      const validation = validateCanvasRoomSettings(JSON.parse(json));
+      return validation.ok ? pickCanvasRoomSettings(validation.data) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  // Stores new settings, recolors sessions whose color override changed and tells every client
+  private async applySettings(settings: CanvasRoomSettings): Promise<void> {
+    this.settings = settings;
+    await this.state.storage.put('room_settings', settings);
+
+    this.sessions.forEach((sessionData, ws) => {
+      const userColor = this.getUserColor(sessionData.userId);
+      if (userColor === sessionData.userColor) return;
+      const session: RoomSession = { ...sessionData, userColor };
+      this.setSession(ws, session);
+      this.broadcastPresence(null, { type: 'presence_update', participant: session }); // Includes the session itself
+    });
+
+    const roomSettingsMsg: RoomSettingsMessage = { type: 'room_settings', settings };
+    const serializedMessage = JSON.stringify(roomSettingsMsg);
+    this.sessions.forEach((sessionData, ws) => {
+      if (ws.readyState !== WebSocket.OPEN) return;
+      try {
+        ws.send(serializedMessage);
+      } catch (e) {
+        console.error(`Failed to send room settings to client ${sessionData.clientId} in room ${this.roomId}:`, e);
+      }
+    });
+  }
+
+  // Stores a comment change and sends the updated thread to everyone, the author included
+  private async handleCommentMessage(ws: WebSocket, sessionInfo: RoomSession, message: CommentClientMessage): Promise<void> {
+    const now = Date.now();
+
+    if (message.type === 'comment_create') {
+      if (await canvasEventOps.countCanvasCommentThreads(this.eventsDb) >= COMMENT_LIMITS.maxThreads) {
+        this.sendError(ws, { code: 'forbidden', message: `Rooms may have at most ${COMMENT_LIMITS.maxThreads} comment threads` });
+        return;
+      }
+      // Threads on a shape that is already gone are pinned to the point instead
+      const shapeId = message.anchor.shapeId && this.canvasState.shapes.some(shape => shape.id === message.anchor.shapeId)
+        ? message.anchor.shapeId
+        : null;
+      const created = await canvasEventOps.createCanvasCommentThread(
+        this.eventsDb,
+        { id: message.threadId, anchorX: message.anchor.x, anchorY: message.anchor.y, anchorShapeId: shapeId, createdBy: sessionInfo.userId, created: now },
+        { id: message.commentId, threadId: message.threadId, userId: sessionInfo.userId, userName: sessionInfo.userName, text: message.text, mentions: message.mentions, created: now },
+      );
+      if (!created) return; // A resend of a thread that was already stored and broadcast
+    } else {
+      const thread = await canvasEventOps.getCanvasCommentThread(this.eventsDb, message.threadId);
+      if (!thread) {
+        this.sendError(ws, { code: 'not_found', message: 'That comment thread no longer exists' });
+        return;
+      }
+      if (message.type === 'comment_reply') {
+        if (thread.comments.length >= COMMENT_LIMITS.maxCommentsPerThread) {
+          this.sendError(ws, { code: 'forbidden', message: `Threads may have at most ${COMMENT_LIMITS.maxCommentsPerThread} comments` });
+          return;
+        }
+        const added = await canvasEventOps.addCanvasComment(this.eventsDb, {
+          id: message.commentId, threadId: message.threadId, userId: sessionInfo.userId, userName: sessionInfo.userName,
+          text: message.text, mentions: message.mentions, created: now,
+        });
+        if (!added) return;
+      } else {
+        // Viewers may only resolve or reopen the threads they started
+        if (sessionInfo.role === 'viewer' && thread.createdBy !== sessionInfo.userId) {
+          this.sendError(ws, { code: 'forbidden', message: 'Viewers can only resolve their own threads' });
+          return;
+        }
+        if (thread.resolved === message.resolved) return;
+        await canvasEventOps.setCanvasCommentThreadResolved(this.eventsDb, message.threadId, message.resolved, sessionInfo.userId, now);
+      }
+    }
+
+    const thread = await canvasEventOps.getCanvasCommentThread(this.eventsDb, message.threadId);
+    if (!thread) return;
+    const commentThreadMsg: CommentThreadMessage = { type: 'comment_thread', thread: this.fromCommentThreadRow(thread) };
+    this.sendToMembers(commentThreadMsg);
+  }
+
+  private async handleChatMessage(ws: WebSocket, sessionInfo: RoomSession, message: ChatClientMessage): Promise<void> {
+    switch (message.type) {
+      case 'chat_send': {
+        const row = await canvasEventOps.appendCanvasChatMessage(this.eventsDb, {
+          id: message.id,
+          userId: sessionInfo.userId,
+          userName: sessionInfo.userName,
+          userColor: sessionInfo.userColor,
+          text: message.text,
+          created: Date.now(),
+        });
+        if (!row) return; // A resend of a message that was already stored and broadcast
+        const chatMessage: ChatMessage = { ...row };
+        this.sendToMembers({ type: 'chat_message', message: chatMessage });
+        // Sending a message ends the sender's typing indicator
+        this.sendToMembers({ type: 'chat_typing', clientId: sessionInfo.clientId, userId: sessionInfo.userId, userName: sessionInfo.userName, typing: false }, ws);
+        return;
+      }
+      case 'chat_load':
+        if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(await this.getChatHistory(message.before)));
+        return;
+      case 'chat_delete': {
+        const row = await canvasEventOps.getCanvasChatMessage(this.eventsDb, message.id);
+        if (!row) return; // Already deleted
+        if (!canDeleteChatMessage(row, sessionInfo.userId, sessionInfo.role)) {
+          this.sendError(ws, { code: 'forbidden', message: 'Only the room owner can delete other people\'s messages' });
+          return;
+        }
+        await canvasEventOps.deleteCanvasChatMessage(this.eventsDb, message.id);
+        this.sendToMembers({ type: 'chat_deleted', id: message.id });
+        return;
+      }
+      case 'chat_typing':
+        // Relayed, never stored
+        this.sendToMembers({ type: 'chat_typing', clientId: sessionInfo.clientId, userId: sessionInfo.userId, userName: sessionInfo.userName, typing: message.typing }, ws);
+        return;
+    }
+  }
+
+  // A page of chat before `before` (or the latest page); one extra row tells whether more exist
+  private async getChatHistory(before: number | null): Promise<ChatHistoryMessage> {
+    const rows = await canvasEventOps.getCanvasChatMessages(this.eventsDb, before, CHAT_LIMITS.pageSize + 1);
+    const hasMore = rows.length > CHAT_LIMITS.pageSize;
+    return { type: 'chat_history', before, messages: hasMore ? rows.slice(1) : rows, hasMore };
+  }
+
+  // Sends a message to every open member session (guests don't get comments or chat), optionally skipping the one it came from
+  private sendToMembers(message: CanvasServerMessage, exceptWs: WebSocket | null = null): void {
+    const serializedMessage = JSON.stringify(message);
+    this.sessions.forEach((sessionData, ws) => {
+      if (ws === exceptWs || sessionData.anonymous || ws.readyState !== WebSocket.OPEN) return;
+      try {
+        ws.send(serializedMessage);
+      } catch (e) {
+        console.error(`Failed to send ${message.type} to client ${sessionData.clientId} in room ${this.roomId}:`, e);
+      }
+    });
+  }
+
+  private fromCommentThreadRow(row: canvasEventOps.CanvasCommentThreadWithComments): CanvasCommentThread {
+    return {
+      id: row.id,
+      anchor: { x: row.anchorX, y: row.anchorY, shapeId: row.anchorShapeId },
+      resolved: row.resolved,
+      resolvedBy: row.resolvedBy,
+      resolvedAt: row.resolvedAt,
+      createdBy: row.createdBy,
+      created: row.created,
+      updated: row.updated,
+      comments: row.comments.map(comment => ({
+        id: comment.id,
+        threadId: comment.threadId,
+        userId: comment.userId,
+        userName: comment.userName,
+        text: comment.text,
+        mentions: comment.mentions,
+        created: comment.created,
+      })),
+    };
+  }
+
+  // Sends a presence message to every session except the one it is about
+  private broadcastPresence(exceptWs: WebSocket | null, message: PresenceUpdateMessage | PresenceLeaveMessage): void {
+    const serializedMessage = JSON.stringify(message);
+    this.sessions.forEach((sessionData, ws) => {
+      if (ws !== exceptWs && ws.readyState === WebSocket.OPEN) {
+        try {
+          ws.send(serializedMessage);
+        } catch (e) {
+          console.error(`Failed to send presence update to client ${sessionData.clientId} in room ${this.roomId}:`, e);
+        }
+      }
+    });
+  }
+
   private scheduleBroadcast(): void {
     if (this.broadcastTimeout === null) {
       this.broadcastTimeout = setTimeout(() => {
@@ -259,10 +1251,8 @@ export class CanvasRoom {
     const eventsToBroadcast = [...this.pendingBroadcastEvents];
     this.pendingBroadcastEvents = []; // Clear pending events before sending
 
-    const message = JSON.stringify({
-      type: 'events',
-      events: eventsToBroadcast,
-    });
+    const eventsMsg: EventsMessage = { type: 'events', events: eventsToBroadcast };
+    const message = JSON.stringify(eventsMsg);
 
     this.sessions.forEach((sessionData, ws) => {
       if (ws.readyState === WebSocket.OPEN) {
@@ -278,25 +1268,69 @@ export class CanvasRoom {
     });
   }
 
-  private broadcastCursorUpdate(originatingWs: WebSocket, message: CursorUpdateMessage): void {
-    const serializedMessage = JSON.stringify(message);
+  // Cursors and live strokes are relayed to the other clients without being stored
+  private handleFrame(ws: WebSocket, sessionInfo: RoomSession, frame: ClientFrame): void {
+    // Strokes that could never be stored aren't shown either
+    if (frame.kind === 'stroke' && (sessionInfo.role === 'viewer' || this.settings.is_locked || !isToolAllowed(this.settings, 'pen'))) return;
+    this.relayFrame(ws, sessionInfo, frame);
+  }
+
+  // Sends a client's cursor or stroke frame to everyone else: binary to sessions on protocol 2+, and
+  // cursors as JSON cursor_update to older clients (which have no live strokes)
+  private relayFrame(originatingWs: WebSocket, sessionInfo: RoomSession, frame: ClientFrame): void {
+    let binaryMessage: ArrayBuffer | null = null;
+    let jsonMessage: string | null = null;
     this.sessions.forEach((sessionData, ws) => {
       if (ws !== originatingWs && ws.readyState === WebSocket.OPEN) {
         try {
-          ws.send(serializedMessage);
+          if (sessionData.protocolVersion >= 2) {
+            binaryMessage ??= encodeRelayedFrame({ ...frame, clientId: sessionInfo.clientId });
+            ws.send(binaryMessage);
+          } else if (frame.kind === 'cursor') {
+            const cursorUpdateMsg: CursorUpdateMessage = {
+              type: 'cursor_update',
+              clientId: sessionInfo.clientId,
+              userColor: sessionInfo.userColor,
+              cursorData: { x: frame.x, y: frame.y },
+            };
+            jsonMessage ??= JSON.stringify(cursorUpdateMsg);
+            ws.send(jsonMessage);
+          }
         } catch (e) {
-          console.error(`Failed to send cursor update to client ${sessionData.clientId} in room ${this.roomId}:`, e);
+          console.error(`Failed to relay cursor or stroke frame to client ${sessionData.clientId} in room ${this.roomId}:`, e);
           // Consider closing WebSocket if send fails repeatedly, or handle cleanup on next interaction
         }
       }
     });
   }
 
-  // Example of an alarm if needed for periodic tasks, e.g., saving state or cleanup
-  // async alarm() {
-  //   // Perform periodic task
-  //   await this.state.storage.put('canvas_events', this.lastKnownRoomState);
-  //   // Re-schedule alarm if needed
-  //   // this.state.storage.setAlarm(Date.now() + SOME_INTERVAL_MS);
-  // }
+  // Compaction, the upload sweep and share link expiry run in an alarm so they never delay message handling
+  async alarm() {
+    const shareExpires = await this.state.storage.get<number>('share_expires');
+    if (shareExpires !== undefined) {
+      if (shareExpires <= Date.now()) {
+        await this.state.storage.delete('share_expires');
+        this.closeAnonymousSessions('The share link has expired');
+      } else {
+        await this.scheduleAlarm(shareExpires); // Fired early for other work
+      }
+    }
+
+    try {
+      // The alarm may have been set only for the sweep
+      if (this.eventsSinceSnapshot >= this.compactionEventThreshold) await this.compact();
+    } catch (error) {
+      console.error(`Compaction failed for room ${this.roomId}:`, error);
+      throw error; // Let the runtime retry the alarm
+    }
+    if (await this.state.storage.get<boolean>('asset_cleanup_due')) {
+      try {
+        await this.cleanupOrphanedAssets();
+        await this.state.storage.delete('asset_cleanup_due');
+      } catch (error) {
+        console.error(`Upload cleanup failed for room ${this.roomId}:`, error);
+        throw error;
+      }
+    }
+  }
 } 
\ No newline at end of file
@@ -2,6 +2,12 @@ import { drizzle } from 'drizzle-orm/durable-sqlite';
 import * as schema from '../db/notes-schema';
 import * as notes from '../db/notes-operations';
 import type { NotesDB } from '../db/notes-types';
+import {
+  parseNotesClientMessage,
+  serializeNote,
+  type Note as SerializedNote,
+  type NotesServerMessage,
+} from '../../src/lib/notes-protocol';
 import { migrate } from 'drizzle-orm/durable-sqlite/migrator';
 // @ts-ignore - Drizzle migrations don't have TypeScript definitions
 import migrations from '../drizzle/migrations';
@@ -17,7 +23,7 @@ export class UserNotesDatabase {
   private state: DurableObjectState;
   private env: Env;
   private sessions: Set<WebSocket> = new Set();
-  private pendingUpdates: Map<string, { clients: Set<string>, notes: any[], attempts: number, timestamp: number }> = new Map();
+  private pendingUpdates: Map<string, { clients: Set<string>, notes: SerializedNote[], attempts: number, timestamp: number }> = new Map();
   private clientIds: Map<WebSocket, string> = new Map();
   private updateInterval: number | null = null;
   
@@ -80,6 +86,15 @@ export class UserNotesDatabase {
     return note;
   }
 
+  // Notes in the form sent over WebSockets
+  private async getSerializedNotes(): Promise<SerializedNote[]> {
+    return (await this.getNotes()).map(serializeNote);
+  }
+
+  private sendMessage(ws: WebSocket, message: NotesServerMessage): void {
+    ws.send(JSON.stringify(message));
+  }
+
   // Start a worker that periodically checks for undelivered updates
   private startUpdateWorker() {
     if (this.updateInterval !== null) return;
@@ -120,14 +135,14 @@ export class UserNotesDatabase {
       for (const [ws, clientId] of this.clientIds.entries()) {
         if (update.clients.has(clientId) && ws.readyState === WebSocket.OPEN) {
           try {
-            ws.send(JSON.stringify({
+            this.sendMessage(ws, {
               type: 'update',
               notes: update.notes,
               updateId: updateId,
               timestamp: update.timestamp,
               isRetry: true,
               attempt: update.attempts
-            }));
+            });
           } catch (error) {
             console.error(`Error sending retry update to client ${clientId}:`, error);
           }
@@ -160,30 +175,29 @@ export class UserNotesDatabase {
       this.state.acceptWebSocket(server);
       
       // Send client ID to the client
-      server.send(JSON.stringify({
+      this.sendMessage(server, {
         type: 'connected',
         clientId
-      }));
+      });
       
       // Send any pending updates to this new client
       for (const [updateId, update] of this.pendingUpdates.entries()) {
         if (update.clients.has(clientId)) {
-          server.send(JSON.stringify({
+          this.sendMessage(server, {
             type: 'update',
             notes: update.notes,
             updateId,
             timestamp: update.timestamp
-          }));
+          });
         }
       }
       
       // Also send the current notes state to ensure this client is in sync
-      const notes = await this.getNotes();
-      server.send(JSON.stringify({
+      this.sendMessage(server, {
         type: 'initialSync',
-        notes,
+        notes: await this.getSerializedNotes(),
         timestamp: Date.now()
-      }));
+      });
       
       return new Response(null, {
         status: 101,
@@ -244,11 +258,11 @@ export class UserNotesDatabase {
 
   async webSocketMessage(ws: WebSocket, message: string | ArrayBuffer): Promise<void> {
     try {
-      const data = JSON.parse(typeof message === 'string' ? message : new TextDecoder().decode(message)) as { 
-        type: string;
-        updateId?: string;
-        clientId?: string;
-      };
+      const data = parseNotesClientMessage(JSON.parse(typeof message === 'string' ? message : new TextDecoder().decode(message)));
+      if (!data) {
+        this.sendMessage(ws, { type: 'error', message: 'Unknown message type' });
+        return;
+      }
       
       // Check if the message includes a clientId (for reconnection support)
       if (data.clientId && !this.clientIds.get(ws)) {
@@ -267,42 +281,42 @@ export class UserNotesDatabase {
           console.log(`Recovered client identity: ${data.clientId}`);
           
           // Acknowledge the identity recovery
-          ws.send(JSON.stringify({
+          this.sendMessage(ws, {
             type: 'identityRecovered',
             clientId: data.clientId
-          }));
+          });
           
           return;
         }
         
         // For other message types, request client identification
-        ws.send(JSON.stringify({ 
+        this.sendMessage(ws, {
           type: 'identifyRequest',
           message: 'Client identity unknown, please identify'
-        }));
+        });
         return;
       }
       
       switch (data.type) {
         case 'subscribe':
           // Client wants to subscribe to notes updates
-          ws.send(JSON.stringify({
+          this.sendMessage(ws, {
             type: 'subscribed',
-            notes: await this.getNotes()
-          }));
+            notes: await this.getSerializedNotes()
+          });
           break;
           
         case 'ping':
           // Respond to client pings to keep connection alive
-          ws.send(JSON.stringify({ type: 'pong' }));
+          this.sendMessage(ws, { type: 'pong' });
           break;
           
         case 'refresh':
           // Client is requesting a refresh of data
-          ws.send(JSON.stringify({
+          this.sendMessage(ws, {
             type: 'update',
-            notes: await this.getNotes()
-          }));
+            notes: await this.getSerializedNotes()
+          });
           break;
           
         case 'ack':
@@ -320,11 +334,9 @@ export class UserNotesDatabase {
           }
           break;
           
-        default:
-          ws.send(JSON.stringify({ type: 'error', message: 'Unknown message type' }));
       }
     } catch (error) {
-      ws.send(JSON.stringify({ type: 'error', message: 'Invalid message format' }));
+      this.sendMessage(ws, { type: 'error', message: 'Invalid message format' });
     }
   }
 
@@ -462,7 +474,7 @@ export class UserNotesDatabase {
     if (this.sessions.size === 0) return;
     
     try {
-      const notes = await this.getNotes();
+      const notes = await this.getSerializedNotes();
       const updateId = crypto.randomUUID();
       const timestamp = Date.now();
       
@@ -478,14 +490,15 @@ export class UserNotesDatabase {
         timestamp
       });
       
-      const message = JSON.stringify({
+      const updateMessage: NotesServerMessage = {
         type: 'update',
         notes,
         updateId,
         timestamp,
         operation,
         affectedNoteId
-      });
+      };
+      const message = JSON.stringify(updateMessage);
       
       // Send to all connected clients
       for (const [ws, clientId] of this.clientIds.entries()) {
@@ -22,6 +22,7 @@ type Env = {
     NODE_ENV?: string; // Add NODE_ENV as an optional string property
     USER_NOTES_DATABASE: DurableObjectNamespace;
     CANVAS_ROOM: DurableObjectNamespace; // Added for CanvasRoom DO
+    CANVAS_ASSETS?: R2Bucket; // Uploaded canvas files (R2 or compatible); unbound falls back to an in-memory stub
     // Add other bindings/variables like GITHUB_CLIENT_ID, GITHUB_CLIENT_SECRET if using social providers
     // GITHUB_CLIENT_ID?: string;
     // GITHUB_CLIENT_SECRET?: string;
@@ -0,0 +1,53 @@
+type Env = {
+  CANVAS_ASSETS?: R2Bucket; // R2 bucket (or any R2-compatible binding) for uploaded canvas files
+};
+
+// The slice of an R2 bucket the canvas uses, so a local stub can stand in for it
+export interface CanvasAssetStorage {
+  put(key: string, body: ArrayBuffer, contentType: string): Promise<void>;
+  get(key: string): Promise<{ body: ReadableStream | ArrayBuffer; contentType: string; size: number } | null>;
+  delete(keys: string[]): Promise<void>;
+}
+
+const r2Storage = (bucket: R2Bucket): CanvasAssetStorage => ({
+  async put(key, body, contentType) {
+    await bucket.put(key, body, { httpMetadata: { contentType } });
+  },
+  async get(key) {
+    const object = await bucket.get(key);
+    if (!object) return null;
+    return { body: object.body, contentType: object.httpMetadata?.contentType ?? 'application/octet-stream', size: object.size };
+  },
+  async delete(keys) {
+    if (keys.length > 0) await bucket.delete(keys);
+  },
+});
+
+// In-memory stand-in for local development and tests without an R2 binding. Blobs only live as
+// long as the isolate, and aren't shared between the worker and Durable Objects: the worker holds
+// the uploads, so a CanvasRoom could never delete them. Orphan cleanup therefore only runs with R2,
+// and unused uploads stay until the room is deleted or the dev server restarts.
+const memoryObjects = new Map<string, { body: ArrayBuffer; contentType: string }>();
+const memoryStorage: CanvasAssetStorage = {
+  async put(key, body, contentType) {
+    memoryObjects.set(key, { body: body.slice(0), contentType });
+  },
+  async get(key) {
+    const object = memoryObjects.get(key);
+    return object ? { body: object.body.slice(0), contentType: object.contentType, size: object.body.byteLength } : null;
+  },
+  async delete(keys) {
+    keys.forEach(key => memoryObjects.delete(key));
+  },
+};
+
+let warnedAboutStub = false;
+
+export function getCanvasAssetStorage(env: Env): CanvasAssetStorage {
+  if (env.CANVAS_ASSETS) return r2Storage(env.CANVAS_ASSETS);
+  if (!warnedAboutStub) {
+    console.warn('CANVAS_ASSETS is not bound; canvas uploads are kept in memory and lost on restart.');
+    warnedAboutStub = true;
+  }
+  return memoryStorage;
+}
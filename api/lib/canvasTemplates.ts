@@ -0,0 +1,82 @@
+import { buildCanvasExportDocument, type CanvasExportDocument } from '../../src/lib/canvas-export';
+import type { CanvasShapePayloads, CanvasShapeType } from '../../src/lib/canvas-shapes';
+
+// Templates every user can start a room from, defined as canvas export documents like the ones
+// users save from their own rooms. Their ids can't collide with saved templates, which are UUIDs
+
+export interface BuiltinCanvasTemplate {
+  id: string;
+  name: string;
+  description: string;
+  document: CanvasExportDocument;
+}
+
+const HEADING_COLOR = '#1f2937';
+const FRAME_COLOR = '#94a3b8';
+
+type TemplateShape = { type: CanvasShapeType; data: unknown };
+
+const shape = <T extends CanvasShapeType>(type: T, data: CanvasShapePayloads[T]): TemplateShape => ({ type, data });
+
+const box = (x: number, y: number, width: number, height: number, fillColor: string | null, strokeColor = FRAME_COLOR) =>
+  shape('rect', { x, y, width, height, strokeColor, fillColor, strokeWidth: 2 });
+
+const heading = (x: number, y: number, text: string, fontSize = 28) =>
+  shape('text', { x, y, text, fontSize, color: HEADING_COLOR });
+
+const note = (x: number, y: number, text: string, color: string) =>
+  shape('sticky', { x, y, width: 200, height: 160, text, color, fontSize: 20 });
+
+const templateDocument = (id: string, name: string, shapes: TemplateShape[]) =>
+  buildCanvasExportDocument(name, shapes.map((templateShape, i) => ({ id: `${id}-${i}`, user_id: 'template', timestamp: 0, ...templateShape })));
+
+const kanbanShapes = (): TemplateShape[] => ['To do', 'In progress', 'Done'].flatMap((title, i) => {
+  const x = i * 360;
+  return [box(x, 0, 320, 640, '#f8fafc'), heading(x + 20, 20, title)];
+}).concat(note(60, 90, 'Add a card for each task and drag it along', '#fef08a'));
+
+const retrospectiveShapes = (): TemplateShape[] => ([
+  ['Went well', '#dcfce7'],
+  ['To improve', '#ffedd5'],
+  ['Ideas', '#dbeafe'],
+  ['Action items', '#fce7f3'],
+] as const).flatMap(([title, color], i) => {
+  const x = (i % 2) * 520;
+  const y = Math.floor(i / 2) * 400;
+  return [box(x, y, 500, 380, color), heading(x + 20, y + 20, title)];
+});
+
+const wireframeShapes = (): TemplateShape[] => [
+  box(0, 0, 1280, 800, '#ffffff', '#334155'),
+  box(0, 0, 1280, 48, '#e2e8f0', '#334155'),
+  ...[0, 1, 2].map(i => shape('ellipse', { x: 16 + i * 24, y: 16, width: 16, height: 16, strokeColor: FRAME_COLOR, fillColor: '#cbd5e1', strokeWidth: 1 })),
+  box(24, 72, 1232, 80, '#f1f5f9'),
+  heading(48, 96, 'Page title', 32),
+  box(24, 176, 280, 600, '#f1f5f9'),
+  heading(48, 196, 'Navigation', 20),
+  box(328, 176, 928, 600, null),
+  heading(352, 196, 'Content', 20),
+];
+
+export const BUILTIN_CANVAS_TEMPLATES: BuiltinCanvasTemplate[] = [
+  {
+    id: 'kanban',
+    name: 'Kanban board',
+    description: 'To do, in progress and done columns for tracking tasks with sticky notes.',
+    document: templateDocument('kanban', 'Kanban board', kanbanShapes()),
+  },
+  {
+    id: 'retrospective',
+    name: 'Retrospective',
+    description: 'A grid for what went well, what to improve, ideas and action items.',
+    document: templateDocument('retrospective', 'Retrospective', retrospectiveShapes()),
+  },
+  {
+    id: 'wireframe',
+    name: 'Wireframe',
+    description: 'A desktop browser frame with header, navigation and content areas.',
+    document: templateDocument('wireframe', 'Wireframe', wireframeShapes()),
+  },
+];
+
+export const getBuiltinCanvasTemplate = (id: string) => BUILTIN_CANVAS_TEMPLATES.find(template => template.id === id) ?? null;
@@ -1,5 +1,13 @@
 import { Hono } from 'hono';
 import { getCanvasRoomStub } from '../lib/durableObjects';
+import { getCanvasD1DB } from '../db/canvas-types';
+import {
+  getCanvasRoomById as dbGetCanvasRoomById,
+  getUserRoleInRoom as dbGetUserRoleInRoom,
+  touchParticipant as dbTouchParticipant,
+  getActiveCanvasShareLinkByToken as dbGetActiveCanvasShareLinkByToken,
+} from '../db/canvas-operations';
+import { pickCanvasRoomSettings, type CanvasRoomSettings } from '../../src/lib/canvas-settings';
 
 // Define environment type matching api/index.ts & durableObjects.ts helper
 type Env = {
@@ -12,6 +20,9 @@ type Env = {
   [key: string]: any;
 };
 
+// Guests watching a room through its share link, on top of the room's max_participants members
+const MAX_ANONYMOUS_VIEWERS = 100;
+
 // Define Hono variables (user context, etc.)
 // Assuming authentication middleware will populate c.get('user')
 interface HonoVariables {
@@ -68,12 +79,35 @@ export const canvasWebSocketRouter = new Hono<{ Bindings: Env; Variables: HonoVa
       return c.json({ error: 'Invalid input', message: 'Room ID is required for WebSocket connection.' }, 400);
     }
 
-    // Validate if the room exists (optional, DO can handle non-existent IDs gracefully or create on demand)
-    // const db = getCanvasD1DB(c.env.DB);
-    // const roomExists = await dbGetCanvasRoomById(db, roomId);
-    // if (!roomExists) {
-    //   return c.json({ error: 'Not found', message: 'Room not found.' }, 404);
-    // }
+    // Resolve the room and the caller's role before handing the socket to the DO.
+    // Private rooms only admit their creator and participants; public rooms admit anyone as a viewer.
+    let role: string;
+    let maxParticipants: number;
+    let settings: CanvasRoomSettings;
+    try {
+      const db = getCanvasD1DB(c.env.DB);
+      const room = await dbGetCanvasRoomById(db, roomId);
+      if (!room) {
+        return c.json({ error: 'Not found', message: 'Room not found.' }, 404);
+      }
+      if (room.archived_at) {
+        return c.json({ error: 'Gone', message: 'This room is archived.' }, 410);
+      }
+
+      const resolvedRole = await dbGetUserRoleInRoom(db, room, user.id);
+      if (!resolvedRole) {
+        return c.json({ error: 'Forbidden', message: 'You are not a member of this room.' }, 403);
+      }
+      role = resolvedRole;
+      maxParticipants = room.max_participants ?? 10;
+      settings = pickCanvasRoomSettings(room);
+
+      // Joining counts as activity for the room listing's last-activity timestamp
+      await dbTouchParticipant(db, roomId, user.id);
+    } catch (error: any) {
+      console.error(`Error checking room access for room ${roomId}:`, error);
+      return c.json({ error: 'Failed to check room access', message: error.message || 'Internal server error' }, 500);
+    }
 
     try {
       const stub = getCanvasRoomStub(c.env, roomId);
@@ -85,7 +119,17 @@ export const canvasWebSocketRouter = new Hono<{ Bindings: Env; Variables: HonoVa
       const forwardUrl = new URL(c.req.url); // Base URL from incoming request
       forwardUrl.pathname = '/websocket'; // Path DO expects for WS upgrade
       forwardUrl.searchParams.set('userId', user.id);
+      // Shown to other participants in the presence list and on cursor labels
+      forwardUrl.searchParams.set('userName', user.name || user.email || '');
+      if (user.image) forwardUrl.searchParams.set('userImage', user.image);
+      else forwardUrl.searchParams.delete('userImage'); // Never trust one supplied by the client
       forwardUrl.searchParams.set('clientId', clientId);
+      forwardUrl.searchParams.set('roomId', roomId);
+      forwardUrl.searchParams.set('role', role);
+      forwardUrl.searchParams.set('maxParticipants', String(maxParticipants));
+      for (const param of ['anonymous', 'maxAnonymous', 'shareExpires']) forwardUrl.searchParams.delete(param); // Share link guests only
+      // D1 holds the settings; the DO adopts them in case a pushed change never reached it
+      forwardUrl.searchParams.set('settings', JSON.stringify(settings));
       
       // Create a new request to forward, preserving original headers relevant for WebSocket upgrade
       const forwardedRequest = new Request(forwardUrl.toString(), {
@@ -103,4 +147,62 @@ export const canvasWebSocketRouter = new Hono<{ Bindings: Env; Variables: HonoVa
       }
       return c.json({ error: 'WebSocket connection failed', message: error.message || 'Internal server error' }, 500);
     }
+  })
+
+  // Read-only WebSocket for signed-out guests holding a room's share link
+  .get('/share/:token/ws', async (c) => {
+    const token = c.req.param('token');
+
+    let roomId: string;
+    let shareExpires: Date | null;
+    let settings: CanvasRoomSettings;
+    try {
+      const db = getCanvasD1DB(c.env.DB);
+      const link = await dbGetActiveCanvasShareLinkByToken(db, token);
+      if (!link) {
+        return c.json({ error: 'Not found', message: 'This share link is invalid or has expired.' }, 404);
+      }
+      const room = await dbGetCanvasRoomById(db, link.room_id);
+      if (!room) {
+        return c.json({ error: 'Not found', message: 'Room not found.' }, 404);
+      }
+      if (room.archived_at) {
+        return c.json({ error: 'Gone', message: 'This room is archived.' }, 410);
+      }
+      roomId = room.id;
+      shareExpires = link.expires;
+      settings = pickCanvasRoomSettings(room);
+    } catch (error: any) {
+      console.error('Error checking share link:', error);
+      return c.json({ error: 'Failed to check share link', message: error.message || 'Internal server error' }, 500);
+    }
+
+    try {
+      const stub = getCanvasRoomStub(c.env, roomId);
+
+      // Built from scratch rather than from the incoming URL, so guests can't pass identity or access params
+      const clientId = c.req.query('clientId') || crypto.randomUUID();
+      const forwardUrl = new URL('/websocket', c.req.url);
+      for (const param of ['since', 'protocol']) {
+        const value = c.req.query(param);
+        if (value !== undefined) forwardUrl.searchParams.set(param, value);
+      }
+      forwardUrl.searchParams.set('userId', `anonymous:${clientId}`);
+      forwardUrl.searchParams.set('userName', 'Guest');
+      forwardUrl.searchParams.set('clientId', clientId);
+      forwardUrl.searchParams.set('roomId', roomId);
+      forwardUrl.searchParams.set('role', 'viewer');
+      forwardUrl.searchParams.set('anonymous', '1');
+      forwardUrl.searchParams.set('maxAnonymous', String(MAX_ANONYMOUS_VIEWERS));
+      if (shareExpires) forwardUrl.searchParams.set('shareExpires', String(shareExpires.getTime()));
+      forwardUrl.searchParams.set('settings', JSON.stringify(settings));
+
+      return await stub.fetch(new Request(forwardUrl.toString(), {
+        headers: c.req.raw.headers,
+        method: c.req.method,
+      }));
+    } catch (error: any) {
+      console.error(`Error establishing share WebSocket connection for room ${roomId}:`, error);
+      return c.json({ error: 'WebSocket connection failed', message: error.message || 'Internal server error' }, 500);
+    }
   }); 
\ No newline at end of file
@@ -4,20 +4,79 @@ import {
   createCanvasRoom as dbCreateCanvasRoom, 
   getCanvasRoomById as dbGetCanvasRoomById,
   updateCanvasRoomSettings as dbUpdateCanvasRoomSettings,
-  getAllCanvasRoomsForUser as dbGetAllCanvasRoomsForUser // Assuming we'll create this
+  getAllCanvasRoomsForUser as dbGetAllCanvasRoomsForUser,
+  getUserRoleInRoom as dbGetUserRoleInRoom,
+  getParticipantByRoomAndUser as dbGetParticipantByRoomAndUser,
+  addParticipantToRoom as dbAddParticipantToRoom,
+  createCanvasInvite as dbCreateCanvasInvite,
+  getCanvasInviteById as dbGetCanvasInviteById,
+  getCanvasInviteByToken as dbGetCanvasInviteByToken,
+  getCanvasInvitesByRoomId as dbGetCanvasInvitesByRoomId,
+  updateCanvasInviteStatus as dbUpdateCanvasInviteStatus,
+  getParticipantsWithUsersByRoomId as dbGetParticipantsWithUsersByRoomId,
+  updateParticipantRole as dbUpdateParticipantRole,
+  removeParticipantFromRoom as dbRemoveParticipantFromRoom,
+  transferRoomOwnership as dbTransferRoomOwnership,
+  setCanvasRoomArchived as dbSetCanvasRoomArchived,
+  deleteCanvasRoom as dbDeleteCanvasRoom,
+  createCanvasAsset as dbCreateCanvasAsset,
+  getCanvasAsset as dbGetCanvasAsset,
+  getCanvasAssetsByRoomId as dbGetCanvasAssetsByRoomId,
+  countCanvasAssets as dbCountCanvasAssets,
+  createCanvasTemplate as dbCreateCanvasTemplate,
+  getCanvasTemplateById as dbGetCanvasTemplateById,
+  getCanvasTemplatesForUser as dbGetCanvasTemplatesForUser,
+  deleteCanvasTemplate as dbDeleteCanvasTemplate,
+  getCanvasShareLinkByRoomId as dbGetCanvasShareLinkByRoomId,
+  getActiveCanvasShareLinkByToken as dbGetActiveCanvasShareLinkByToken,
+  upsertCanvasShareLink as dbUpsertCanvasShareLink,
+  deleteCanvasShareLink as dbDeleteCanvasShareLink,
 } from '../db/canvas-operations';
 import type { CreateCanvasRoomData } from '../db/canvas-operations'; // Import the specific input type
-// We might not need getCanvasRoomStub here if these are purely D1 operations before a DO is involved for real-time.
-// import { getCanvasRoomStub } from '../lib/durableObjects'; 
+import { getCanvasRoomStub } from '../lib/durableObjects';
+import { getCanvasAssetStorage } from '../lib/assetStorage';
+import { BUILTIN_CANVAS_TEMPLATES, getBuiltinCanvasTemplate } from '../lib/canvasTemplates';
+import {
+  buildCanvasExportDocument,
+  canvasExportFileName,
+  MAX_EXPORT_SHAPES,
+  parseCanvasExportDocument,
+  renderCanvasSvg,
+  type ExportableCanvasShape,
+} from '../../src/lib/canvas-export';
+import { pickCanvasRoomSettings, validateCanvasRoomSettings, type CanvasRoomSettings } from '../../src/lib/canvas-settings';
+import {
+  CANVAS_ASSET_LIMITS,
+  canvasAssetKey,
+  canvasAssetPath,
+  collectCanvasAssetIds,
+  isCanvasAssetId,
+  isCanvasAssetType,
+  sniffCanvasAssetType,
+} from '../../src/lib/canvas-assets';
 
 // Define environment type matching api/index.ts & durableObjects.ts helper
 type Env = {
   DB: D1Database; // D1 binding for direct database access
-  CANVAS_ROOM: DurableObjectNamespace; // DO binding, might be used if HTTP routes trigger DO actions
+  CANVAS_ROOM: DurableObjectNamespace; // DO binding, used when HTTP routes push changes to live rooms
+  USER_NOTES_DATABASE: DurableObjectNamespace; // DO binding for notes (required by getCanvasRoomStub's Env type)
+  CANVAS_ASSETS?: R2Bucket; // Uploaded canvas files; an in-memory stub is used when unbound
   // Add other relevant bindings from wrangler.jsonc if needed
   [key: string]: any;
 };
 
+// Invites default to one week and can be valid for at most 30 days
+const DEFAULT_INVITE_EXPIRY_HOURS = 24 * 7;
+const MAX_INVITE_EXPIRY_HOURS = 24 * 30;
+
+// Share links never expire unless asked to, and then within a year
+const MAX_SHARE_LINK_EXPIRY_HOURS = 24 * 365;
+
+const MAX_TEMPLATE_NAME_LENGTH = 100;
+const MAX_TEMPLATE_DESCRIPTION_LENGTH = 500;
+
+const HEX_COLOR_PATTERN = /^#(?:[0-9a-f]{3}|[0-9a-f]{4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
 // Define Hono variables (user context, etc.)
 // Assuming authentication middleware will populate c.get('user')
 interface HonoVariables {
@@ -25,6 +84,104 @@ interface HonoVariables {
   // Add other variables if used by middleware
 }
 
+// Pushes a change to the room's Durable Object so live sessions reflect it immediately.
+// Failures are logged rather than surfaced: D1 is already updated and reconnects re-check access.
+async function notifyCanvasRoom(env: Env, roomId: string, path: string, payload: unknown): Promise<void> {
+  try {
+    const stub = getCanvasRoomStub(env, roomId);
+    const response = await stub.fetch(new Request(`https://do-dummy${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+    }));
+    if (!response.ok) {
+      console.error(`CanvasRoom ${roomId} rejected ${path}: ${response.status}`);
+    }
+  } catch (error) {
+    console.error(`Failed to notify CanvasRoom ${roomId} at ${path}:`, error);
+  }
+}
+
+// Live shapes of a room in draw order, resolved by its Durable Object
+async function getCanvasRoomShapes(env: Env, roomId: string): Promise<ExportableCanvasShape[]> {
+  const stub = getCanvasRoomStub(env, roomId);
+  const response = await stub.fetch(new Request('https://do-dummy/snapshot'));
+  if (!response.ok) {
+    throw new Error(`Canvas room responded with status ${response.status}`);
+  }
+  const snapshot = await response.json() as { shapes: ExportableCanvasShape[] };
+  return snapshot.shapes;
+}
+
+// Draws shapes into a new, empty room on behalf of its creator; returns how many were imported
+async function seedCanvasRoom(env: Env, roomId: string, userId: string, shapes: Array<{ type: string; data: unknown }>): Promise<number> {
+  const stub = getCanvasRoomStub(env, roomId);
+  const response = await stub.fetch(new Request('https://do-dummy/import', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ userId, shapes }),
+  }));
+  if (!response.ok) {
+    throw new Error(`Canvas room rejected the import: ${await response.text()}`);
+  }
+  const { imported } = await response.json() as { imported: number };
+  return imported;
+}
+
+// Takes back a room whose seeding failed, so the caller isn't left with a blank room: its copied files,
+// then its row, members and asset rows. The failed import stored nothing in the Durable Object.
+// Errors are logged rather than thrown, so the caller reports the seeding error
+async function discardUnseededCanvasRoom(env: Env, roomId: string): Promise<void> {
+  try {
+    const db = getCanvasD1DB(env.DB);
+    const assets = await dbGetCanvasAssetsByRoomId(db, roomId);
+    await getCanvasAssetStorage(env).delete(assets.map(asset => canvasAssetKey(roomId, asset.id)));
+    await dbDeleteCanvasRoom(db, roomId);
+  } catch (error) {
+    console.error(`Failed to remove room ${roomId} after seeding it failed:`, error);
+  }
+}
+
+// Disconnects everyone and wipes the room's Durable Object storage (events, snapshots, settings)
+async function destroyCanvasRoom(env: Env, roomId: string): Promise<void> {
+  const stub = getCanvasRoomStub(env, roomId);
+  const response = await stub.fetch(new Request('https://do-dummy/destroy', { method: 'POST' }));
+  if (!response.ok) {
+    throw new Error(`Canvas room responded with status ${response.status}`);
+  }
+}
+
+// Shapes of a built-in template, or of a saved one the user may use (their own or a public one);
+// null when there is no such template
+async function getCanvasTemplateShapes(env: Env, templateId: string, userId: string): Promise<Array<{ type: string; data: unknown }> | null> {
+  const builtin = getBuiltinCanvasTemplate(templateId);
+  let document: unknown = builtin?.document;
+  if (!builtin) {
+    const template = await dbGetCanvasTemplateById(getCanvasD1DB(env.DB), templateId);
+    if (!template || (!template.is_public && template.creator_id !== userId)) return null;
+    document = template.document;
+  }
+  // Saved documents were valid when stored; parsing again drops anything the shape rules no longer allow
+  const parsed = parseCanvasExportDocument(document);
+  if (!parsed.ok) throw new Error(`Template ${templateId} is invalid: ${parsed.error}`);
+  return parsed.data.shapes;
+}
+
+// Copies the blobs and rows of the assets the given shapes use into another room, keeping their ids so
+// the copied image shapes resolve. Assets the source room no longer has are skipped
+async function copyCanvasRoomAssets(env: Env, fromRoomId: string, toRoomId: string, uploaderId: string, shapes: Array<{ type: string; data: unknown }>): Promise<void> {
+  const db = getCanvasD1DB(env.DB);
+  const storage = getCanvasAssetStorage(env);
+  for (const assetId of collectCanvasAssetIds(shapes)) {
+    const asset = await dbGetCanvasAsset(db, fromRoomId, assetId);
+    const object = asset && await storage.get(canvasAssetKey(fromRoomId, assetId));
+    if (!asset || !object) continue;
+    const body = object.body instanceof ArrayBuffer ? object.body : await new Response(object.body).arrayBuffer();
+    await storage.put(canvasAssetKey(toRoomId, assetId), body, asset.content_type);
+    await dbCreateCanvasAsset(db, { ...asset, room_id: toRoomId, uploader_id: uploaderId, created: new Date() });
+  }
+}
+
 export const canvasRouter = new Hono<{ Bindings: Env; Variables: HonoVariables }>()
   // This middleware can be simplified or removed if the global auth middleware handles setting the user.
   // If specific canvas-level checks are needed later, they can be added here.
@@ -35,20 +192,33 @@ export const canvasRouter = new Hono<{ Bindings: Env; Variables: HonoVariables }
     await next();
   })
 
-  // List all canvas rooms (e.g., created by the user or public)
+  // List canvas rooms in a scope: created by the user (mine), shared with them (shared), public,
+  // or archived rooms the user created (archived)
   .get('/rooms', async (c) => {
     const user = c.get('user'); // This will now rely on the global middleware's setting of user
     if (!user || !user.id) {
       return c.json({ error: 'Unauthorized', message: 'Authentication required to list rooms.' }, 401);
     }
 
+    const scope = c.req.query('scope') ?? 'mine';
+    if (scope !== 'mine' && scope !== 'shared' && scope !== 'public' && scope !== 'archived') {
+      return c.json({ error: 'Invalid input', message: 'scope must be "mine", "shared", "public" or "archived".' }, 400);
+    }
+    const page = Number(c.req.query('page') ?? 1);
+    const pageSize = Number(c.req.query('pageSize') ?? 20);
+    if (!Number.isInteger(page) || page < 1 || !Number.isInteger(pageSize) || pageSize < 1 || pageSize > 100) {
+      return c.json({ error: 'Invalid input', message: 'page must be >= 1 and pageSize between 1 and 100.' }, 400);
+    }
+
     try {
       const db = getCanvasD1DB(c.env.DB);
-      // TODO: Implement dbGetAllCanvasRoomsForUser or a similar function
-      // This function would ideally handle pagination and filtering based on user permissions.
-      // For now, let's assume it fetches rooms the user has access to.
-      const rooms = await dbGetAllCanvasRoomsForUser(db, user.id);
-      return c.json(rooms); // Return array directly, or { rooms: rooms }
+      const result = await dbGetAllCanvasRoomsForUser(db, user.id, {
+        scope,
+        page,
+        pageSize,
+        search: c.req.query('search'),
+      });
+      return c.json(result);
     } catch (error: any) {
       console.error('Error fetching canvas rooms:', error);
       return c.json({ error: 'Failed to fetch rooms', message: error.message || 'Internal server error' }, 500);
@@ -63,13 +233,22 @@ export const canvasRouter = new Hono<{ Bindings: Env; Variables: HonoVariables }
     }
 
     try {
-      // Expect name, and optional description, is_public, max_participants
-      const body = await c.req.json<{ name: string; description?: string; is_public?: boolean; max_participants?: number }>();
+      // Expect name, and optional description, is_public, max_participants and template_id
+      const body = await c.req.json<{ name: string; description?: string; is_public?: boolean; max_participants?: number; template_id?: string }>();
       
       if (!body.name || typeof body.name !== 'string' || body.name.trim() === '') {
         return c.json({ error: 'Invalid input', message: 'Room name is required.' }, 400);
       }
 
+      // Resolve the template before creating anything, so a bad id doesn't leave a blank room behind
+      let templateShapes: Array<{ type: string; data: unknown }> | null = null;
+      if (body.template_id !== undefined) {
+        templateShapes = typeof body.template_id === 'string' ? await getCanvasTemplateShapes(c.env, body.template_id, user.id) : null;
+        if (!templateShapes) {
+          return c.json({ error: 'Not found', message: 'Template not found.' }, 404);
+        }
+      }
+
       const db = getCanvasD1DB(c.env.DB);
       // Construct data according to CreateCanvasRoomData interface
       const newRoomData: CreateCanvasRoomData = {
@@ -86,6 +265,15 @@ export const canvasRouter = new Hono<{ Bindings: Env; Variables: HonoVariables }
       // const roomStub = getCanvasRoomStub(c.env, createdRoom.id);
       // await roomStub.fetch(new Request(`https://do-dummy/init`, { method: 'POST' })); // Example init call
 
+      if (templateShapes) {
+        try {
+          const imported = await seedCanvasRoom(c.env, createdRoom.id, user.id, templateShapes);
+          return c.json({ message: 'Room created successfully', room: createdRoom, imported }, 201);
+        } catch (error) {
+          await discardUnseededCanvasRoom(c.env, createdRoom.id);
+          throw error;
+        }
+      }
       return c.json({ message: 'Room created successfully', room: createdRoom }, 201);
     } catch (error: any) {
       console.error('Error creating canvas room:', error);
@@ -93,9 +281,153 @@ export const canvasRouter = new Hono<{ Bindings: Env; Variables: HonoVariables }
     }
   })
 
+  // Create a new room seeded from an exported JSON document; the importing user owns it.
+  // The room is named after ?name=, else the document's name. Documents carry no uploaded images
+  .post('/rooms/import', async (c) => {
+    const user = c.get('user');
+    if (!user || !user.id) {
+      return c.json({ error: 'Unauthorized', message: 'Authentication required to import a canvas.' }, 401);
+    }
+
+    try {
+      const parsed = parseCanvasExportDocument(await c.req.json<unknown>());
+      if (!parsed.ok) {
+        return c.json({ error: 'Invalid input', message: parsed.error }, 400);
+      }
+      const name = c.req.query('name')?.trim() || parsed.data.name.trim() || 'Imported canvas';
+
+      const db = getCanvasD1DB(c.env.DB);
+      const room = await dbCreateCanvasRoom(db, { name, creator_id: user.id });
+
+      try {
+        const imported = await seedCanvasRoom(c.env, room.id, user.id, parsed.data.shapes);
+        return c.json({ message: 'Canvas imported successfully', room, imported }, 201);
+      } catch (error) {
+        await discardUnseededCanvasRoom(c.env, room.id);
+        throw error;
+      }
+    } catch (error: any) {
+      console.error('Error importing canvas:', error);
+      return c.json({ error: 'Failed to import canvas', message: error.message || 'Internal server error' }, 500);
+    }
+  })
+
+  // List the templates rooms can be created from: the built-in ones, the user's own and public ones
+  .get('/templates', async (c) => {
+    const user = c.get('user');
+    if (!user || !user.id) {
+      return c.json({ error: 'Unauthorized', message: 'Authentication required to list templates.' }, 401);
+    }
+
+    try {
+      const db = getCanvasD1DB(c.env.DB);
+      const saved = await dbGetCanvasTemplatesForUser(db, user.id);
+      const builtin = BUILTIN_CANVAS_TEMPLATES.map(template => ({
+        id: template.id,
+        name: template.name,
+        description: template.description,
+        creator_id: null,
+        is_public: true,
+        shape_count: template.document.shapes.length,
+        created: null,
+        builtin: true,
+      }));
+      return c.json({ templates: [...builtin, ...saved.map(template => ({ ...template, builtin: false }))] });
+    } catch (error: any) {
+      console.error('Error fetching canvas templates:', error);
+      return c.json({ error: 'Failed to fetch templates', message: error.message || 'Internal server error' }, 500);
+    }
+  })
+
+  // Delete a saved template (its creator only); rooms created from it are unaffected
+  .delete('/templates/:templateId', async (c) => {
+    const user = c.get('user');
+    if (!user || !user.id) {
+      return c.json({ error: 'Unauthorized', message: 'Authentication required to delete a template.' }, 401);
+    }
+
+    const templateId = c.req.param('templateId');
+
+    try {
+      const db = getCanvasD1DB(c.env.DB);
+      const template = await dbGetCanvasTemplateById(db, templateId);
+      if (!template) {
+        return c.json({ error: 'Not found', message: 'Template not found.' }, 404);
+      }
+      if (template.creator_id !== user.id) {
+        return c.json({ error: 'Forbidden', message: 'Only the creator can delete a template.' }, 403);
+      }
+
+      await dbDeleteCanvasTemplate(db, templateId);
+      return c.json({ message: 'Template deleted successfully' });
+    } catch (error: any) {
+      console.error(`Error deleting template ${templateId}:`, error);
+      return c.json({ error: 'Failed to delete template', message: error.message || 'Internal server error' }, 500);
+    }
+  })
+
+  // Save the current drawing of a room as a template (any member). The body takes a name, an optional
+  // description and is_public; personal templates are only offered to their creator. Uploaded images
+  // belong to the room and are left out
+  .post('/rooms/:roomId/templates', async (c) => {
+    const user = c.get('user');
+    if (!user || !user.id) {
+      return c.json({ error: 'Unauthorized', message: 'Authentication required to save a template.' }, 401);
+    }
+
+    const roomId = c.req.param('roomId');
+
+    try {
+      const body = await c.req.json<{ name?: string; description?: string; is_public?: boolean }>();
+      const name = typeof body.name === 'string' ? body.name.trim() : '';
+      if (!name || name.length > MAX_TEMPLATE_NAME_LENGTH) {
+        return c.json({ error: 'Invalid input', message: `Template name must be 1 to ${MAX_TEMPLATE_NAME_LENGTH} characters.` }, 400);
+      }
+      if (body.description !== undefined && (typeof body.description !== 'string' || body.description.length > MAX_TEMPLATE_DESCRIPTION_LENGTH)) {
+        return c.json({ error: 'Invalid input', message: `Description must be at most ${MAX_TEMPLATE_DESCRIPTION_LENGTH} characters.` }, 400);
+      }
+      if (body.is_public !== undefined && typeof body.is_public !== 'boolean') {
+        return c.json({ error: 'Invalid input', message: 'is_public must be a boolean.' }, 400);
+      }
+
+      const db = getCanvasD1DB(c.env.DB);
+      const room = await dbGetCanvasRoomById(db, roomId);
+      if (!room) {
+        return c.json({ error: 'Not found', message: 'Room not found.' }, 404);
+      }
+      if (!await dbGetUserRoleInRoom(db, room, user.id)) {
+        return c.json({ error: 'Forbidden', message: 'You are not a member of this room.' }, 403);
+      }
+
+      const shapes = (await getCanvasRoomShapes(c.env, roomId)).filter(shape => shape.type !== 'image');
+      if (shapes.length > MAX_EXPORT_SHAPES) {
+        return c.json({ error: 'Invalid input', message: `Templates can hold at most ${MAX_EXPORT_SHAPES} shapes.` }, 400);
+      }
+      const document = buildCanvasExportDocument(name, shapes);
+      const template = await dbCreateCanvasTemplate(db, {
+        name,
+        description: body.description?.trim() || null,
+        creator_id: user.id,
+        is_public: body.is_public ?? false,
+        document,
+        shape_count: document.shapes.length,
+      });
+
+      const { document: _document, ...summary } = template;
+      return c.json({ message: 'Template saved successfully', template: { ...summary, builtin: false } }, 201);
+    } catch (error: any) {
+      console.error(`Error saving room ${roomId} as a template:`, error);
+      return c.json({ error: 'Failed to save template', message: error.message || 'Internal server error' }, 500);
+    }
+  })
+
   // Get details for a specific canvas room
   .get('/rooms/:roomId', async (c) => {
-    const user = c.get('user'); // For potential permission checks
+    const user = c.get('user');
+    if (!user || !user.id) {
+      return c.json({ error: 'Unauthorized', message: 'Authentication required to view rooms.' }, 401);
+    }
+
     const roomId = c.req.param('roomId');
     if (!roomId) {
       return c.json({ error: 'Invalid input', message: 'Room ID is required.' }, 400);
@@ -108,9 +440,10 @@ export const canvasRouter = new Hono<{ Bindings: Env; Variables: HonoVariables }
       if (!room) {
         return c.json({ error: 'Not found', message: 'Room not found.' }, 404);
       }
-      
-      // TODO: Add logic to check if the user (from c.get('user')) has permission to view this room if it's private
-      // This might involve checking the canvasParticipants table.
+      // Private rooms are only visible to their members; public rooms to every signed-in user
+      if (!await dbGetUserRoleInRoom(db, room, user.id)) {
+        return c.json({ error: 'Forbidden', message: 'You are not a member of this room.' }, 403);
+      }
 
       return c.json(room);
     } catch (error: any) {
@@ -132,14 +465,23 @@ export const canvasRouter = new Hono<{ Bindings: Env; Variables: HonoVariables }
     }
 
     try {
-      const { name, description, is_public, max_participants } = await c.req.json<{
+      const body = await c.req.json<{
         name?: string;
         description?: string;
         is_public?: boolean;
         max_participants?: number;
-      }>();
+      } & { [K in keyof CanvasRoomSettings]?: unknown }>();
+      const { name, description, is_public, max_participants } = body;
+
+      // Canvas settings (background, grid, lock, tools, colors) are validated as a group
+      const canvasSettings = validateCanvasRoomSettings(body);
+      if (!canvasSettings.ok) {
+        return c.json({ error: 'Invalid input', message: canvasSettings.error }, 400);
+      }
 
-      const settingsToUpdate: Partial<Pick<CanvasRoom, 'name' | 'description' | 'is_public' | 'max_participants'>> = {};
+      const settingsToUpdate: Partial<Pick<CanvasRoom, 'name' | 'description' | 'is_public' | 'max_participants'> & CanvasRoomSettings> = {
+        ...canvasSettings.data,
+      };
       if (name !== undefined) settingsToUpdate.name = name.trim();
       if (description !== undefined) settingsToUpdate.description = description;
       if (is_public !== undefined) settingsToUpdate.is_public = is_public;
@@ -154,6 +496,9 @@ export const canvasRouter = new Hono<{ Bindings: Env; Variables: HonoVariables }
 
       const db = getCanvasD1DB(c.env.DB);
       const updatedRoom = await dbUpdateCanvasRoomSettings(db, roomId, user.id, settingsToUpdate);
+      if (Object.keys(canvasSettings.data).length > 0) {
+        await notifyCanvasRoom(c.env, roomId, '/settings', pickCanvasRoomSettings(updatedRoom));
+      }
 
       return c.json({ message: 'Room settings updated successfully', room: updatedRoom });
     } catch (error: any) {
@@ -166,12 +511,895 @@ export const canvasRouter = new Hono<{ Bindings: Env; Variables: HonoVariables }
       }
       return c.json({ error: 'Failed to update room settings', message: error.message || 'Internal server error' }, 500);
     }
+  })
+
+  // Delete a room for good: its drawing and history, uploaded files, members and invites (owners only).
+  // Connected clients are disconnected with a "Room deleted" close reason
+  .delete('/rooms/:roomId', async (c) => {
+    const user = c.get('user');
+    if (!user || !user.id) {
+      return c.json({ error: 'Unauthorized', message: 'Authentication required to delete a room.' }, 401);
+    }
+
+    const roomId = c.req.param('roomId');
+
+    try {
+      const db = getCanvasD1DB(c.env.DB);
+      const room = await dbGetCanvasRoomById(db, roomId);
+      if (!room) {
+        return c.json({ error: 'Not found', message: 'Room not found.' }, 404);
+      }
+      if (await dbGetUserRoleInRoom(db, room, user.id) !== 'owner') {
+        return c.json({ error: 'Forbidden', message: 'Only room owners can delete rooms.' }, 403);
+      }
+
+      // Wipe the drawing and files first: if that fails the room is still intact and the delete can be retried
+      await destroyCanvasRoom(c.env, roomId);
+      const assets = await dbGetCanvasAssetsByRoomId(db, roomId);
+      await getCanvasAssetStorage(c.env).delete(assets.map(asset => canvasAssetKey(roomId, asset.id)));
+      await dbDeleteCanvasRoom(db, roomId);
+
+      return c.json({ message: 'Room deleted successfully', room });
+    } catch (error: any) {
+      console.error(`Error deleting room ${roomId}:`, error);
+      return c.json({ error: 'Failed to delete room', message: error.message || 'Internal server error' }, 500);
+    }
+  })
+
+  // Archive a room (owners only). Archived rooms keep their drawing but are hidden from the room
+  // lists and can't be joined until restored; connected clients are disconnected
+  .post('/rooms/:roomId/archive', async (c) => {
+    const user = c.get('user');
+    if (!user || !user.id) {
+      return c.json({ error: 'Unauthorized', message: 'Authentication required to archive a room.' }, 401);
+    }
+
+    const roomId = c.req.param('roomId');
+
+    try {
+      const db = getCanvasD1DB(c.env.DB);
+      const room = await dbGetCanvasRoomById(db, roomId);
+      if (!room) {
+        return c.json({ error: 'Not found', message: 'Room not found.' }, 404);
+      }
+      if (await dbGetUserRoleInRoom(db, room, user.id) !== 'owner') {
+        return c.json({ error: 'Forbidden', message: 'Only room owners can archive rooms.' }, 403);
+      }
+      if (room.archived_at) {
+        return c.json({ error: 'Invalid state', message: 'Room is already archived.' }, 409);
+      }
+
+      const archivedRoom = await dbSetCanvasRoomArchived(db, roomId, true);
+      await notifyCanvasRoom(c.env, roomId, '/close', { reason: 'Room archived' });
+      return c.json({ message: 'Room archived successfully', room: archivedRoom });
+    } catch (error: any) {
+      console.error(`Error archiving room ${roomId}:`, error);
+      return c.json({ error: 'Failed to archive room', message: error.message || 'Internal server error' }, 500);
+    }
+  })
+
+  // Restore an archived room (owners only)
+  .post('/rooms/:roomId/restore', async (c) => {
+    const user = c.get('user');
+    if (!user || !user.id) {
+      return c.json({ error: 'Unauthorized', message: 'Authentication required to restore a room.' }, 401);
+    }
+
+    const roomId = c.req.param('roomId');
+
+    try {
+      const db = getCanvasD1DB(c.env.DB);
+      const room = await dbGetCanvasRoomById(db, roomId);
+      if (!room) {
+        return c.json({ error: 'Not found', message: 'Room not found.' }, 404);
+      }
+      if (await dbGetUserRoleInRoom(db, room, user.id) !== 'owner') {
+        return c.json({ error: 'Forbidden', message: 'Only room owners can restore rooms.' }, 403);
+      }
+      if (!room.archived_at) {
+        return c.json({ error: 'Invalid state', message: 'Room is not archived.' }, 409);
+      }
+
+      const restoredRoom = await dbSetCanvasRoomArchived(db, roomId, false);
+      return c.json({ message: 'Room restored successfully', room: restoredRoom });
+    } catch (error: any) {
+      console.error(`Error restoring room ${roomId}:`, error);
+      return c.json({ error: 'Failed to restore room', message: error.message || 'Internal server error' }, 500);
+    }
+  })
+
+  // Create a copy of a room with its settings and current drawing (any member); the caller owns
+  // the copy. History, members and invites are not copied
+  .post('/rooms/:roomId/duplicate', async (c) => {
+    const user = c.get('user');
+    if (!user || !user.id) {
+      return c.json({ error: 'Unauthorized', message: 'Authentication required to duplicate a room.' }, 401);
+    }
+
+    const roomId = c.req.param('roomId');
+
+    try {
+      const body = await c.req.json<{ name?: string }>().catch(() => ({} as { name?: string }));
+
+      const db = getCanvasD1DB(c.env.DB);
+      const room = await dbGetCanvasRoomById(db, roomId);
+      if (!room) {
+        return c.json({ error: 'Not found', message: 'Room not found.' }, 404);
+      }
+      if (!await dbGetUserRoleInRoom(db, room, user.id)) {
+        return c.json({ error: 'Forbidden', message: 'You are not a member of this room.' }, 403);
+      }
+
+      const shapes = await getCanvasRoomShapes(c.env, roomId);
+      const copy = await dbCreateCanvasRoom(db, {
+        name: (typeof body.name === 'string' && body.name.trim()) || `${room.name} (copy)`,
+        creator_id: user.id,
+        description: room.description,
+        is_public: room.is_public ?? undefined,
+        max_participants: room.max_participants ?? undefined,
+        settings: pickCanvasRoomSettings(room),
+      });
+      try {
+        await copyCanvasRoomAssets(c.env, roomId, copy.id, user.id, shapes);
+        const imported = await seedCanvasRoom(c.env, copy.id, user.id, shapes);
+        return c.json({ message: 'Room duplicated successfully', room: copy, imported }, 201);
+      } catch (error) {
+        await discardUnseededCanvasRoom(c.env, copy.id);
+        throw error;
+      }
+    } catch (error: any) {
+      console.error(`Error duplicating room ${roomId}:`, error);
+      return c.json({ error: 'Failed to duplicate room', message: error.message || 'Internal server error' }, 500);
+    }
+  })
+
+  // List the members of a room with their profile info (any member)
+  .get('/rooms/:roomId/participants', async (c) => {
+    const user = c.get('user');
+    if (!user || !user.id) {
+      return c.json({ error: 'Unauthorized', message: 'Authentication required to list participants.' }, 401);
+    }
+
+    const roomId = c.req.param('roomId');
+
+    try {
+      const db = getCanvasD1DB(c.env.DB);
+      const room = await dbGetCanvasRoomById(db, roomId);
+      if (!room) {
+        return c.json({ error: 'Not found', message: 'Room not found.' }, 404);
+      }
+      if (!await dbGetUserRoleInRoom(db, room, user.id)) {
+        return c.json({ error: 'Forbidden', message: 'You are not a member of this room.' }, 403);
+      }
+
+      // Rooms created before owners were recorded as participants get their owner row backfilled
+      if (!await dbGetParticipantByRoomAndUser(db, roomId, room.creator_id)) {
+        await dbAddParticipantToRoom(db, { room_id: roomId, user_id: room.creator_id, role: 'owner' });
+      }
+
+      const participants = await dbGetParticipantsWithUsersByRoomId(db, roomId);
+      return c.json(participants);
+    } catch (error: any) {
+      console.error(`Error fetching participants for room ${roomId}:`, error);
+      return c.json({ error: 'Failed to fetch participants', message: error.message || 'Internal server error' }, 500);
+    }
+  })
+
+  // Current resolved canvas state (live shapes after compaction and replay) for any member
+  .get('/rooms/:roomId/snapshot', async (c) => {
+    const user = c.get('user');
+    if (!user || !user.id) {
+      return c.json({ error: 'Unauthorized', message: 'Authentication required to view the canvas.' }, 401);
+    }
+
+    const roomId = c.req.param('roomId');
+
+    try {
+      const db = getCanvasD1DB(c.env.DB);
+      const room = await dbGetCanvasRoomById(db, roomId);
+      if (!room) {
+        return c.json({ error: 'Not found', message: 'Room not found.' }, 404);
+      }
+      if (!await dbGetUserRoleInRoom(db, room, user.id)) {
+        return c.json({ error: 'Forbidden', message: 'You are not a member of this room.' }, 403);
+      }
+
+      const stub = getCanvasRoomStub(c.env, roomId);
+      const response = await stub.fetch(new Request('https://do-dummy/snapshot'));
+      if (!response.ok) {
+        throw new Error(`Canvas room responded with status ${response.status}`);
+      }
+      return response;
+    } catch (error: any) {
+      console.error(`Error fetching snapshot for room ${roomId}:`, error);
+      return c.json({ error: 'Failed to fetch canvas snapshot', message: error.message || 'Internal server error' }, 500);
+    }
+  })
+
+  // Page through the room's event history for playback (any member). Accepts ?from=&to= timestamps
+  // (ms), ?afterSeq= to continue after the previous page and ?limit=
+  .get('/rooms/:roomId/history', async (c) => {
+    const user = c.get('user');
+    if (!user || !user.id) {
+      return c.json({ error: 'Unauthorized', message: 'Authentication required to view the canvas history.' }, 401);
+    }
+
+    const roomId = c.req.param('roomId');
+
+    try {
+      const db = getCanvasD1DB(c.env.DB);
+      const room = await dbGetCanvasRoomById(db, roomId);
+      if (!room) {
+        return c.json({ error: 'Not found', message: 'Room not found.' }, 404);
+      }
+      if (!await dbGetUserRoleInRoom(db, room, user.id)) {
+        return c.json({ error: 'Forbidden', message: 'You are not a member of this room.' }, 403);
+      }
+
+      const params = new URLSearchParams();
+      for (const name of ['from', 'to', 'afterSeq', 'limit']) {
+        const value = c.req.query(name);
+        if (value !== undefined) params.set(name, value);
+      }
+      const stub = getCanvasRoomStub(c.env, roomId);
+      return await stub.fetch(new Request(`https://do-dummy/history?${params.toString()}`));
+    } catch (error: any) {
+      console.error(`Error fetching history for room ${roomId}:`, error);
+      return c.json({ error: 'Failed to fetch canvas history', message: error.message || 'Internal server error' }, 500);
+    }
+  })
+
+  // Create a new room from the canvas as it was at a point in history (any member). The body names
+  // the point as { seq } (an event's sequence number) or { at } (timestamp in ms); the caller owns the fork
+  .post('/rooms/:roomId/fork', async (c) => {
+    const user = c.get('user');
+    if (!user || !user.id) {
+      return c.json({ error: 'Unauthorized', message: 'Authentication required to fork a room.' }, 401);
+    }
+
+    const roomId = c.req.param('roomId');
+
+    try {
+      const body = await c.req.json<{ seq?: number; at?: number; name?: string }>();
+      const point = body.seq !== undefined ? `seq=${body.seq}` : body.at !== undefined ? `at=${body.at}` : null;
+      if (point === null
+        || (body.seq !== undefined && (!Number.isInteger(body.seq) || body.seq < 0))
+        || (body.at !== undefined && (typeof body.at !== 'number' || !Number.isFinite(body.at)))) {
+        return c.json({ error: 'Invalid input', message: 'Provide a non-negative integer seq or a numeric at timestamp.' }, 400);
+      }
+
+      const db = getCanvasD1DB(c.env.DB);
+      const room = await dbGetCanvasRoomById(db, roomId);
+      if (!room) {
+        return c.json({ error: 'Not found', message: 'Room not found.' }, 404);
+      }
+      if (!await dbGetUserRoleInRoom(db, room, user.id)) {
+        return c.json({ error: 'Forbidden', message: 'You are not a member of this room.' }, 403);
+      }
+
+      const stub = getCanvasRoomStub(c.env, roomId);
+      const response = await stub.fetch(new Request(`https://do-dummy/snapshot-at?${point}`));
+      if (!response.ok) {
+        throw new Error(`Canvas room responded with status ${response.status}`);
+      }
+      const snapshot = await response.json() as { seq: number; shapes: ExportableCanvasShape[] };
+
+      const name = body.name?.trim() || `${room.name} (fork)`;
+      const fork = await dbCreateCanvasRoom(db, { name, creator_id: user.id, description: room.description });
+      try {
+        await copyCanvasRoomAssets(c.env, roomId, fork.id, user.id, snapshot.shapes);
+        const imported = await seedCanvasRoom(c.env, fork.id, user.id, snapshot.shapes);
+        return c.json({ message: 'Room forked successfully', room: fork, seq: snapshot.seq, imported }, 201);
+      } catch (error) {
+        await discardUnseededCanvasRoom(c.env, fork.id);
+        throw error;
+      }
+    } catch (error: any) {
+      console.error(`Error forking room ${roomId}:`, error);
+      return c.json({ error: 'Failed to fork room', message: error.message || 'Internal server error' }, 500);
+    }
+  })
+
+  // Upload an image for the canvas (editors and owners). The body is the raw file with its type as
+  // Content-Type and an optional ?name=; image shapes then reference the returned asset id
+  .post('/rooms/:roomId/assets', async (c) => {
+    const user = c.get('user');
+    if (!user || !user.id) {
+      return c.json({ error: 'Unauthorized', message: 'Authentication required to upload files.' }, 401);
+    }
+
+    const roomId = c.req.param('roomId');
+    const contentType = c.req.header('Content-Type')?.split(';')[0].trim().toLowerCase();
+    if (!isCanvasAssetType(contentType)) {
+      return c.json({ error: 'Invalid input', message: 'Only PNG, JPEG, GIF and WebP images can be uploaded.' }, 415);
+    }
+    const declaredSize = Number(c.req.header('Content-Length'));
+    if (declaredSize > CANVAS_ASSET_LIMITS.maxBytes) {
+      return c.json({ error: 'Invalid input', message: `Files can be at most ${CANVAS_ASSET_LIMITS.maxBytes / (1024 * 1024)} MB.` }, 413);
+    }
+
+    try {
+      const db = getCanvasD1DB(c.env.DB);
+      const room = await dbGetCanvasRoomById(db, roomId);
+      if (!room) {
+        return c.json({ error: 'Not found', message: 'Room not found.' }, 404);
+      }
+      const role = await dbGetUserRoleInRoom(db, room, user.id);
+      if (role !== 'owner' && role !== 'editor') {
+        return c.json({ error: 'Forbidden', message: 'Only editors and owners can upload files.' }, 403);
+      }
+      if (room.archived_at) {
+        return c.json({ error: 'Invalid state', message: 'This room is archived.' }, 409);
+      }
+      if (await dbCountCanvasAssets(db, roomId) >= CANVAS_ASSET_LIMITS.maxAssetsPerRoom) {
+        return c.json({ error: 'Limit reached', message: `Rooms can hold at most ${CANVAS_ASSET_LIMITS.maxAssetsPerRoom} files.` }, 409);
+      }
+
+      const body = await c.req.arrayBuffer();
+      if (body.byteLength === 0 || body.byteLength > CANVAS_ASSET_LIMITS.maxBytes) {
+        return c.json({ error: 'Invalid input', message: `Files must be between 1 byte and ${CANVAS_ASSET_LIMITS.maxBytes / (1024 * 1024)} MB.` }, 413);
+      }
+      if (sniffCanvasAssetType(new Uint8Array(body, 0, Math.min(body.byteLength, 16))) !== contentType) {
+        return c.json({ error: 'Invalid input', message: 'The file content does not match its type.' }, 415);
+      }
+
+      const name = c.req.query('name')?.trim().slice(0, 255) || null;
+      const assetId = crypto.randomUUID();
+      await getCanvasAssetStorage(c.env).put(canvasAssetKey(roomId, assetId), body, contentType);
+      const asset = await dbCreateCanvasAsset(db, {
+        id: assetId,
+        room_id: roomId,
+        uploader_id: user.id,
+        content_type: contentType,
+        size: body.byteLength,
+        name,
+        created: new Date(),
+      });
+
+      return c.json({ message: 'File uploaded successfully', asset: { ...asset, url: canvasAssetPath(roomId, assetId) } }, 201);
+    } catch (error: any) {
+      console.error(`Error uploading a file to room ${roomId}:`, error);
+      return c.json({ error: 'Failed to upload file', message: error.message || 'Internal server error' }, 500);
+    }
+  })
+
+  // Download an uploaded file (any member)
+  .get('/rooms/:roomId/assets/:assetId', async (c) => {
+    const user = c.get('user');
+    if (!user || !user.id) {
+      return c.json({ error: 'Unauthorized', message: 'Authentication required to download files.' }, 401);
+    }
+
+    const roomId = c.req.param('roomId');
+    const assetId = c.req.param('assetId');
+    if (!isCanvasAssetId(assetId)) {
+      return c.json({ error: 'Not found', message: 'File not found.' }, 404);
+    }
+
+    try {
+      const db = getCanvasD1DB(c.env.DB);
+      const room = await dbGetCanvasRoomById(db, roomId);
+      if (!room) {
+        return c.json({ error: 'Not found', message: 'Room not found.' }, 404);
+      }
+      if (!await dbGetUserRoleInRoom(db, room, user.id)) {
+        return c.json({ error: 'Forbidden', message: 'You are not a member of this room.' }, 403);
+      }
+
+      const asset = await dbGetCanvasAsset(db, roomId, assetId);
+      const object = asset && await getCanvasAssetStorage(c.env).get(canvasAssetKey(roomId, assetId));
+      if (!asset || !object) {
+        return c.json({ error: 'Not found', message: 'File not found.' }, 404);
+      }
+
+      return c.body(object.body, 200, {
+        'Content-Type': asset.content_type,
+        'Content-Length': String(object.size),
+        'X-Content-Type-Options': 'nosniff',
+        'Cache-Control': 'private, max-age=3600', // Asset ids are never reused for other content
+      });
+    } catch (error: any) {
+      console.error(`Error downloading file ${assetId} of room ${roomId}:`, error);
+      return c.json({ error: 'Failed to download file', message: error.message || 'Internal server error' }, 500);
+    }
+  })
+
+  // Export the current drawing as ?format=svg (default) or json, for any member. JSON leaves out images.
+  // SVG exports take an optional ?background= hex color; otherwise they are transparent
+  .get('/rooms/:roomId/export', async (c) => {
+    const user = c.get('user');
+    if (!user || !user.id) {
+      return c.json({ error: 'Unauthorized', message: 'Authentication required to export the canvas.' }, 401);
+    }
+
+    const roomId = c.req.param('roomId');
+    const format = c.req.query('format') ?? 'svg';
+    if (format !== 'svg' && format !== 'json') {
+      return c.json({ error: 'Invalid input', message: 'format must be "svg" or "json".' }, 400);
+    }
+    const background = c.req.query('background');
+    if (background !== undefined && !HEX_COLOR_PATTERN.test(background)) {
+      return c.json({ error: 'Invalid input', message: 'background must be a hex color.' }, 400);
+    }
+
+    try {
+      const db = getCanvasD1DB(c.env.DB);
+      const room = await dbGetCanvasRoomById(db, roomId);
+      if (!room) {
+        return c.json({ error: 'Not found', message: 'Room not found.' }, 404);
+      }
+      if (!await dbGetUserRoleInRoom(db, room, user.id)) {
+        return c.json({ error: 'Forbidden', message: 'You are not a member of this room.' }, 403);
+      }
+
+      const shapes = await getCanvasRoomShapes(c.env, roomId);
+      const disposition = `attachment; filename="${canvasExportFileName(room.name, format)}"`;
+      if (format === 'json') {
+        return c.body(JSON.stringify(buildCanvasExportDocument(room.name, shapes)), 200, {
+          'Content-Type': 'application/json; charset=utf-8',
+          'Content-Disposition': disposition,
+        });
+      }
+      return c.body(renderCanvasSvg(shapes, { background }), 200, {
+        'Content-Type': 'image/svg+xml; charset=utf-8',
+        'Content-Disposition': disposition,
+      });
+    } catch (error: any) {
+      console.error(`Error exporting room ${roomId}:`, error);
+      return c.json({ error: 'Failed to export canvas', message: error.message || 'Internal server error' }, 500);
+    }
+  })
+
+  // Change a member's role, or transfer ownership by assigning "owner" (owners only)
+  .patch('/rooms/:roomId/participants/:userId', async (c) => {
+    const user = c.get('user');
+    if (!user || !user.id) {
+      return c.json({ error: 'Unauthorized', message: 'Authentication required to update participants.' }, 401);
+    }
+
+    const roomId = c.req.param('roomId');
+    const targetUserId = c.req.param('userId');
+
+    try {
+      const { role } = await c.req.json<{ role?: string }>();
+      if (role !== 'owner' && role !== 'editor' && role !== 'viewer') {
+        return c.json({ error: 'Invalid input', message: 'Role must be "owner", "editor" or "viewer".' }, 400);
+      }
+
+      const db = getCanvasD1DB(c.env.DB);
+      const room = await dbGetCanvasRoomById(db, roomId);
+      if (!room) {
+        return c.json({ error: 'Not found', message: 'Room not found.' }, 404);
+      }
+      if (await dbGetUserRoleInRoom(db, room, user.id) !== 'owner') {
+        return c.json({ error: 'Forbidden', message: 'Only room owners can change roles.' }, 403);
+      }
+      if (targetUserId === room.creator_id) {
+        return c.json({ error: 'Invalid input', message: 'Transfer ownership to another member to change the owner\'s role.' }, 400);
+      }
+      if (!await dbGetParticipantByRoomAndUser(db, roomId, targetUserId)) {
+        return c.json({ error: 'Not found', message: 'Participant not found.' }, 404);
+      }
+
+      if (role === 'owner') {
+        // Make sure the outgoing owner has a row to demote
+        if (!await dbGetParticipantByRoomAndUser(db, roomId, room.creator_id)) {
+          await dbAddParticipantToRoom(db, { room_id: roomId, user_id: room.creator_id, role: 'owner' });
+        }
+        const updatedRoom = await dbTransferRoomOwnership(db, roomId, room.creator_id, targetUserId);
+        await notifyCanvasRoom(c.env, roomId, '/participants/role', { userId: targetUserId, role: 'owner' });
+        await notifyCanvasRoom(c.env, roomId, '/participants/role', { userId: room.creator_id, role: 'editor' });
+        return c.json({ message: 'Ownership transferred successfully', room: updatedRoom });
+      }
+
+      const participant = await dbUpdateParticipantRole(db, roomId, targetUserId, role);
+      await notifyCanvasRoom(c.env, roomId, '/participants/role', { userId: targetUserId, role });
+      return c.json({ message: 'Participant role updated successfully', participant });
+    } catch (error: any) {
+      console.error(`Error updating participant ${targetUserId} in room ${roomId}:`, error);
+      return c.json({ error: 'Failed to update participant', message: error.message || 'Internal server error' }, 500);
+    }
+  })
+
+  // Remove a member (owners), or leave the room (any non-owner member removing themselves)
+  .delete('/rooms/:roomId/participants/:userId', async (c) => {
+    const user = c.get('user');
+    if (!user || !user.id) {
+      return c.json({ error: 'Unauthorized', message: 'Authentication required to remove participants.' }, 401);
+    }
+
+    const roomId = c.req.param('roomId');
+    const targetUserId = c.req.param('userId');
+
+    try {
+      const db = getCanvasD1DB(c.env.DB);
+      const room = await dbGetCanvasRoomById(db, roomId);
+      if (!room) {
+        return c.json({ error: 'Not found', message: 'Room not found.' }, 404);
+      }
+      if (targetUserId === room.creator_id) {
+        return c.json({ error: 'Invalid input', message: 'The owner cannot be removed. Transfer ownership first.' }, 400);
+      }
+      if (targetUserId !== user.id && await dbGetUserRoleInRoom(db, room, user.id) !== 'owner') {
+        return c.json({ error: 'Forbidden', message: 'Only room owners can remove other members.' }, 403);
+      }
+
+      const participant = await dbRemoveParticipantFromRoom(db, roomId, targetUserId);
+      if (!participant) {
+        return c.json({ error: 'Not found', message: 'Participant not found.' }, 404);
+      }
+
+      await notifyCanvasRoom(c.env, roomId, '/participants/kick', { userId: targetUserId, reason: 'Removed from room' });
+      return c.json({ message: 'Participant removed successfully', participant });
+    } catch (error: any) {
+      console.error(`Error removing participant ${targetUserId} from room ${roomId}:`, error);
+      return c.json({ error: 'Failed to remove participant', message: error.message || 'Internal server error' }, 500);
+    }
+  })
+
+  // Create an invite link for a room (owners only)
+  .post('/rooms/:roomId/invites', async (c) => {
+    const user = c.get('user');
+    if (!user || !user.id) {
+      return c.json({ error: 'Unauthorized', message: 'Authentication required to create invites.' }, 401);
+    }
+
+    const roomId = c.req.param('roomId');
+    if (!roomId) {
+      return c.json({ error: 'Invalid input', message: 'Room ID is required.' }, 400);
+    }
+
+    try {
+      const body = await c.req.json<{ email?: string | null; role?: string; expires_in_hours?: number }>();
+
+      const role = body.role ?? 'viewer';
+      if (role !== 'editor' && role !== 'viewer') {
+        return c.json({ error: 'Invalid input', message: 'Invite role must be "editor" or "viewer".' }, 400);
+      }
+
+      const expiresInHours = body.expires_in_hours ?? DEFAULT_INVITE_EXPIRY_HOURS;
+      if (typeof expiresInHours !== 'number' || !Number.isFinite(expiresInHours) || expiresInHours <= 0 || expiresInHours > MAX_INVITE_EXPIRY_HOURS) {
+        return c.json({ error: 'Invalid input', message: `expires_in_hours must be between 0 and ${MAX_INVITE_EXPIRY_HOURS}.` }, 400);
+      }
+
+      let email: string | null = null;
+      if (body.email !== undefined && body.email !== null && body.email.trim() !== '') {
+        email = body.email.trim().toLowerCase();
+        if (!/^[^\s@]+@[^\s@]+$/.test(email)) {
+          return c.json({ error: 'Invalid input', message: 'Invalid email address.' }, 400);
+        }
+      }
+
+      const db = getCanvasD1DB(c.env.DB);
+      const room = await dbGetCanvasRoomById(db, roomId);
+      if (!room) {
+        return c.json({ error: 'Not found', message: 'Room not found.' }, 404);
+      }
+      if (await dbGetUserRoleInRoom(db, room, user.id) !== 'owner') {
+        return c.json({ error: 'Forbidden', message: 'Only room owners can create invites.' }, 403);
+      }
+
+      const invite = await dbCreateCanvasInvite(db, {
+        room_id: roomId,
+        created_by_user_id: user.id,
+        expires: new Date(Date.now() + expiresInHours * 60 * 60 * 1000),
+        email,
+        role,
+      });
+
+      return c.json({ message: 'Invite created successfully', invite }, 201);
+    } catch (error: any) {
+      console.error(`Error creating invite for room ${roomId}:`, error);
+      return c.json({ error: 'Failed to create invite', message: error.message || 'Internal server error' }, 500);
+    }
+  })
+
+  // List invites for a room (owners only)
+  .get('/rooms/:roomId/invites', async (c) => {
+    const user = c.get('user');
+    if (!user || !user.id) {
+      return c.json({ error: 'Unauthorized', message: 'Authentication required to list invites.' }, 401);
+    }
+
+    const roomId = c.req.param('roomId');
+    if (!roomId) {
+      return c.json({ error: 'Invalid input', message: 'Room ID is required.' }, 400);
+    }
+
+    try {
+      const db = getCanvasD1DB(c.env.DB);
+      const room = await dbGetCanvasRoomById(db, roomId);
+      if (!room) {
+        return c.json({ error: 'Not found', message: 'Room not found.' }, 404);
+      }
+      if (await dbGetUserRoleInRoom(db, room, user.id) !== 'owner') {
+        return c.json({ error: 'Forbidden', message: 'Only room owners can view invites.' }, 403);
+      }
+
+      const invites = await dbGetCanvasInvitesByRoomId(db, roomId);
+      return c.json(invites);
+    } catch (error: any) {
+      console.error(`Error fetching invites for room ${roomId}:`, error);
+      return c.json({ error: 'Failed to fetch invites', message: error.message || 'Internal server error' }, 500);
+    }
+  })
+
+  // Revoke a pending invite (owners only)
+  .delete('/rooms/:roomId/invites/:inviteId', async (c) => {
+    const user = c.get('user');
+    if (!user || !user.id) {
+      return c.json({ error: 'Unauthorized', message: 'Authentication required to revoke invites.' }, 401);
+    }
+
+    const roomId = c.req.param('roomId');
+    const inviteId = c.req.param('inviteId');
+
+    try {
+      const db = getCanvasD1DB(c.env.DB);
+      const room = await dbGetCanvasRoomById(db, roomId);
+      if (!room) {
+        return c.json({ error: 'Not found', message: 'Room not found.' }, 404);
+      }
+      if (await dbGetUserRoleInRoom(db, room, user.id) !== 'owner') {
+        return c.json({ error: 'Forbidden', message: 'Only room owners can revoke invites.' }, 403);
+      }
+
+      const invite = await dbGetCanvasInviteById(db, inviteId);
+      if (!invite || invite.room_id !== roomId) {
+        return c.json({ error: 'Not found', message: 'Invite not found.' }, 404);
+      }
+      if (invite.status !== 'pending') {
+        return c.json({ error: 'Invalid state', message: `Invite is already ${invite.status}.` }, 409);
+      }
+
+      const revokedInvite = await dbUpdateCanvasInviteStatus(db, inviteId, 'revoked');
+      return c.json({ message: 'Invite revoked successfully', invite: revokedInvite });
+    } catch (error: any) {
+      console.error(`Error revoking invite ${inviteId} for room ${roomId}:`, error);
+      return c.json({ error: 'Failed to revoke invite', message: error.message || 'Internal server error' }, 500);
+    }
+  })
+
+  // The room's view-only share link, or null if it has none (owners only)
+  .get('/rooms/:roomId/share', async (c) => {
+    const user = c.get('user');
+    if (!user || !user.id) {
+      return c.json({ error: 'Unauthorized', message: 'Authentication required to view the share link.' }, 401);
+    }
+
+    const roomId = c.req.param('roomId');
+
+    try {
+      const db = getCanvasD1DB(c.env.DB);
+      const room = await dbGetCanvasRoomById(db, roomId);
+      if (!room) {
+        return c.json({ error: 'Not found', message: 'Room not found.' }, 404);
+      }
+      if (await dbGetUserRoleInRoom(db, room, user.id) !== 'owner') {
+        return c.json({ error: 'Forbidden', message: 'Only room owners can view the share link.' }, 403);
+      }
+
+      const link = await dbGetCanvasShareLinkByRoomId(db, roomId);
+      return c.json({ share_link: link ?? null });
+    } catch (error: any) {
+      console.error(`Error fetching share link for room ${roomId}:`, error);
+      return c.json({ error: 'Failed to fetch share link', message: error.message || 'Internal server error' }, 500);
+    }
+  })
+
+  // Create the room's share link, or rotate it to a new token (owners only). Guests watching through
+  // the previous link are disconnected
+  .post('/rooms/:roomId/share', async (c) => {
+    const user = c.get('user');
+    if (!user || !user.id) {
+      return c.json({ error: 'Unauthorized', message: 'Authentication required to share rooms.' }, 401);
+    }
+
+    const roomId = c.req.param('roomId');
+
+    try {
+      const body = await c.req.json<{ expires_in_hours?: number | null }>().catch(() => ({} as { expires_in_hours?: number | null }));
+
+      const expiresInHours = body.expires_in_hours ?? null;
+      if (expiresInHours !== null && (typeof expiresInHours !== 'number' || !Number.isFinite(expiresInHours) || expiresInHours <= 0 || expiresInHours > MAX_SHARE_LINK_EXPIRY_HOURS)) {
+        return c.json({ error: 'Invalid input', message: `expires_in_hours must be null or between 0 and ${MAX_SHARE_LINK_EXPIRY_HOURS}.` }, 400);
+      }
+
+      const db = getCanvasD1DB(c.env.DB);
+      const room = await dbGetCanvasRoomById(db, roomId);
+      if (!room) {
+        return c.json({ error: 'Not found', message: 'Room not found.' }, 404);
+      }
+      if (await dbGetUserRoleInRoom(db, room, user.id) !== 'owner') {
+        return c.json({ error: 'Forbidden', message: 'Only room owners can share rooms.' }, 403);
+      }
+
+      const previous = await dbGetCanvasShareLinkByRoomId(db, roomId);
+      const link = await dbUpsertCanvasShareLink(
+        db,
+        roomId,
+        user.id,
+        expiresInHours !== null ? new Date(Date.now() + expiresInHours * 60 * 60 * 1000) : null
+      );
+      if (previous) {
+        await notifyCanvasRoom(c.env, roomId, '/share/close', { reason: 'The share link was replaced' });
+      }
+
+      return c.json({ message: previous ? 'Share link rotated successfully' : 'Share link created successfully', share_link: link }, previous ? 200 : 201);
+    } catch (error: any) {
+      console.error(`Error creating share link for room ${roomId}:`, error);
+      return c.json({ error: 'Failed to create share link', message: error.message || 'Internal server error' }, 500);
+    }
+  })
+
+  // Revoke the room's share link and disconnect its guests (owners only)
+  .delete('/rooms/:roomId/share', async (c) => {
+    const user = c.get('user');
+    if (!user || !user.id) {
+      return c.json({ error: 'Unauthorized', message: 'Authentication required to revoke the share link.' }, 401);
+    }
+
+    const roomId = c.req.param('roomId');
+
+    try {
+      const db = getCanvasD1DB(c.env.DB);
+      const room = await dbGetCanvasRoomById(db, roomId);
+      if (!room) {
+        return c.json({ error: 'Not found', message: 'Room not found.' }, 404);
+      }
+      if (await dbGetUserRoleInRoom(db, room, user.id) !== 'owner') {
+        return c.json({ error: 'Forbidden', message: 'Only room owners can revoke the share link.' }, 403);
+      }
+
+      if (!await dbDeleteCanvasShareLink(db, roomId)) {
+        return c.json({ error: 'Not found', message: 'This room has no share link.' }, 404);
+      }
+      await notifyCanvasRoom(c.env, roomId, '/share/close', { reason: 'The share link was revoked' });
+
+      return c.json({ message: 'Share link revoked successfully' });
+    } catch (error: any) {
+      console.error(`Error revoking share link for room ${roomId}:`, error);
+      return c.json({ error: 'Failed to revoke share link', message: error.message || 'Internal server error' }, 500);
+    }
+  })
+
+  // The room behind a share link, for guests who aren't signed in
+  .get('/share/:token', async (c) => {
+    const token = c.req.param('token');
+
+    try {
+      const db = getCanvasD1DB(c.env.DB);
+      const link = await dbGetActiveCanvasShareLinkByToken(db, token);
+      const room = link && await dbGetCanvasRoomById(db, link.room_id);
+      if (!link || !room) {
+        return c.json({ error: 'Not found', message: 'This share link is invalid or has expired.' }, 404);
+      }
+      if (room.archived_at) {
+        return c.json({ error: 'Gone', message: 'This room is archived.' }, 410);
+      }
+
+      return c.json({
+        room: { id: room.id, name: room.name, description: room.description },
+        expires: link.expires,
+      });
+    } catch (error: any) {
+      console.error('Error fetching share link:', error);
+      return c.json({ error: 'Failed to fetch share link', message: error.message || 'Internal server error' }, 500);
+    }
+  })
+
+  // Download an uploaded file of a shared room, for guests who aren't signed in
+  .get('/share/:token/assets/:assetId', async (c) => {
+    const token = c.req.param('token');
+    const assetId = c.req.param('assetId');
+    if (!isCanvasAssetId(assetId)) {
+      return c.json({ error: 'Not found', message: 'File not found.' }, 404);
+    }
+
+    try {
+      const db = getCanvasD1DB(c.env.DB);
+      const link = await dbGetActiveCanvasShareLinkByToken(db, token);
+      const room = link && await dbGetCanvasRoomById(db, link.room_id);
+      if (!link || !room || room.archived_at) {
+        return c.json({ error: 'Not found', message: 'This share link is invalid or has expired.' }, 404);
+      }
+
+      const asset = await dbGetCanvasAsset(db, room.id, assetId);
+      const object = asset && await getCanvasAssetStorage(c.env).get(canvasAssetKey(room.id, assetId));
+      if (!asset || !object) {
+        return c.json({ error: 'Not found', message: 'File not found.' }, 404);
+      }
+
+      return c.body(object.body, 200, {
+        'Content-Type': asset.content_type,
+        'Content-Length': String(object.size),
+        'X-Content-Type-Options': 'nosniff',
+        'Cache-Control': 'private, max-age=3600',
+      });
+    } catch (error: any) {
+      console.error(`Error downloading shared file ${assetId}:`, error);
+      return c.json({ error: 'Failed to download file', message: error.message || 'Internal server error' }, 500);
+    }
+  })
+
+  // Preview an invite before accepting it
+  .get('/invites/:token', async (c) => {
+    const user = c.get('user');
+    if (!user || !user.id) {
+      return c.json({ error: 'Unauthorized', message: 'Authentication required to view invites.' }, 401);
+    }
+
+    const token = c.req.param('token');
+
+    try {
+      const db = getCanvasD1DB(c.env.DB);
+      const invite = await dbGetCanvasInviteByToken(db, token);
+      if (!invite) {
+        return c.json({ error: 'Not found', message: 'Invite not found.' }, 404);
+      }
+      const room = await dbGetCanvasRoomById(db, invite.room_id);
+      if (!room) {
+        return c.json({ error: 'Not found', message: 'Room not found.' }, 404);
+      }
+
+      return c.json({
+        room: { id: room.id, name: room.name, description: room.description },
+        role: invite.role,
+        email: invite.email,
+        status: invite.status === 'pending' && invite.expires.getTime() <= Date.now() ? 'expired' : invite.status,
+        expires: invite.expires,
+      });
+    } catch (error: any) {
+      console.error('Error fetching invite:', error);
+      return c.json({ error: 'Failed to fetch invite', message: error.message || 'Internal server error' }, 500);
+    }
+  })
+
+  // Accept an invite and join the room
+  .post('/invites/:token/accept', async (c) => {
+    const user = c.get('user');
+    if (!user || !user.id) {
+      return c.json({ error: 'Unauthorized', message: 'Authentication required to accept invites.' }, 401);
+    }
+
+    const token = c.req.param('token');
+
+    try {
+      const db = getCanvasD1DB(c.env.DB);
+      const invite = await dbGetCanvasInviteByToken(db, token);
+      if (!invite) {
+        return c.json({ error: 'Not found', message: 'Invite not found.' }, 404);
+      }
+      if (invite.status !== 'pending') {
+        return c.json({ error: 'Invite unavailable', message: `This invite has been ${invite.status}.` }, 410);
+      }
+      if (invite.expires.getTime() <= Date.now()) {
+        await dbUpdateCanvasInviteStatus(db, invite.id, 'expired');
+        return c.json({ error: 'Invite unavailable', message: 'This invite has expired.' }, 410);
+      }
+      if (invite.email && invite.email.toLowerCase() !== String(user.email ?? '').toLowerCase()) {
+        return c.json({ error: 'Forbidden', message: 'This invite was issued for a different email address.' }, 403);
+      }
+
+      const room = await dbGetCanvasRoomById(db, invite.room_id);
+      if (!room) {
+        return c.json({ error: 'Not found', message: 'Room not found.' }, 404);
+      }
+
+      // Existing members (including the creator) keep their current role
+      const existingParticipant = await dbGetParticipantByRoomAndUser(db, room.id, user.id);
+      if (!existingParticipant && room.creator_id !== user.id) {
+        await dbAddParticipantToRoom(db, { room_id: room.id, user_id: user.id, role: invite.role });
+      }
+
+      await dbUpdateCanvasInviteStatus(db, invite.id, 'accepted', new Date());
+
+      return c.json({ message: 'Invite accepted successfully', room });
+    } catch (error: any) {
+      console.error('Error accepting invite:', error);
+      return c.json({ error: 'Failed to accept invite', message: error.message || 'Internal server error' }, 500);
+    }
   });
 
 // TODO: Add more routes as needed:
-// - GET /rooms (list rooms, with pagination and filtering, check user permissions)
 // - PUT /rooms/:roomId (update room settings, requires owner/admin privileges)
-// - DELETE /rooms/:roomId (delete a room, requires owner privileges)
-// - POST /rooms/:roomId/participants (add a participant)
-// - DELETE /rooms/:roomId/participants/:userId (remove a participant)
-// - POST /rooms/:roomId/invites (create an invitation link/email) 
\ No newline at end of file
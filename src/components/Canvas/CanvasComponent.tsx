@@ -1,54 +1,215 @@
-import { createEffect, createSignal, on, onCleanup, onMount, type Accessor } from 'solid-js';
-import type { CanvasEvent, CursorData, OtherUserCursor } from '~/hooks/useCanvasWebSocket'; // Assuming types are exported or moved
+import { createEffect, createSignal, For, on, onCleanup, onMount, Show, type Accessor } from 'solid-js';
+import type { CanvasEvent, LiveStroke, OtherUserCursor, PresenceViewport } from '~/hooks/useCanvasWebSocket';
+import { isToolAllowed, snapToGrid, type CanvasRoomSettings, type CanvasTool } from '~/lib/canvas-settings';
 import { Button } from '~/components/ui/button';
 import { Icon } from '~/components/ui/icon';
 import { Tooltip, TooltipContent, TooltipTrigger } from '~/components/ui/tooltip';
+import type { IconName } from '~/components/ui/icon';
+import {
+  boundsContain,
+  getShapeBounds,
+  STICKY_NOTE_PADDING,
+  STICKY_NOTE_TEXT_COLOR,
+  TEXT_LINE_HEIGHT,
+  type BoxShapeData,
+  type CanvasPoint,
+  type DeleteData,
+  type ImageShapeData,
+  type LineShapeData,
+  type PathData,
+  type PathPoint,
+  type StickyNoteData,
+  type TextData,
+  type TransformData,
+} from '~/lib/canvas-shapes';
+import type { CommentAnchor } from '~/lib/canvas-comments';
+import { CANVAS_ASSET_LIMITS, canvasAssetPath, collectCanvasAssetIds, isCanvasAssetType } from '~/lib/canvas-assets';
+import { drawBackgroundPattern, drawCanvasShape, drawPathShape } from './drawShapes';
+import { canvasImagesVersion, loadCanvasImages, registerCanvasImage } from './canvasImages';
+import { Minimap } from './Minimap';
+import {
+  applyTransformToShape,
+  drawMarquee,
+  drawSelectionOverlay,
+  findResizeHandle,
+  findShapeAt,
+  getDragTransform,
+  getSelectionBounds,
+  isIdentityTransform,
+  marqueeBounds,
+  type SelectDrag,
+} from './selection';
+import {
+  applyViewportTransform,
+  centerOn,
+  DEFAULT_VIEWPORT,
+  fitBounds,
+  MAX_ZOOM,
+  MIN_ZOOM,
+  panBy,
+  screenToWorld,
+  visibleBounds,
+  worldToScreen,
+  zoomAt,
+  type Viewport,
+} from './viewport';
 
 // Re-define or import types if they are not accessible here
 // For simplicity, ensure CanvasEvent is available, e.g., from the hook's export or a shared types file.
 
 interface CanvasComponentProps {
-  events: CanvasEvent[];
+  events: CanvasEvent[]; // Live shapes in draw order, already resolved from the event history
   userColor: string | null;
   clientId: string;
   onDraw: (event: CanvasEvent) => void;
-  onCursorMove: (position: CursorData) => void;
+  onCursorMove: (position: CanvasPoint) => void;
   otherUserCursors: Record<string, OtherUserCursor>;
   roomId: string;
+  readOnly?: boolean; // Viewers can watch and move their cursor but not draw
+  canUndo?: boolean;
+  canRedo?: boolean;
+  canClear?: boolean; // Only owners may clear the canvas
+  onUndo?: () => void;
+  onRedo?: () => void;
+  onViewportChange?: (viewport: PresenceViewport) => void; // Our view, shared with followers
+  followViewport?: PresenceViewport | null; // View of the participant being followed, mirrored while set
+  onStopFollowing?: () => void; // Set while following someone; called when the user pans or zooms
+  liveStrokes?: LiveStroke[]; // Strokes other participants are drawing right now
+  onStrokePoints?: (strokeId: string, lineWidth: number, points: PathPoint[]) => void; // Streams our stroke as it's drawn
+  onStrokeEnd?: (strokeId: string, cancelled: boolean) => void; // Called before the finished path is sent with onDraw
+  settings?: CanvasRoomSettings; // Room background, grid snapping and allowed tools
+  onCommentPlace?: (anchor: CommentAnchor) => void; // Enables the comment tool, also for viewers
+  commentPins?: CommentPin[];
+  onCommentPinClick?: (threadId: string) => void;
+  centerRequest?: CanvasPoint | null; // Jumps the view to this world point whenever a new object is passed
+  onImageUpload?: (file: File) => Promise<string>; // Stores an image file and resolves to its asset id; enables the image tool
+  assetPath?: (assetId: string) => string; // Where images are downloaded from; the members' asset route by default
 }
 
+// A comment thread's marker on the canvas
+export interface CommentPin {
+  id: string;
+  point: CanvasPoint; // World position, see resolveCommentAnchor
+  count: number; // Comments in the thread
+  active: boolean; // Open in the sidebar
+  highlighted: boolean; // Mentions the current user
+}
+
+export type { CanvasTool };
+
+// The comment tool isn't a room setting: anyone in the room may comment
+type ActiveTool = CanvasTool | 'comment';
+
+// Tools that create a shape by dragging from one corner/end to the other
+type DragShapeTool = 'rect' | 'ellipse' | 'line' | 'arrow';
+
+const TOOL_BUTTONS: Array<{ tool: CanvasTool; icon: IconName; label: string }> = [
+  { tool: 'select', icon: 'pointer', label: 'Select (drag to move, corners to resize, Delete to remove)' },
+  { tool: 'pen', icon: 'pen', label: 'Pen' },
+  { tool: 'eraser', icon: 'eraser', label: 'Eraser (removes whole objects)' },
+  { tool: 'rect', icon: 'square', label: 'Rectangle' },
+  { tool: 'ellipse', icon: 'circle', label: 'Ellipse' },
+  { tool: 'line', icon: 'line', label: 'Line' },
+  { tool: 'arrow', icon: 'arrow', label: 'Arrow' },
+  { tool: 'text', icon: 'type', label: 'Text' },
+  { tool: 'sticky', icon: 'stickynote', label: 'Sticky note' },
+  { tool: 'image', icon: 'image', label: 'Image (click to place, or drop or paste a file)' },
+];
+
+const STROKE_WIDTHS = [1, 2, 4, 8, 16];
+const FONT_SIZES = [12, 16, 20, 28, 40, 64];
+const STICKY_COLORS = ['#fef08a', '#fbcfe8', '#bbf7d0', '#bfdbfe', '#fed7aa'];
+const STICKY_NOTE_SIZE = { width: 200, height: 160 }; // New notes, in world units
+const MAX_IMAGE_SIZE = 600; // Longest side of a newly placed image, in world units
+const IMAGE_DROP_OFFSET = 24; // Spacing between several images dropped at once, in world units
+// Screen-space sizes below are divided by the zoom level before being compared with world coordinates
+const HIT_TOLERANCE = 4; // Reach of the select tool around thin shapes, in px
+const ERASER_TOLERANCE = 8; // Extra reach of the object eraser, in px
+const MIN_SHAPE_SIZE = 2; // Drags smaller than this (in px) are treated as clicks and create nothing
+const ZOOM_STEP = 1.2; // Zoom factor of the zoom buttons and keyboard shortcuts
+const WHEEL_ZOOM_SENSITIVITY = 0.0015; // Zoom factor per pixel of wheel delta
+
+const isDragShapeTool = (tool: ActiveTool): tool is DragShapeTool =>
+  tool === 'rect' || tool === 'ellipse' || tool === 'line' || tool === 'arrow';
+
 export function CanvasComponent(props: CanvasComponentProps) {
   let canvasRef!: HTMLCanvasElement;
+  let predictionCanvasRef!: HTMLCanvasElement; // Overlay for the predicted tail of the stroke in progress
   const [isDrawing, setIsDrawing] = createSignal(false);
-  const [currentPath, setCurrentPath] = createSignal<Array<{x: number, y: number}>>([]);
+  const [currentPath, setCurrentPath] = createSignal<PathPoint[]>([]);
   const [startPoint, setStartPoint] = createSignal<{x: number, y: number} | null>(null);
+  let strokeId: string | null = null; // Id of the pen stroke in progress, reused for its path event
 
   // Tool state
-  type Tool = 'pen' | 'eraser';
-  const [selectedTool, setSelectedTool] = createSignal<Tool>('pen');
-  const [currentLineWidth, setCurrentLineWidth] = createSignal(selectedTool() === 'pen' ? 2 : 20);
+  const [selectedTool, setSelectedTool] = createSignal<ActiveTool>('pen');
+  const [strokeWidth, setStrokeWidth] = createSignal(2);
+  const [strokeColor, setStrokeColor] = createSignal<string | null>(null); // null follows the user's color
+  const activeStrokeColor = () => strokeColor() ?? props.userColor ?? '#000000';
+  const [fillEnabled, setFillEnabled] = createSignal(false);
+  const [fillColor, setFillColor] = createSignal('#ffffff');
+  const [fontSize, setFontSize] = createSignal(20);
+  const [textDraft, setTextDraft] = createSignal<{ x: number; y: number; value: string } | null>(null);
+  const [stickyColor, setStickyColor] = createSignal(STICKY_COLORS[0]);
+  const [stickyDraft, setStickyDraft] = createSignal<{ x: number; y: number; value: string } | null>(null);
+  let imageInputRef!: HTMLInputElement;
+  let imagePoint: CanvasPoint | null = null; // Where the image tool was clicked, while the file picker is open
+  const [uploadingImages, setUploadingImages] = createSignal(0);
 
-  let resizeObserver: ResizeObserver | null = null;
+  // Shape being dragged out, drawn on top of the committed shapes until the mouse is released
+  let previewShape: { type: DragShapeTool; data: BoxShapeData | LineShapeData } | null = null;
 
-  const drawPath = (
-    ctx: CanvasRenderingContext2D,
-    points: Array<{x: number, y: number}>,
-    strokeColor: string,
-    lineWidth: number
-  ) => {
-    if (points.length < 2) return;
-    ctx.beginPath();
-    ctx.moveTo(points[0].x, points[0].y);
-    for (let i = 1; i < points.length; i++) {
-      ctx.lineTo(points[i].x, points[i].y);
-    }
-    ctx.strokeStyle = strokeColor;
-    ctx.lineWidth = lineWidth;
-    ctx.lineCap = 'round';
-    ctx.lineJoin = 'round';
-    ctx.stroke();
+  // Select tool: ids of selected shapes and the gesture in progress
+  const [selectedIds, setSelectedIds] = createSignal<string[]>([]);
+  let selectDrag: SelectDrag | null = null;
+  const selectedShapes = () => {
+    const ids = new Set(selectedIds());
+    return props.events.filter(event => ids.has(event.id));
   };
 
+  // Object eraser: shapes touched by the current gesture, hidden until the delete is sent
+  let erasedIds = new Set<string>();
+
+  // Viewport over the infinite canvas; every stored event is in world coordinates
+  const [viewport, setLocalViewport] = createSignal<Viewport>(DEFAULT_VIEWPORT);
+  // Panning or zooming by the user ends follow mode
+  const setViewport = (update: Viewport | ((viewport: Viewport) => Viewport)) => {
+    props.onStopFollowing?.();
+    setLocalViewport(v => typeof update === 'function' ? update(v) : update);
+  };
+  const [canvasSize, setCanvasSize] = createSignal({ width: 0, height: 0 });
+  const [spaceHeld, setSpaceHeld] = createSignal(false); // Space+drag pans with any tool
+  const [isPanning, setIsPanning] = createSignal(false);
+  let panFrom: CanvasPoint | null = null; // Last screen position of the pan gesture
+  let pinch: { center: CanvasPoint; distance: number } | null = null; // Two-finger touch gesture in progress
+
+  // Pointer input: the pointer driving the current gesture, touches on the canvas and palm rejection
+  let activePointerId: number | null = null;
+  const touchPoints = new Map<number, CanvasPoint>(); // Screen positions by pointerId
+  let penDetected = false; // Once a stylus is used, single-finger touches no longer draw
+
+  // Coalesced and predicted events have no reliable offsetX/Y, so positions come from clientX/Y
+  const screenPoint = (e: MouseEvent): CanvasPoint => {
+    const rect = canvasRef.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+  const toWorld = (e: MouseEvent): CanvasPoint => screenToWorld(viewport(), screenPoint(e));
+  // Stylus pressure is kept (rounded to keep payloads small); mice and fingers report no real pressure
+  const toPathPoint = (e: PointerEvent): PathPoint =>
+    e.pointerType === 'pen' ? { ...toWorld(e), p: Math.round(e.pressure * 1000) / 1000 } : toWorld(e);
+  // New shapes and text snap to the room grid when it's enabled
+  const snap = <P extends CanvasPoint>(point: P): P => props.settings ? snapToGrid(props.settings, point) : point;
+  const availableTools = () => TOOL_BUTTONS.filter(button =>
+    (!props.settings || isToolAllowed(props.settings, button.tool)) && (button.tool !== 'image' || !!props.onImageUpload));
+  const canPlaceImages = () => !props.readOnly && availableTools().some(button => button.tool === 'image');
+  const contentBounds = () => getSelectionBounds(props.events);
+  const zoomBy = (factor: number) => {
+    const size = canvasSize();
+    setViewport(v => zoomAt(v, { x: size.width / 2, y: size.height / 2 }, factor));
+  };
+  const zoomToFit = () => setViewport(fitBounds(contentBounds(), canvasSize().width, canvasSize().height));
+
+  let resizeObserver: ResizeObserver | null = null;
+
   const redrawCanvas = () => {
     if (!canvasRef) {
       console.log("CanvasComponent: redrawCanvas called, but canvasRef is not yet available. Skipping. RoomId:", props.roomId);
@@ -65,26 +226,57 @@ export function CanvasComponent(props: CanvasComponentProps) {
     }
     const eventsToDraw = props.events;
     // console.log(`CanvasComponent: redrawCanvas executing for RoomId: ${props.roomId}. Canvas dims: ${canvasRef.width}x${canvasRef.height}. Drawing ${eventsToDraw.length} events. First 5:`, JSON.stringify(eventsToDraw.slice(0, 5)));
+    const view = viewport();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
     ctx.clearRect(0, 0, canvasRef.width, canvasRef.height);
+    applyViewportTransform(ctx, view);
+    if (props.settings) {
+      drawBackgroundPattern(ctx, props.settings.background_pattern, props.settings.grid_size,
+        visibleBounds(view, canvasRef.width, canvasRef.height), view.zoom);
+    }
 
+    // Selected shapes follow an in-progress move/resize locally until the transform is sent
+    const dragTransform = getDragTransform(selectDrag);
+    const selected = new Set(selectedIds());
     eventsToDraw.forEach(event => {
-      if (event.type === 'path' && event.data.points) {
-        const color = event.userColor || event.data.strokeColor || '#000000';
-        drawPath(ctx, event.data.points, color, event.data.lineWidth || 2);
-      }
-      // TODO: Handle other event types like 'text', 'clear', etc.
+      if (erasedIds.has(event.id)) return;
+      const shape = dragTransform && selected.has(event.id) ? applyTransformToShape(event, dragTransform) : event;
+      drawCanvasShape(ctx, shape.type, shape.data);
     });
+    if (previewShape) {
+      drawCanvasShape(ctx, previewShape.type, previewShape.data);
+    }
+    props.liveStrokes?.forEach(stroke => drawPathShape(ctx, stroke.points, stroke.userColor, stroke.lineWidth));
+    if (strokeId) {
+      drawPathShape(ctx, currentPath(), activeStrokeColor(), strokeWidth()); // Our own stroke in progress
+    }
+
+    const shapes = selectedShapes();
+    const selectionBounds = getSelectionBounds(dragTransform ? shapes.map(shape => applyTransformToShape(shape, dragTransform)) : shapes);
+    if (selectionBounds) {
+      drawSelectionOverlay(ctx, selectionBounds, view.zoom);
+    }
+    if (selectDrag?.kind === 'marquee') {
+      drawMarquee(ctx, marqueeBounds(selectDrag.from, selectDrag.to), view.zoom);
+    }
 
-    // Draw other users' cursors
+    // Draw other users' cursors; positions are in world coordinates, markers stay screen-sized
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.font = '10px sans-serif';
+    ctx.textBaseline = 'alphabetic';
     Object.values(props.otherUserCursors).forEach(cursor => {
       if (cursor.clientId !== props.userColor) { // Assuming userColor is unique enough for client ID here, or use actual clientId from hook
+        const position = worldToScreen(view, cursor);
+        ctx.globalAlpha = cursor.idle ? 0.4 : 1;
         ctx.fillStyle = cursor.userColor || '#cccccc';
         ctx.beginPath();
-        ctx.arc(cursor.x, cursor.y, 5, 0, 2 * Math.PI);
+        ctx.arc(position.x, position.y, 5, 0, 2 * Math.PI);
         ctx.fill();
-        ctx.fillText(cursor.clientId.substring(0,6), cursor.x + 8, cursor.y - 8); // Display part of clientId for identification
+        // Name once presence has it, otherwise part of the clientId
+        ctx.fillText(cursor.userName || cursor.clientId.substring(0,6), position.x + 8, position.y - 8);
       }
     });
+    ctx.globalAlpha = 1;
   };
   
   const resizeCanvas = () => {
@@ -99,6 +291,9 @@ export function CanvasComponent(props: CanvasComponentProps) {
       if (canvasRef.width !== newWidth || canvasRef.height !== newHeight) {
         canvasRef.width = newWidth;
         canvasRef.height = newHeight;
+        predictionCanvasRef.width = newWidth;
+        predictionCanvasRef.height = newHeight;
+        setCanvasSize({ width: newWidth, height: newHeight });
         console.log(`CanvasComponent: resizeCanvas set new dimensions for RoomId: ${props.roomId} (new width: ${canvasRef.width}, height: ${canvasRef.height}). Redrawing.`);
         redrawCanvas();
       } else {
@@ -157,6 +352,7 @@ export function CanvasComponent(props: CanvasComponentProps) {
         console.log(`CanvasComponent: roomId has changed. Forcing resize and redraw for new room: ${newRoomId}. Events length when roomId changed: ${props.events.length}`);
         // The ResizeObserver should pick up any layout changes due to new room content/styling.
         // We might still want an explicit resizeCanvas if styles affecting size are applied directly based on roomId.
+        setLocalViewport(DEFAULT_VIEWPORT);
         resizeCanvas(); 
       } else {
         console.warn(`CanvasComponent: roomId changed to ${newRoomId}, but canvasRef not ready yet for re-initialization.`);
@@ -166,8 +362,35 @@ export function CanvasComponent(props: CanvasComponentProps) {
     }
   }, { defer: true }));
 
+  // Share the world point at the center of our view, so others can follow it
+  createEffect(on([viewport, canvasSize], ([view, size]) => {
+    if (size.width === 0 || size.height === 0) return;
+    const center = screenToWorld(view, { x: size.width / 2, y: size.height / 2 });
+    props.onViewportChange?.({ x: center.x, y: center.y, zoom: view.zoom });
+  }));
+
+  // Follow mode: show the followed participant's view centered in our canvas, at their zoom
+  createEffect(on([() => props.followViewport, canvasSize], ([target, size]) => {
+    if (!target) return;
+    setLocalViewport(centerOn({ ...DEFAULT_VIEWPORT, zoom: Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, target.zoom)) }, target, size.width, size.height));
+  }));
+
+  // A tool the owner just disabled can't stay selected
+  createEffect(on(availableTools, (tools) => {
+    if (selectedTool() === 'comment') return;
+    if (tools.length > 0 && !tools.some(button => button.tool === selectedTool())) selectTool(tools[0].tool);
+  }));
+
+  // Jump to a point picked elsewhere, e.g. a comment thread in the sidebar
+  createEffect(on(() => props.centerRequest, (point) => {
+    if (point) setViewport(v => centerOn(v, point, canvasSize().width, canvasSize().height));
+  }));
+
+  // Download the images the canvas shows; each one redraws the canvas when it arrives
+  createEffect(on(() => props.events, (events) => loadCanvasImages(props.assetPath ?? (assetId => canvasAssetPath(props.roomId, assetId)), collectCanvasAssetIds(events))));
+
   // Effect for event, cursor, tool changes
-  createEffect(on([() => props.events, () => props.otherUserCursors, () => selectedTool()], 
+  createEffect(on([() => props.events, () => props.otherUserCursors, () => selectedTool(), () => selectedIds(), () => viewport(), () => props.liveStrokes, () => props.settings, canvasImagesVersion], 
     (currentValues) => {
       const [newEvents, newCursors, newTool] = currentValues;
       if (!canvasRef) {
@@ -176,54 +399,412 @@ export function CanvasComponent(props: CanvasComponentProps) {
       }
       console.log(`CanvasComponent: createEffect (events/cursors/tool) triggered for RoomId: ${props.roomId}. Calling redrawCanvas. Events: ${newEvents.length}, Cursors: ${Object.keys(newCursors).length}, Tool: ${newTool}`);
       redrawCanvas();
-      setCurrentLineWidth(newTool === 'pen' ? 2 : 20);
     }
   ));
 
-  const handleMouseDown = (e: MouseEvent) => {
+  const createEvent = (type: CanvasEvent['type'], data: unknown): CanvasEvent => ({
+    id: crypto.randomUUID(), // Client-side ID; the server keeps it so the shape has a stable id
+    room_id: props.roomId,
+    user_id: '', // Server should fill this from auth context
+    client_id: props.clientId,
+    timestamp: Date.now(),
+    userColor: props.userColor || '#000000',
+    type,
+    data,
+  });
+
+  // Payload for a drag from `from` to `to`, or null if the drag was too small to mean anything
+  const buildDragShape = (tool: DragShapeTool, from: CanvasPoint, to: CanvasPoint) => {
+    const minSize = MIN_SHAPE_SIZE / viewport().zoom;
+    if (Math.abs(to.x - from.x) < minSize && Math.abs(to.y - from.y) < minSize) return null;
+    if (tool === 'line' || tool === 'arrow') {
+      const data: LineShapeData = {
+        x1: from.x, y1: from.y, x2: to.x, y2: to.y,
+        strokeColor: activeStrokeColor(),
+        strokeWidth: strokeWidth(),
+      };
+      return { type: tool, data };
+    }
+    const data: BoxShapeData = {
+      x: Math.min(from.x, to.x),
+      y: Math.min(from.y, to.y),
+      width: Math.abs(to.x - from.x),
+      height: Math.abs(to.y - from.y),
+      strokeColor: activeStrokeColor(),
+      fillColor: fillEnabled() ? fillColor() : null,
+      strokeWidth: strokeWidth(),
+    };
+    return { type: tool, data };
+  };
+
+  const commitTextDraft = () => {
+    const draft = textDraft();
+    setTextDraft(null);
+    if (!draft || draft.value.trim() === '') return;
+    const data: TextData = { x: draft.x, y: draft.y, text: draft.value, fontSize: fontSize(), color: activeStrokeColor() };
+    props.onDraw(createEvent('text', data));
+  };
+
+  // Notes are kept even when left empty; Escape discards the draft instead
+  const commitStickyDraft = () => {
+    const draft = stickyDraft();
+    setStickyDraft(null);
+    if (!draft) return;
+    const data: StickyNoteData = {
+      x: draft.x, y: draft.y, ...STICKY_NOTE_SIZE,
+      text: draft.value, color: stickyColor(), fontSize: fontSize(),
+    };
+    props.onDraw(createEvent('sticky', data));
+  };
+
+  // Uploads an image file and places it with its top-left corner at `point`, scaled down to MAX_IMAGE_SIZE
+  const placeImage = async (file: File, point: CanvasPoint) => {
+    if (!props.onImageUpload) return;
+    if (!isCanvasAssetType(file.type)) {
+      alert(`${file.name} isn't a PNG, JPEG, GIF or WebP image.`);
+      return;
+    }
+    if (file.size > CANVAS_ASSET_LIMITS.maxBytes) {
+      alert(`${file.name} is larger than ${CANVAS_ASSET_LIMITS.maxBytes / (1024 * 1024)} MB.`);
+      return;
+    }
+    setUploadingImages(n => n + 1);
+    try {
+      const bitmap = await createImageBitmap(file);
+      const scale = Math.min(1, MAX_IMAGE_SIZE / Math.max(bitmap.width, bitmap.height));
+      const size = { width: Math.max(1, Math.round(bitmap.width * scale)), height: Math.max(1, Math.round(bitmap.height * scale)) };
+      bitmap.close();
+      const assetId = await props.onImageUpload(file);
+      await registerCanvasImage(assetId, file);
+      const data: ImageShapeData = { ...snap(point), ...size, assetId };
+      props.onDraw(createEvent('image', data));
+    } catch (error: any) {
+      console.error('Failed to add image to the canvas:', error);
+      alert(`Couldn't add ${file.name}: ${error.message || 'upload failed'}`);
+    } finally {
+      setUploadingImages(n => n - 1);
+    }
+  };
+
+  const placeImages = (files: File[], point: CanvasPoint) => {
+    files.forEach((file, i) => placeImage(file, { x: point.x + i * IMAGE_DROP_OFFSET, y: point.y + i * IMAGE_DROP_OFFSET }));
+  };
+
+  const viewCenter = () => screenToWorld(viewport(), { x: canvasSize().width / 2, y: canvasSize().height / 2 });
+
+  const handleImageInput = (e: Event & { currentTarget: HTMLInputElement }) => {
+    const files = Array.from(e.currentTarget.files ?? []);
+    e.currentTarget.value = ''; // Picking the same file again still fires a change
+    placeImages(files, imagePoint ?? viewCenter());
+    imagePoint = null;
+  };
+
+  const handleDragOver = (e: DragEvent) => {
+    if (!canPlaceImages() || !e.dataTransfer?.types.includes('Files')) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+  };
+
+  const handleDrop = (e: DragEvent) => {
+    if (!canPlaceImages() || !e.dataTransfer?.files.length) return;
+    e.preventDefault();
+    placeImages(Array.from(e.dataTransfer.files), toWorld(e));
+  };
+
+  // Pasted image files land in the middle of the view (ignored while typing in inputs)
+  const handlePaste = (e: ClipboardEvent) => {
+    const target = e.target as HTMLElement | null;
+    if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+    const files = Array.from(e.clipboardData?.files ?? []).filter(file => file.type.startsWith('image/'));
+    if (!canPlaceImages() || files.length === 0) return;
+    e.preventDefault();
+    placeImages(files, viewCenter());
+  };
+
+  const eraseAt = (point: CanvasPoint) => {
+    const hit = findShapeAt(props.events.filter(event => !erasedIds.has(event.id)), point, ERASER_TOLERANCE / viewport().zoom);
+    if (hit) {
+      erasedIds.add(hit.id);
+      redrawCanvas();
+    }
+  };
+
+  const deleteSelection = () => {
+    const ids = selectedShapes().map(shape => shape.id);
+    if (ids.length === 0) return;
+    const data: DeleteData = { ids };
+    props.onDraw(createEvent('delete', data));
+    setSelectedIds([]);
+  };
+
+  // Predicted points only show where the stroke is heading; they are redrawn every move and never stored
+  const drawPredictedStroke = (predicted: PathPoint[]) => {
+    const ctx = predictionCanvasRef?.getContext('2d');
+    if (!ctx) return;
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, predictionCanvasRef.width, predictionCanvasRef.height);
+    const last = currentPath()[currentPath().length - 1];
+    if (!last || predicted.length === 0) return;
+    applyViewportTransform(ctx, viewport());
+    drawPathShape(ctx, [last, ...predicted], activeStrokeColor(), strokeWidth());
+  };
+
+  // Abandons the gesture in progress without sending anything
+  const cancelGesture = () => {
+    if (activePointerId !== null && canvasRef.hasPointerCapture(activePointerId)) {
+      canvasRef.releasePointerCapture(activePointerId);
+    }
+    activePointerId = null;
+    panFrom = null;
+    setIsPanning(false);
+    selectDrag = null;
+    previewShape = null;
+    erasedIds = new Set();
+    if (strokeId) props.onStrokeEnd?.(strokeId, true);
+    strokeId = null;
+    setIsDrawing(false);
+    setStartPoint(null);
+    setCurrentPath([]);
+    drawPredictedStroke([]);
+    redrawCanvas();
+  };
+
+  const handleSelectDown = (point: CanvasPoint, shiftKey: boolean) => {
+    const bounds = getSelectionBounds(selectedShapes());
+    const handle = bounds && findResizeHandle(bounds, point, viewport().zoom);
+    if (handle) {
+      selectDrag = { kind: 'resize', origin: handle.origin, corner: handle.corner, to: point };
+      return;
+    }
+
+    const hit = findShapeAt(props.events, point, HIT_TOLERANCE / viewport().zoom);
+    if (hit) {
+      const isSelected = selectedIds().includes(hit.id);
+      if (shiftKey) {
+        setSelectedIds(ids => isSelected ? ids.filter(id => id !== hit.id) : [...ids, hit.id]);
+        return;
+      }
+      if (!isSelected) setSelectedIds([hit.id]);
+      selectDrag = { kind: 'move', from: point, to: point };
+      return;
+    }
+
+    if (!shiftKey) setSelectedIds([]);
+    selectDrag = { kind: 'marquee', from: point, to: point, additive: shiftKey };
+  };
+
+  const handleSelectUp = () => {
+    const drag = selectDrag;
+    selectDrag = null;
+    if (!drag) return;
+
+    if (drag.kind === 'marquee') {
+      const area = marqueeBounds(drag.from, drag.to);
+      const enclosed = props.events
+        .filter(event => {
+          const bounds = getShapeBounds(event.type, event.data);
+          return bounds !== null && boundsContain(area, bounds);
+        })
+        .map(event => event.id);
+      setSelectedIds(ids => drag.additive ? [...new Set([...ids, ...enclosed])] : enclosed);
+    } else {
+      const transform = getDragTransform(drag);
+      const ids = selectedShapes().map(shape => shape.id);
+      if (transform && !isIdentityTransform(transform) && ids.length > 0) {
+        const data: TransformData = { ids, ...transform };
+        props.onDraw(createEvent('transform', data));
+      }
+    }
+    redrawCanvas();
+  };
+
+  const handleTextKeyDown = (e: KeyboardEvent) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      commitTextDraft();
+    } else if (e.key === 'Escape') {
+      setTextDraft(null);
+    }
+  };
+
+  const handleStickyKeyDown = (e: KeyboardEvent) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      commitStickyDraft();
+    } else if (e.key === 'Escape') {
+      setStickyDraft(null);
+    }
+  };
+
+  // Pointer Events cover mouse, touch and stylus. One pointer draws at a time; a second touch
+  // turns the gesture into a two-finger pan/pinch and discards the stroke in progress
+  const handlePointerDown = (e: PointerEvent) => {
     if (!canvasRef) return;
+    if (e.pointerType === 'pen') penDetected = true;
+    if (e.pointerType === 'touch') {
+      touchPoints.set(e.pointerId, screenPoint(e));
+      if (touchPoints.size === 2) {
+        cancelGesture();
+        pinch = touchGesture();
+        return;
+      }
+      if (touchPoints.size > 2 || penDetected) return; // Palm rejection: with a stylus around, fingers only pan/zoom
+    }
+    if (activePointerId !== null) return;
+
+    const point = toWorld(e);
+    props.onCursorMove(point);
+    if (e.button === 1 || spaceHeld()) { // Middle button or space+drag pans, also for viewers
+      e.preventDefault();
+      activePointerId = e.pointerId;
+      canvasRef.setPointerCapture(e.pointerId);
+      panFrom = screenPoint(e);
+      setIsPanning(true);
+      return;
+    }
+    if (selectedTool() === 'comment' && props.onCommentPlace && e.button === 0) {
+      // Comments on a shape follow it; elsewhere they stay at the clicked point
+      const hit = findShapeAt(props.events, point, HIT_TOLERANCE / viewport().zoom);
+      props.onCommentPlace({ x: point.x, y: point.y, shapeId: hit?.id ?? null });
+      return;
+    }
+    if (props.readOnly || e.button > 0) return;
+    if (selectedTool() === 'sticky') {
+      commitStickyDraft();
+      const stickyPoint = snap(point);
+      setStickyDraft({ x: stickyPoint.x, y: stickyPoint.y, value: '' });
+      e.preventDefault(); // Keep focus on the new note
+      return;
+    }
+    if (selectedTool() === 'image') {
+      imagePoint = point;
+      imageInputRef.click();
+      return;
+    }
+    if (selectedTool() === 'text') {
+      commitTextDraft();
+      const textPoint = snap(point);
+      setTextDraft({ x: textPoint.x, y: textPoint.y, value: '' });
+      e.preventDefault(); // Keep focus on the new text box
+      return;
+    }
+    activePointerId = e.pointerId;
+    canvasRef.setPointerCapture(e.pointerId); // Keep receiving moves when the pointer leaves the canvas
+    if (selectedTool() === 'select') {
+      handleSelectDown(point, e.shiftKey);
+    } else if (selectedTool() === 'eraser') {
+      erasedIds = new Set();
+      eraseAt(point);
+    }
+    const pathPoint = toPathPoint(e);
     setIsDrawing(true);
-    const newStartPoint = { x: e.offsetX, y: e.offsetY };
-    setStartPoint(newStartPoint);
-    setCurrentPath([newStartPoint]);
-    props.onCursorMove({ x: e.offsetX, y: e.offsetY });
+    setStartPoint(pathPoint);
+    setCurrentPath([pathPoint]);
+    if (selectedTool() === 'pen') {
+      strokeId = crypto.randomUUID();
+      props.onStrokePoints?.(strokeId, strokeWidth(), [pathPoint]);
+    }
   };
 
-  const handleMouseMove = (e: MouseEvent) => {
-    props.onCursorMove({ x: e.offsetX, y: e.offsetY });
+  const handlePointerMove = (e: PointerEvent) => {
+    if (touchPoints.has(e.pointerId)) {
+      touchPoints.set(e.pointerId, screenPoint(e));
+      if (pinch && touchPoints.size === 2) {
+        const next = touchGesture();
+        const previous = pinch;
+        setViewport(v => zoomAt(panBy(v, next.center.x - previous.center.x, next.center.y - previous.center.y), next.center, next.distance / previous.distance));
+        pinch = next;
+        return;
+      }
+    }
+    if (activePointerId !== null && e.pointerId !== activePointerId) return;
+    if (panFrom) {
+      const to = screenPoint(e);
+      setViewport(v => panBy(v, to.x - panFrom!.x, to.y - panFrom!.y));
+      panFrom = to;
+      return;
+    }
+    if (e.pointerType === 'touch' && activePointerId === null) return; // Resting fingers aren't a cursor
+    const currentPoint = toWorld(e);
+    props.onCursorMove(currentPoint);
     if (!isDrawing() || !startPoint() || !canvasRef) return;
 
-    const currentPoint = { x: e.offsetX, y: e.offsetY };
-    setCurrentPath(prevPath => [...prevPath, currentPoint]);
+    const tool = selectedTool();
+    if (tool === 'select') {
+      if (selectDrag) {
+        selectDrag.to = currentPoint;
+        redrawCanvas();
+      }
+      return;
+    }
+    if (tool === 'eraser') {
+      eraseAt(currentPoint);
+      return;
+    }
+    if (isDragShapeTool(tool)) {
+      setCurrentPath([startPoint()!, currentPoint]);
+      previewShape = buildDragShape(tool, snap(startPoint()!), snap(currentPoint));
+      redrawCanvas();
+      return;
+    }
+
+    // Coalesced events carry every sample since the last frame, which keeps fast strokes smooth
+    const coalesced = e.getCoalescedEvents?.() ?? [];
+    const newPoints = (coalesced.length > 0 ? coalesced : [e]).map(toPathPoint);
+    const previousPoint = currentPath()[currentPath().length - 1];
+    setCurrentPath(prevPath => [...prevPath, ...newPoints]);
+    if (strokeId) props.onStrokePoints?.(strokeId, strokeWidth(), newPoints);
 
     const ctx = canvasRef.getContext('2d');
-    if (ctx && currentPath().length >=2) {
-      const pointsToDraw = currentPath().slice(-2);
-      drawPath(ctx, pointsToDraw, props.userColor || (selectedTool() === 'pen' ? '#000000' : '#FFFFFF'), currentLineWidth());
+    if (ctx && previousPoint) {
+      applyViewportTransform(ctx, viewport());
+      drawPathShape(ctx, [previousPoint, ...newPoints], activeStrokeColor(), strokeWidth());
     }
+    drawPredictedStroke((e.getPredictedEvents?.() ?? []).map(toPathPoint));
   };
 
-  const handleMouseUp = () => {
+  const handlePointerUp = (e: PointerEvent) => {
+    if (touchPoints.delete(e.pointerId) && touchPoints.size < 2) pinch = null;
+    if (e.pointerId !== activePointerId) return;
+    activePointerId = null;
+    drawPredictedStroke([]);
+    if (panFrom) {
+      panFrom = null;
+      setIsPanning(false);
+      return;
+    }
     if (!isDrawing() || !startPoint()) return;
-    
-    const finalPath = currentPath();
-    if (finalPath.length >= 2) { // Only send event if path has at least two points
-      const pathEvent: CanvasEvent = {
-        id: crypto.randomUUID(), // Client-side ID, server will assign its own if needed or use this
-        room_id: props.roomId,
-        user_id: '', // Server should fill this from auth context
-        client_id: props.clientId,
-        timestamp: Date.now(),
-        userColor: props.userColor || (selectedTool() === 'pen' ? '#000000' : '#FFFFFF'), // Send current color
-        type: selectedTool() === 'pen' ? 'path' : 'path', // Eraser is also a path, but with white color / different compositing
-        data: {
+
+    const tool = selectedTool();
+    if (tool === 'select') {
+      handleSelectUp();
+    } else if (tool === 'eraser') {
+      if (erasedIds.size > 0) {
+        const data: DeleteData = { ids: [...erasedIds] };
+        props.onDraw(createEvent('delete', data)); // Removes the shapes from props.events right away (optimistic)
+      }
+      erasedIds = new Set();
+    } else if (isDragShapeTool(tool)) {
+      const shape = buildDragShape(tool, snap(startPoint()!), snap(toWorld(e)));
+      previewShape = null;
+      if (shape) {
+        props.onDraw(createEvent(shape.type, shape.data));
+      } else {
+        redrawCanvas(); // Remove the preview of a shape too small to keep
+      }
+    } else if (strokeId) {
+      const finalPath = currentPath();
+      props.onStrokeEnd?.(strokeId, finalPath.length < 2);
+      if (finalPath.length >= 2) { // Only send event if path has at least two points
+        const data: PathData = {
           points: finalPath,
-          strokeColor: selectedTool() === 'pen' ? (props.userColor || '#000000') : '#FFFFFF', // Eraser is effectively a white path
-          lineWidth: currentLineWidth(),
-          tool: selectedTool(), // Send tool used
-        },
-      };
-      props.onDraw(pathEvent);
+          strokeColor: activeStrokeColor(),
+          lineWidth: strokeWidth(),
+          tool: 'pen', // 'eraser' paths only exist in older history; the eraser now deletes objects
+        };
+        props.onDraw({ ...createEvent('path', data), id: strokeId }); // Others replace the live stroke with it
+      }
+      strokeId = null;
     }
 
     setIsDrawing(false);
@@ -231,48 +812,337 @@ export function CanvasComponent(props: CanvasComponentProps) {
     setCurrentPath([]);
   };
 
-  const handleMouseLeave = () => {
-    if (isDrawing()) {
-      handleMouseUp(); // Finalize drawing if mouse leaves canvas while drawing
+  // The browser took the pointer over (e.g. for a system gesture): drop the gesture without committing
+  const handlePointerCancel = (e: PointerEvent) => {
+    if (touchPoints.delete(e.pointerId) && touchPoints.size < 2) pinch = null;
+    if (e.pointerId === activePointerId) cancelGesture();
+  };
+
+  // Pinch-to-zoom trackpads and Ctrl+wheel zoom, as do discrete mouse wheel notches (line-based or
+  // large vertical-only deltas); smaller pixel deltas come from two-finger trackpad scrolling and pan
+  const handleWheel = (e: WheelEvent) => {
+    e.preventDefault();
+    const isMouseWheel = e.deltaMode !== WheelEvent.DOM_DELTA_PIXEL || (e.deltaX === 0 && Math.abs(e.deltaY) >= 50);
+    if (e.ctrlKey || e.metaKey || isMouseWheel) {
+      const delta = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? e.deltaY * 33 : e.deltaY;
+      setViewport(v => zoomAt(v, { x: e.offsetX, y: e.offsetY }, Math.exp(-delta * WHEEL_ZOOM_SENSITIVITY)));
+    } else {
+      setViewport(v => panBy(v, -e.deltaX, -e.deltaY));
     }
-    // Optionally send a "cursor_leave" event or clear local cursor display for this user
   };
 
-  const selectTool = (tool: Tool) => {
+  // Midpoint and spread of the two touches on the canvas; panning follows the midpoint and
+  // zooming follows the change in spread
+  const touchGesture = () => {
+    const [a, b] = [...touchPoints.values()];
+    return {
+      center: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 },
+      distance: Math.max(Math.hypot(a.x - b.x, a.y - b.y), 1),
+    };
+  };
+
+  const selectTool = (tool: ActiveTool) => {
+    commitTextDraft();
+    commitStickyDraft();
+    if (tool !== 'select') setSelectedIds([]);
     setSelectedTool(tool);
   };
 
+  const handleClear = () => {
+    if (!confirm('Clear the canvas for everyone? You can undo this.')) return;
+    props.onDraw({
+      id: crypto.randomUUID(),
+      room_id: props.roomId,
+      user_id: '', // Server fills this from auth context
+      client_id: props.clientId,
+      timestamp: Date.now(),
+      type: 'clear',
+      data: null,
+    });
+  };
+
+  // Ctrl+Z / Cmd+Z to undo, Ctrl+Shift+Z / Ctrl+Y to redo (ignored while typing in inputs)
+  // Delete/Backspace removes the selection, Escape clears it
+  // Space+drag pans, Ctrl+= / Ctrl+- zoom, Ctrl+0 resets to 100% and Shift+1 zooms to fit
+  const handleKeyDown = (e: KeyboardEvent) => {
+    const target = e.target as HTMLElement | null;
+    if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+
+    if (e.code === 'Space') {
+      e.preventDefault(); // Don't scroll the page or press the focused button
+      setSpaceHeld(true);
+      return;
+    }
+    if (e.shiftKey && e.code === 'Digit1') {
+      zoomToFit();
+      return;
+    }
+    if ((e.ctrlKey || e.metaKey) && ['=', '+', '-', '0'].includes(e.key)) {
+      e.preventDefault(); // Zoom the canvas instead of the page
+      if (e.key === '0') zoomBy(1 / viewport().zoom);
+      else zoomBy(e.key === '-' ? 1 / ZOOM_STEP : ZOOM_STEP);
+      return;
+    }
+    if (props.readOnly) return;
+
+    if ((e.key === 'Delete' || e.key === 'Backspace') && selectedIds().length > 0) {
+      e.preventDefault();
+      deleteSelection();
+      return;
+    }
+    if (e.key === 'Escape' && selectedIds().length > 0) {
+      setSelectedIds([]);
+      return;
+    }
+    if (!(e.ctrlKey || e.metaKey)) return;
+
+    const key = e.key.toLowerCase();
+    // One undo or redo per key press; a held key's repeats would only run into the room's rate limit
+    if (key === 'z' && !e.shiftKey) {
+      e.preventDefault();
+      if (props.canUndo && !e.repeat) props.onUndo?.();
+    } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+      e.preventDefault();
+      if (props.canRedo && !e.repeat) props.onRedo?.();
+    }
+  };
+
+  const handleKeyUp = (e: KeyboardEvent) => {
+    if (e.code === 'Space') setSpaceHeld(false);
+  };
+
+  onMount(() => {
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('paste', handlePaste);
+    // Registered manually so it can be non-passive and stop the page from scrolling or zooming
+    canvasRef.addEventListener('wheel', handleWheel, { passive: false });
+  });
+  onCleanup(() => {
+    window.removeEventListener('keydown', handleKeyDown);
+    window.removeEventListener('keyup', handleKeyUp);
+    window.removeEventListener('paste', handlePaste);
+    canvasRef?.removeEventListener('wheel', handleWheel);
+  });
+
+  const canvasCursor = () => {
+    if (isPanning()) return 'cursor-grabbing';
+    if (spaceHeld()) return 'cursor-grab';
+    if (selectedTool() === 'comment') return 'cursor-copy';
+    return selectedTool() === 'text' ? 'cursor-text' : selectedTool() === 'select' ? 'cursor-default' : 'cursor-crosshair';
+  };
+
   return (
-    <div class="flex flex-col w-full h-full bg-gray-800 rounded-md overflow-hidden relative">
+    <div class="flex flex-col w-full h-full bg-gray-800 rounded-md overflow-hidden relative" onDragOver={handleDragOver} onDrop={handleDrop}>
       <div class="absolute top-2 left-2 z-10 flex space-x-1 bg-gray-700 p-1 rounded-md shadow">
-        <Tooltip>
-          <TooltipTrigger>
-            <Button variant="outline" size="icon" onClick={() => selectTool('pen')}
-                    class={selectedTool() === 'pen' ? 'bg-blue-500 hover:bg-blue-600 text-white' : 'bg-gray-600 hover:bg-gray-500'}>
-              <Icon name="stickynote" class="w-5 h-5" />
-            </Button>
-          </TooltipTrigger>
-          <TooltipContent>Pen (Sticky Note)</TooltipContent>
-        </Tooltip>
-        <Tooltip>
-          <TooltipTrigger>
-            <Button variant="outline" size="icon" onClick={() => selectTool('eraser')}
-                    class={selectedTool() === 'eraser' ? 'bg-blue-500 hover:bg-blue-600 text-white' : 'bg-gray-600 hover:bg-gray-500'}>
-              <Icon name="x" class="w-5 h-5" />
-            </Button>
-          </TooltipTrigger>
-          <TooltipContent>Eraser (X)</TooltipContent>
-        </Tooltip>
-        {/* Add more tools: color picker, line width slider, clear button */}
+        <For each={availableTools()}>{(button) => (
+          <Tooltip>
+            <TooltipTrigger>
+              <Button variant="outline" size="icon" onClick={() => selectTool(button.tool)}
+                      class={selectedTool() === button.tool ? 'bg-blue-500 hover:bg-blue-600 text-white' : 'bg-gray-600 hover:bg-gray-500'}>
+                <Icon name={button.icon} class="w-5 h-5" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>{button.label}</TooltipContent>
+          </Tooltip>
+        )}</For>
+        <Show when={props.onCommentPlace}>
+          <Tooltip>
+            <TooltipTrigger>
+              <Button variant="outline" size="icon" onClick={() => selectTool('comment')}
+                      class={selectedTool() === 'comment' ? 'bg-blue-500 hover:bg-blue-600 text-white' : 'bg-gray-600 hover:bg-gray-500'}>
+                <Icon name="messageSquare" class="w-5 h-5" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>Comment (click a shape or anywhere on the canvas)</TooltipContent>
+          </Tooltip>
+        </Show>
+        <Show when={!props.readOnly}>
+          <Tooltip>
+            <TooltipTrigger>
+              <Button variant="outline" size="icon" onClick={() => props.onUndo?.()} disabled={!props.canUndo}
+                      class="bg-gray-600 hover:bg-gray-500">
+                <Icon name="undo" class="w-5 h-5" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>Undo (Ctrl+Z)</TooltipContent>
+          </Tooltip>
+          <Tooltip>
+            <TooltipTrigger>
+              <Button variant="outline" size="icon" onClick={() => props.onRedo?.()} disabled={!props.canRedo}
+                      class="bg-gray-600 hover:bg-gray-500">
+                <Icon name="redo" class="w-5 h-5" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>Redo (Ctrl+Shift+Z)</TooltipContent>
+          </Tooltip>
+        </Show>
+        <Show when={props.canClear}>
+          <Tooltip>
+            <TooltipTrigger>
+              <Button variant="outline" size="icon" onClick={handleClear} class="bg-gray-600 hover:bg-gray-500">
+                <Icon name="trash" class="w-5 h-5" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>Clear canvas</TooltipContent>
+          </Tooltip>
+        </Show>
       </div>
+      <Show when={!props.readOnly}>
+        <div class="absolute top-14 left-2 z-10 flex items-center gap-2 bg-gray-700 px-2 py-1 rounded-md shadow text-xs text-gray-200">
+          <label class="flex items-center gap-1" title="Stroke color">
+            Stroke
+            <input type="color" class="h-6 w-6 cursor-pointer bg-transparent" value={activeStrokeColor()}
+                   onInput={(e) => setStrokeColor(e.currentTarget.value)} />
+          </label>
+          <label class="flex items-center gap-1" title="Fill rectangles and ellipses">
+            <input type="checkbox" checked={fillEnabled()} onChange={(e) => setFillEnabled(e.currentTarget.checked)} />
+            Fill
+            <input type="color" class="h-6 w-6 cursor-pointer bg-transparent disabled:opacity-40" value={fillColor()}
+                   disabled={!fillEnabled()} onInput={(e) => setFillColor(e.currentTarget.value)} />
+          </label>
+          <select class="h-6 rounded bg-gray-600 px-1" title="Stroke width" value={strokeWidth()}
+                  onChange={(e) => setStrokeWidth(Number(e.currentTarget.value))}>
+            <For each={STROKE_WIDTHS}>{(width) => <option value={width}>{width}px</option>}</For>
+          </select>
+          <Show when={selectedTool() === 'sticky'}>
+            <div class="flex items-center gap-1" title="Note color">
+              <For each={STICKY_COLORS}>{(color) => (
+                <button type="button" class="h-5 w-5 rounded-sm border"
+                        classList={{ 'border-white': stickyColor() === color, 'border-transparent': stickyColor() !== color }}
+                        style={{ 'background-color': color }}
+                        onClick={() => setStickyColor(color)} />
+              )}</For>
+            </div>
+          </Show>
+          <Show when={selectedTool() === 'text' || selectedTool() === 'sticky'}>
+            <select class="h-6 rounded bg-gray-600 px-1" title="Font size" value={fontSize()}
+                    onChange={(e) => setFontSize(Number(e.currentTarget.value))}>
+              <For each={FONT_SIZES}>{(size) => <option value={size}>{size}px</option>}</For>
+            </select>
+          </Show>
+        </div>
+      </Show>
       <canvas
         ref={canvasRef}
-        class="w-full h-full cursor-crosshair"
-        onMouseDown={handleMouseDown}
-        onMouseMove={handleMouseMove}
-        onMouseUp={handleMouseUp}
-        onMouseLeave={handleMouseLeave} // Handle mouse leaving the canvas
+        class={`w-full h-full touch-none ${canvasCursor()}`}
+        style={{ 'background-color': props.settings?.background_color ?? undefined }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerCancel}
       />
+      <canvas ref={predictionCanvasRef} class="absolute inset-0 w-full h-full pointer-events-none" />
+      <input ref={imageInputRef} type="file" accept="image/png,image/jpeg,image/gif,image/webp" multiple class="hidden" onChange={handleImageInput} />
+      <Show when={uploadingImages() > 0}>
+        <div class="absolute bottom-2 left-1/2 z-10 -translate-x-1/2 rounded-md bg-gray-700 px-3 py-1 text-sm text-white shadow">
+          Uploading {uploadingImages() === 1 ? 'image' : `${uploadingImages()} images`}...
+        </div>
+      </Show>
+      <Show when={textDraft()}>
+        {(draft) => (
+          <textarea
+            ref={(el) => requestAnimationFrame(() => el.focus())}
+            class="absolute z-10 min-w-[8rem] resize-none border border-dashed border-gray-400 bg-transparent p-0 outline-none"
+            style={{
+              left: `${worldToScreen(viewport(), draft()).x}px`,
+              top: `${worldToScreen(viewport(), draft()).y}px`,
+              'font-size': `${fontSize() * viewport().zoom}px`,
+              'line-height': String(TEXT_LINE_HEIGHT),
+              'font-family': 'sans-serif',
+              color: activeStrokeColor(),
+            }}
+            rows={Math.max(1, draft().value.split('\n').length)}
+            value={draft().value}
+            onInput={(e) => setTextDraft({ ...draft(), value: e.currentTarget.value })}
+            onKeyDown={handleTextKeyDown}
+            onBlur={commitTextDraft}
+          />
+        )}
+      </Show>
+      <Show when={stickyDraft()}>
+        {(draft) => (
+          <textarea
+            ref={(el) => requestAnimationFrame(() => el.focus())}
+            class="absolute z-10 resize-none border border-dashed border-gray-500 outline-none shadow"
+            style={{
+              left: `${worldToScreen(viewport(), draft()).x}px`,
+              top: `${worldToScreen(viewport(), draft()).y}px`,
+              width: `${STICKY_NOTE_SIZE.width * viewport().zoom}px`,
+              height: `${STICKY_NOTE_SIZE.height * viewport().zoom}px`,
+              padding: `${fontSize() * STICKY_NOTE_PADDING * viewport().zoom}px`,
+              'font-size': `${fontSize() * viewport().zoom}px`,
+              'line-height': String(TEXT_LINE_HEIGHT),
+              'font-family': 'sans-serif',
+              'background-color': stickyColor(),
+              color: STICKY_NOTE_TEXT_COLOR,
+            }}
+            placeholder="Note"
+            value={draft().value}
+            onInput={(e) => setStickyDraft({ ...draft(), value: e.currentTarget.value })}
+            onKeyDown={handleStickyKeyDown}
+            onBlur={commitStickyDraft}
+          />
+        )}
+      </Show>
+      <For each={props.commentPins ?? []}>{(pin) => (
+        <button
+          type="button"
+          class="absolute z-10 flex h-7 min-w-7 -translate-y-full items-center justify-center rounded-full rounded-bl-none border-2 px-1 text-xs font-semibold shadow"
+          classList={{
+            'bg-blue-500 border-white text-white': pin.active,
+            'bg-amber-300 border-amber-500 text-gray-900': !pin.active && pin.highlighted,
+            'bg-white border-gray-400 text-gray-900': !pin.active && !pin.highlighted,
+          }}
+          style={{
+            left: `${worldToScreen(viewport(), pin.point).x}px`,
+            top: `${worldToScreen(viewport(), pin.point).y}px`,
+          }}
+          title={pin.highlighted ? 'Mentions you' : 'Comment thread'}
+          onClick={() => props.onCommentPinClick?.(pin.id)}
+        >
+          {pin.count}
+        </button>
+      )}</For>
+      <div class="absolute bottom-2 right-2 z-10 flex flex-col items-end gap-2">
+        <Minimap
+          shapes={props.events}
+          contentBounds={contentBounds()}
+          visibleBounds={visibleBounds(viewport(), canvasSize().width, canvasSize().height)}
+          viewport={viewport()}
+          onNavigate={(point) => setViewport(v => centerOn(v, point, canvasSize().width, canvasSize().height))}
+        />
+        <div class="flex items-center gap-1 bg-gray-700 p-1 rounded-md shadow text-xs text-gray-200">
+          <Tooltip>
+            <TooltipTrigger>
+              <Button variant="outline" size="icon" onClick={() => zoomBy(1 / ZOOM_STEP)} class="bg-gray-600 hover:bg-gray-500">
+                <Icon name="zoomOut" class="w-5 h-5" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>Zoom out (Ctrl+-)</TooltipContent>
+          </Tooltip>
+          <button class="w-12 text-center hover:text-white" title="Reset to 100% (Ctrl+0)"
+                  onClick={() => zoomBy(1 / viewport().zoom)}>
+            {Math.round(viewport().zoom * 100)}%
+          </button>
+          <Tooltip>
+            <TooltipTrigger>
+              <Button variant="outline" size="icon" onClick={() => zoomBy(ZOOM_STEP)} class="bg-gray-600 hover:bg-gray-500">
+                <Icon name="zoomIn" class="w-5 h-5" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>Zoom in (Ctrl+=)</TooltipContent>
+          </Tooltip>
+          <Tooltip>
+            <TooltipTrigger>
+              <Button variant="outline" size="icon" onClick={zoomToFit} class="bg-gray-600 hover:bg-gray-500">
+                <Icon name="maximize" class="w-5 h-5" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>Zoom to fit (Shift+1)</TooltipContent>
+          </Tooltip>
+        </div>
+      </div>
       {/* <div class="absolute bottom-2 left-2 text-xs text-gray-400">Tool: {selectedTool()}, Width: {currentLineWidth()}</div> */}
     </div>
   );
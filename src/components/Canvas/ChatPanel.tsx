@@ -0,0 +1,135 @@
+import { createEffect, createSignal, For, on, Show } from 'solid-js';
+import { Button } from '~/components/ui/button';
+import { canDeleteChatMessage, CHAT_LIMITS, type ChatMessage, type ChatTypingUser } from '~/lib/canvas-chat';
+import type { ParticipantRole } from '~/hooks/useCanvasWebSocket';
+
+interface ChatPanelProps {
+  messages: ChatMessage[];
+  hasMore: boolean;
+  loadingOlder: boolean;
+  onLoadOlder: () => void;
+  typingUsers: ChatTypingUser[];
+  currentUserId: string | null;
+  role: ParticipantRole | null;
+  onSend: (text: string) => boolean; // false when the room isn't connected, so the draft is kept
+  onDelete: (id: string) => void;
+  onTyping: (typing: boolean) => void;
+  onClose: () => void;
+}
+
+const SCROLL_STICK_THRESHOLD = 40; // px from the bottom within which new messages keep the list scrolled down
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+
+const typingLabel = (users: ChatTypingUser[]) => {
+  const names = [...new Set(users.map(user => user.userName))];
+  if (names.length === 0) return '';
+  if (names.length === 1) return `${names[0]} is typing...`;
+  if (names.length === 2) return `${names[0]} and ${names[1]} are typing...`;
+  return 'Several people are typing...';
+};
+
+// The room's chat: history (older pages on demand), who is typing and a message box
+export function ChatPanel(props: ChatPanelProps) {
+  let listRef!: HTMLDivElement;
+  const [draft, setDraft] = createSignal('');
+
+  // Follow new messages while scrolled to the bottom; keep the position when older pages load
+  let stickToBottom = true;
+  let heightBeforeLoad: number | null = null;
+  createEffect(on(() => props.messages, () => {
+    if (!listRef) return;
+    if (heightBeforeLoad !== null) {
+      listRef.scrollTop += listRef.scrollHeight - heightBeforeLoad;
+      heightBeforeLoad = null;
+    } else if (stickToBottom) {
+      listRef.scrollTop = listRef.scrollHeight;
+    }
+  }));
+
+  const loadOlder = () => {
+    heightBeforeLoad = listRef.scrollHeight;
+    props.onLoadOlder();
+  };
+
+  const send = () => {
+    const text = draft().trim();
+    if (!text) return;
+    if (props.onSend(text)) {
+      setDraft('');
+      stickToBottom = true;
+    } else {
+      alert('Not connected to the room. Your message was kept; try again in a moment.');
+    }
+  };
+
+  const canDelete = (message: ChatMessage) =>
+    !!props.currentUserId && !!props.role && canDeleteChatMessage(message, props.currentUserId, props.role);
+
+  return (
+    <aside class="flex w-80 shrink-0 flex-col overflow-hidden rounded-lg border border-border bg-background">
+      <div class="flex items-center justify-between border-b px-3 py-2">
+        <h2 class="font-semibold">Chat</h2>
+        <Button size="sm" variant="ghost" onClick={() => props.onClose()}>Close</Button>
+      </div>
+
+      <div ref={listRef} class="flex-1 space-y-2 overflow-y-auto p-3"
+           onScroll={() => { stickToBottom = listRef.scrollHeight - listRef.scrollTop - listRef.clientHeight < SCROLL_STICK_THRESHOLD; }}>
+        <Show when={props.hasMore}>
+          <div class="text-center">
+            <Button size="sm" variant="ghost" onClick={loadOlder} disabled={props.loadingOlder}>
+              {props.loadingOlder ? 'Loading...' : 'Load older messages'}
+            </Button>
+          </div>
+        </Show>
+        <Show when={props.messages.length > 0} fallback={<p class="text-sm text-muted-foreground">No messages yet. Say hello!</p>}>
+          <For each={props.messages}>{(message) => (
+            <div class="group">
+              <div class="flex items-center justify-between text-xs text-muted-foreground">
+                <span class="font-medium" style={{ color: message.userColor }}>
+                  {message.userName}{message.userId === props.currentUserId ? ' (you)' : ''}
+                </span>
+                <span class="flex items-center gap-2">
+                  <Show when={canDelete(message)}>
+                    <button type="button" class="hidden text-destructive hover:underline group-hover:inline"
+                            onClick={() => { if (confirm('Delete this message for everyone?')) props.onDelete(message.id); }}>
+                      Delete
+                    </button>
+                  </Show>
+                  {formatTime(message.created)}
+                </span>
+              </div>
+              <p class="whitespace-pre-wrap break-words text-sm">{message.text}</p>
+            </div>
+          )}</For>
+        </Show>
+      </div>
+
+      <div class="border-t p-3">
+        <p class="mb-1 h-4 text-xs text-muted-foreground">{typingLabel(props.typingUsers)}</p>
+        <textarea
+          class="w-full resize-none rounded-md border border-input bg-background px-2 py-1 text-sm"
+          rows={2}
+          maxLength={CHAT_LIMITS.maxTextLength}
+          placeholder="Message the room"
+          value={draft()}
+          onInput={(e) => {
+            setDraft(e.currentTarget.value);
+            props.onTyping(e.currentTarget.value.trim().length > 0);
+          }}
+          onBlur={() => props.onTyping(false)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              send();
+            }
+          }}
+        />
+        <div class="mt-2 flex justify-end">
+          <Button size="sm" onClick={send} disabled={!draft().trim()}>Send</Button>
+        </div>
+      </div>
+    </aside>
+  );
+}
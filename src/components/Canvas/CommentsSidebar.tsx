@@ -0,0 +1,237 @@
+import { createSignal, For, Show } from 'solid-js';
+import { Button } from '~/components/ui/button';
+import { splitCommentText, threadMentionsUser, type CanvasComment, type CanvasCommentThread, type CommentMention } from '~/lib/canvas-comments';
+
+interface CommentsSidebarProps {
+  threads: CanvasCommentThread[];
+  members: CommentMention[]; // Who can be @mentioned
+  currentUserId: string | null;
+  canResolve: (thread: CanvasCommentThread) => boolean;
+  activeThreadId: string | null;
+  onSelectThread: (threadId: string | null) => void; // Also jumps the canvas to the thread
+  isDrafting: boolean; // A new thread's pin was placed and waits for its first comment
+  onCancelDraft: () => void;
+  // Senders return false when the room isn't connected, so the draft is kept
+  onCreate: (text: string, mentions: CommentMention[]) => boolean;
+  onReply: (threadId: string, text: string, mentions: CommentMention[]) => boolean;
+  onResolve: (threadId: string, resolved: boolean) => void;
+  onClose: () => void;
+}
+
+const MAX_SUGGESTIONS = 5;
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+function CommentText(props: { comment: CanvasComment; currentUserId: string | null }) {
+  return (
+    <p class="whitespace-pre-wrap break-words text-sm">
+      <For each={splitCommentText(props.comment.text, props.comment.mentions)}>{(part) => (
+        <Show when={part.mention} fallback={part.text}>
+          {(mention) => (
+            <span class="rounded px-0.5 font-medium"
+                  classList={{
+                    'bg-amber-200 text-amber-900': mention().userId === props.currentUserId,
+                    'text-blue-600': mention().userId !== props.currentUserId,
+                  }}>
+              {part.text}
+            </span>
+          )}
+        </Show>
+      )}</For>
+    </p>
+  );
+}
+
+// Text box with @mention suggestions from the room's members
+function CommentComposer(props: { members: CommentMention[]; placeholder: string; submitLabel: string; onSubmit: (text: string, mentions: CommentMention[]) => boolean; onCancel?: () => void }) {
+  let textareaRef!: HTMLTextAreaElement;
+  const [text, setText] = createSignal('');
+  const [mentions, setMentions] = createSignal<CommentMention[]>([]);
+  const [mentionQuery, setMentionQuery] = createSignal<string | null>(null); // Text typed after an @ at the caret
+
+  const suggestions = () => {
+    const query = mentionQuery();
+    if (query === null) return [];
+    return props.members
+      .filter(member => member.name.toLowerCase().startsWith(query.toLowerCase()))
+      .slice(0, MAX_SUGGESTIONS);
+  };
+
+  const updateMentionQuery = () => {
+    const beforeCaret = textareaRef.value.slice(0, textareaRef.selectionStart);
+    const match = /(?:^|\s)@([^@\s]*)$/.exec(beforeCaret);
+    setMentionQuery(match ? match[1] : null);
+  };
+
+  const insertMention = (member: CommentMention) => {
+    const caret = textareaRef.selectionStart;
+    const beforeCaret = text().slice(0, caret).replace(/@[^@\s]*$/, `@${member.name} `);
+    setText(beforeCaret + text().slice(caret));
+    setMentions(prev => prev.some(m => m.userId === member.userId) ? prev : [...prev, member]);
+    setMentionQuery(null);
+    textareaRef.focus();
+    textareaRef.setSelectionRange(beforeCaret.length, beforeCaret.length);
+  };
+
+  const submit = () => {
+    const value = text().trim();
+    if (!value) return;
+    // Mentions whose name was edited out of the text no longer count
+    if (props.onSubmit(value, mentions().filter(m => value.includes(`@${m.name}`)))) {
+      setText('');
+      setMentions([]);
+      setMentionQuery(null);
+    } else {
+      alert('Not connected to the room. Your comment was kept; try again in a moment.');
+    }
+  };
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      if (suggestions().length > 0) insertMention(suggestions()[0]);
+      else submit();
+    } else if (e.key === 'Escape') {
+      if (mentionQuery() !== null) setMentionQuery(null);
+      else props.onCancel?.();
+    }
+  };
+
+  return (
+    <div class="relative space-y-2">
+      <textarea
+        ref={textareaRef}
+        class="w-full resize-none rounded-md border border-input bg-background px-2 py-1 text-sm"
+        rows={2}
+        placeholder={props.placeholder}
+        value={text()}
+        onInput={(e) => { setText(e.currentTarget.value); updateMentionQuery(); }}
+        onClick={updateMentionQuery}
+        onKeyDown={handleKeyDown}
+      />
+      <Show when={suggestions().length > 0}>
+        <ul class="absolute left-0 right-0 top-full z-20 mt-1 rounded-md border bg-popover text-sm shadow">
+          <For each={suggestions()}>{(member) => (
+            <li>
+              <button type="button" class="w-full px-2 py-1 text-left hover:bg-muted"
+                      onMouseDown={(e) => { e.preventDefault(); insertMention(member); }}>
+                @{member.name}
+              </button>
+            </li>
+          )}</For>
+        </ul>
+      </Show>
+      <div class="flex justify-end gap-2">
+        <Show when={props.onCancel}>
+          <Button size="sm" variant="ghost" onClick={() => props.onCancel?.()}>Cancel</Button>
+        </Show>
+        <Button size="sm" onClick={submit} disabled={!text().trim()}>{props.submitLabel}</Button>
+      </div>
+    </div>
+  );
+}
+
+// Comment threads of a room: open ones (or resolved ones) in a list, and the selected thread in full
+export function CommentsSidebar(props: CommentsSidebarProps) {
+  const [showResolved, setShowResolved] = createSignal(false);
+  const listedThreads = () => props.threads
+    .filter(thread => thread.resolved === showResolved())
+    .sort((a, b) => b.updated - a.updated);
+  const activeThread = () => props.threads.find(thread => thread.id === props.activeThreadId) ?? null;
+  const mentionsMe = (thread: CanvasCommentThread) => !!props.currentUserId && threadMentionsUser(thread, props.currentUserId);
+
+  return (
+    <aside class="flex w-80 shrink-0 flex-col overflow-hidden rounded-lg border border-border bg-background">
+      <div class="flex items-center justify-between border-b px-3 py-2">
+        <h2 class="font-semibold">Comments</h2>
+        <Button size="sm" variant="ghost" onClick={() => props.onClose()}>Close</Button>
+      </div>
+
+      <Show when={props.isDrafting}>
+        <div class="border-b p-3">
+          <p class="mb-2 text-sm text-muted-foreground">New comment</p>
+          <CommentComposer
+            members={props.members}
+            placeholder="Add a comment, @ to mention"
+            submitLabel="Comment"
+            onSubmit={props.onCreate}
+            onCancel={props.onCancelDraft}
+          />
+        </div>
+      </Show>
+
+      <Show when={activeThread()} fallback={
+        <>
+          <div class="flex gap-1 border-b px-3 py-2 text-sm">
+            <Button size="sm" variant={showResolved() ? 'ghost' : 'secondary'} onClick={() => setShowResolved(false)}>
+              Open ({props.threads.filter(t => !t.resolved).length})
+            </Button>
+            <Button size="sm" variant={showResolved() ? 'secondary' : 'ghost'} onClick={() => setShowResolved(true)}>
+              Resolved ({props.threads.filter(t => t.resolved).length})
+            </Button>
+          </div>
+          <div class="flex-1 overflow-y-auto">
+            <Show when={listedThreads().length > 0} fallback={
+              <p class="p-3 text-sm text-muted-foreground">
+                {showResolved() ? 'No resolved threads.' : 'No open threads. Use the comment tool to start one.'}
+              </p>
+            }>
+              <For each={listedThreads()}>{(thread) => (
+                <button type="button"
+                        class="block w-full border-b px-3 py-2 text-left hover:bg-muted"
+                        classList={{ 'bg-amber-50 dark:bg-amber-950': mentionsMe(thread) }}
+                        onClick={() => props.onSelectThread(thread.id)}>
+                  <div class="flex items-center justify-between text-xs text-muted-foreground">
+                    <span class="font-medium text-foreground">{thread.comments[0]?.userName}</span>
+                    <span>{formatTime(thread.updated)}</span>
+                  </div>
+                  <p class="line-clamp-2 text-sm">{thread.comments[0]?.text}</p>
+                  <p class="text-xs text-muted-foreground">
+                    {thread.comments.length - 1} {thread.comments.length === 2 ? 'reply' : 'replies'}
+                    <Show when={mentionsMe(thread)}> · mentions you</Show>
+                  </p>
+                </button>
+              )}</For>
+            </Show>
+          </div>
+        </>
+      }>
+        {(thread) => (
+          <div class="flex flex-1 flex-col overflow-hidden">
+            <div class="flex items-center justify-between border-b px-3 py-2">
+              <Button size="sm" variant="ghost" onClick={() => props.onSelectThread(null)}>All threads</Button>
+              <Show when={props.canResolve(thread())}>
+                <Button size="sm" variant="outline" onClick={() => props.onResolve(thread().id, !thread().resolved)}>
+                  {thread().resolved ? 'Reopen' : 'Resolve'}
+                </Button>
+              </Show>
+            </div>
+            <div class="flex-1 space-y-3 overflow-y-auto p-3">
+              <For each={thread().comments}>{(comment) => (
+                <div>
+                  <div class="flex items-center justify-between text-xs text-muted-foreground">
+                    <span class="font-medium text-foreground">{comment.userName}</span>
+                    <span>{formatTime(comment.created)}</span>
+                  </div>
+                  <CommentText comment={comment} currentUserId={props.currentUserId} />
+                </div>
+              )}</For>
+              <Show when={thread().resolved && thread().resolvedAt}>
+                <p class="text-xs text-muted-foreground">Resolved {formatTime(thread().resolvedAt!)}</p>
+              </Show>
+            </div>
+            <div class="border-t p-3">
+              <CommentComposer
+                members={props.members}
+                placeholder="Reply, @ to mention"
+                submitLabel="Reply"
+                onSubmit={(text, mentions) => props.onReply(thread().id, text, mentions)}
+              />
+            </div>
+          </div>
+        )}
+      </Show>
+    </aside>
+  );
+}
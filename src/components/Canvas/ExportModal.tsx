@@ -0,0 +1,155 @@
+import { createSignal, For, Show, type Accessor } from 'solid-js';
+import { Button } from '~/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogFooter, DialogTitle, DialogDescription } from '~/components/ui/dialog';
+import { Label } from '~/components/ui/label';
+import type { CanvasEvent } from '~/hooks/useCanvasWebSocket';
+import { getShapeBounds, unionBounds, type CanvasBounds } from '~/lib/canvas-shapes';
+import { buildCanvasExportDocument, canvasExportFileName, renderCanvasSvg } from '~/lib/canvas-export';
+import { drawCanvasShape } from './drawShapes';
+
+type ExportFormat = 'png' | 'svg' | 'json';
+type ExportBackground = 'transparent' | 'white' | 'custom';
+
+const PNG_SCALES = [1, 2, 4];
+const EXPORT_PADDING = 20; // Margin around the drawing, in world units
+const MAX_PNG_SIDE = 16_384; // Browsers refuse to allocate larger canvases
+
+interface ExportModalProps {
+  isOpen: Accessor<boolean>;
+  onClose: () => void;
+  roomName: string;
+  shapes: Accessor<CanvasEvent[]>; // Live shapes in draw order
+}
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Rasterizes the shapes with the same renderer as the live canvas
+const renderCanvasPng = (shapes: CanvasEvent[], scale: number, background: string | null): Promise<Blob> => {
+  const bounds: CanvasBounds = unionBounds(
+    shapes.map(shape => getShapeBounds(shape.type, shape.data)).filter((b): b is CanvasBounds => b !== null),
+  ) ?? { minX: 0, minY: 0, maxX: 0, maxY: 0 };
+  const width = Math.ceil((bounds.maxX - bounds.minX + EXPORT_PADDING * 2) * scale);
+  const height = Math.ceil((bounds.maxY - bounds.minY + EXPORT_PADDING * 2) * scale);
+  if (width > MAX_PNG_SIDE || height > MAX_PNG_SIDE) {
+    return Promise.reject(new Error('The drawing is too large to export at this scale. Try a smaller scale or SVG.'));
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return Promise.reject(new Error('Canvas rendering is not available.'));
+  if (background) {
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, width, height);
+  }
+  ctx.setTransform(scale, 0, 0, scale, (EXPORT_PADDING - bounds.minX) * scale, (EXPORT_PADDING - bounds.minY) * scale);
+  shapes.forEach(shape => drawCanvasShape(ctx, shape.type, shape.data));
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Failed to encode the PNG.')), 'image/png');
+  });
+};
+
+export default function ExportModal(props: ExportModalProps) {
+  const [format, setFormat] = createSignal<ExportFormat>('png');
+  const [scale, setScale] = createSignal(2);
+  const [background, setBackground] = createSignal<ExportBackground>('white');
+  const [customBackground, setCustomBackground] = createSignal('#f5f5f4');
+  const [error, setError] = createSignal<string | null>(null);
+  const [isExporting, setIsExporting] = createSignal(false);
+
+  const backgroundColor = () =>
+    background() === 'transparent' ? null : background() === 'white' ? '#ffffff' : customBackground();
+
+  const handleExport = async () => {
+    setError(null);
+    setIsExporting(true);
+    try {
+      const shapes = props.shapes();
+      if (format() === 'png') {
+        downloadBlob(await renderCanvasPng(shapes, scale(), backgroundColor()), canvasExportFileName(props.roomName, 'png'));
+      } else if (format() === 'svg') {
+        const svg = renderCanvasSvg(shapes, { background: backgroundColor(), padding: EXPORT_PADDING });
+        downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), canvasExportFileName(props.roomName, 'svg'));
+      } else {
+        const json = JSON.stringify(buildCanvasExportDocument(props.roomName, shapes), null, 2);
+        downloadBlob(new Blob([json], { type: 'application/json' }), canvasExportFileName(props.roomName, 'json'));
+      }
+      props.onClose();
+    } catch (e: any) {
+      setError(e.message || 'Export failed.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={props.isOpen()} onOpenChange={(open) => !open && props.onClose()}>
+      <DialogContent class="sm:max-w-[425px] bg-background text-foreground">
+        <DialogHeader>
+          <DialogTitle>Export canvas</DialogTitle>
+          <DialogDescription>
+            Download the current drawing as an image, or as JSON to import it into a new room later.
+            JSON documents leave out uploaded images.
+          </DialogDescription>
+        </DialogHeader>
+        <div class="grid gap-4 py-4">
+          <div class="grid grid-cols-4 items-center gap-4">
+            <Label for="export-format" class="text-right">Format</Label>
+            <select id="export-format" class="col-span-3 h-9 rounded-md border border-input bg-background px-2 text-sm"
+                    value={format()} onChange={(e) => setFormat(e.currentTarget.value as ExportFormat)}>
+              <option value="png">PNG image</option>
+              <option value="svg">SVG vector image</option>
+              <option value="json">JSON document</option>
+            </select>
+          </div>
+          <Show when={format() === 'png'}>
+            <div class="grid grid-cols-4 items-center gap-4">
+              <Label for="export-scale" class="text-right">Scale</Label>
+              <select id="export-scale" class="col-span-3 h-9 rounded-md border border-input bg-background px-2 text-sm"
+                      value={scale()} onChange={(e) => setScale(Number(e.currentTarget.value))}>
+                <For each={PNG_SCALES}>{(value) => <option value={value}>{value}x</option>}</For>
+              </select>
+            </div>
+          </Show>
+          <Show when={format() !== 'json'}>
+            <div class="grid grid-cols-4 items-center gap-4">
+              <Label for="export-background" class="text-right">Background</Label>
+              <div class="col-span-3 flex items-center gap-2">
+                <select id="export-background" class="h-9 flex-grow rounded-md border border-input bg-background px-2 text-sm"
+                        value={background()} onChange={(e) => setBackground(e.currentTarget.value as ExportBackground)}>
+                  <option value="transparent">Transparent</option>
+                  <option value="white">White</option>
+                  <option value="custom">Custom color</option>
+                </select>
+                <Show when={background() === 'custom'}>
+                  <input type="color" class="h-9 w-9 cursor-pointer bg-transparent" value={customBackground()}
+                         onInput={(e) => setCustomBackground(e.currentTarget.value)} />
+                </Show>
+              </div>
+            </div>
+          </Show>
+          <Show when={error()}>
+            <p class="text-sm text-destructive">{error()}</p>
+          </Show>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={props.onClose} disabled={isExporting()}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={isExporting()}>
+            {isExporting() ? 'Exporting...' : 'Download'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
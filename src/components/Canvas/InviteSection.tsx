@@ -0,0 +1,229 @@
+import { createSignal, For, Show } from 'solid-js';
+import { createMutation, createQuery, useQueryClient } from '@tanstack/solid-query';
+import { Button } from '~/components/ui/button';
+import { Input } from '~/components/ui/input';
+import { Label } from '~/components/ui/label';
+import { fetchWithAuth } from '~/lib/utils/fetchWithAuth';
+import { getApiUrl, getFrontendUrl } from '~/lib/utils';
+
+interface ApiError {
+  message?: string;
+  error?: string;
+}
+
+// Client-side representation of a canvas invite, matching the canvas_invites table
+export interface ClientCanvasInvite {
+  id: string;
+  room_id: string;
+  email: string | null;
+  token: string;
+  created_by_user_id: string;
+  role: 'owner' | 'editor' | 'viewer';
+  status: 'pending' | 'accepted' | 'expired' | 'revoked';
+  created: string;
+  expires: string;
+  used: string | null;
+}
+
+interface CreateInvitePayload {
+  email?: string;
+  role: 'editor' | 'viewer';
+  expires_in_hours: number;
+}
+
+interface InviteSectionProps {
+  roomId: string;
+}
+
+const EXPIRY_OPTIONS = [
+  { label: '1 day', hours: 24 },
+  { label: '7 days', hours: 24 * 7 },
+  { label: '30 days', hours: 24 * 30 },
+];
+
+const readApiError = async (response: Response, fallback: string): Promise<Error> => {
+  let errorDetail: ApiError = { message: `Request failed with status ${response.status}` };
+  try {
+    const parsedError = await response.json();
+    if (parsedError && typeof parsedError === 'object') {
+      const potentialError = parsedError as ApiError;
+      if (typeof potentialError.message === 'string' || typeof potentialError.error === 'string') {
+        errorDetail = potentialError;
+      }
+    }
+  } catch (e) {
+    console.error("Failed to parse error response JSON or unexpected format:", e);
+  }
+  return new Error(errorDetail.message || errorDetail.error || fallback);
+};
+
+export const getInviteLink = (token: string) => `${getFrontendUrl()}/dashboard/canvas/invite/${token}`;
+
+export default function InviteSection(props: InviteSectionProps) {
+  const queryClient = useQueryClient();
+  const [email, setEmail] = createSignal('');
+  const [role, setRole] = createSignal<'editor' | 'viewer'>('viewer');
+  const [expiresInHours, setExpiresInHours] = createSignal(EXPIRY_OPTIONS[1].hours);
+  const [copiedToken, setCopiedToken] = createSignal<string | null>(null);
+
+  const invitesQueryKey = () => ['canvas', 'room', props.roomId, 'invites'];
+
+  const invitesQuery = createQuery(() => ({
+    queryKey: invitesQueryKey(),
+    queryFn: async (): Promise<ClientCanvasInvite[]> => {
+      const response = await fetchWithAuth(`${getApiUrl()}/api/canvas/rooms/${props.roomId}/invites`);
+      if (!response.ok) {
+        throw await readApiError(response, 'Failed to fetch invites');
+      }
+      return response.json() as Promise<ClientCanvasInvite[]>;
+    },
+  }));
+
+  const createInviteMutation = createMutation(() => ({
+    mutationFn: async (payload: CreateInvitePayload) => {
+      const response = await fetchWithAuth(`${getApiUrl()}/api/canvas/rooms/${props.roomId}/invites`, {
+        method: 'POST',
+        body: JSON.stringify(payload),
+      });
+      if (!response.ok) {
+        throw await readApiError(response, 'Failed to create invite');
+      }
+      const result = await response.json() as { invite: ClientCanvasInvite };
+      return result.invite;
+    },
+    onSuccess: (invite: ClientCanvasInvite) => {
+      queryClient.invalidateQueries({ queryKey: invitesQueryKey() });
+      setEmail('');
+      copyLink(invite.token);
+    },
+    onError: (error: Error) => {
+      console.error('Error creating invite:', error);
+    },
+  }));
+
+  const revokeInviteMutation = createMutation(() => ({
+    mutationFn: async (inviteId: string) => {
+      const response = await fetchWithAuth(`${getApiUrl()}/api/canvas/rooms/${props.roomId}/invites/${inviteId}`, {
+        method: 'DELETE',
+      });
+      if (!response.ok) {
+        throw await readApiError(response, 'Failed to revoke invite');
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: invitesQueryKey() });
+    },
+    onError: (error: Error) => {
+      console.error('Error revoking invite:', error);
+    },
+  }));
+
+  const copyLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(getInviteLink(token));
+      setCopiedToken(token);
+      setTimeout(() => setCopiedToken(current => (current === token ? null : current)), 2000);
+    } catch (e) {
+      console.error('Failed to copy invite link:', e);
+    }
+  };
+
+  const handleCreate = (e: Event) => {
+    e.preventDefault();
+    const payload: CreateInvitePayload = { role: role(), expires_in_hours: expiresInHours() };
+    if (email().trim() !== '') {
+      payload.email = email().trim();
+    }
+    createInviteMutation.mutate(payload);
+  };
+
+  const isActive = (invite: ClientCanvasInvite) =>
+    invite.status === 'pending' && new Date(invite.expires).getTime() > Date.now();
+
+  return (
+    <div class="grid gap-3">
+      <form onSubmit={handleCreate} class="grid gap-3">
+        <div class="grid grid-cols-4 items-center gap-4">
+          <Label for="invite-email" class="text-right">Email</Label>
+          <Input
+            id="invite-email"
+            type="email"
+            placeholder="Optional: restrict to one address"
+            value={email()}
+            onChange={setEmail}
+            class="col-span-3"
+          />
+        </div>
+        <div class="grid grid-cols-4 items-center gap-4">
+          <Label for="invite-role" class="text-right">Role</Label>
+          <select
+            id="invite-role"
+            class="col-span-3 h-9 rounded-md border border-input bg-transparent px-3 text-sm"
+            value={role()}
+            onChange={(e) => setRole(e.currentTarget.value as 'editor' | 'viewer')}
+          >
+            <option value="viewer">Viewer</option>
+            <option value="editor">Editor</option>
+          </select>
+        </div>
+        <div class="grid grid-cols-4 items-center gap-4">
+          <Label for="invite-expiry" class="text-right">Expires in</Label>
+          <select
+            id="invite-expiry"
+            class="col-span-3 h-9 rounded-md border border-input bg-transparent px-3 text-sm"
+            value={expiresInHours()}
+            onChange={(e) => setExpiresInHours(Number(e.currentTarget.value))}
+          >
+            <For each={EXPIRY_OPTIONS}>{(option) => <option value={option.hours}>{option.label}</option>}</For>
+          </select>
+        </div>
+        <div class="flex justify-end">
+          <Button type="submit" size="sm" disabled={createInviteMutation.isPending}>
+            {createInviteMutation.isPending ? 'Creating...' : 'Create invite link'}
+          </Button>
+        </div>
+        <Show when={createInviteMutation.isError}>
+          <p class="text-sm text-destructive">{createInviteMutation.error?.message}</p>
+        </Show>
+      </form>
+
+      <Show when={invitesQuery.isLoading}>
+        <p class="text-sm text-muted-foreground">Loading invites...</p>
+      </Show>
+      <Show when={invitesQuery.isError}>
+        <p class="text-sm text-destructive">Error loading invites: {invitesQuery.error?.message}</p>
+      </Show>
+      <Show when={invitesQuery.data && invitesQuery.data.length > 0}>
+        <ul class="divide-y divide-border border border-border rounded-md max-h-48 overflow-y-auto">
+          <For each={invitesQuery.data}>{(invite) => (
+            <li class="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+              <div class="min-w-0">
+                <p class="truncate">{invite.email || 'Anyone with the link'} · <span class="capitalize">{invite.role}</span></p>
+                <p class="text-xs text-muted-foreground">
+                  <Show when={isActive(invite)} fallback={<span class="capitalize">{invite.status === 'pending' ? 'expired' : invite.status}</span>}>
+                    Expires {new Date(invite.expires).toLocaleString()}
+                  </Show>
+                </p>
+              </div>
+              <Show when={isActive(invite)}>
+                <div class="flex shrink-0 gap-1">
+                  <Button variant="outline" size="sm" onClick={() => copyLink(invite.token)}>
+                    {copiedToken() === invite.token ? 'Copied!' : 'Copy link'}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => revokeInviteMutation.mutate(invite.id)}
+                    disabled={revokeInviteMutation.isPending}
+                  >
+                    Revoke
+                  </Button>
+                </div>
+              </Show>
+            </li>
+          )}</For>
+        </ul>
+      </Show>
+    </div>
+  );
+}
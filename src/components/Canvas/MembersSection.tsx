@@ -0,0 +1,234 @@
+import { For, Show } from 'solid-js';
+import { createMutation, createQuery, useQueryClient } from '@tanstack/solid-query';
+import { useNavigate } from '@tanstack/solid-router';
+import { Button } from '~/components/ui/button';
+import { Avatar, AvatarFallback, AvatarImage } from '~/components/ui/avatar';
+import { fetchWithAuth } from '~/lib/utils/fetchWithAuth';
+import { getApiUrl } from '~/lib/utils';
+
+interface ApiError {
+  message?: string;
+  error?: string;
+}
+
+type ParticipantRole = 'owner' | 'editor' | 'viewer';
+
+// Client-side representation of a room member, matching GET /rooms/:roomId/participants
+export interface ClientCanvasParticipant {
+  id: string;
+  room_id: string;
+  user_id: string;
+  role: ParticipantRole;
+  joined: string;
+  last_active: string;
+  name: string | null;
+  email: string | null;
+  image: string | null;
+}
+
+interface MembersSectionProps {
+  roomId: string;
+  isOwner: boolean;
+  currentUserId: string | null;
+  userColors?: Record<string, string>; // The room's color overrides by user id; owners can edit them
+}
+
+const readApiError = async (response: Response, fallback: string): Promise<Error> => {
+  let errorDetail: ApiError = { message: `Request failed with status ${response.status}` };
+  try {
+    const parsedError = await response.json();
+    if (parsedError && typeof parsedError === 'object') {
+      const potentialError = parsedError as ApiError;
+      if (typeof potentialError.message === 'string' || typeof potentialError.error === 'string') {
+        errorDetail = potentialError;
+      }
+    }
+  } catch (e) {
+    console.error("Failed to parse error response JSON or unexpected format:", e);
+  }
+  return new Error(errorDetail.message || errorDetail.error || fallback);
+};
+
+const initials = (participant: ClientCanvasParticipant) =>
+  (participant.name || participant.email || '?')
+    .split(/\s+/)
+    .map(part => part[0])
+    .join('')
+    .slice(0, 2)
+    .toUpperCase();
+
+export default function MembersSection(props: MembersSectionProps) {
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+
+  const participantsQueryKey = () => ['canvas', 'room', props.roomId, 'participants'];
+
+  const participantsQuery = createQuery(() => ({
+    queryKey: participantsQueryKey(),
+    queryFn: async (): Promise<ClientCanvasParticipant[]> => {
+      const response = await fetchWithAuth(`${getApiUrl()}/api/canvas/rooms/${props.roomId}/participants`);
+      if (!response.ok) {
+        throw await readApiError(response, 'Failed to fetch members');
+      }
+      return response.json() as Promise<ClientCanvasParticipant[]>;
+    },
+  }));
+
+  const updateRoleMutation = createMutation(() => ({
+    mutationFn: async ({ userId, role }: { userId: string; role: ParticipantRole }) => {
+      const response = await fetchWithAuth(`${getApiUrl()}/api/canvas/rooms/${props.roomId}/participants/${userId}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ role }),
+      });
+      if (!response.ok) {
+        throw await readApiError(response, 'Failed to update member');
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: participantsQueryKey() });
+      queryClient.invalidateQueries({ queryKey: ['canvas', 'room', props.roomId] });
+    },
+    onError: (error: Error) => {
+      console.error('Error updating member role:', error);
+    },
+  }));
+
+  const removeMutation = createMutation(() => ({
+    mutationFn: async (userId: string) => {
+      const response = await fetchWithAuth(`${getApiUrl()}/api/canvas/rooms/${props.roomId}/participants/${userId}`, {
+        method: 'DELETE',
+      });
+      if (!response.ok) {
+        throw await readApiError(response, 'Failed to remove member');
+      }
+      return userId;
+    },
+    onSuccess: (userId: string) => {
+      if (userId === props.currentUserId) {
+        queryClient.invalidateQueries({ queryKey: ['canvasRooms'] });
+        navigate({ to: '/dashboard/canvas' });
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: participantsQueryKey() });
+    },
+    onError: (error: Error) => {
+      console.error('Error removing member:', error);
+    },
+  }));
+
+  // Overrides replace the color a member draws and appears in; null returns them to their assigned color
+  const userColorMutation = createMutation(() => ({
+    mutationFn: async ({ userId, color }: { userId: string; color: string | null }) => {
+      const { [userId]: _, ...userColors } = props.userColors ?? {};
+      const response = await fetchWithAuth(`${getApiUrl()}/api/canvas/rooms/${props.roomId}/settings`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ user_colors: color ? { ...userColors, [userId]: color } : userColors }),
+      });
+      if (!response.ok) {
+        throw await readApiError(response, 'Failed to update member color');
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['canvas', 'room', props.roomId] });
+    },
+    onError: (error: Error) => {
+      console.error('Error updating member color:', error);
+    },
+  }));
+
+  const handleRoleChange = (participant: ClientCanvasParticipant, role: ParticipantRole) => {
+    if (role === participant.role) return;
+    if (role === 'owner' && !confirm(`Transfer ownership to ${participant.name || participant.email}? You will become an editor.`)) {
+      return;
+    }
+    updateRoleMutation.mutate({ userId: participant.user_id, role });
+  };
+
+  const handleRemove = (participant: ClientCanvasParticipant) => {
+    const isSelf = participant.user_id === props.currentUserId;
+    const prompt = isSelf ? 'Leave this room?' : `Remove ${participant.name || participant.email} from this room?`;
+    if (confirm(prompt)) {
+      removeMutation.mutate(participant.user_id);
+    }
+  };
+
+  return (
+    <div class="grid gap-3">
+      <Show when={participantsQuery.isLoading}>
+        <p class="text-sm text-muted-foreground">Loading members...</p>
+      </Show>
+      <Show when={participantsQuery.isError}>
+        <p class="text-sm text-destructive">Error loading members: {participantsQuery.error?.message}</p>
+      </Show>
+      <Show when={updateRoleMutation.isError || removeMutation.isError || userColorMutation.isError}>
+        <p class="text-sm text-destructive">{(updateRoleMutation.error || removeMutation.error || userColorMutation.error)?.message}</p>
+      </Show>
+      <Show when={participantsQuery.data}>
+        <ul class="divide-y divide-border border border-border rounded-md max-h-72 overflow-y-auto">
+          <For each={participantsQuery.data}>{(participant) => {
+            const isSelf = () => participant.user_id === props.currentUserId;
+            return (
+              <li class="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+                <div class="flex items-center gap-2 min-w-0">
+                  <Avatar class="h-8 w-8">
+                    <AvatarImage src={participant.image || undefined} alt={participant.name || ''} />
+                    <AvatarFallback>{initials(participant)}</AvatarFallback>
+                  </Avatar>
+                  <div class="min-w-0">
+                    <p class="truncate">{participant.name || participant.email || participant.user_id}{isSelf() ? ' (you)' : ''}</p>
+                    <p class="text-xs text-muted-foreground truncate">{participant.email}</p>
+                  </div>
+                </div>
+                <div class="flex shrink-0 items-center gap-1">
+                  <Show when={props.isOwner}>
+                    <input
+                      type="color"
+                      class="h-8 w-8 cursor-pointer bg-transparent"
+                      classList={{ 'opacity-40': !props.userColors?.[participant.user_id] }}
+                      title={props.userColors?.[participant.user_id] ? 'Color override' : 'Override this member\'s color'}
+                      value={props.userColors?.[participant.user_id] ?? '#000000'}
+                      disabled={userColorMutation.isPending}
+                      onChange={(e) => userColorMutation.mutate({ userId: participant.user_id, color: e.currentTarget.value })}
+                    />
+                    <Show when={props.userColors?.[participant.user_id]}>
+                      <Button variant="ghost" size="sm" title="Use the assigned color" disabled={userColorMutation.isPending}
+                              onClick={() => userColorMutation.mutate({ userId: participant.user_id, color: null })}>
+                        Reset
+                      </Button>
+                    </Show>
+                  </Show>
+                  <Show
+                    when={props.isOwner && participant.role !== 'owner'}
+                    fallback={<span class="capitalize text-muted-foreground px-2">{participant.role}</span>}
+                  >
+                    <select
+                      class="h-8 rounded-md border border-input bg-transparent px-2 text-sm"
+                      value={participant.role}
+                      disabled={updateRoleMutation.isPending}
+                      onChange={(e) => handleRoleChange(participant, e.currentTarget.value as ParticipantRole)}
+                    >
+                      <option value="viewer">Viewer</option>
+                      <option value="editor">Editor</option>
+                      <option value="owner">Owner</option>
+                    </select>
+                  </Show>
+                  <Show when={participant.role !== 'owner' && (props.isOwner || isSelf())}>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRemove(participant)}
+                      disabled={removeMutation.isPending}
+                    >
+                      {isSelf() ? 'Leave' : 'Remove'}
+                    </Button>
+                  </Show>
+                </div>
+              </li>
+            );
+          }}</For>
+        </ul>
+      </Show>
+    </div>
+  );
+}
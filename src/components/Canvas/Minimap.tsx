@@ -0,0 +1,76 @@
+import { createEffect, on } from 'solid-js';
+import type { CanvasEvent } from '~/hooks/useCanvasWebSocket';
+import { unionBounds, type CanvasBounds } from '~/lib/canvas-shapes';
+import { drawCanvasShape } from './drawShapes';
+import { canvasImagesVersion } from './canvasImages';
+import type { Viewport } from './viewport';
+
+const MINIMAP_WIDTH = 180;
+const MINIMAP_HEIGHT = 120;
+const MINIMAP_PADDING = 8;
+
+interface MinimapProps {
+  shapes: CanvasEvent[];
+  contentBounds: CanvasBounds | null;
+  visibleBounds: CanvasBounds;
+  viewport: Viewport;
+  onNavigate: (worldPoint: { x: number; y: number }) => void; // Center the main view on this point
+}
+
+// Overview of the whole drawing with the visible area outlined; click or drag to navigate
+export function Minimap(props: MinimapProps) {
+  let canvasRef!: HTMLCanvasElement;
+  let dragging = false;
+
+  // Region the minimap shows: all content plus whatever is currently on screen
+  const mapBounds = () => unionBounds(props.contentBounds ? [props.contentBounds, props.visibleBounds] : [props.visibleBounds])!;
+
+  const mapScale = () => {
+    const bounds = mapBounds();
+    return Math.min(
+      (MINIMAP_WIDTH - MINIMAP_PADDING * 2) / Math.max(bounds.maxX - bounds.minX, 1),
+      (MINIMAP_HEIGHT - MINIMAP_PADDING * 2) / Math.max(bounds.maxY - bounds.minY, 1),
+    );
+  };
+
+  const draw = () => {
+    const ctx = canvasRef?.getContext('2d');
+    if (!ctx) return;
+    const bounds = mapBounds();
+    const scale = mapScale();
+
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, MINIMAP_WIDTH, MINIMAP_HEIGHT);
+    ctx.setTransform(scale, 0, 0, scale, MINIMAP_PADDING - bounds.minX * scale, MINIMAP_PADDING - bounds.minY * scale);
+    props.shapes.forEach(shape => drawCanvasShape(ctx, shape.type, shape.data));
+
+    const visible = props.visibleBounds;
+    ctx.strokeStyle = '#3b82f6';
+    ctx.lineWidth = 2 / scale;
+    ctx.strokeRect(visible.minX, visible.minY, visible.maxX - visible.minX, visible.maxY - visible.minY);
+  };
+
+  createEffect(on([() => props.shapes, () => props.viewport, () => props.visibleBounds, canvasImagesVersion], draw));
+
+  const navigateTo = (e: MouseEvent) => {
+    const bounds = mapBounds();
+    const scale = mapScale();
+    props.onNavigate({
+      x: (e.offsetX - MINIMAP_PADDING) / scale + bounds.minX,
+      y: (e.offsetY - MINIMAP_PADDING) / scale + bounds.minY,
+    });
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={MINIMAP_WIDTH}
+      height={MINIMAP_HEIGHT}
+      class="rounded-md border border-gray-600 bg-gray-900/80 shadow cursor-pointer"
+      onMouseDown={(e) => { dragging = true; navigateTo(e); }}
+      onMouseMove={(e) => { if (dragging) navigateTo(e); }}
+      onMouseUp={() => { dragging = false; }}
+      onMouseLeave={() => { dragging = false; }}
+    />
+  );
+}
@@ -0,0 +1,73 @@
+import { For, Show } from 'solid-js';
+import { Avatar, AvatarFallback, AvatarImage } from '~/components/ui/avatar';
+import type { RoomParticipant } from '~/hooks/useCanvasWebSocket';
+
+interface ParticipantBarProps {
+  participants: RoomParticipant[]; // Members connected, including ourselves
+  clientId: string; // Our own connection
+  followingClientId: string | null;
+  onFollow: (clientId: string | null) => void; // null stops following
+  guestCount?: number; // Signed-out viewers watching through the share link, shown as a count
+}
+
+const MAX_VISIBLE_PARTICIPANTS = 8;
+
+const initials = (participant: RoomParticipant) =>
+  participant.userName
+    .split(/\s+/)
+    .map(part => part[0])
+    .join('')
+    .slice(0, 2)
+    .toUpperCase() || '?';
+
+// Avatars of everyone in the room; clicking someone else follows their view, clicking again stops
+export function ParticipantBar(props: ParticipantBarProps) {
+  const visible = () => props.participants.slice(0, MAX_VISIBLE_PARTICIPANTS);
+  const overflow = () => props.participants.length - MAX_VISIBLE_PARTICIPANTS;
+
+  return (
+    <div class="flex items-center gap-2">
+      <div class="flex items-center -space-x-2">
+        <For each={visible()}>{(participant) => {
+          const isSelf = () => participant.clientId === props.clientId;
+          const isFollowed = () => participant.clientId === props.followingClientId;
+          const title = () => [
+            `${participant.userName}${isSelf() ? ' (you)' : ''}`,
+            participant.role,
+            participant.idle ? 'idle' : null,
+            isSelf() ? null : isFollowed() ? 'click to stop following' : 'click to follow',
+          ].filter(Boolean).join(' · ');
+          return (
+            <button
+              type="button"
+              class="relative rounded-full border-2 bg-background transition-opacity disabled:cursor-default"
+              classList={{ 'opacity-50': participant.idle, 'ring-2 ring-offset-2 ring-primary': isFollowed() }}
+              style={{ 'border-color': participant.userColor }}
+              title={title()}
+              disabled={isSelf()}
+              onClick={() => props.onFollow(isFollowed() ? null : participant.clientId)}
+            >
+              <Avatar class="h-7 w-7">
+                <Show when={participant.userImage}>
+                  <AvatarImage src={participant.userImage!} alt={participant.userName} />
+                </Show>
+                <AvatarFallback class="text-xs">{initials(participant)}</AvatarFallback>
+              </Avatar>
+            </button>
+          );
+        }}</For>
+        <Show when={overflow() > 0}>
+          <span class="relative flex h-8 w-8 items-center justify-center rounded-full border-2 border-border bg-muted text-xs text-muted-foreground"
+                title={props.participants.slice(MAX_VISIBLE_PARTICIPANTS).map(p => p.userName).join(', ')}>
+            +{overflow()}
+          </span>
+        </Show>
+      </div>
+      <Show when={(props.guestCount ?? 0) > 0}>
+        <span class="rounded-md bg-muted px-2 py-1 text-xs text-muted-foreground" title="Watching through the public view-only link">
+          {props.guestCount} {props.guestCount === 1 ? 'guest' : 'guests'}
+        </span>
+      </Show>
+    </div>
+  );
+}
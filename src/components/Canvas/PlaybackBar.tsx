@@ -0,0 +1,76 @@
+import { For, Show } from 'solid-js';
+import { Button } from '~/components/ui/button';
+import { PLAYBACK_SPEEDS, type useCanvasPlayback } from '~/hooks/useCanvasPlayback';
+
+interface PlaybackBarProps {
+  playback: ReturnType<typeof useCanvasPlayback>;
+  currentUserId?: string | null;
+  onFork: (seq: number) => void; // Create a new room from the canvas at this point
+  isForking?: boolean;
+  onExit: () => void;
+}
+
+const formatTimestamp = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+// Timeline controls for playback mode: scrubber, play/pause, speed, per-user filter and fork
+export function PlaybackBar(props: PlaybackBarProps) {
+  const playback = () => props.playback;
+  const total = () => playback().events().length;
+
+  return (
+    <div class="mt-2 flex flex-col gap-2 rounded-lg border border-border bg-background p-3 text-sm shadow-md">
+      <Show when={!playback().isLoading()} fallback={<p class="text-muted-foreground">Loading history...</p>}>
+        <Show when={!playback().error()} fallback={<p class="text-destructive">{playback().error()}</p>}>
+          <div class="flex items-center gap-2">
+            <Button variant="outline" size="sm" class="w-16" disabled={total() === 0}
+                    onClick={() => playback().isPlaying() ? playback().pause() : playback().play()}>
+              {playback().isPlaying() ? 'Pause' : 'Play'}
+            </Button>
+            <input
+              type="range"
+              class="flex-grow"
+              min={0}
+              max={total()}
+              value={playback().position()}
+              onInput={(e) => playback().setPosition(Number(e.currentTarget.value))}
+              aria-label="Playback position"
+            />
+            <select class="h-8 rounded-md border border-input bg-background px-1" title="Playback speed"
+                    value={playback().speed()} onChange={(e) => playback().setSpeed(Number(e.currentTarget.value))}>
+              <For each={PLAYBACK_SPEEDS}>{(speed) => <option value={speed}>{speed}x</option>}</For>
+            </select>
+          </div>
+          <div class="flex flex-wrap items-center justify-between gap-2">
+            <p class="text-muted-foreground">
+              Event {playback().position()} of {total()}
+              <Show when={playback().currentEvent()}>
+                {(event) => <> · {formatTimestamp(event().timestamp)}</>}
+              </Show>
+            </p>
+            <div class="flex items-center gap-2">
+              <Button variant="outline" size="sm" disabled={props.isForking}
+                      onClick={() => props.onFork(playback().currentEvent()?.seq ?? 0)}>
+                {props.isForking ? 'Forking...' : 'Fork from here'}
+              </Button>
+              <Button variant="outline" size="sm" onClick={props.onExit}>Back to live</Button>
+            </div>
+          </div>
+          <Show when={playback().users().length > 1}>
+            <div class="flex flex-wrap items-center gap-3">
+              <span class="text-muted-foreground">Show:</span>
+              <For each={playback().users()}>{(user) => (
+                <label class="flex items-center gap-1" title={user.userId}>
+                  <input type="checkbox" checked={!playback().hiddenUserIds().has(user.userId)}
+                         onChange={() => playback().toggleUser(user.userId)} />
+                  <span class="inline-block h-3 w-3 rounded-full" style={{ 'background-color': user.userColor ?? '#cccccc' }} />
+                  {user.userId === props.currentUserId ? 'You' : user.userId.slice(0, 8)}
+                  <span class="text-muted-foreground">({user.eventCount})</span>
+                </label>
+              )}</For>
+            </div>
+          </Show>
+        </Show>
+      </Show>
+    </div>
+  );
+}
@@ -1,12 +1,27 @@
-import { createSignal, type Accessor, createEffect } from 'solid-js';
+import { createSignal, type Accessor, createEffect, For, Show } from 'solid-js';
 import { Button } from '~/components/ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogFooter, DialogTitle, DialogDescription } from '~/components/ui/dialog';
 import { Input } from '~/components/ui/input';
 import { Checkbox } from '~/components/ui/checkbox';
 import { Label } from '~/components/ui/label';
+import { Tabs, TabsList, TabsTrigger, TabsContent } from '~/components/ui/tabs';
 import { createMutation, useQueryClient } from '@tanstack/solid-query';
+import { useNavigate } from '@tanstack/solid-router';
 import { fetchWithAuth } from '~/lib/utils/fetchWithAuth';
 import { getApiUrl } from '~/lib/utils';
+import InviteSection from './InviteSection';
+import ShareLinkSection from './ShareLinkSection';
+import MembersSection from './MembersSection';
+import {
+  CANVAS_BACKGROUND_PATTERNS,
+  CANVAS_GRID_SIZE_LIMITS,
+  CANVAS_TOOLS,
+  DEFAULT_CANVAS_ROOM_SETTINGS,
+  pickCanvasRoomSettings,
+  type CanvasBackgroundPattern,
+  type CanvasRoomSettings,
+  type CanvasTool,
+} from '~/lib/canvas-settings';
 
 // Define a type for expected API error responses
 interface ApiError {
@@ -25,6 +40,15 @@ export interface ClientCanvasRoom {
   max_participants: number;
   created: string; // Assuming string from JSON
   updated: string; // Assuming string from JSON
+  // Canvas settings; read them through pickCanvasRoomSettings, which fills in defaults
+  background_color?: string | null;
+  background_pattern?: CanvasBackgroundPattern;
+  snap_to_grid?: boolean;
+  grid_size?: number;
+  is_locked?: boolean;
+  allowed_tools?: CanvasTool[] | null;
+  user_colors?: Record<string, string> | null;
+  archived_at?: string | null; // Set while the room is archived
 }
 
 interface RoomSettingsModalProps {
@@ -32,22 +56,34 @@ interface RoomSettingsModalProps {
   onClose: () => void;
   room: Accessor<ClientCanvasRoom | null>;
   roomId: string;
+  isOwner?: boolean; // Owners can also manage invites and members
+  currentUserId?: string | null;
 }
 
-interface UpdateRoomSettingsPayload {
+interface UpdateRoomSettingsPayload extends Partial<CanvasRoomSettings> {
   name?: string;
   description?: string | null;
   is_public?: boolean;
   max_participants?: number;
 }
 
+// Edited here; user_colors are edited per member in the Members tab
+const EDITABLE_CANVAS_SETTINGS = ['background_color', 'background_pattern', 'snap_to_grid', 'grid_size', 'is_locked', 'allowed_tools'] as const;
+
+const TOOL_LABELS: Record<CanvasTool, string> = {
+  select: 'Select', pen: 'Pen', eraser: 'Eraser', rect: 'Rectangle', ellipse: 'Ellipse', line: 'Line', arrow: 'Arrow', text: 'Text', sticky: 'Sticky note', image: 'Image',
+};
+
 export default function RoomSettingsModal(props: RoomSettingsModalProps) {
   const [name, setName] = createSignal('');
   const [description, setDescription] = createSignal('');
   const [isPublic, setIsPublic] = createSignal(false);
   const [maxParticipants, setMaxParticipants] = createSignal(10);
+  const [canvasSettings, setCanvasSettings] = createSignal<CanvasRoomSettings>(DEFAULT_CANVAS_ROOM_SETTINGS);
+  const [activeTab, setActiveTab] = createSignal('general');
 
   const queryClient = useQueryClient();
+  const navigate = useNavigate();
 
   createEffect(() => {
     const currentRoom = props.room();
@@ -56,15 +92,32 @@ export default function RoomSettingsModal(props: RoomSettingsModalProps) {
       setDescription(currentRoom.description || '');
       setIsPublic(currentRoom.is_public);
       setMaxParticipants(currentRoom.max_participants);
+      setCanvasSettings(pickCanvasRoomSettings(currentRoom));
     } else {
       // Reset if room becomes null (e.g., on error or if modal is reused weirdly)
       setName('');
       setDescription('');
       setIsPublic(false);
       setMaxParticipants(10);
+      setCanvasSettings(DEFAULT_CANVAS_ROOM_SETTINGS);
     }
   });
 
+  const updateCanvasSetting = <K extends keyof CanvasRoomSettings>(key: K, value: CanvasRoomSettings[K]) =>
+    setCanvasSettings(settings => ({ ...settings, [key]: value }));
+
+  // Every tool checked is stored as null, so tools added later are allowed too
+  const toggleTool = (tool: CanvasTool, allowed: boolean) => {
+    const current = canvasSettings().allowed_tools ?? CANVAS_TOOLS;
+    const next = CANVAS_TOOLS.filter(t => t === tool ? allowed : current.includes(t));
+    if (next.length === 0) return; // At least one tool stays enabled
+    updateCanvasSetting('allowed_tools', next.length === CANVAS_TOOLS.length ? null : next);
+  };
+  const handleGridSizeChange = (value: string) => {
+    const size = parseInt(value, 10);
+    if (!isNaN(size)) updateCanvasSetting('grid_size', Math.min(CANVAS_GRID_SIZE_LIMITS.max, Math.max(CANVAS_GRID_SIZE_LIMITS.min, size)));
+  };
+
   const updateSettingsMutation = createMutation(() => ({
     mutationFn: async (payload: UpdateRoomSettingsPayload) => {
       const response = await fetchWithAuth(`${getApiUrl()}/api/canvas/rooms/${props.roomId}/settings`, {
@@ -106,6 +159,46 @@ export default function RoomSettingsModal(props: RoomSettingsModalProps) {
     },
   }));
 
+  // Archiving disconnects everyone (us included); deleting also takes us back to the room list
+  const roomActionMutation = createMutation(() => ({
+    mutationFn: async (action: 'archive' | 'delete') => {
+      const response = await fetchWithAuth(
+        `${getApiUrl()}/api/canvas/rooms/${props.roomId}${action === 'archive' ? '/archive' : ''}`,
+        { method: action === 'archive' ? 'POST' : 'DELETE' },
+      );
+      if (!response.ok) {
+        const errorBody = await response.json().catch(() => ({})) as ApiError;
+        throw new Error(errorBody.message || errorBody.error || `Failed to ${action} room`);
+      }
+      return action;
+    },
+    onSuccess: (action) => {
+      queryClient.invalidateQueries({ queryKey: ['canvasRooms'] });
+      props.onClose();
+      if (action === 'delete') {
+        queryClient.removeQueries({ queryKey: ['canvas', 'room', props.roomId] });
+        navigate({ to: '/dashboard/canvas' });
+      } else {
+        queryClient.invalidateQueries({ queryKey: ['canvas', 'room', props.roomId] });
+      }
+    },
+    onError: (error: Error) => {
+      alert(error.message);
+    },
+  }));
+
+  const handleArchive = () => {
+    if (confirm('Archive this room? Everyone will be disconnected and it will be hidden from room lists until you restore it.')) {
+      roomActionMutation.mutate('archive');
+    }
+  };
+
+  const handleDelete = () => {
+    if (confirm(`Delete "${props.room()?.name ?? 'this room'}" permanently? Its drawing, history, members and invites will be lost.`)) {
+      roomActionMutation.mutate('delete');
+    }
+  };
+
   const handleSubmit = () => {
     const payload: UpdateRoomSettingsPayload = {};
     const currentRoom = props.room();
@@ -123,6 +216,12 @@ export default function RoomSettingsModal(props: RoomSettingsModalProps) {
     if (Number(maxParticipants()) !== currentRoom.max_participants) {
       payload.max_participants = Number(maxParticipants());
     }
+    const savedSettings = pickCanvasRoomSettings(currentRoom);
+    for (const key of EDITABLE_CANVAS_SETTINGS) {
+      if (JSON.stringify(canvasSettings()[key]) !== JSON.stringify(savedSettings[key])) {
+        Object.assign(payload, { [key]: canvasSettings()[key] });
+      }
+    }
 
     if (Object.keys(payload).length > 0) {
       updateSettingsMutation.mutate(payload);
@@ -146,47 +245,136 @@ export default function RoomSettingsModal(props: RoomSettingsModalProps) {
 
   return (
     <Dialog open={props.isOpen()} onOpenChange={(open) => !open && props.onClose()}>
-      <DialogContent class="sm:max-w-[525px] bg-background text-foreground">
+      <DialogContent class="sm:max-w-[525px] max-h-[90vh] overflow-y-auto bg-background text-foreground">
         <DialogHeader>
           <DialogTitle>Room Settings: {props.room()?.name || ''}</DialogTitle>
           <DialogDescription>
             Update the settings for your canvas room. Click save when you're done.
           </DialogDescription>
         </DialogHeader>
-        <div class="grid gap-4 py-4">
-          <div class="grid grid-cols-4 items-center gap-4">
-            <Label for="room-name" class="text-right">Name</Label>
-            <Input id="room-name" type="text" value={name()} onChange={handleNameChange} class="col-span-3" />
-          </div>
-          <div class="grid grid-cols-4 items-center gap-4">
-            <Label for="room-description" class="text-right">Description</Label>
-            <Input id="room-description" value={description()} onChange={handleDescriptionChange} multiline class="col-span-3 min-h-[80px]" />
-          </div>
-          <div class="grid grid-cols-4 items-center gap-4">
-            <Label for="room-public" class="text-right col-span-1 self-center">Public</Label>
-            <div class="col-span-3 flex items-center">
-              <Checkbox id="room-public" checked={isPublic()} onChange={setIsPublic} class="mr-2" />
-              <Label for="room-public" class="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70">
-                Make this room discoverable by others.
-              </Label>
+        <Tabs value={activeTab()} onChange={setActiveTab}>
+          <TabsList class="grid w-full grid-cols-2">
+            <TabsTrigger value="general">General</TabsTrigger>
+            <TabsTrigger value="members">Members</TabsTrigger>
+          </TabsList>
+          <TabsContent value="general">
+            <div class="grid gap-4 py-4">
+              <div class="grid grid-cols-4 items-center gap-4">
+                <Label for="room-name" class="text-right">Name</Label>
+                <Input id="room-name" type="text" value={name()} onChange={handleNameChange} class="col-span-3" />
+              </div>
+              <div class="grid grid-cols-4 items-center gap-4">
+                <Label for="room-description" class="text-right">Description</Label>
+                <Input id="room-description" value={description()} onChange={handleDescriptionChange} multiline class="col-span-3 min-h-[80px]" />
+              </div>
+              <div class="grid grid-cols-4 items-center gap-4">
+                <Label for="room-public" class="text-right col-span-1 self-center">Public</Label>
+                <div class="col-span-3 flex items-center">
+                  <Checkbox id="room-public" checked={isPublic()} onChange={setIsPublic} class="mr-2" />
+                  <Label for="room-public" class="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70">
+                    Make this room discoverable by others.
+                  </Label>
+                </div>
+              </div>
+              <div class="grid grid-cols-4 items-center gap-4">
+                <Label for="room-max-participants" class="text-right">Max Participants</Label>
+                <Input id="room-max-participants" type="number" value={maxParticipants().toString()} onChange={handleMaxParticipantsChange} class="col-span-3" />
+              </div>
             </div>
-          </div>
-          <div class="grid grid-cols-4 items-center gap-4">
-            <Label for="room-max-participants" class="text-right">Max Participants</Label>
-            <Input id="room-max-participants" type="number" value={maxParticipants().toString()} onChange={handleMaxParticipantsChange} class="col-span-3" />
-          </div>
-        </div>
-        <DialogFooter>
-          <Button variant="outline" onClick={props.onClose} disabled={updateSettingsMutation.isPending}>
-            Cancel
-          </Button>
-          <Button 
-            onClick={handleSubmit} 
-            disabled={updateSettingsMutation.isPending}
-          >
-            {updateSettingsMutation.isPending ? 'Saving...' : 'Save Changes'}
-          </Button>
-        </DialogFooter>
+            <Show when={props.isOwner}>
+              <div class="grid gap-4 border-t border-border py-4">
+                <h3 class="text-sm font-semibold">Canvas</h3>
+                <div class="grid grid-cols-4 items-center gap-4">
+                  <Label for="room-background" class="text-right">Background</Label>
+                  <div class="col-span-3 flex items-center gap-2">
+                    <input id="room-background" type="color" class="h-8 w-8 cursor-pointer bg-transparent"
+                           classList={{ 'opacity-40': canvasSettings().background_color === null }}
+                           value={canvasSettings().background_color ?? '#ffffff'}
+                           onInput={(e) => updateCanvasSetting('background_color', e.currentTarget.value)} />
+                    <Show when={canvasSettings().background_color !== null}>
+                      <Button variant="ghost" size="sm" onClick={() => updateCanvasSetting('background_color', null)}>Default</Button>
+                    </Show>
+                    <select class="h-8 rounded-md border border-input bg-transparent px-2 text-sm" title="Background pattern"
+                            value={canvasSettings().background_pattern}
+                            onChange={(e) => updateCanvasSetting('background_pattern', e.currentTarget.value as CanvasBackgroundPattern)}>
+                      <For each={CANVAS_BACKGROUND_PATTERNS}>{(pattern) => <option value={pattern} class="capitalize">{pattern === 'none' ? 'No pattern' : pattern}</option>}</For>
+                    </select>
+                  </div>
+                </div>
+                <div class="grid grid-cols-4 items-center gap-4">
+                  <Label for="room-grid-size" class="text-right">Grid</Label>
+                  <div class="col-span-3 flex items-center gap-2">
+                    <Input id="room-grid-size" type="number" value={canvasSettings().grid_size.toString()} onChange={handleGridSizeChange} class="w-24" />
+                    <Checkbox id="room-snap" checked={canvasSettings().snap_to_grid} onChange={(checked: boolean) => updateCanvasSetting('snap_to_grid', checked)} />
+                    <Label for="room-snap" class="text-sm">Snap new shapes to the grid</Label>
+                  </div>
+                </div>
+                <div class="grid grid-cols-4 items-center gap-4">
+                  <Label for="room-locked" class="text-right">Locked</Label>
+                  <div class="col-span-3 flex items-center">
+                    <Checkbox id="room-locked" checked={canvasSettings().is_locked} onChange={(checked: boolean) => updateCanvasSetting('is_locked', checked)} class="mr-2" />
+                    <Label for="room-locked" class="text-sm">Make the canvas read-only for everyone, including you.</Label>
+                  </div>
+                </div>
+                <div class="grid grid-cols-4 items-start gap-4">
+                  <Label class="text-right pt-1">Tools</Label>
+                  <div class="col-span-3 flex flex-wrap gap-x-4 gap-y-2">
+                    <For each={CANVAS_TOOLS}>{(tool) => (
+                      <label class="flex items-center gap-1 text-sm">
+                        <input type="checkbox" checked={canvasSettings().allowed_tools?.includes(tool) ?? true}
+                               onChange={(e) => {
+                                 toggleTool(tool, e.currentTarget.checked);
+                                 e.currentTarget.checked = canvasSettings().allowed_tools?.includes(tool) ?? true; // The last tool can't be unchecked
+                               }} />
+                        {TOOL_LABELS[tool]}
+                      </label>
+                    )}</For>
+                  </div>
+                </div>
+              </div>
+            </Show>
+            <Show when={props.isOwner}>
+              <div class="border-t border-border pt-4">
+                <h3 class="text-sm font-semibold mb-3">Invite</h3>
+                <InviteSection roomId={props.roomId} />
+              </div>
+              <div class="border-t border-border pt-4">
+                <h3 class="text-sm font-semibold mb-3">Public view-only link</h3>
+                <ShareLinkSection roomId={props.roomId} />
+              </div>
+              <div class="border-t border-border py-4">
+                <h3 class="text-sm font-semibold mb-3">Archive or delete</h3>
+                <div class="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={handleArchive} disabled={roomActionMutation.isPending}>
+                    Archive room
+                  </Button>
+                  <Button variant="destructive" size="sm" onClick={handleDelete} disabled={roomActionMutation.isPending}>
+                    Delete room
+                  </Button>
+                </div>
+              </div>
+            </Show>
+            <DialogFooter>
+              <Button variant="outline" onClick={props.onClose} disabled={updateSettingsMutation.isPending}>
+                Cancel
+              </Button>
+              <Button 
+                onClick={handleSubmit} 
+                disabled={updateSettingsMutation.isPending}
+              >
+                {updateSettingsMutation.isPending ? 'Saving...' : 'Save Changes'}
+              </Button>
+            </DialogFooter>
+          </TabsContent>
+          <TabsContent value="members" class="py-4">
+            <MembersSection
+              roomId={props.roomId}
+              isOwner={!!props.isOwner}
+              currentUserId={props.currentUserId ?? null}
+              userColors={props.room()?.user_colors ?? {}}
+            />
+          </TabsContent>
+        </Tabs>
       </DialogContent>
     </Dialog>
   );
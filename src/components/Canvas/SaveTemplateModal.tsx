@@ -0,0 +1,104 @@
+import { createEffect, createSignal, Show, type Accessor } from 'solid-js';
+import { useQueryClient } from '@tanstack/solid-query';
+import { Button } from '~/components/ui/button';
+import { Checkbox } from '~/components/ui/checkbox';
+import { Dialog, DialogContent, DialogHeader, DialogFooter, DialogTitle, DialogDescription } from '~/components/ui/dialog';
+import { Input } from '~/components/ui/input';
+import { Label } from '~/components/ui/label';
+import { fetchWithAuth } from '~/lib/utils/fetchWithAuth';
+import { getApiUrl } from '~/lib/utils';
+
+interface SaveTemplateModalProps {
+  isOpen: Accessor<boolean>;
+  onClose: () => void;
+  roomId: string;
+  roomName: string;
+}
+
+interface ApiError {
+  message?: string;
+  error?: string;
+}
+
+// Saves the room's current drawing as a template for new rooms, personal or public
+export default function SaveTemplateModal(props: SaveTemplateModalProps) {
+  const queryClient = useQueryClient();
+  const [name, setName] = createSignal('');
+  const [description, setDescription] = createSignal('');
+  const [isPublic, setIsPublic] = createSignal(false);
+  const [error, setError] = createSignal<string | null>(null);
+  const [isSaving, setIsSaving] = createSignal(false);
+
+  // Start from the room's name each time the dialog opens
+  createEffect(() => {
+    if (!props.isOpen()) return;
+    setName(props.roomName);
+    setDescription('');
+    setIsPublic(false);
+    setError(null);
+  });
+
+  const handleSave = async () => {
+    setError(null);
+    setIsSaving(true);
+    try {
+      const response = await fetchWithAuth(`${getApiUrl()}/api/canvas/rooms/${props.roomId}/templates`, {
+        method: 'POST',
+        body: JSON.stringify({ name: name().trim(), description: description().trim() || undefined, is_public: isPublic() }),
+      });
+      if (!response.ok) {
+        const errorBody = await response.json().catch(() => ({})) as ApiError;
+        throw new Error(errorBody.message || errorBody.error || `Failed to save template (status ${response.status})`);
+      }
+      queryClient.invalidateQueries({ queryKey: ['canvasTemplates'] });
+      props.onClose();
+    } catch (e: any) {
+      setError(e.message || 'Saving the template failed.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={props.isOpen()} onOpenChange={(open) => !open && props.onClose()}>
+      <DialogContent class="sm:max-w-[425px] bg-background text-foreground">
+        <DialogHeader>
+          <DialogTitle>Save as template</DialogTitle>
+          <DialogDescription>
+            New rooms can start from a copy of the current drawing. Uploaded images are not included.
+          </DialogDescription>
+        </DialogHeader>
+        <div class="grid gap-4 py-4">
+          <div class="grid grid-cols-4 items-center gap-4">
+            <Label for="template-name" class="text-right">Name</Label>
+            <Input id="template-name" type="text" value={name()} onChange={setName} class="col-span-3" />
+          </div>
+          <div class="grid grid-cols-4 items-center gap-4">
+            <Label for="template-description" class="text-right">Description</Label>
+            <Input id="template-description" value={description()} onChange={setDescription} multiline class="col-span-3 min-h-[60px]" />
+          </div>
+          <div class="grid grid-cols-4 items-center gap-4">
+            <Label for="template-public" class="text-right col-span-1 self-center">Public</Label>
+            <div class="col-span-3 flex items-center">
+              <Checkbox id="template-public" checked={isPublic()} onChange={setIsPublic} class="mr-2" />
+              <Label for="template-public" class="text-sm font-medium leading-none">
+                Offer this template to everyone.
+              </Label>
+            </div>
+          </div>
+          <Show when={error()}>
+            <p class="text-sm text-destructive">{error()}</p>
+          </Show>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={props.onClose} disabled={isSaving()}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving() || !name().trim()}>
+            {isSaving() ? 'Saving...' : 'Save template'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,180 @@
+import { createSignal, For, Show } from 'solid-js';
+import { createMutation, createQuery, useQueryClient } from '@tanstack/solid-query';
+import { Button } from '~/components/ui/button';
+import { Label } from '~/components/ui/label';
+import { fetchWithAuth } from '~/lib/utils/fetchWithAuth';
+import { getApiUrl, getFrontendUrl } from '~/lib/utils';
+
+interface ApiError {
+  message?: string;
+  error?: string;
+}
+
+// Client-side representation of a room's share link, matching the canvas_share_links table
+export interface ClientCanvasShareLink {
+  room_id: string;
+  token: string;
+  created_by_user_id: string;
+  created: string;
+  expires: string | null;
+}
+
+interface ShareLinkSectionProps {
+  roomId: string;
+}
+
+// 0 stands for a link that never expires
+const EXPIRY_OPTIONS = [
+  { label: 'Never', hours: 0 },
+  { label: '1 day', hours: 24 },
+  { label: '7 days', hours: 24 * 7 },
+  { label: '30 days', hours: 24 * 30 },
+];
+
+const readApiError = async (response: Response, fallback: string): Promise<Error> => {
+  const errorBody = await response.json().catch(() => ({})) as ApiError;
+  return new Error(errorBody.message || errorBody.error || `${fallback} (status ${response.status})`);
+};
+
+export const getShareLink = (token: string) => `${getFrontendUrl()}/share/${token}`;
+
+// The room's view-only link for people without an account: create it, replace it with a new one
+// (the old URL stops working) or revoke it. Guests watching through the link are disconnected either way
+export default function ShareLinkSection(props: ShareLinkSectionProps) {
+  const queryClient = useQueryClient();
+  const [expiresInHours, setExpiresInHours] = createSignal(EXPIRY_OPTIONS[0].hours);
+  const [copied, setCopied] = createSignal(false);
+
+  const shareLinkQueryKey = () => ['canvas', 'room', props.roomId, 'share'];
+
+  const shareLinkQuery = createQuery(() => ({
+    queryKey: shareLinkQueryKey(),
+    queryFn: async (): Promise<ClientCanvasShareLink | null> => {
+      const response = await fetchWithAuth(`${getApiUrl()}/api/canvas/rooms/${props.roomId}/share`);
+      if (!response.ok) {
+        throw await readApiError(response, 'Failed to fetch the share link');
+      }
+      const result = await response.json() as { share_link: ClientCanvasShareLink | null };
+      return result.share_link;
+    },
+  }));
+
+  const createLinkMutation = createMutation(() => ({
+    mutationFn: async (hours: number) => {
+      const response = await fetchWithAuth(`${getApiUrl()}/api/canvas/rooms/${props.roomId}/share`, {
+        method: 'POST',
+        body: JSON.stringify({ expires_in_hours: hours > 0 ? hours : null }),
+      });
+      if (!response.ok) {
+        throw await readApiError(response, 'Failed to create the share link');
+      }
+      const result = await response.json() as { share_link: ClientCanvasShareLink };
+      return result.share_link;
+    },
+    onSuccess: (link: ClientCanvasShareLink) => {
+      queryClient.setQueryData(shareLinkQueryKey(), link);
+      copyLink(link.token);
+    },
+    onError: (error: Error) => {
+      console.error('Error creating share link:', error);
+    },
+  }));
+
+  const revokeLinkMutation = createMutation(() => ({
+    mutationFn: async () => {
+      const response = await fetchWithAuth(`${getApiUrl()}/api/canvas/rooms/${props.roomId}/share`, {
+        method: 'DELETE',
+      });
+      if (!response.ok) {
+        throw await readApiError(response, 'Failed to revoke the share link');
+      }
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(shareLinkQueryKey(), null);
+    },
+    onError: (error: Error) => {
+      console.error('Error revoking share link:', error);
+    },
+  }));
+
+  const copyLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(getShareLink(token));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (e) {
+      console.error('Failed to copy share link:', e);
+    }
+  };
+
+  const link = () => shareLinkQuery.data ?? null;
+  const isExpired = (shareLink: ClientCanvasShareLink) =>
+    shareLink.expires !== null && new Date(shareLink.expires).getTime() <= Date.now();
+  const isBusy = () => createLinkMutation.isPending || revokeLinkMutation.isPending;
+
+  return (
+    <div class="grid gap-3">
+      <p class="text-sm text-muted-foreground">
+        Anyone with the link can watch the room live without signing in. They can't draw, comment or chat.
+      </p>
+
+      <Show when={shareLinkQuery.isLoading}>
+        <p class="text-sm text-muted-foreground">Loading share link...</p>
+      </Show>
+      <Show when={shareLinkQuery.isError}>
+        <p class="text-sm text-destructive">Error loading share link: {shareLinkQuery.error?.message}</p>
+      </Show>
+      <Show when={link()}>
+        {(shareLink) => (
+          <div class="flex items-center justify-between gap-2 rounded-md border border-border px-3 py-2 text-sm">
+            <div class="min-w-0">
+              <p class="truncate">{getShareLink(shareLink().token)}</p>
+              <p class="text-xs text-muted-foreground">
+                <Show when={shareLink().expires} fallback="Never expires">
+                  {(expires) => isExpired(shareLink()) ? 'Expired' : `Expires ${new Date(expires()).toLocaleString()}`}
+                </Show>
+              </p>
+            </div>
+            <div class="flex shrink-0 gap-1">
+              <Show when={!isExpired(shareLink())}>
+                <Button variant="outline" size="sm" onClick={() => copyLink(shareLink().token)}>
+                  {copied() ? 'Copied!' : 'Copy link'}
+                </Button>
+              </Show>
+              <Button variant="outline" size="sm" onClick={() => revokeLinkMutation.mutate()} disabled={isBusy()}>
+                Revoke
+              </Button>
+            </div>
+          </div>
+        )}
+      </Show>
+
+      <Show when={shareLinkQuery.isSuccess}>
+        <div class="grid grid-cols-4 items-center gap-4">
+          <Label for="share-expiry" class="text-right">Expires in</Label>
+          <select
+            id="share-expiry"
+            class="col-span-3 h-9 rounded-md border border-input bg-transparent px-3 text-sm"
+            value={expiresInHours()}
+            onChange={(e) => setExpiresInHours(Number(e.currentTarget.value))}
+          >
+            <For each={EXPIRY_OPTIONS}>{(option) => <option value={option.hours}>{option.label}</option>}</For>
+          </select>
+        </div>
+        <div class="flex justify-end">
+          <Button
+            size="sm"
+            onClick={() => createLinkMutation.mutate(expiresInHours())}
+            disabled={isBusy()}
+            title={link() ? 'The current link stops working and its viewers are disconnected' : undefined}
+          >
+            {createLinkMutation.isPending ? 'Creating...' : link() ? 'Replace link' : 'Create share link'}
+          </Button>
+        </div>
+      </Show>
+      <Show when={createLinkMutation.isError || revokeLinkMutation.isError}>
+        <p class="text-sm text-destructive">{(createLinkMutation.error ?? revokeLinkMutation.error)?.message}</p>
+      </Show>
+    </div>
+  );
+}
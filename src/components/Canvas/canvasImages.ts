@@ -0,0 +1,58 @@
+import { createSignal } from 'solid-js';
+import { fetchWithAuth } from '~/lib/utils/fetchWithAuth';
+import { getApiUrl } from '~/lib/utils';
+
+// Decoded images of uploaded canvas assets, shared by every canvas on the page. Downloads need the
+// auth header, so images are fetched as blobs and decoded from object URLs instead of loaded by URL
+
+type CanvasImageEntry =
+  | { status: 'loading' }
+  | { status: 'loaded'; image: HTMLImageElement }
+  | { status: 'failed' };
+
+const images = new Map<string, CanvasImageEntry>();
+
+// Bumped whenever an image finishes loading, so canvases know to redraw
+const [canvasImagesVersion, setCanvasImagesVersion] = createSignal(0);
+export { canvasImagesVersion };
+
+const decode = async (assetId: string, blob: Blob) => {
+  const image = new Image();
+  image.src = URL.createObjectURL(blob);
+  await image.decode();
+  images.set(assetId, { status: 'loaded', image });
+  setCanvasImagesVersion(v => v + 1);
+};
+
+// Starts loading the images not requested yet from the API paths `assetPath` gives (see canvas-assets.ts);
+// failed downloads aren't retried until the page reloads
+export function loadCanvasImages(assetPath: (assetId: string) => string, assetIds: Iterable<string>) {
+  for (const assetId of assetIds) {
+    if (images.has(assetId)) continue;
+    images.set(assetId, { status: 'loading' });
+    fetchWithAuth(`${getApiUrl()}${assetPath(assetId)}`)
+      .then(async response => {
+        if (!response.ok) throw new Error(`status ${response.status}`);
+        await decode(assetId, await response.blob());
+      })
+      .catch(error => {
+        console.error(`Failed to load canvas image ${assetId}:`, error);
+        images.set(assetId, { status: 'failed' });
+      });
+  }
+}
+
+// Adds a file the user just uploaded, so it shows without downloading it again
+export function registerCanvasImage(assetId: string, blob: Blob): Promise<void> {
+  images.set(assetId, { status: 'loading' });
+  return decode(assetId, blob).catch(error => {
+    console.error(`Failed to decode canvas image ${assetId}:`, error);
+    images.set(assetId, { status: 'failed' });
+  });
+}
+
+// The decoded image, or null while it loads or when it couldn't be loaded
+export function getCanvasImage(assetId: string): HTMLImageElement | null {
+  const entry = images.get(assetId);
+  return entry?.status === 'loaded' ? entry.image : null;
+}
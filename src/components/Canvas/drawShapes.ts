@@ -0,0 +1,190 @@
+import {
+  getArrowHeadPoints,
+  pathPointWidth,
+  STICKY_NOTE_PADDING,
+  STICKY_NOTE_TEXT_COLOR,
+  TEXT_LINE_HEIGHT,
+  type BoxShapeData,
+  type CanvasBounds,
+  type ImageShapeData,
+  type LineShapeData,
+  type PathData,
+  type PathPoint,
+  type StickyNoteData,
+  type TextData,
+} from '~/lib/canvas-shapes';
+import type { CanvasBackgroundPattern } from '~/lib/canvas-settings';
+import { getCanvasImage } from './canvasImages';
+
+// 2D-context renderers for each shape payload (and the room background pattern), shared by the live canvas and tool previews
+
+const applyStroke = (ctx: CanvasRenderingContext2D, color: string, width: number) => {
+  ctx.strokeStyle = color;
+  ctx.lineWidth = width;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+};
+
+// Paths with pressure are stroked segment by segment, each at the average width of its two ends
+export const drawPathShape = (ctx: CanvasRenderingContext2D, points: PathPoint[], strokeColor: string, lineWidth: number) => {
+  if (points.length < 2) return;
+  if (points.some(point => point.p !== undefined)) {
+    for (let i = 1; i < points.length; i++) {
+      applyStroke(ctx, strokeColor, (pathPointWidth(lineWidth, points[i - 1]) + pathPointWidth(lineWidth, points[i])) / 2);
+      ctx.beginPath();
+      ctx.moveTo(points[i - 1].x, points[i - 1].y);
+      ctx.lineTo(points[i].x, points[i].y);
+      ctx.stroke();
+    }
+    return;
+  }
+  ctx.beginPath();
+  ctx.moveTo(points[0].x, points[0].y);
+  for (let i = 1; i < points.length; i++) {
+    ctx.lineTo(points[i].x, points[i].y);
+  }
+  applyStroke(ctx, strokeColor, lineWidth);
+  ctx.stroke();
+};
+
+const drawBox = (ctx: CanvasRenderingContext2D, data: BoxShapeData, ellipse: boolean) => {
+  ctx.beginPath();
+  if (ellipse) {
+    ctx.ellipse(data.x + data.width / 2, data.y + data.height / 2, data.width / 2, data.height / 2, 0, 0, 2 * Math.PI);
+  } else {
+    ctx.rect(data.x, data.y, data.width, data.height);
+  }
+  if (data.fillColor) {
+    ctx.fillStyle = data.fillColor;
+    ctx.fill();
+  }
+  applyStroke(ctx, data.strokeColor, data.strokeWidth);
+  ctx.stroke();
+};
+
+const drawLine = (ctx: CanvasRenderingContext2D, data: LineShapeData, withArrowHead: boolean) => {
+  applyStroke(ctx, data.strokeColor, data.strokeWidth);
+  ctx.beginPath();
+  ctx.moveTo(data.x1, data.y1);
+  ctx.lineTo(data.x2, data.y2);
+  ctx.stroke();
+
+  if (withArrowHead) {
+    const [left, right] = getArrowHeadPoints(data);
+    ctx.beginPath();
+    ctx.moveTo(data.x2, data.y2);
+    ctx.lineTo(left.x, left.y);
+    ctx.moveTo(data.x2, data.y2);
+    ctx.lineTo(right.x, right.y);
+    ctx.stroke();
+  }
+};
+
+const drawText = (ctx: CanvasRenderingContext2D, data: TextData) => {
+  ctx.fillStyle = data.color;
+  ctx.font = `${data.fontSize}px sans-serif`;
+  ctx.textBaseline = 'top';
+  data.text.split('\n').forEach((line, i) => {
+    ctx.fillText(line, data.x, data.y + i * data.fontSize * TEXT_LINE_HEIGHT);
+  });
+};
+
+const drawStickyNote = (ctx: CanvasRenderingContext2D, data: StickyNoteData) => {
+  ctx.save();
+  ctx.shadowColor = 'rgba(0, 0, 0, 0.2)';
+  ctx.shadowBlur = 6;
+  ctx.shadowOffsetY = 2;
+  ctx.fillStyle = data.color;
+  ctx.fillRect(data.x, data.y, data.width, data.height);
+  ctx.restore();
+
+  const padding = data.fontSize * STICKY_NOTE_PADDING;
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(data.x, data.y, data.width, data.height);
+  ctx.clip(); // Text that doesn't fit is cut off at the note's edge
+  drawText(ctx, { x: data.x + padding, y: data.y + padding, text: data.text, fontSize: data.fontSize, color: STICKY_NOTE_TEXT_COLOR });
+  ctx.restore();
+};
+
+// Images still downloading (or that failed to) show as a gray box of their size
+const drawImageShape = (ctx: CanvasRenderingContext2D, data: ImageShapeData) => {
+  const image = getCanvasImage(data.assetId);
+  if (image) {
+    ctx.drawImage(image, data.x, data.y, data.width, data.height);
+    return;
+  }
+  ctx.save();
+  ctx.fillStyle = 'rgba(128, 128, 128, 0.2)';
+  ctx.fillRect(data.x, data.y, data.width, data.height);
+  ctx.restore();
+};
+
+// Draws one shape event's payload; unknown types are ignored
+export function drawCanvasShape(ctx: CanvasRenderingContext2D, type: string, data: any) {
+  switch (type) {
+    case 'path': {
+      const path = data as PathData;
+      drawPathShape(ctx, path.points, path.strokeColor || '#000000', path.lineWidth || 2);
+      break;
+    }
+    case 'rect':
+      drawBox(ctx, data as BoxShapeData, false);
+      break;
+    case 'ellipse':
+      drawBox(ctx, data as BoxShapeData, true);
+      break;
+    case 'line':
+      drawLine(ctx, data as LineShapeData, false);
+      break;
+    case 'arrow':
+      drawLine(ctx, data as LineShapeData, true);
+      break;
+    case 'text':
+      drawText(ctx, data as TextData);
+      break;
+    case 'sticky':
+      drawStickyNote(ctx, data as StickyNoteData);
+      break;
+    case 'image':
+      drawImageShape(ctx, data as ImageShapeData);
+      break;
+  }
+}
+
+const MIN_PATTERN_SPACING = 8; // Screen px; the pattern coarsens in powers of two when zoomed out further
+
+// Room background pattern over the visible world rectangle; the context must have the viewport applied
+export function drawBackgroundPattern(ctx: CanvasRenderingContext2D, pattern: CanvasBackgroundPattern, gridSize: number, bounds: CanvasBounds, zoom: number) {
+  if (pattern === 'none') return;
+  let spacing = gridSize;
+  while (spacing * zoom < MIN_PATTERN_SPACING) spacing *= 2;
+  const startX = Math.floor(bounds.minX / spacing) * spacing;
+  const startY = Math.floor(bounds.minY / spacing) * spacing;
+
+  ctx.save();
+  ctx.fillStyle = ctx.strokeStyle = 'rgba(128, 128, 128, 0.35)';
+  ctx.lineWidth = 1 / zoom; // Hairlines at any zoom
+  if (pattern === 'dots') {
+    const radius = 1.5 / zoom;
+    for (let x = startX; x <= bounds.maxX; x += spacing) {
+      for (let y = startY; y <= bounds.maxY; y += spacing) {
+        ctx.fillRect(x - radius / 2, y - radius / 2, radius, radius);
+      }
+    }
+  } else {
+    ctx.beginPath();
+    for (let y = startY; y <= bounds.maxY; y += spacing) {
+      ctx.moveTo(bounds.minX, y);
+      ctx.lineTo(bounds.maxX, y);
+    }
+    if (pattern === 'grid') {
+      for (let x = startX; x <= bounds.maxX; x += spacing) {
+        ctx.moveTo(x, bounds.minY);
+        ctx.lineTo(x, bounds.maxY);
+      }
+    }
+    ctx.stroke();
+  }
+  ctx.restore();
+}
@@ -0,0 +1,118 @@
+import {
+  CANVAS_LIMITS,
+  getShapeBounds,
+  hitTestShape,
+  transformShapeData,
+  unionBounds,
+  type CanvasBounds,
+  type CanvasPoint,
+  type TransformData,
+} from '~/lib/canvas-shapes';
+import type { CanvasEvent } from '~/hooks/useCanvasWebSocket';
+
+// Selection state and geometry for the select tool: hit-testing, drag transforms and the overlay
+
+export type SelectionTransform = Omit<TransformData, 'ids'>;
+
+// In-progress pointer gesture of the select tool
+export type SelectDrag =
+  | { kind: 'move'; from: CanvasPoint; to: CanvasPoint }
+  | { kind: 'resize'; origin: CanvasPoint; corner: CanvasPoint; to: CanvasPoint }
+  | { kind: 'marquee'; from: CanvasPoint; to: CanvasPoint; additive: boolean };
+
+const HANDLE_SIZE = 8;
+const SELECTION_PADDING = 4;
+
+// Topmost shape under the point, i.e. the last one drawn
+export const findShapeAt = (shapes: CanvasEvent[], point: CanvasPoint, tolerance?: number): CanvasEvent | null => {
+  for (let i = shapes.length - 1; i >= 0; i--) {
+    if (hitTestShape(shapes[i].type, shapes[i].data, point, tolerance)) return shapes[i];
+  }
+  return null;
+};
+
+export const getSelectionBounds = (shapes: CanvasEvent[]): CanvasBounds | null =>
+  unionBounds(shapes.map(shape => getShapeBounds(shape.type, shape.data)).filter((b): b is CanvasBounds => b !== null));
+
+const corners = (bounds: CanvasBounds): CanvasPoint[] => [
+  { x: bounds.minX, y: bounds.minY },
+  { x: bounds.maxX, y: bounds.minY },
+  { x: bounds.maxX, y: bounds.maxY },
+  { x: bounds.minX, y: bounds.maxY },
+];
+
+// Corner handle under the point, with the opposite corner that stays fixed while resizing.
+// Handles keep a constant on-screen size, so their world-space size shrinks as `zoom` grows
+export const findResizeHandle = (bounds: CanvasBounds, point: CanvasPoint, zoom = 1): { corner: CanvasPoint; origin: CanvasPoint } | null => {
+  const points = corners(bounds);
+  const reach = HANDLE_SIZE / zoom;
+  const index = points.findIndex(c => Math.abs(c.x - point.x) <= reach && Math.abs(c.y - point.y) <= reach);
+  return index === -1 ? null : { corner: points[index], origin: points[(index + 2) % 4] };
+};
+
+const scaleAlong = (origin: number, corner: number, to: number) => {
+  if (corner === origin) return 1; // Zero-width/height selections (e.g. straight lines) can't scale on that axis
+  const scale = (to - origin) / (corner - origin);
+  return Math.abs(scale) < CANVAS_LIMITS.minScale ? Math.sign(scale || 1) * CANVAS_LIMITS.minScale : Math.max(-CANVAS_LIMITS.maxScale, Math.min(CANVAS_LIMITS.maxScale, scale));
+};
+
+// Transform described by a move or resize drag; null for marquee drags
+export const getDragTransform = (drag: SelectDrag | null): SelectionTransform | null => {
+  if (!drag || drag.kind === 'marquee') return null;
+  if (drag.kind === 'move') {
+    return { dx: drag.to.x - drag.from.x, dy: drag.to.y - drag.from.y, scaleX: 1, scaleY: 1, originX: 0, originY: 0 };
+  }
+  return {
+    dx: 0,
+    dy: 0,
+    scaleX: scaleAlong(drag.origin.x, drag.corner.x, drag.to.x),
+    scaleY: scaleAlong(drag.origin.y, drag.corner.y, drag.to.y),
+    originX: drag.origin.x,
+    originY: drag.origin.y,
+  };
+};
+
+export const isIdentityTransform = (t: SelectionTransform) => t.dx === 0 && t.dy === 0 && t.scaleX === 1 && t.scaleY === 1;
+
+export const applyTransformToShape = (shape: CanvasEvent, transform: SelectionTransform): CanvasEvent =>
+  ({ ...shape, data: transformShapeData(shape.type, shape.data, transform) });
+
+export const marqueeBounds = (from: CanvasPoint, to: CanvasPoint): CanvasBounds => ({
+  minX: Math.min(from.x, to.x),
+  minY: Math.min(from.y, to.y),
+  maxX: Math.max(from.x, to.x),
+  maxY: Math.max(from.y, to.y),
+});
+
+// Dashed box with corner handles around the selection, drawn in world space at a constant screen size
+export function drawSelectionOverlay(ctx: CanvasRenderingContext2D, bounds: CanvasBounds, zoom = 1) {
+  const padding = SELECTION_PADDING / zoom;
+  const handle = HANDLE_SIZE / zoom;
+  ctx.save();
+  ctx.strokeStyle = '#3b82f6';
+  ctx.lineWidth = 1 / zoom;
+  ctx.setLineDash([4 / zoom, 4 / zoom]);
+  ctx.strokeRect(
+    bounds.minX - padding,
+    bounds.minY - padding,
+    bounds.maxX - bounds.minX + padding * 2,
+    bounds.maxY - bounds.minY + padding * 2,
+  );
+  ctx.setLineDash([]);
+  ctx.fillStyle = '#ffffff';
+  for (const corner of corners(bounds)) {
+    ctx.fillRect(corner.x - handle / 2, corner.y - handle / 2, handle, handle);
+    ctx.strokeRect(corner.x - handle / 2, corner.y - handle / 2, handle, handle);
+  }
+  ctx.restore();
+}
+
+export function drawMarquee(ctx: CanvasRenderingContext2D, bounds: CanvasBounds, zoom = 1) {
+  ctx.save();
+  ctx.strokeStyle = '#3b82f6';
+  ctx.fillStyle = 'rgba(59, 130, 246, 0.1)';
+  ctx.lineWidth = 1 / zoom;
+  ctx.fillRect(bounds.minX, bounds.minY, bounds.maxX - bounds.minX, bounds.maxY - bounds.minY);
+  ctx.strokeRect(bounds.minX, bounds.minY, bounds.maxX - bounds.minX, bounds.maxY - bounds.minY);
+  ctx.restore();
+}
@@ -0,0 +1,76 @@
+import type { CanvasBounds, CanvasPoint } from '~/lib/canvas-shapes';
+
+// Maps between screen pixels (relative to the <canvas> element) and world coordinates, which is
+// what every stored event uses: world = screen / zoom + offset
+
+export interface Viewport {
+  offsetX: number; // World coordinate at the canvas' left edge
+  offsetY: number; // World coordinate at the canvas' top edge
+  zoom: number;
+}
+
+export const MIN_ZOOM = 0.1;
+export const MAX_ZOOM = 8;
+export const DEFAULT_VIEWPORT: Viewport = { offsetX: 0, offsetY: 0, zoom: 1 };
+
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+export const screenToWorld = (viewport: Viewport, point: CanvasPoint): CanvasPoint => ({
+  x: point.x / viewport.zoom + viewport.offsetX,
+  y: point.y / viewport.zoom + viewport.offsetY,
+});
+
+export const worldToScreen = (viewport: Viewport, point: CanvasPoint): CanvasPoint => ({
+  x: (point.x - viewport.offsetX) * viewport.zoom,
+  y: (point.y - viewport.offsetY) * viewport.zoom,
+});
+
+// Moves the view by a screen-space delta (e.g. a drag), so content follows the pointer
+export const panBy = (viewport: Viewport, dx: number, dy: number): Viewport => ({
+  ...viewport,
+  offsetX: viewport.offsetX - dx / viewport.zoom,
+  offsetY: viewport.offsetY - dy / viewport.zoom,
+});
+
+// Zooms by `factor` while keeping the world point under `screenPoint` fixed
+export const zoomAt = (viewport: Viewport, screenPoint: CanvasPoint, factor: number): Viewport => {
+  const zoom = clampZoom(viewport.zoom * factor);
+  const anchor = screenToWorld(viewport, screenPoint);
+  return {
+    zoom,
+    offsetX: anchor.x - screenPoint.x / zoom,
+    offsetY: anchor.y - screenPoint.y / zoom,
+  };
+};
+
+// Centers the given world point in a canvas of the given size
+export const centerOn = (viewport: Viewport, point: CanvasPoint, width: number, height: number): Viewport => ({
+  ...viewport,
+  offsetX: point.x - width / 2 / viewport.zoom,
+  offsetY: point.y - height / 2 / viewport.zoom,
+});
+
+// Viewport showing all of `bounds` with some padding, never zooming in past 100%
+export const fitBounds = (bounds: CanvasBounds | null, width: number, height: number, padding = 40): Viewport => {
+  if (!bounds || width <= 0 || height <= 0) return DEFAULT_VIEWPORT;
+  const contentWidth = Math.max(bounds.maxX - bounds.minX, 1);
+  const contentHeight = Math.max(bounds.maxY - bounds.minY, 1);
+  const zoom = clampZoom(Math.min(1, (width - padding * 2) / contentWidth, (height - padding * 2) / contentHeight));
+  return centerOn({ ...DEFAULT_VIEWPORT, zoom }, {
+    x: (bounds.minX + bounds.maxX) / 2,
+    y: (bounds.minY + bounds.maxY) / 2,
+  }, width, height);
+};
+
+// World-space rectangle currently visible in a canvas of the given size
+export const visibleBounds = (viewport: Viewport, width: number, height: number): CanvasBounds => ({
+  minX: viewport.offsetX,
+  minY: viewport.offsetY,
+  maxX: viewport.offsetX + width / viewport.zoom,
+  maxY: viewport.offsetY + height / viewport.zoom,
+});
+
+// Applies the viewport to a 2D context so subsequent drawing happens in world coordinates
+export const applyViewportTransform = (ctx: CanvasRenderingContext2D, viewport: Viewport) => {
+  ctx.setTransform(viewport.zoom, 0, 0, viewport.zoom, -viewport.offsetX * viewport.zoom, -viewport.offsetY * viewport.zoom);
+};
@@ -0,0 +1,198 @@
+import { createEffect, createMemo, createSignal, on, onCleanup, type Accessor } from 'solid-js';
+import { createQuery } from '@tanstack/solid-query';
+import { getApiUrl } from '~/lib/utils';
+import { fetchWithAuth } from '~/lib/utils/fetchWithAuth';
+import {
+  applyCanvasEvent,
+  cloneCanvasHistoryState,
+  createCanvasHistoryState,
+  type CanvasHistoryState,
+} from '~/lib/canvas-state';
+import type { CanvasEvent } from './useCanvasWebSocket';
+
+const HISTORY_PAGE_SIZE = 1000;
+const CHECKPOINT_INTERVAL = 250; // Events between cached states, bounding the work per scrub step
+const MAX_PLAYBACK_GAP_MS = 1000; // Idle time between events is shortened to this during playback
+
+export const PLAYBACK_SPEEDS = [0.5, 1, 2, 4, 8, 16];
+
+interface HistoryPage {
+  events: CanvasEvent[];
+  hasMore: boolean;
+  lastSeq: number;
+}
+
+export interface PlaybackUser {
+  userId: string;
+  userColor: string | null;
+  eventCount: number;
+}
+
+interface ApiError {
+  message?: string;
+  error?: string;
+}
+
+// Full event history of a room, fetched page by page
+const fetchCanvasHistory = async (roomId: string): Promise<CanvasEvent[]> => {
+  const events: CanvasEvent[] = [];
+  let afterSeq = 0;
+  for (;;) {
+    const params = new URLSearchParams({ afterSeq: String(afterSeq), limit: String(HISTORY_PAGE_SIZE) });
+    const response = await fetchWithAuth(`${getApiUrl()}/api/canvas/rooms/${roomId}/history?${params.toString()}`);
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({})) as ApiError;
+      throw new Error(body.message || body.error || `Failed to fetch canvas history (status ${response.status})`);
+    }
+    const page = await response.json() as HistoryPage;
+    events.push(...page.events);
+    if (!page.hasMore || page.events.length === 0) return events;
+    afterSeq = page.events[page.events.length - 1].seq ?? afterSeq;
+  }
+};
+
+/**
+ * Time-travel over a room's event history. `position` is the number of events applied, from 0
+ * (empty canvas) to the history length (the canvas as it was when the history was loaded).
+ * History is only fetched while `enabled` is true.
+ */
+export function useCanvasPlayback(roomId: Accessor<string>, enabled: Accessor<boolean>) {
+  const historyQuery = createQuery(() => ({
+    queryKey: ['canvas', 'history', roomId()],
+    queryFn: () => fetchCanvasHistory(roomId()),
+    enabled: enabled() && !!roomId(),
+    staleTime: 0, // Each playback session starts from the latest history
+  }));
+
+  const events = createMemo(() => historyQuery.data ?? []);
+  const [position, setPositionSignal] = createSignal(0);
+  const [isPlaying, setIsPlaying] = createSignal(false);
+  const [speed, setSpeed] = createSignal(1);
+  const [hiddenUserIds, setHiddenUserIds] = createSignal<ReadonlySet<string>>(new Set());
+
+  // State after every CHECKPOINT_INTERVAL events, so any position is at most that many events away
+  const checkpoints = createMemo(() => {
+    const state = createCanvasHistoryState<CanvasEvent>();
+    const list: CanvasHistoryState<CanvasEvent>[] = [cloneCanvasHistoryState(state)];
+    events().forEach((event, i) => {
+      applyCanvasEvent(state, event);
+      if ((i + 1) % CHECKPOINT_INTERVAL === 0) list.push(cloneCanvasHistoryState(state));
+    });
+    return list;
+  });
+
+  const stateAtPosition = createMemo(() => {
+    const target = position();
+    const checkpointIndex = Math.floor(target / CHECKPOINT_INTERVAL);
+    const state = cloneCanvasHistoryState(checkpoints()[checkpointIndex]);
+    const all = events();
+    for (let i = checkpointIndex * CHECKPOINT_INTERVAL; i < target; i++) {
+      applyCanvasEvent(state, all[i]);
+    }
+    return state;
+  });
+
+  // Shapes to show: the canvas at the current position, minus shapes by filtered-out users
+  const shapes = createMemo(() => {
+    const hidden = hiddenUserIds();
+    const visible = stateAtPosition().shapes;
+    return hidden.size === 0 ? visible : visible.filter(shape => !hidden.has(shape.user_id));
+  });
+
+  // Everyone who appears in the history, in order of first appearance
+  const users = createMemo(() => {
+    const byId = new Map<string, PlaybackUser>();
+    for (const event of events()) {
+      const user = byId.get(event.user_id);
+      if (user) {
+        user.eventCount++;
+        user.userColor ??= event.userColor ?? null;
+      } else {
+        byId.set(event.user_id, { userId: event.user_id, userColor: event.userColor ?? null, eventCount: 1 });
+      }
+    }
+    return [...byId.values()];
+  });
+
+  const currentEvent = () => events()[position() - 1] ?? null;
+
+  // Playback advances through events by their recorded spacing (idle gaps capped), scaled by speed
+  let frame: number | null = null;
+  let lastFrameTime = 0;
+  let elapsed = 0;
+
+  const step = (now: number) => {
+    elapsed += (now - lastFrameTime) * speed();
+    lastFrameTime = now;
+    const all = events();
+    let next = position();
+    while (next < all.length) {
+      const gap = next === 0 ? 0 : Math.min(Math.max(all[next].timestamp - all[next - 1].timestamp, 0), MAX_PLAYBACK_GAP_MS);
+      if (elapsed < gap) break;
+      elapsed -= gap;
+      next++;
+    }
+    setPositionSignal(next);
+    if (next >= all.length) {
+      pause();
+      return;
+    }
+    frame = requestAnimationFrame(step);
+  };
+
+  const pause = () => {
+    if (frame !== null) cancelAnimationFrame(frame);
+    frame = null;
+    setIsPlaying(false);
+  };
+
+  const play = () => {
+    if (events().length === 0) return;
+    if (position() >= events().length) setPositionSignal(0); // Replay from the start
+    elapsed = 0;
+    lastFrameTime = performance.now();
+    setIsPlaying(true);
+    frame = requestAnimationFrame(step);
+  };
+
+  const setPosition = (value: number) => {
+    elapsed = 0;
+    setPositionSignal(Math.max(0, Math.min(events().length, Math.round(value))));
+  };
+
+  const toggleUser = (userId: string) => {
+    setHiddenUserIds(hidden => {
+      const next = new Set(hidden);
+      if (!next.delete(userId)) next.add(userId);
+      return next;
+    });
+  };
+
+  // Freshly loaded history starts at the present; leaving playback stops it
+  createEffect(on(events, (all) => setPositionSignal(all.length)));
+  createEffect(on(enabled, (isEnabled) => {
+    if (!isEnabled) {
+      pause();
+      setHiddenUserIds(new Set<string>());
+    }
+  }, { defer: true }));
+  onCleanup(pause);
+
+  return {
+    events,
+    isLoading: () => historyQuery.isLoading,
+    error: () => (historyQuery.error as Error | null)?.message ?? null,
+    position,
+    setPosition,
+    currentEvent,
+    shapes,
+    users,
+    hiddenUserIds,
+    toggleUser,
+    isPlaying,
+    play,
+    pause,
+    speed,
+    setSpeed,
+  };
+}
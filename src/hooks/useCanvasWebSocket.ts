@@ -1,67 +1,166 @@
-import { createSignal, onCleanup, type Accessor, createEffect, on } from 'solid-js';
+import { createSignal, onCleanup, type Accessor, createEffect, createMemo, on } from 'solid-js';
 import { getApiUrl } from '~/lib/utils';
+import {
+  createCanvasHistoryState,
+  getRedoTarget,
+  getUndoTarget,
+  replayCanvasEvents,
+} from '~/lib/canvas-state';
+import type { CanvasPoint, PathPoint } from '~/lib/canvas-shapes';
+import {
+  CLOSE_CODE_ABUSE,
+  CLOSE_CODE_REMOVED,
+  CLOSE_CODE_ROOM_CLOSED,
+  CLOSE_CODE_SHARE_ENDED,
+  parseCanvasServerMessage,
+  type CanvasChangeMessage,
+  type CanvasErrorMessage,
+  type CanvasEvent,
+  type ChatClientMessage,
+  type CommentClientMessage,
+  type CursorMessage,
+  type ParticipantRole,
+  type PresenceMessage,
+  type PresenceViewport,
+  type RoomParticipant,
+} from '~/lib/canvas-protocol';
+import { DEFAULT_CANVAS_ROOM_SETTINGS, type CanvasRoomSettings } from '~/lib/canvas-settings';
+import type { CanvasCommentThread, CommentAnchor, CommentMention } from '~/lib/canvas-comments';
+import { CHAT_TYPING_TIMEOUT_MS, type ChatMessage, type ChatTypingUser } from '~/lib/canvas-chat';
+import {
+  CANVAS_PROTOCOL_VERSION,
+  decodeRelayedFrame,
+  encodeClientFrame,
+  MAX_STROKE_FRAME_POINTS,
+  type ClientFrame,
+  type StrokeFrame,
+} from '~/lib/canvas-wire';
 
-// Mirror the CanvasEvent type from $roomId.tsx and CanvasRoom.ts (DO)
-// Consider moving this to a shared types file if it becomes more complex or widely used
-interface CanvasEventBase {
-  type: 'path' | 'text' | 'delete' | 'cursor' | 'clear' | 'undo' | 'redo' | string;
-  data: any;
-}
+// Protocol types are shared with the CanvasRoom DO; re-exported for the canvas components
+export type {
+  CanvasErrorCode,
+  CanvasEvent,
+  CanvasSnapshot,
+  ParticipantRole,
+  PresenceViewport,
+  RoomParticipant,
+} from '~/lib/canvas-protocol';
 
-// Define specific data structure for cursor events
-export interface CursorData {
-  x: number;
-  y: number;
-  // Potentially add 'type: "mouse" | "touch"' if needed later
-}
+type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'error';
 
-export interface CanvasEvent extends CanvasEventBase {
-  id: string;
-  room_id: string;
-  user_id: string;     // User who performed action (from auth)
-  client_id: string;   // Specific client WebSocket connection ID
-  timestamp: number;
-  userColor?: string; // Added by DO or client for rendering
-}
+// Presence: we report ourselves idle after this long without input (or while the tab is hidden)
+const IDLE_AFTER_MS = 60_000;
+const IDLE_CHECK_INTERVAL_MS = 10_000;
+const VIEWPORT_SEND_INTERVAL_MS = 100; // Throttle for viewport updates relayed to followers
 
-interface WebSocketMessage {
-  type: 'events' | 'error' | 'init_state' | 'client_init' | 'cursor_update'; // Added 'cursor_update'
-  events?: CanvasEvent[];
-  error?: string;
-  initialEvents?: CanvasEvent[]; // For the initial dump of events
-  clientId?: string; // For client_init message and cursor_update
-  userColor?: string; // For client_init message and cursor_update
-  cursorData?: CursorData; // For cursor_update message
-}
-
-type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'error';
+// Cursor positions and live stroke points are coalesced and sent at most this often
+const CURSOR_SEND_INTERVAL_MS = 40;
+const STROKE_SEND_INTERVAL_MS = 40;
+// Queued events are resent in batches after a reconnect, matching the DO's refill of 10 events/s
+const FLUSH_BATCH_SIZE = 10;
+const FLUSH_BATCH_INTERVAL_MS = 1_000;
+const LIVE_STROKE_TIMEOUT_MS = 5_000; // Drop others' live strokes that stopped updating (e.g. lost connection)
+// Undo/redo requests are sent at most this often, well within the DO's refill of 10 events/s
+const HISTORY_REQUEST_INTERVAL_MS = 150;
+const CHAT_TYPING_RENEW_MS = 2_000; // How often our typing indicator is renewed while we keep typing
+const CHAT_READ_STORAGE_PREFIX = 'canvas-chat-read:'; // Last read chat seq, per room
 
 export interface OtherUserCursor {
   clientId: string;
   x: number;
   y: number;
   userColor: string;
+  userName?: string; // From presence, once known
+  idle?: boolean;
+}
+
+// A stroke another participant is drawing right now, until its path event arrives
+export interface LiveStroke {
+  strokeId: string; // Also the id of the path event it becomes
+  clientId: string;
+  userColor: string;
+  lineWidth: number;
+  points: PathPoint[];
+  updatedAt: number;
 }
 
-export function useCanvasWebSocket(roomId: Accessor<string>) {
+// With a share token the hook connects as a signed-out guest who only watches: nothing is sent to the room
+export function useCanvasWebSocket(roomId: Accessor<string>, shareToken?: string) {
   console.log("[useCanvasWebSocket] Hook initialized/re-run for roomId accesssor. Current value:", roomId()); // Log roomId on init/re-run
 
   const [socket, setSocket] = createSignal<WebSocket | null>(null);
-  const [receivedEvents, setReceivedEvents] = createSignal<CanvasEvent[]>([]);
+  const [pendingEvents, setPendingEvents] = createSignal<CanvasEvent[]>([]); // Sent or queued, not yet echoed back
   const [connectionStatus, setConnectionStatus] = createSignal<ConnectionStatus>('disconnected');
   const [clientId, setClientId] = createSignal(crypto.randomUUID()); // Unique ID for this client session
   const [userColor, setUserColor] = createSignal<string | null>(null);
-  const [otherUserCursors, setOtherUserCursors] = createSignal<Record<string, OtherUserCursor>>({});
+  const [userId, setUserId] = createSignal<string | null>(null);
+  // The init_state snapshot with every event the DO has stored since folded in as it arrives, so new
+  // events never replay the session's whole history
+  const [confirmedState, setConfirmedState] = createSignal(createCanvasHistoryState<CanvasEvent>());
+  const [role, setRole] = createSignal<ParticipantRole | null>(null);
+  const [roomSettings, setRoomSettings] = createSignal<CanvasRoomSettings>(DEFAULT_CANVAS_ROOM_SETTINGS); // Sent by the DO after client_init
+  const [closeReason, setCloseReason] = createSignal<string | null>(null); // Why the server ended the session, if it did
+  const [cursorPositions, setCursorPositions] = createSignal<Record<string, OtherUserCursor>>({});
+  const [presence, setPresence] = createSignal<Record<string, RoomParticipant>>({}); // By clientId, including ourselves
+  const [liveStrokeMap, setLiveStrokeMap] = createSignal<Record<string, LiveStroke>>({}); // Others' strokes in progress, by strokeId
+  const [commentThreads, setCommentThreads] = createSignal<CanvasCommentThread[]>([]); // Sent in full on every connect
+  const [chatMessages, setChatMessages] = createSignal<ChatMessage[]>([]); // Loaded pages, in seq order
+  const [chatHasMore, setChatHasMore] = createSignal(false); // Older messages can be loaded
+  const [chatLoadingOlder, setChatLoadingOlder] = createSignal(false);
+  const [chatReadSeq, setChatReadSeq] = createSignal(0);
+  const [typingUsers, setTypingUsers] = createSignal<ChatTypingUser[]>([]); // Others typing in the chat
 
   let reconnectAttempts = 0;
   const MAX_RECONNECT_ATTEMPTS = 5;
   const RECONNECT_DELAY_MS = 3000;
 
+  // Presence we report: idle state and the (throttled) viewport
+  let lastActivityAt = Date.now();
+  let reportedIdle = false;
+  let latestViewport: PresenceViewport | null = null;
+  let viewportTimer: number | null = null;
+
+  // Wire protocol of the current connection (1 = JSON only) and the coalesced outgoing frames
+  let protocolVersion = 1;
+  let pendingCursor: CanvasPoint | null = null;
+  let cursorTimer: number | null = null;
+  let pendingStroke: StrokeFrame | null = null; // Points of our stroke not sent yet
+  let strokeTimer: number | null = null;
+
+  const typingTimers = new Map<string, number>(); // Expiry of others' typing indicators, by clientId
+
+  // Resync bookkeeping: reconnects to the same room resume from lastSeq instead of reloading everything
+  let lastSeq = 0;
+  let syncedRoomId: string | null = null;
+
+  const resetCanvasState = () => {
+    setPendingEvents([]);
+    setConfirmedState(createCanvasHistoryState<CanvasEvent>());
+    setRoomSettings(DEFAULT_CANVAS_ROOM_SETTINGS);
+    setCommentThreads([]);
+    setChatMessages([]);
+    setChatHasMore(false);
+    setChatLoadingOlder(false);
+    setChatReadSeq(0);
+    clearTypingUsers();
+    lastSeq = 0;
+  };
+
+  // Appends events the DO has stored and retires the matching pending (optimistic) copies
+  const applyConfirmedEvents = (events: CanvasEvent[]) => {
+    const newEvents = events.filter(e => typeof e.seq === 'number' && e.seq > lastSeq);
+    if (newEvents.length === 0) return;
+    lastSeq = newEvents[newEvents.length - 1].seq!;
+    const confirmedIds = new Set(newEvents.map(e => e.id));
+    setConfirmedState(state => replayCanvasEvents(newEvents, state));
+    setPendingEvents(prevEvents => prevEvents.filter(e => !confirmedIds.has(e.id)));
+  };
+
   const connect = () => {
     const currentRoomId = roomId(); // Get current value from accessor
     console.log("[useCanvasWebSocket] connect() called for roomId:", currentRoomId, "Current socket state:", socket()?.readyState);
 
-    if (socket() && socket()?.readyState === WebSocket.OPEN && socket()?.url.includes(currentRoomId)) {
+    if (socket() && socket()?.readyState === WebSocket.OPEN && socket()?.url.includes(shareToken ?? currentRoomId)) {
       console.log('WebSocket already connected to the correct room.');
       return;
     }
@@ -79,67 +178,166 @@ export function useCanvasWebSocket(roomId: Accessor<string>) {
     }
 
     const token = localStorage.getItem('bearer_token');
-    if (!token) {
+    if (!token && !shareToken) {
       console.error('Auth token (bearer_token) not found. WebSocket connection aborted.');
       setConnectionStatus('error');
       return;
     }
 
+    if (currentRoomId !== syncedRoomId) {
+      resetCanvasState(); // A different room starts from a full init_state
+      syncedRoomId = currentRoomId;
+    }
+
     setConnectionStatus('connecting');
+    setCloseReason(null);
     reconnectAttempts = 0; // Reset reconnect attempts for a fresh connection sequence
     
     const apiBaseUrl = getApiUrl(); // e.g., http://127.0.0.1:8787 or https://prod.api
     // This correctly changes http:// to ws:// and https:// to wss://
     const wsBaseUrl = apiBaseUrl.replace(/^http/, 'ws'); 
 
-    const wsUrl = `${wsBaseUrl}/api/canvas-ws/${currentRoomId}/ws?token=${encodeURIComponent(token)}&clientId=${clientId()}`;
+    const sinceParam = lastSeq > 0 ? `&since=${lastSeq}` : '';
+    const wsUrl = shareToken
+      ? `${wsBaseUrl}/api/canvas-ws/share/${encodeURIComponent(shareToken)}/ws?clientId=${clientId()}&protocol=${CANVAS_PROTOCOL_VERSION}${sinceParam}`
+      : `${wsBaseUrl}/api/canvas-ws/${currentRoomId}/ws?token=${encodeURIComponent(token!)}&clientId=${clientId()}&protocol=${CANVAS_PROTOCOL_VERSION}${sinceParam}`;
     console.log("Attempting WebSocket connection to:", wsUrl);
 
     const ws = new WebSocket(wsUrl);
+    ws.binaryType = 'arraybuffer';
+    protocolVersion = 1; // Until client_init says otherwise
 
     ws.onopen = () => {
       console.log(`[useCanvasWebSocket] WebSocket connected to room ${currentRoomId}`);
       setConnectionStatus('connected');
       reconnectAttempts = 0;
+      // A new session starts out active and without a viewport on the DO
+      reportedIdle = false;
+      if (latestViewport) sendPresence({ viewport: latestViewport });
+      // Flush everything the DO hasn't confirmed yet; it ignores ids it already stored.
+      // Paced to stay within the DO's rate limit for stored events.
+      const unconfirmed = pendingEvents();
+      if (unconfirmed.length > 0) {
+        console.log(`[useCanvasWebSocket] Flushing ${unconfirmed.length} pending events to room ${currentRoomId}`);
+        unconfirmed.forEach((pendingEvent, i) => setTimeout(() => {
+          const stillPending = pendingEvents().some(e => e.id === pendingEvent.id);
+          if (stillPending && ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(pendingEvent));
+        }, Math.floor(i / FLUSH_BATCH_SIZE) * FLUSH_BATCH_INTERVAL_MS));
+      }
     };
 
     ws.onmessage = (event) => {
+      if (event.data instanceof ArrayBuffer) {
+        handleRelayedFrame(event.data);
+        return;
+      }
       try {
-        const message = JSON.parse(event.data as string) as WebSocketMessage;
-        if (message.type === 'events' && message.events) {
-          const newEvents = message.events.filter(e => {
-            // Filter out events that originated from this client to prevent echo.
-            // This relies on the server echoing events with the original client_id.
-            return e.client_id !== clientId(); 
-          });
-          if (newEvents.length > 0) {
-             // console.log('[WebSocket] Received new broadcast events (not own drawing/cursor):', JSON.stringify(newEvents));
-             setReceivedEvents(prevEvents => [...prevEvents, ...newEvents]);
+        const message = parseCanvasServerMessage(JSON.parse(event.data as string));
+        if (!message) {
+          console.warn('[useCanvasWebSocket] Ignoring unknown or malformed message:', event.data);
+          return;
+        }
+        if (message.type === 'events') {
+          // Strokes we were watching being drawn are replaced by their finished path
+          const arrivedIds = new Set(message.events.map(e => e.id));
+          if (Object.keys(liveStrokeMap()).some(id => arrivedIds.has(id))) {
+            setLiveStrokeMap(prev => Object.fromEntries(Object.entries(prev).filter(([id]) => !arrivedIds.has(id))));
           }
-        } else if (message.type === 'init_state' && message.initialEvents) {
-          console.log(`[useCanvasWebSocket] Received init_state for room ${currentRoomId} with ${message.initialEvents.length} events.`, JSON.stringify(message.initialEvents.slice(0,2))); // Log only first 2 for brevity
-          setReceivedEvents(message.initialEvents);
-        } else if (message.type === 'client_init' && message.clientId && message.userColor) {
+
+          // Echoes of our own events replace their optimistic copies (the DO keeps the client-generated id),
+          // so every client ends up applying events in the same seq order
+          applyConfirmedEvents(message.events);
+        } else if (message.type === 'init_state') {
+          console.log(`[useCanvasWebSocket] Received init_state for room ${currentRoomId} with ${message.snapshot?.shapes.length ?? 0} snapshot shapes and ${message.initialEvents.length} events.`, JSON.stringify(message.initialEvents.slice(0,2))); // Log only first 2 for brevity
+          // The snapshot is already resolved, so replaying the tail on top of it reproduces the full history
+          setConfirmedState(replayCanvasEvents(
+            message.initialEvents,
+            createCanvasHistoryState(message.snapshot?.shapes, message.snapshot?.history),
+          ));
+          lastSeq = message.lastSeq;
+          const initialIds = new Set(message.initialEvents.map(e => e.id));
+          setPendingEvents(prevEvents => prevEvents.filter(e => !initialIds.has(e.id)));
+        } else if (message.type === 'missed_events') {
+          console.log(`[useCanvasWebSocket] Resumed room ${currentRoomId} with ${message.events.length} missed events.`);
+          applyConfirmedEvents(message.events);
+        } else if (message.type === 'duplicate_event') {
+          // Stored before we lost the connection; the confirmed copy is already in our history or snapshot
+          setPendingEvents(prevEvents => prevEvents.filter(e => e.id !== message.id));
+        } else if (message.type === 'client_init') {
           if (message.clientId === clientId()) {
             setUserColor(message.userColor);
+            setUserId(message.userId);
+            setRole(message.role);
+            protocolVersion = message.protocolVersion;
             console.log(`[useCanvasWebSocket] Client initialized with color: ${message.userColor} for room ${currentRoomId}`);
           } else {
             console.warn('[useCanvasWebSocket] Received client_init for a different clientId:', message.clientId);
           }
-        } else if (message.type === 'cursor_update' && message.clientId && message.cursorData && message.userColor) {
+        } else if (message.type === 'cursor_update') {
           if (message.clientId !== clientId()) {
-            setOtherUserCursors(prevCursors => ({
+            setCursorPositions(prevCursors => ({
               ...prevCursors,
-              [message.clientId!]: {
-                clientId: message.clientId!,
-                x: message.cursorData!.x,
-                y: message.cursorData!.y,
-                userColor: message.userColor!,
+              [message.clientId]: {
+                clientId: message.clientId,
+                x: message.cursorData.x,
+                y: message.cursorData.y,
+                userColor: message.userColor,
               }
             }));
           }
-        } else if (message.type === 'error' && message.error) {
-          console.error('[useCanvasWebSocket] WebSocket error message from server:', message.error);
+        } else if (message.type === 'presence_snapshot') {
+          setPresence(Object.fromEntries(message.participants.map(participant => [participant.clientId, participant])));
+        } else if (message.type === 'presence_join' || message.type === 'presence_update') {
+          const participant = message.participant;
+          setPresence(prev => ({ ...prev, [participant.clientId]: participant }));
+          if (participant.clientId === clientId()) setUserColor(participant.userColor); // The owner overrode our color
+        } else if (message.type === 'presence_leave') {
+          const departedClientId = message.clientId;
+          setPresence(prev => {
+            const { [departedClientId]: _, ...rest } = prev;
+            return rest;
+          });
+          setCursorPositions(prevCursors => {
+            const { [departedClientId]: _, ...rest } = prevCursors;
+            return rest;
+          });
+          removeLiveStrokes(stroke => stroke.clientId === departedClientId);
+          removeTypingUser(departedClientId);
+        } else if (message.type === 'room_settings') {
+          setRoomSettings(message.settings);
+        } else if (message.type === 'chat_history') {
+          if (message.before === null) {
+            // The latest page, sent on every connect; replaces what we had
+            setChatMessages(message.messages);
+            setChatReadSeq(loadChatReadSeq(currentRoomId, message.messages));
+          } else {
+            setChatMessages(prev => [...message.messages.filter(m => !prev.some(p => p.id === m.id)), ...prev]);
+            setChatLoadingOlder(false);
+          }
+          setChatHasMore(message.hasMore);
+        } else if (message.type === 'chat_message') {
+          const chatMessage = message.message;
+          setChatMessages(prev => prev.some(m => m.id === chatMessage.id) ? prev : [...prev, chatMessage]);
+          if (chatMessage.userId === userId()) markChatRead(); // Our own messages are never unread
+        } else if (message.type === 'chat_deleted') {
+          const deletedId = message.id;
+          setChatMessages(prev => prev.filter(m => m.id !== deletedId));
+        } else if (message.type === 'chat_typing') {
+          if (message.typing) setTypingUser({ clientId: message.clientId, userId: message.userId, userName: message.userName });
+          else removeTypingUser(message.clientId);
+        } else if (message.type === 'comment_threads') {
+          setCommentThreads(message.threads);
+        } else if (message.type === 'comment_thread') {
+          const thread = message.thread;
+          setCommentThreads(prev => prev.some(t => t.id === thread.id)
+            ? prev.map(t => t.id === thread.id ? thread : t)
+            : [...prev, thread]);
+        } else if (message.type === 'role_update') {
+          console.log(`[useCanvasWebSocket] Role changed to ${message.role} in room ${currentRoomId}`);
+          setRole(message.role);
+        } else if (message.type === 'error') {
+          console.error(`[useCanvasWebSocket] WebSocket error message from server (${message.code}):`, message.message);
+          handleRejectedEvent(message);
         }
       } catch (e) {
         console.error('[useCanvasWebSocket] Failed to parse WebSocket message:', e);
@@ -153,7 +351,38 @@ export function useCanvasWebSocket(roomId: Accessor<string>) {
 
     ws.onclose = (event) => {
       console.log(`[useCanvasWebSocket] WebSocket disconnected from room ${currentRoomId}. Code: ${event.code}, Reason: ${event.reason}`);
+      // Presence is only known while connected; the next presence_snapshot restores it.
+      // A socket replaced by a newer connection must not wipe the newer one's presence.
+      if (socket() === ws) {
+        setPresence({});
+        setCursorPositions({});
+        setLiveStrokeMap({});
+      }
       setSocket(null); // Clear the socket from state on close
+      if (event.code === CLOSE_CODE_REMOVED) {
+        console.warn(`[useCanvasWebSocket] Removed from room ${currentRoomId}. Won't reconnect.`);
+        setCloseReason(event.reason || 'You were removed from this room.');
+        setConnectionStatus('error');
+        return;
+      }
+      if (event.code === CLOSE_CODE_ROOM_CLOSED) {
+        console.warn(`[useCanvasWebSocket] Room ${currentRoomId} was closed (${event.reason}). Won't reconnect.`);
+        setCloseReason(event.reason || 'This room is no longer available.');
+        setConnectionStatus('error');
+        return;
+      }
+      if (event.code === CLOSE_CODE_SHARE_ENDED) {
+        console.warn(`[useCanvasWebSocket] Share link of room ${currentRoomId} ended (${event.reason}). Won't reconnect.`);
+        setCloseReason(event.reason || 'This share link is no longer valid.');
+        setConnectionStatus('error');
+        return;
+      }
+      if (event.code === CLOSE_CODE_ABUSE) {
+        console.warn(`[useCanvasWebSocket] Closed by room ${currentRoomId} for sending too many invalid messages. Won't reconnect.`);
+        setCloseReason(`${event.reason || 'The connection was closed for sending too many invalid messages.'} Reload the page to reconnect.`);
+        setConnectionStatus('error');
+        return;
+      }
       if (event.code === 1002 || event.code === 1008 || event.code === 4001) { 
         console.error('[useCanvasWebSocket] WebSocket connection closed due to auth or protocol error. Won\'t reconnect.');
         setConnectionStatus('error');
@@ -179,8 +408,12 @@ export function useCanvasWebSocket(roomId: Accessor<string>) {
     socket()?.close(1000, 'Client initiated disconnect');
     setSocket(null);
     setConnectionStatus('disconnected');
-    setReceivedEvents([]);
-    setOtherUserCursors({});
+    resetCanvasState();
+    syncedRoomId = null;
+    setCursorPositions({});
+    setPresence({});
+    setLiveStrokeMap({});
+    setRole(null);
     reconnectAttempts = MAX_RECONNECT_ATTEMPTS; // Prevent auto-reconnect after manual disconnect
   };
 
@@ -197,34 +430,296 @@ export function useCanvasWebSocket(roomId: Accessor<string>) {
   }, { defer: false })); // Run immediately on mount and when roomId changes
 
   const sendEvent = (eventData: CanvasEvent) => {
+    // Optimistically add to local state as pending until the server echoes it back with a seq.
+    // Attribute it to us so it lands on our own undo stack locally as it will on the server.
+    markActive();
+    setPendingEvents(prevEvents => [...prevEvents, { ...eventData, user_id: userId() ?? eventData.user_id }]);
     if (socket()?.readyState === WebSocket.OPEN) {
       socket()?.send(JSON.stringify(eventData));
-      // Optimistically add to local state.
-      // The filter in onmessage (e.client_id !== clientId()) will prevent duplication
-      // if the server broadcasts this event back to us.
-      // console.log('[useCanvasWebSocket] Optimistically adding sent event to local state:', JSON.stringify(eventData));
-      setReceivedEvents(prevEvents => [...prevEvents, eventData]);
     } else {
-      console.warn('[useCanvasWebSocket] WebSocket not connected. Event not sent.', eventData);
+      console.warn('[useCanvasWebSocket] WebSocket not connected. Event queued until reconnect.', eventData);
     }
   };
 
-  const sendCursorPosition = (position: CursorData) => {
+  // Undo/redo are resolved by the DO against our stacks and applied when broadcast back
+  let lastHistoryRequestAt = 0;
+  const sendHistoryRequest = (type: 'undo' | 'redo') => {
+    const now = Date.now();
+    if (now - lastHistoryRequestAt < HISTORY_REQUEST_INTERVAL_MS) return;
+    lastHistoryRequestAt = now;
     if (socket()?.readyState === WebSocket.OPEN) {
-      const cursorEvent: CanvasEventBase = {
+      const historyEvent: CanvasChangeMessage = { id: crypto.randomUUID(), type, data: null };
+      socket()?.send(JSON.stringify(historyEvent));
+    } else {
+      console.warn(`[useCanvasWebSocket] WebSocket not connected. ${type} not sent.`);
+    }
+  };
+  const sendUndo = () => sendHistoryRequest('undo');
+  const sendRedo = () => sendHistoryRequest('redo');
+
+  // Comments aren't applied optimistically: threads update when the DO broadcasts them back.
+  // Returns false when not connected, so the UI can keep the draft.
+  const sendCommentMessage = (message: CommentClientMessage) => {
+    if (socket()?.readyState !== WebSocket.OPEN) return false;
+    markActive();
+    socket()?.send(JSON.stringify(message));
+    return true;
+  };
+  const createCommentThread = (anchor: CommentAnchor, text: string, mentions: CommentMention[]) =>
+    sendCommentMessage({ type: 'comment_create', threadId: crypto.randomUUID(), commentId: crypto.randomUUID(), anchor, text, mentions });
+  const replyToCommentThread = (threadId: string, text: string, mentions: CommentMention[]) =>
+    sendCommentMessage({ type: 'comment_reply', threadId, commentId: crypto.randomUUID(), text, mentions });
+  const resolveCommentThread = (threadId: string, resolved: boolean) =>
+    sendCommentMessage({ type: 'comment_resolve', threadId, resolved });
+
+  // Chat: like comments, messages show up once the DO broadcasts them back
+  const sendChatClientMessage = (message: ChatClientMessage) => {
+    if (socket()?.readyState !== WebSocket.OPEN) return false;
+    socket()?.send(JSON.stringify(message));
+    return true;
+  };
+  let lastTypingSent = 0;
+  const sendChatMessage = (text: string) => {
+    markActive();
+    lastTypingSent = 0;
+    return sendChatClientMessage({ type: 'chat_send', id: crypto.randomUUID(), text });
+  };
+  const deleteChatMessage = (id: string) => sendChatClientMessage({ type: 'chat_delete', id });
+  const loadOlderChatMessages = () => {
+    const oldest = chatMessages()[0];
+    if (!oldest || !chatHasMore() || chatLoadingOlder()) return;
+    if (sendChatClientMessage({ type: 'chat_load', before: oldest.seq })) setChatLoadingOlder(true);
+  };
+  // Call on every keystroke with true and with false when the draft is cleared; renewals are throttled
+  const sendChatTyping = (typing: boolean) => {
+    const now = Date.now();
+    if (typing && now - lastTypingSent < CHAT_TYPING_RENEW_MS) return;
+    if (!typing && lastTypingSent === 0) return;
+    lastTypingSent = typing ? now : 0;
+    sendChatClientMessage({ type: 'chat_typing', typing });
+  };
+
+  // Others' typing indicators expire unless renewed, in case their "stopped" never arrives
+  function setTypingUser(user: ChatTypingUser) {
+    setTypingUsers(prev => [...prev.filter(u => u.clientId !== user.clientId), user]);
+    clearTimeout(typingTimers.get(user.clientId));
+    typingTimers.set(user.clientId, setTimeout(() => removeTypingUser(user.clientId), CHAT_TYPING_TIMEOUT_MS) as unknown as number);
+  }
+  function removeTypingUser(typingClientId: string) {
+    clearTimeout(typingTimers.get(typingClientId));
+    typingTimers.delete(typingClientId);
+    setTypingUsers(prev => prev.filter(u => u.clientId !== typingClientId));
+  }
+  function clearTypingUsers() {
+    typingTimers.forEach(timer => clearTimeout(timer));
+    typingTimers.clear();
+    setTypingUsers([]);
+  }
+
+  // The read marker is kept per room in localStorage. Without one, messages sent before we first
+  // opened the room don't count as unread.
+  function loadChatReadSeq(forRoomId: string, latestPage: ChatMessage[]) {
+    const stored = Number(localStorage.getItem(CHAT_READ_STORAGE_PREFIX + forRoomId));
+    if (Number.isInteger(stored) && stored > 0) return stored;
+    const latestSeq = latestPage[latestPage.length - 1]?.seq ?? 0;
+    localStorage.setItem(CHAT_READ_STORAGE_PREFIX + forRoomId, String(latestSeq));
+    return latestSeq;
+  }
+  function markChatRead() {
+    const latestSeq = chatMessages()[chatMessages().length - 1]?.seq ?? 0;
+    if (latestSeq <= chatReadSeq() || !roomId()) return;
+    setChatReadSeq(latestSeq);
+    localStorage.setItem(CHAT_READ_STORAGE_PREFIX + roomId(), String(latestSeq));
+  }
+  const chatUnreadCount = createMemo(() =>
+    chatMessages().filter(message => message.seq > chatReadSeq() && message.userId !== userId()).length);
+
+  // Resolved canvas: the confirmed state plus our events still waiting for their echo
+  const canvasState = createMemo(() => replayCanvasEvents(pendingEvents(), confirmedState()));
+  const canUndo = () => !!userId() && getUndoTarget(canvasState(), userId()!) !== null;
+  const canRedo = () => !!userId() && getRedoTarget(canvasState(), userId()!) !== null;
+
+  // An event the DO refused: retry it once rate limiting allows, or drop it if it can never be stored
+  // (otherwise it would stay pending and be resent on every reconnect)
+  function handleRejectedEvent(message: CanvasErrorMessage) {
+    const rejectedId = message.id;
+    if (!rejectedId || !pendingEvents().some(e => e.id === rejectedId)) return;
+    if (message.code === 'rate_limited') {
+      setTimeout(() => {
+        const pendingEvent = pendingEvents().find(e => e.id === rejectedId);
+        if (pendingEvent && socket()?.readyState === WebSocket.OPEN) socket()?.send(JSON.stringify(pendingEvent));
+      }, message.retryAfterMs ?? RECONNECT_DELAY_MS);
+    } else if (message.code === 'invalid_event' || message.code === 'forbidden') {
+      setPendingEvents(prevEvents => prevEvents.filter(e => e.id !== rejectedId));
+    }
+  }
+
+  const sendFrame = (frame: ClientFrame) => {
+    if (socket()?.readyState === WebSocket.OPEN) socket()?.send(encodeClientFrame(frame));
+  };
+
+  // Only the latest position is sent, at most once per CURSOR_SEND_INTERVAL_MS
+  const flushCursor = () => {
+    cursorTimer = null;
+    if (!pendingCursor || shareToken || socket()?.readyState !== WebSocket.OPEN) return;
+    if (protocolVersion >= 2) {
+      sendFrame({ kind: 'cursor', x: pendingCursor.x, y: pendingCursor.y });
+    } else {
+      const cursorEvent: CursorMessage = {
         type: 'cursor',
-        data: position,
+        data: pendingCursor,
       };
       socket()?.send(JSON.stringify(cursorEvent));
-    } else {
-      // console.warn('WebSocket not connected. Cursor position not sent.');
     }
+    pendingCursor = null;
+  };
+
+  const sendCursorPosition = (position: CanvasPoint) => {
+    markActive();
+    pendingCursor = position;
+    if (cursorTimer === null) cursorTimer = setTimeout(flushCursor, CURSOR_SEND_INTERVAL_MS) as unknown as number;
+  };
+
+  // Live strokes: points of the stroke we're drawing are batched and streamed so others see it grow.
+  // They are never stored; the finished path is sent as a regular event with id strokeId.
+  const flushStroke = () => {
+    if (strokeTimer !== null) clearTimeout(strokeTimer);
+    strokeTimer = null;
+    const stroke = pendingStroke;
+    if (!stroke) return;
+    pendingStroke = stroke.end ? null : { ...stroke, points: [] };
+    if (stroke.points.length === 0 && !stroke.end) return;
+    for (let i = 0; i < stroke.points.length || i === 0; i += MAX_STROKE_FRAME_POINTS) {
+      const points = stroke.points.slice(i, i + MAX_STROKE_FRAME_POINTS);
+      const isLast = i + MAX_STROKE_FRAME_POINTS >= stroke.points.length;
+      sendFrame({ ...stroke, points, end: stroke.end && isLast, cancelled: stroke.cancelled && isLast });
+    }
+  };
+
+  const sendStrokePoints = (strokeId: string, lineWidth: number, points: PathPoint[]) => {
+    if (protocolVersion < 2) return;
+    if (pendingStroke && pendingStroke.strokeId !== strokeId) flushStroke();
+    pendingStroke ??= { kind: 'stroke', strokeId, lineWidth, points: [], end: false, cancelled: false };
+    pendingStroke.points.push(...points);
+    if (strokeTimer === null) strokeTimer = setTimeout(flushStroke, STROKE_SEND_INTERVAL_MS) as unknown as number;
   };
+
+  // Sent before the finished path (or instead of it, when cancelled)
+  const endStroke = (strokeId: string, cancelled: boolean) => {
+    if (protocolVersion < 2 || pendingStroke?.strokeId !== strokeId) return;
+    pendingStroke = { ...pendingStroke, end: true, cancelled };
+    flushStroke();
+  };
+
+  const removeLiveStrokes = (predicate: (stroke: LiveStroke) => boolean) => {
+    if (!Object.values(liveStrokeMap()).some(predicate)) return;
+    setLiveStrokeMap(prev => Object.fromEntries(Object.entries(prev).filter(([, stroke]) => !predicate(stroke))));
+  };
+
+  function handleRelayedFrame(buffer: ArrayBuffer) {
+    const frame = decodeRelayedFrame(buffer);
+    if (!frame || frame.clientId === clientId()) return;
+    const userColor = presence()[frame.clientId]?.userColor ?? '#cccccc';
+    if (frame.kind === 'cursor') {
+      setCursorPositions(prevCursors => ({
+        ...prevCursors,
+        [frame.clientId]: { clientId: frame.clientId, x: frame.x, y: frame.y, userColor },
+      }));
+      return;
+    }
+    if (frame.cancelled) {
+      removeLiveStrokes(stroke => stroke.strokeId === frame.strokeId);
+      return;
+    }
+    setLiveStrokeMap(prev => {
+      const existing = prev[frame.strokeId];
+      return {
+        ...prev,
+        [frame.strokeId]: {
+          strokeId: frame.strokeId,
+          clientId: frame.clientId,
+          userColor,
+          lineWidth: frame.lineWidth,
+          points: existing ? [...existing.points, ...frame.points] : frame.points,
+          updatedAt: Date.now(),
+        },
+      };
+    });
+  }
+
+  const liveStrokeSweep = setInterval(() => {
+    const cutoff = Date.now() - LIVE_STROKE_TIMEOUT_MS;
+    removeLiveStrokes(stroke => stroke.updatedAt < cutoff);
+  }, LIVE_STROKE_TIMEOUT_MS);
+  const liveStrokes = createMemo(() => Object.values(liveStrokeMap()));
   
+  // Presence updates are relayed by the DO to everyone else; nothing is queued while offline
+  function sendPresence(update: Omit<PresenceMessage, 'type'>) {
+    if (!shareToken && socket()?.readyState === WebSocket.OPEN) {
+      const presenceMsg: PresenceMessage = { type: 'presence', ...update };
+      socket()?.send(JSON.stringify(presenceMsg));
+    }
+  }
+
+  function markActive() {
+    lastActivityAt = Date.now();
+    if (reportedIdle) {
+      reportedIdle = false;
+      sendPresence({ idle: false });
+    }
+  }
+
+  const checkIdle = () => {
+    if (!reportedIdle && (document.hidden || Date.now() - lastActivityAt >= IDLE_AFTER_MS)) {
+      reportedIdle = true;
+      sendPresence({ idle: true });
+    }
+  };
+  const handleVisibilityChange = () => (document.hidden ? checkIdle() : markActive());
+  const idleInterval = setInterval(checkIdle, IDLE_CHECK_INTERVAL_MS);
+  document.addEventListener('visibilitychange', handleVisibilityChange);
+
+  // Our view of the canvas, for anyone following us
+  const sendViewport = (viewport: PresenceViewport) => {
+    latestViewport = viewport;
+    if (viewportTimer !== null) return;
+    viewportTimer = setTimeout(() => {
+      viewportTimer = null;
+      if (latestViewport) sendPresence({ viewport: latestViewport });
+    }, VIEWPORT_SEND_INTERVAL_MS) as unknown as number;
+  };
+
+  // Members in the room in order of arrival, and other clients' cursors labelled with their names.
+  // Guests watching through the share link are only counted
+  const participants = createMemo(() => Object.values(presence()).filter(p => !p.anonymous).sort((a, b) => a.joinedAt - b.joinedAt));
+  const guestCount = createMemo(() => Object.values(presence()).filter(p => p.anonymous).length);
+  const otherUserCursors = createMemo(() => {
+    const byClientId = presence();
+    const cursors: Record<string, OtherUserCursor> = {};
+    for (const [id, cursor] of Object.entries(cursorPositions())) {
+      cursors[id] = { ...cursor, userName: byClientId[id]?.userName, idle: byClientId[id]?.idle };
+    }
+    return cursors;
+  });
+
   onCleanup(() => {
+    clearInterval(idleInterval);
+    clearInterval(liveStrokeSweep);
+    clearTypingUsers();
+    if (viewportTimer !== null) clearTimeout(viewportTimer);
+    if (cursorTimer !== null) clearTimeout(cursorTimer);
+    if (strokeTimer !== null) clearTimeout(strokeTimer);
+    document.removeEventListener('visibilitychange', handleVisibilityChange);
     console.log("[useCanvasWebSocket] Hook cleanup for roomId:", roomId(), "Disconnecting WebSocket.");
     disconnect();
   });
 
-  return { connect, disconnect, sendEvent, receivedEvents, connectionStatus, clientId, userColor, sendCursorPosition, otherUserCursors };
+  return {
+    connect, disconnect, sendEvent, canvasState, connectionStatus, clientId, userColor, role, roomSettings, closeReason,
+    sendCursorPosition, otherUserCursors, sendUndo, sendRedo, canUndo, canRedo, participants, guestCount, sendViewport,
+    liveStrokes, sendStrokePoints, endStroke,
+    commentThreads, createCommentThread, replyToCommentThread, resolveCommentThread,
+    chatMessages, chatHasMore, chatLoadingOlder, chatUnreadCount, typingUsers,
+    sendChatMessage, deleteChatMessage, loadOlderChatMessages, sendChatTyping, markChatRead,
+  };
 } 
\ No newline at end of file
@@ -0,0 +1,54 @@
+// Uploaded files (images) placed on a canvas. Blobs live in object storage under the room that
+// uploaded them and are referenced from `image` shapes by asset id. Shared by the canvas API routes,
+// the CanvasRoom Durable Object (cleanup) and the canvas UI, so keep it free of browser- and
+// Workers-specific APIs and of `~/` imports.
+
+export type CanvasAssetType = 'image/png' | 'image/jpeg' | 'image/gif' | 'image/webp';
+
+// SVG is deliberately missing: it can carry scripts and is served from the API's origin
+export const CANVAS_ASSET_TYPES: ReadonlyArray<CanvasAssetType> = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+export const CANVAS_ASSET_LIMITS = {
+  maxBytes: 10 * 1024 * 1024,
+  maxAssetsPerRoom: 500,
+};
+
+// Asset ids are server-generated UUIDs; the pattern keeps them safe to use in storage keys
+const ASSET_ID_PATTERN = /^[0-9a-f-]{36}$/;
+export const isCanvasAssetId = (value: unknown): value is string => typeof value === 'string' && ASSET_ID_PATTERN.test(value);
+
+export const isCanvasAssetType = (value: unknown): value is CanvasAssetType =>
+  typeof value === 'string' && (CANVAS_ASSET_TYPES as ReadonlyArray<string>).includes(value);
+
+// Storage key of an asset's blob; keys are prefixed by room so a room's blobs can be listed together
+export const canvasAssetKey = (roomId: string, assetId: string) => `canvas-rooms/${roomId}/assets/${assetId}`;
+
+// API path that serves an asset to room members
+export const canvasAssetPath = (roomId: string, assetId: string) => `/api/canvas/rooms/${roomId}/assets/${assetId}`;
+
+// API path that serves an asset to guests holding the room's share link
+export const canvasShareAssetPath = (token: string, assetId: string) => `/api/canvas/share/${token}/assets/${assetId}`;
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  bytes.length >= offset + signature.length && signature.every((byte, i) => bytes[offset + i] === byte);
+
+/**
+ * The image type a file's leading bytes identify, or null. Uploads are checked against this rather
+ * than the declared content type, so a renamed HTML file can't be served as an image.
+ */
+export function sniffCanvasAssetType(bytes: Uint8Array): CanvasAssetType | null {
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith(bytes, [0x47, 0x49, 0x46, 0x38])) return 'image/gif'; // GIF8
+  if (startsWith(bytes, [0x52, 0x49, 0x46, 0x46]) && startsWith(bytes, [0x57, 0x45, 0x42, 0x50], 8)) return 'image/webp'; // RIFF....WEBP
+  return null;
+}
+
+// Ids of the assets referenced by image shapes among the given events
+export const collectCanvasAssetIds = (events: Iterable<{ type: string; data: any }>): Set<string> => {
+  const ids = new Set<string>();
+  for (const event of events) {
+    if (event.type === 'image' && isCanvasAssetId(event.data?.assetId)) ids.add(event.data.assetId);
+  }
+  return ids;
+};
@@ -0,0 +1,53 @@
+// Text chat of a canvas room, multiplexed over the canvas WebSocket (see canvas-protocol.ts) and
+// stored by the CanvasRoom Durable Object apart from the drawing history. Shared by the DO and
+// the canvas UI, so keep it free of browser- and Workers-specific APIs and of `~/` imports.
+
+import type { CanvasValidationResult } from './canvas-shapes';
+import type { ParticipantRole } from './canvas-protocol';
+
+export interface ChatMessage {
+  id: string;
+  seq: number; // Room-local order, assigned when stored; history pages are fetched by it
+  userId: string;
+  userName: string;
+  userColor: string;
+  text: string;
+  created: number;
+}
+
+// Someone typing in the chat, relayed to the others and never stored
+export interface ChatTypingUser {
+  clientId: string;
+  userId: string;
+  userName: string;
+}
+
+export const CHAT_LIMITS = {
+  maxTextLength: 2000,
+  pageSize: 50, // Messages per history page, including the one sent on connect
+};
+
+// How long a typing indicator lasts without being renewed; clients renew it well before that
+export const CHAT_TYPING_TIMEOUT_MS = 5_000;
+
+// Trims the text; empty and overlong messages are rejected
+export function parseChatText(text: unknown): CanvasValidationResult<string> {
+  if (typeof text !== 'string') return { ok: false, error: 'text must be a string' };
+  const trimmed = text.trim();
+  return trimmed.length > 0 && trimmed.length <= CHAT_LIMITS.maxTextLength
+    ? { ok: true, data: trimmed }
+    : { ok: false, error: `text must be 1 to ${CHAT_LIMITS.maxTextLength} characters` };
+}
+
+// Structural check for messages received from the server
+export const isChatMessage = (value: unknown): value is ChatMessage => {
+  if (typeof value !== 'object' || value === null) return false;
+  const message = value as Record<string, unknown>;
+  return typeof message.id === 'string' && typeof message.seq === 'number' && typeof message.userId === 'string'
+    && typeof message.userName === 'string' && typeof message.userColor === 'string'
+    && typeof message.text === 'string' && typeof message.created === 'number';
+};
+
+// Owners moderate the chat; everyone else can only delete what they wrote
+export const canDeleteChatMessage = (message: Pick<ChatMessage, 'userId'>, userId: string, role: ParticipantRole) =>
+  role === 'owner' || message.userId === userId;
@@ -0,0 +1,130 @@
+// Comment threads pinned to a canvas room, either at a point or to a shape. Stored by the CanvasRoom
+// Durable Object next to the drawing and synced over the canvas WebSocket (see canvas-protocol.ts).
+// Shared by the DO and the canvas UI, so keep it free of browser- and Workers-specific APIs and of
+// `~/` imports.
+
+import { CANVAS_LIMITS, getShapeBounds, type CanvasPoint, type CanvasValidationResult } from './canvas-shapes';
+
+// Where a thread is pinned. Threads on a shape follow it while it exists and stay at x/y (its last
+// known position when the thread was created) once it's gone.
+export interface CommentAnchor {
+  x: number;
+  y: number;
+  shapeId: string | null;
+}
+
+// A participant mentioned as `@name` in a comment's text
+export interface CommentMention {
+  userId: string;
+  name: string;
+}
+
+export interface CanvasComment {
+  id: string;
+  threadId: string;
+  userId: string;
+  userName: string;
+  text: string;
+  mentions: CommentMention[];
+  created: number;
+}
+
+export interface CanvasCommentThread {
+  id: string;
+  anchor: CommentAnchor;
+  resolved: boolean;
+  resolvedBy: string | null;
+  resolvedAt: number | null;
+  createdBy: string;
+  created: number;
+  updated: number; // Last reply or resolve/reopen
+  comments: CanvasComment[]; // Oldest first; the first one opened the thread
+}
+
+export const COMMENT_LIMITS = {
+  maxTextLength: 2000,
+  maxMentions: 20,
+  maxCommentsPerThread: 200,
+  maxThreads: 1000, // Per room
+};
+
+const MAX_ID_LENGTH = 64;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isCoordinate = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && Math.abs(value) <= CANVAS_LIMITS.maxCoordinate;
+
+export const isCommentId = (value: unknown): value is string =>
+  typeof value === 'string' && value.length > 0 && value.length <= MAX_ID_LENGTH;
+
+export function parseCommentAnchor(value: unknown): CanvasValidationResult<CommentAnchor> {
+  if (!isRecord(value) || !isCoordinate(value.x) || !isCoordinate(value.y)) {
+    return { ok: false, error: 'anchor must have finite x and y' };
+  }
+  if (value.shapeId !== null && value.shapeId !== undefined && !isCommentId(value.shapeId)) {
+    return { ok: false, error: 'anchor.shapeId must be null or a string of 1 to 64 characters' };
+  }
+  return { ok: true, data: { x: value.x, y: value.y, shapeId: (value.shapeId as string | undefined) ?? null } };
+}
+
+/**
+ * Validates a comment's text and mentions. Text is trimmed and must not be empty; mentions whose
+ * `@name` doesn't appear in the text are dropped, as are repeats of the same user.
+ */
+export function parseCommentBody(text: unknown, mentions: unknown): CanvasValidationResult<{ text: string; mentions: CommentMention[] }> {
+  if (typeof text !== 'string') return { ok: false, error: 'text must be a string' };
+  const trimmed = text.trim();
+  if (trimmed.length === 0 || trimmed.length > COMMENT_LIMITS.maxTextLength) {
+    return { ok: false, error: `text must be 1 to ${COMMENT_LIMITS.maxTextLength} characters` };
+  }
+  const list = mentions ?? [];
+  if (!Array.isArray(list) || list.length > COMMENT_LIMITS.maxMentions) {
+    return { ok: false, error: `mentions must be a list of at most ${COMMENT_LIMITS.maxMentions} users` };
+  }
+  const kept: CommentMention[] = [];
+  for (const mention of list) {
+    if (!isRecord(mention) || !isCommentId(mention.userId) || typeof mention.name !== 'string' || mention.name.length === 0) {
+      return { ok: false, error: 'mentions must have a userId and a name' };
+    }
+    if (trimmed.includes(`@${mention.name}`) && !kept.some(m => m.userId === mention.userId)) {
+      kept.push({ userId: mention.userId, name: mention.name });
+    }
+  }
+  return { ok: true, data: { text: trimmed, mentions: kept } };
+}
+
+const isCanvasComment = (value: unknown): value is CanvasComment =>
+  isRecord(value) && typeof value.id === 'string' && typeof value.userId === 'string' && typeof value.userName === 'string'
+    && typeof value.text === 'string' && Array.isArray(value.mentions) && typeof value.created === 'number';
+
+// Structural check for threads received from the server
+export const isCanvasCommentThread = (value: unknown): value is CanvasCommentThread =>
+  isRecord(value) && typeof value.id === 'string' && parseCommentAnchor(value.anchor).ok && typeof value.resolved === 'boolean'
+    && typeof value.createdBy === 'string' && typeof value.updated === 'number'
+    && Array.isArray(value.comments) && value.comments.every(isCanvasComment);
+
+// Where a thread's pin is drawn: the top-right corner of its shape while that exists, else its x/y
+export function resolveCommentAnchor(anchor: CommentAnchor, shapes: ReadonlyArray<{ id: string; type: string; data: unknown }>): CanvasPoint {
+  if (anchor.shapeId) {
+    const shape = shapes.find(s => s.id === anchor.shapeId);
+    const bounds = shape ? getShapeBounds(shape.type, shape.data) : null;
+    if (bounds) return { x: bounds.maxX, y: bounds.minY };
+  }
+  return { x: anchor.x, y: anchor.y };
+}
+
+export const threadMentionsUser = (thread: CanvasCommentThread, userId: string) =>
+  thread.comments.some(comment => comment.mentions.some(mention => mention.userId === userId));
+
+// A comment's text split into plain runs and `@name` mentions, for highlighting
+export function splitCommentText(text: string, mentions: CommentMention[]): Array<{ text: string; mention: CommentMention | null }> {
+  if (mentions.length === 0) return [{ text, mention: null }];
+  // Longest names first, so "@Ann Lee" wins over "@Ann"
+  const names = [...mentions].sort((a, b) => b.name.length - a.name.length);
+  const escaped = names.map(m => `@${m.name}`.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  return text
+    .split(new RegExp(`(${escaped.join('|')})`))
+    .filter(part => part.length > 0)
+    .map(part => ({ text: part, mention: names.find(m => `@${m.name}` === part) ?? null }));
+}
@@ -0,0 +1,28 @@
+// @vitest-environment node
+// canvas-export is shared with the Workers side and needs no DOM
+import { describe, expect, it } from 'vitest';
+import { buildCanvasExportDocument, CANVAS_EXPORT_FORMAT, CANVAS_EXPORT_VERSION, parseCanvasExportDocument } from './canvas-export';
+
+const rect = { x: 0, y: 0, width: 10, height: 10, strokeColor: '#000000', fillColor: null, strokeWidth: 2 };
+const image = { x: 20, y: 0, width: 50, height: 40, assetId: 'f47ac10b-58cc-4372-a567-0e02b2c3d479' };
+
+describe('JSON export documents', () => {
+  it('leave out image shapes, whose files belong to the room', () => {
+    const document = buildCanvasExportDocument('Board', [
+      { id: 'a', user_id: 'alice', type: 'rect', data: rect, timestamp: 1 },
+      { id: 'b', user_id: 'alice', type: 'image', data: image, timestamp: 2 },
+    ]);
+    expect(document.shapes.map(shape => shape.type)).toEqual(['rect']);
+    expect(document.bounds).toEqual({ minX: 0, minY: 0, maxX: 10, maxY: 10 });
+  });
+
+  it('skip image shapes of older documents on import', () => {
+    const parsed = parseCanvasExportDocument({
+      format: CANVAS_EXPORT_FORMAT,
+      version: CANVAS_EXPORT_VERSION,
+      name: 'Board',
+      shapes: [{ type: 'image', data: image }, { type: 'rect', data: rect }],
+    });
+    expect(parsed).toEqual({ ok: true, data: { name: 'Board', shapes: [{ type: 'rect', data: rect }] } });
+  });
+});
@@ -0,0 +1,225 @@
+// Export formats for canvas rooms: a JSON document of the canvas model and an SVG rendering.
+// Shared by the canvas API routes (server-side exports and imports) and the canvas UI (downloads),
+// so keep it free of browser- and Workers-specific APIs and of `~/` imports.
+
+import {
+  getArrowHeadPoints,
+  getShapeBounds,
+  isCanvasShapeType,
+  pathPointWidth,
+  STICKY_NOTE_PADDING,
+  STICKY_NOTE_TEXT_COLOR,
+  TEXT_LINE_HEIGHT,
+  unionBounds,
+  validateCanvasEventData,
+  type BoxShapeData,
+  type CanvasBounds,
+  type CanvasShapeType,
+  type CanvasValidationResult,
+  type ImageShapeData,
+  type LineShapeData,
+  type PathData,
+  type StickyNoteData,
+  type TextData,
+} from './canvas-shapes';
+
+export const CANVAS_EXPORT_FORMAT = 'canvas-room';
+export const CANVAS_EXPORT_VERSION = 1;
+export const MAX_EXPORT_SHAPES = 10_000; // Largest document the import endpoint accepts
+
+// Minimal shape event needed for exporting; both the DO and client CanvasEvent types satisfy it
+export interface ExportableCanvasShape {
+  id: string;
+  user_id: string;
+  type: string;
+  data: any;
+  timestamp: number;
+}
+
+export interface CanvasExportShape {
+  id: string;
+  type: CanvasShapeType;
+  data: unknown; // Payload per type, see canvas-shapes.ts
+  user_id: string;
+  timestamp: number;
+}
+
+// JSON export: the live shapes in draw order, in world coordinates
+export interface CanvasExportDocument {
+  format: typeof CANVAS_EXPORT_FORMAT;
+  version: number;
+  name: string;
+  exportedAt: string; // ISO timestamp
+  bounds: CanvasBounds | null;
+  shapes: CanvasExportShape[];
+}
+
+// Shape payloads read back from an export document, validated and in draw order
+export interface ParsedCanvasExport {
+  name: string;
+  shapes: Array<{ type: CanvasShapeType; data: unknown }>;
+}
+
+// Download file name for a room export, e.g. "Team Board" -> "team-board.svg"
+export const canvasExportFileName = (roomName: string, extension: string) =>
+  `${roomName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'canvas'}.${extension}`;
+
+const shapeBounds = (shapes: ExportableCanvasShape[]) =>
+  unionBounds(shapes.map(shape => getShapeBounds(shape.type, shape.data)).filter((b): b is CanvasBounds => b !== null));
+
+// Image shapes are left out: their files belong to the room and can't travel in the document
+export function buildCanvasExportDocument(name: string, shapes: ExportableCanvasShape[]): CanvasExportDocument {
+  const exported = shapes.filter(shape => isCanvasShapeType(shape.type) && shape.type !== 'image');
+  return {
+    format: CANVAS_EXPORT_FORMAT,
+    version: CANVAS_EXPORT_VERSION,
+    name,
+    exportedAt: new Date().toISOString(),
+    bounds: shapeBounds(exported),
+    shapes: exported.map(shape => ({
+      id: shape.id,
+      type: shape.type as CanvasShapeType,
+      data: shape.data,
+      user_id: shape.user_id,
+      timestamp: shape.timestamp,
+    })),
+  };
+}
+
+/**
+ * Validates an uploaded export document. Every shape payload goes through the same validation
+ * as live drawing events, so an import can't store anything a client couldn't have drawn.
+ * Image shapes, which older exports contain, are skipped: they name files of another room.
+ */
+export function parseCanvasExportDocument(value: unknown): CanvasValidationResult<ParsedCanvasExport> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { ok: false, error: 'Export document must be a JSON object' };
+  }
+  const doc = value as Record<string, unknown>;
+  if (doc.format !== CANVAS_EXPORT_FORMAT) {
+    return { ok: false, error: `format must be "${CANVAS_EXPORT_FORMAT}"` };
+  }
+  if (typeof doc.version !== 'number' || doc.version > CANVAS_EXPORT_VERSION) {
+    return { ok: false, error: `Unsupported export version: ${String(doc.version)}` };
+  }
+  if (!Array.isArray(doc.shapes) || doc.shapes.length > MAX_EXPORT_SHAPES) {
+    return { ok: false, error: `shapes must be an array of at most ${MAX_EXPORT_SHAPES} shapes` };
+  }
+
+  const shapes: ParsedCanvasExport['shapes'] = [];
+  for (const [i, shape] of (doc.shapes as unknown[]).entries()) {
+    const type = (shape as Record<string, unknown> | null)?.type;
+    if (typeof type !== 'string' || !isCanvasShapeType(type)) {
+      return { ok: false, error: `shapes[${i}].type must be one of the drawable shape types` };
+    }
+    if (type === 'image') continue;
+    const validation = validateCanvasEventData(type, (shape as Record<string, unknown>).data);
+    if (!validation.ok) {
+      return { ok: false, error: `shapes[${i}]: ${validation.error}` };
+    }
+    shapes.push({ type, data: validation.data });
+  }
+
+  return { ok: true, data: { name: typeof doc.name === 'string' ? doc.name : '', shapes } };
+}
+
+export interface CanvasSvgOptions {
+  background?: string | null; // Fill behind the drawing; null/omitted leaves it transparent
+  padding?: number; // Margin around the drawing, in world units
+}
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Rounded so exported coordinates don't carry floating point noise
+const n = (value: number) => String(Math.round(value * 100) / 100);
+
+const strokeAttrs = (color: string, width: number) =>
+  `stroke="${escapeXml(color)}" stroke-width="${n(width)}" stroke-linecap="round" stroke-linejoin="round"`;
+
+// SVG elements for one shape, mirroring drawCanvasShape in the canvas UI
+function renderShapeSvg(type: string, data: any): string {
+  switch (type) {
+    case 'path': {
+      const path = data as PathData;
+      const color = path.strokeColor || '#000000';
+      const lineWidth = path.lineWidth || 2;
+      if (path.points.length < 2) return '';
+      if (path.points.some(point => point.p !== undefined)) {
+        // Pressure-sensitive strokes are drawn segment by segment, like the canvas renderer
+        const segments = path.points.slice(1).map((point, i) => {
+          const from = path.points[i];
+          const width = (pathPointWidth(lineWidth, from) + pathPointWidth(lineWidth, point)) / 2;
+          return `<line x1="${n(from.x)}" y1="${n(from.y)}" x2="${n(point.x)}" y2="${n(point.y)}" stroke-width="${n(width)}"/>`;
+        });
+        return `<g stroke="${escapeXml(color)}" stroke-linecap="round">${segments.join('')}</g>`;
+      }
+      const d = path.points.map((point, i) => `${i === 0 ? 'M' : 'L'}${n(point.x)} ${n(point.y)}`).join(' ');
+      return `<path d="${d}" fill="none" ${strokeAttrs(color, lineWidth)}/>`;
+    }
+    case 'rect': {
+      const box = data as BoxShapeData;
+      return `<rect x="${n(box.x)}" y="${n(box.y)}" width="${n(box.width)}" height="${n(box.height)}" fill="${box.fillColor ? escapeXml(box.fillColor) : 'none'}" ${strokeAttrs(box.strokeColor, box.strokeWidth)}/>`;
+    }
+    case 'ellipse': {
+      const box = data as BoxShapeData;
+      return `<ellipse cx="${n(box.x + box.width / 2)}" cy="${n(box.y + box.height / 2)}" rx="${n(box.width / 2)}" ry="${n(box.height / 2)}" fill="${box.fillColor ? escapeXml(box.fillColor) : 'none'}" ${strokeAttrs(box.strokeColor, box.strokeWidth)}/>`;
+    }
+    case 'line':
+    case 'arrow': {
+      const line = data as LineShapeData;
+      let svg = `<line x1="${n(line.x1)}" y1="${n(line.y1)}" x2="${n(line.x2)}" y2="${n(line.y2)}" ${strokeAttrs(line.strokeColor, line.strokeWidth)}/>`;
+      if (type === 'arrow') {
+        const [left, right] = getArrowHeadPoints(line);
+        svg += `<polyline points="${n(left.x)},${n(left.y)} ${n(line.x2)},${n(line.y2)} ${n(right.x)},${n(right.y)}" fill="none" ${strokeAttrs(line.strokeColor, line.strokeWidth)}/>`;
+      }
+      return svg;
+    }
+    case 'text': {
+      const text = data as TextData;
+      const lines = text.text.split('\n').map((line, i) =>
+        `<tspan x="${n(text.x)}" y="${n(text.y + i * text.fontSize * TEXT_LINE_HEIGHT)}">${escapeXml(line)}</tspan>`);
+      return `<text font-family="sans-serif" font-size="${n(text.fontSize)}" fill="${escapeXml(text.color)}" dominant-baseline="hanging" xml:space="preserve">${lines.join('')}</text>`;
+    }
+    case 'sticky': {
+      const note = data as StickyNoteData;
+      const padding = note.fontSize * STICKY_NOTE_PADDING;
+      const lines = note.text.split('\n').map((line, i) =>
+        `<tspan x="${n(padding)}" y="${n(padding + i * note.fontSize * TEXT_LINE_HEIGHT)}">${escapeXml(line)}</tspan>`);
+      // A nested viewport clips the text to the note, like the canvas renderer
+      return `<rect x="${n(note.x)}" y="${n(note.y)}" width="${n(note.width)}" height="${n(note.height)}" fill="${escapeXml(note.color)}"/>`
+        + `<svg x="${n(note.x)}" y="${n(note.y)}" width="${n(note.width)}" height="${n(note.height)}" overflow="hidden">`
+        + `<text font-family="sans-serif" font-size="${n(note.fontSize)}" fill="${STICKY_NOTE_TEXT_COLOR}" dominant-baseline="hanging" xml:space="preserve">${lines.join('')}</text></svg>`;
+    }
+    case 'image': {
+      // Uploaded files need room access to download, so the SVG only marks where each image is
+      const image = data as ImageShapeData;
+      return `<rect x="${n(image.x)}" y="${n(image.y)}" width="${n(image.width)}" height="${n(image.height)}" fill="#e5e7eb" stroke="#9ca3af" stroke-dasharray="6 4"/>`;
+    }
+    default:
+      return '';
+  }
+}
+
+/**
+ * Renders shapes (in draw order) to a standalone SVG document sized to their bounds. The
+ * viewBox stays in world coordinates, so the SVG lines up with the JSON export.
+ */
+export function renderCanvasSvg(shapes: ExportableCanvasShape[], options: CanvasSvgOptions = {}): string {
+  const padding = options.padding ?? 20;
+  const bounds = shapeBounds(shapes) ?? { minX: 0, minY: 0, maxX: 0, maxY: 0 };
+  const x = bounds.minX - padding;
+  const y = bounds.minY - padding;
+  const width = bounds.maxX - bounds.minX + padding * 2;
+  const height = bounds.maxY - bounds.minY + padding * 2;
+
+  const parts = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${n(width)}" height="${n(height)}" viewBox="${n(x)} ${n(y)} ${n(width)} ${n(height)}">`,
+  ];
+  if (options.background) {
+    parts.push(`<rect x="${n(x)}" y="${n(y)}" width="${n(width)}" height="${n(height)}" fill="${escapeXml(options.background)}"/>`);
+  }
+  shapes.forEach(shape => parts.push(renderShapeSvg(shape.type, shape.data)));
+  parts.push('</svg>');
+  return parts.join('\n');
+}
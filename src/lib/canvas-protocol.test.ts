@@ -0,0 +1,115 @@
+// @vitest-environment node
+// canvas-protocol is shared with the Workers side and needs no DOM
+import { describe, expect, it } from 'vitest';
+import { CANVAS_LIMITS } from './canvas-shapes';
+import { isClientMessageTooLarge, MAX_CLIENT_MESSAGE_BYTES, parseCanvasClientMessage } from './canvas-protocol';
+
+const rect = { x: 10, y: 20, width: 30, height: 40, strokeColor: '#000000', fillColor: null, strokeWidth: 2 };
+const path = { points: [{ x: 0, y: 0 }, { x: 5, y: 5, p: 0.5 }], strokeColor: '#112233', lineWidth: 3, tool: 'pen' };
+
+// The error of a rejected message; fails the test if it was accepted
+const rejection = (message: unknown): string => {
+  const result = parseCanvasClientMessage(message);
+  if (result.ok) throw new Error(`Expected ${JSON.stringify(message)} to be rejected`);
+  return result.error;
+};
+
+describe('isClientMessageTooLarge', () => {
+  it('measures binary messages by their byte length', () => {
+    expect(isClientMessageTooLarge(new ArrayBuffer(MAX_CLIENT_MESSAGE_BYTES))).toBe(false);
+    expect(isClientMessageTooLarge(new ArrayBuffer(MAX_CLIENT_MESSAGE_BYTES + 1))).toBe(true);
+  });
+
+  it('measures ASCII text up to the limit', () => {
+    expect(isClientMessageTooLarge('a'.repeat(MAX_CLIENT_MESSAGE_BYTES))).toBe(false);
+    expect(isClientMessageTooLarge('a'.repeat(MAX_CLIENT_MESSAGE_BYTES + 1))).toBe(true);
+  });
+
+  it('counts the UTF-8 bytes of multi-byte text, not its UTF-16 length', () => {
+    // '€' is 1 UTF-16 code unit but 3 bytes; an emoji is 2 code units but 4 bytes
+    const euros = Math.floor(MAX_CLIENT_MESSAGE_BYTES / 3);
+    expect(isClientMessageTooLarge('€'.repeat(euros))).toBe(false);
+    expect(isClientMessageTooLarge('€'.repeat(euros + 1))).toBe(true);
+    const emoji = MAX_CLIENT_MESSAGE_BYTES / 4;
+    expect(isClientMessageTooLarge('😀'.repeat(emoji))).toBe(false);
+    expect(isClientMessageTooLarge('😀'.repeat(emoji) + 'a')).toBe(true);
+  });
+
+  it('catches a JSON event padded with multi-byte text', () => {
+    const text = JSON.stringify({ type: 'text', data: { x: 0, y: 0, text: 'ü'.repeat(MAX_CLIENT_MESSAGE_BYTES / 2), fontSize: 16, color: '#000000' } });
+    expect(text.length).toBeLessThan(MAX_CLIENT_MESSAGE_BYTES);
+    expect(isClientMessageTooLarge(text)).toBe(true);
+  });
+});
+
+describe('parseCanvasClientMessage', () => {
+  it('rejects anything but an object with a string type', () => {
+    for (const message of [null, 42, 'rect', [], {}, { type: 7 }]) {
+      expect(rejection(message)).toBe('Messages must be JSON objects with a string type');
+    }
+  });
+
+  it('rejects unknown message types', () => {
+    expect(rejection({ type: 'drop_tables' })).toBe('Unknown message type: drop_tables');
+    expect(rejection({ type: 'x'.repeat(100) })).toBe(`Unknown message type: ${'x'.repeat(32)}`);
+    expect(rejection({ type: 'init_state' })).toMatch(/^Unknown message type/); // Server messages aren't accepted from clients
+  });
+
+  it('accepts a shape and keeps only known fields', () => {
+    expect(parseCanvasClientMessage({ type: 'rect', id: 'shape-1', data: { ...rect, extra: '<script>' }, user_id: 'someone-else' }))
+      .toEqual({ ok: true, data: { type: 'rect', id: 'shape-1', data: rect } });
+  });
+
+  it('rejects shapes with missing or malformed fields', () => {
+    expect(rejection({ type: 'rect' })).toBe('Invalid rect event: rect data must be an object');
+    expect(rejection({ type: 'rect', data: { ...rect, x: 'left' } })).toMatch(/x must be a finite number/);
+    expect(rejection({ type: 'rect', data: { ...rect, width: -1 } })).toMatch(/width must not be negative/);
+    expect(rejection({ type: 'rect', data: { ...rect, strokeColor: 'red' } })).toMatch(/strokeColor must be a hex color/);
+    expect(rejection({ type: 'rect', data: { ...rect, strokeWidth: 0 } })).toMatch(/strokeWidth must be a number between/);
+    expect(rejection({ type: 'text', data: { x: 0, y: 0, text: '   ', fontSize: 16, color: '#000000' } })).toMatch(/text must be a non-empty string/);
+    expect(rejection({ type: 'image', data: { x: 0, y: 0, width: 10, height: 10, assetId: '../../secrets' } })).toMatch(/assetId/);
+  });
+
+  it('rejects coordinates outside the canvas limits', () => {
+    expect(rejection({ type: 'rect', data: { ...rect, y: CANVAS_LIMITS.maxCoordinate + 1 } })).toMatch(/y must be a finite number/);
+    // JSON has no Infinity or NaN: they arrive as null
+    expect(rejection(JSON.parse(JSON.stringify({ type: 'rect', data: { ...rect, x: Infinity } })))).toMatch(/x must be a finite number/);
+  });
+
+  it('rejects paths with too few, too many or malformed points', () => {
+    expect(parseCanvasClientMessage({ type: 'path', data: path }).ok).toBe(true);
+    expect(rejection({ type: 'path', data: { ...path, points: [{ x: 0, y: 0 }] } })).toMatch(/points must be an array/);
+    const tooMany = Array.from({ length: CANVAS_LIMITS.maxPathPoints + 1 }, (_, i) => ({ x: i, y: i }));
+    expect(rejection({ type: 'path', data: { ...path, points: tooMany } })).toMatch(/points must be an array/);
+    expect(rejection({ type: 'path', data: { ...path, points: [{ x: 0, y: 0 }, { x: 1, y: 1, p: 2 }] } })).toMatch(/points\[1\]\.p/);
+    expect(rejection({ type: 'path', data: { ...path, points: [{ x: 0 }, { x: 1, y: 1 }] } })).toMatch(/points\[0\]\.y/);
+  });
+
+  it('rejects eraser paths, which would paint over shapes in the background color', () => {
+    expect(rejection({ type: 'path', data: { ...path, strokeColor: '#ffffff', tool: 'eraser' } })).toMatch(/eraser paths are not accepted/);
+  });
+
+  it('rejects bad ids, deletes and transforms', () => {
+    expect(rejection({ type: 'rect', id: '', data: rect })).toBe('id must be a string of 1 to 64 characters');
+    expect(rejection({ type: 'rect', id: 'x'.repeat(65), data: rect })).toBe('id must be a string of 1 to 64 characters');
+    expect(rejection({ type: 'delete', data: { ids: [] } })).toMatch(/ids must contain/);
+    expect(rejection({ type: 'delete', data: { ids: [42] } })).toMatch(/ids must be strings/);
+    expect(rejection({ type: 'transform', data: { ids: ['a'], scaleX: 0 } })).toMatch(/scaleX must be a number/);
+    expect(rejection({ type: 'transform', data: { ids: ['a'], dx: '10' } })).toMatch(/dx must be a finite number/);
+  });
+
+  it('normalizes undo, redo and clear to a null payload', () => {
+    for (const type of ['undo', 'redo', 'clear'] as const) {
+      expect(parseCanvasClientMessage({ type, data: { targetId: 'someone-elses-event' } })).toEqual({ ok: true, data: { type, id: undefined, data: null } });
+    }
+  });
+
+  it('validates cursors, presence and chat messages', () => {
+    expect(parseCanvasClientMessage({ type: 'cursor', data: { x: 1, y: 2, color: '#ff0000' } })).toEqual({ ok: true, data: { type: 'cursor', data: { x: 1, y: 2 } } });
+    expect(rejection({ type: 'cursor', data: { x: 1 } })).toBe('cursor data must have finite x and y');
+    expect(rejection({ type: 'presence', idle: 'yes' })).toBe('idle must be a boolean');
+    expect(rejection({ type: 'presence', viewport: { x: 0, y: 0, zoom: 0 } })).toMatch(/positive zoom/);
+    expect(rejection({ type: 'chat_send', id: 'c1', text: '   ' })).toMatch(/text must be/);
+    expect(rejection({ type: 'chat_load', before: -1 })).toBe('before must be a positive integer');
+  });
+});
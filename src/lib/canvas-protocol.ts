@@ -0,0 +1,475 @@
+// JSON messages of the canvas WebSocket protocol (binary frames live in canvas-wire.ts), as
+// discriminated unions with runtime validators. Shared by the CanvasRoom Durable Object and
+// useCanvasWebSocket so a protocol change fails type-checking on both ends; keep it free of
+// browser- and Workers-specific APIs and of `~/` imports.
+
+import {
+  CANVAS_LIMITS,
+  CANVAS_SHAPE_TYPES,
+  validateCanvasEventData,
+  type CanvasPoint,
+  type CanvasShapeType,
+  type CanvasValidationResult,
+  type PathData,
+} from './canvas-shapes';
+import type { CanvasUndoHistory } from './canvas-state';
+import { validateCanvasRoomSettings, type CanvasRoomSettings } from './canvas-settings';
+import {
+  isCanvasCommentThread,
+  isCommentId,
+  parseCommentAnchor,
+  parseCommentBody,
+  type CanvasCommentThread,
+  type CommentAnchor,
+  type CommentMention,
+} from './canvas-comments';
+import { isChatMessage, parseChatText, type ChatMessage } from './canvas-chat';
+
+// Event types that change the drawing; all of them are persisted
+export type CanvasChangeType = CanvasShapeType | 'delete' | 'transform' | 'clear' | 'undo' | 'redo';
+
+export const CANVAS_CHANGE_TYPES: ReadonlyArray<CanvasChangeType> = [...CANVAS_SHAPE_TYPES, 'delete', 'transform', 'clear', 'undo', 'redo'];
+
+export const isCanvasChangeType = (type: unknown): type is CanvasChangeType =>
+  typeof type === 'string' && (CANVAS_CHANGE_TYPES as ReadonlyArray<string>).includes(type);
+
+// Participant roles, mirroring canvas_participants.role in D1
+export type ParticipantRole = 'owner' | 'editor' | 'viewer';
+
+export const isParticipantRole = (value: unknown): value is ParticipantRole =>
+  value === 'owner' || value === 'editor' || value === 'viewer';
+
+// A change to the drawing as stored by the DO and broadcast to every client
+export interface CanvasEvent {
+  id: string;
+  room_id: string;
+  user_id: string; // The user who performed the action
+  client_id: string; // The specific client connection that sent the event
+  timestamp: number;
+  seq?: number; // Per-room sequence number, assigned when the event is persisted; absent while pending on a client
+  type: CanvasChangeType;
+  data: any; // Payload per type, see canvas-shapes.ts (validated before persisting)
+  userColor?: string;
+}
+
+// Compacted canvas state: the live shapes and undo history after every event up to and including seq
+export interface CanvasSnapshot {
+  seq: number;
+  created: number;
+  shapes: CanvasEvent[];
+  history: CanvasUndoHistory<CanvasEvent> | null;
+}
+
+// World point at the center of a participant's view and their zoom, relayed for follow mode
+export interface PresenceViewport {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+// A connected client, as sent in presence messages
+export interface RoomParticipant {
+  clientId: string;
+  userId: string;
+  userName: string;
+  userImage: string | null;
+  userColor: string;
+  role: ParticipantRole;
+  joinedAt: number;
+  idle: boolean; // Reported by the client after a period without input or while its tab is hidden
+  viewport: PresenceViewport | null;
+  protocolVersion: number; // Negotiated in client_init, see canvas-wire.ts
+  anonymous?: boolean; // A signed-out guest watching through the room's share link (always a viewer)
+}
+
+// WebSocket close codes the DO uses (application range 4000-4999), so the client can explain why it was disconnected
+export const CLOSE_CODE_REMOVED = 4003; // The user was removed from the room
+export const CLOSE_CODE_ROOM_CLOSED = 4004; // The room was archived or deleted
+export const CLOSE_CODE_SHARE_ENDED = 4010; // A guest's share link was revoked, replaced or expired
+export const CLOSE_CODE_ABUSE = 4029; // The connection kept sending oversized or malformed messages
+
+// Codes of the DO's `error` replies
+export type CanvasErrorCode = 'message_too_large' | 'rate_limited' | 'invalid_message' | 'invalid_event' | 'forbidden' | 'not_found' | 'internal_error';
+
+// --- Client -> server ---
+
+// A change to the drawing. Clients may send their whole optimistic CanvasEvent; only id, type and data
+// are read. Undo/redo name no target (data is null): the DO resolves it against the sender's stacks.
+export interface CanvasChangeMessage {
+  type: CanvasChangeType;
+  id?: string; // Client-generated, kept by the DO so the optimistic copy and the broadcast match
+  data: unknown;
+}
+
+// Cursor position in world coordinates (clients on protocol 2+ send binary frames instead)
+export interface CursorMessage {
+  type: 'cursor';
+  data: CanvasPoint;
+}
+
+export interface PresenceMessage {
+  type: 'presence';
+  idle?: boolean;
+  viewport?: PresenceViewport;
+}
+
+// Opens a comment thread; ids are client-generated like change ids
+export interface CommentCreateMessage {
+  type: 'comment_create';
+  threadId: string;
+  commentId: string;
+  anchor: CommentAnchor;
+  text: string;
+  mentions: CommentMention[];
+}
+
+export interface CommentReplyMessage {
+  type: 'comment_reply';
+  threadId: string;
+  commentId: string;
+  text: string;
+  mentions: CommentMention[];
+}
+
+// Resolves or reopens a thread
+export interface CommentResolveMessage {
+  type: 'comment_resolve';
+  threadId: string;
+  resolved: boolean;
+}
+
+export type CommentClientMessage = CommentCreateMessage | CommentReplyMessage | CommentResolveMessage;
+
+export const isCommentMessageType = (type: unknown): type is CommentClientMessage['type'] =>
+  type === 'comment_create' || type === 'comment_reply' || type === 'comment_resolve';
+
+export interface ChatSendMessage {
+  type: 'chat_send';
+  id: string; // Client-generated; a resend with the same id is stored once
+  text: string;
+}
+
+// Asks for the page of messages before `before` (a seq), answered with chat_history
+export interface ChatLoadMessage {
+  type: 'chat_load';
+  before: number;
+}
+
+export interface ChatDeleteMessage {
+  type: 'chat_delete';
+  id: string;
+}
+
+// Sent while typing (renewed before CHAT_TYPING_TIMEOUT_MS runs out) and with false when done
+export interface ChatTypingMessage {
+  type: 'chat_typing';
+  typing: boolean;
+}
+
+export type ChatClientMessage = ChatSendMessage | ChatLoadMessage | ChatDeleteMessage | ChatTypingMessage;
+
+export const isChatMessageType = (type: unknown): type is ChatClientMessage['type'] =>
+  type === 'chat_send' || type === 'chat_load' || type === 'chat_delete' || type === 'chat_typing';
+
+export type CanvasClientMessage = CanvasChangeMessage | CursorMessage | PresenceMessage | CommentClientMessage | ChatClientMessage;
+
+// --- Server -> client ---
+
+// Sent to a client upon successful WebSocket connection
+export interface ClientInitMessage {
+  type: 'client_init';
+  clientId: string;
+  userId: string; // Lets the client tell its own undo/redo stacks apart
+  userColor: string;
+  role: ParticipantRole;
+  protocolVersion: number; // Wire protocol this session uses, see canvas-wire.ts
+}
+
+// Initial state: the latest snapshot (if any) plus the events after it
+export interface InitialStateMessage {
+  type: 'init_state';
+  snapshot: CanvasSnapshot | null;
+  initialEvents: CanvasEvent[];
+  lastSeq: number;
+}
+
+// Sent instead of init_state when a reconnecting client asks for the events after `since`
+export interface MissedEventsMessage {
+  type: 'missed_events';
+  since: number;
+  events: CanvasEvent[];
+  lastSeq: number;
+}
+
+// Tells the sender an event it (re)sent was already stored, so it can stop treating it as pending
+export interface DuplicateEventMessage {
+  type: 'duplicate_event';
+  id: string;
+}
+
+// Newly stored events, batched
+export interface EventsMessage {
+  type: 'events';
+  events: CanvasEvent[];
+}
+
+// Another client's cursor, for clients on protocol 1
+export interface CursorUpdateMessage {
+  type: 'cursor_update';
+  clientId: string;
+  userColor: string;
+  cursorData: CanvasPoint;
+}
+
+// Tells a client its role changed while connected
+export interface RoleUpdateMessage {
+  type: 'role_update';
+  role: ParticipantRole;
+}
+
+// Everyone connected, sent right after client_init (includes the client itself)
+export interface PresenceSnapshotMessage {
+  type: 'presence_snapshot';
+  participants: RoomParticipant[];
+}
+
+// A client connected, or changed its idle state, viewport or role
+export interface PresenceUpdateMessage {
+  type: 'presence_join' | 'presence_update';
+  participant: RoomParticipant;
+}
+
+// A client disconnected; also removes its cursor
+export interface PresenceLeaveMessage {
+  type: 'presence_leave';
+  clientId: string;
+  userId: string;
+}
+
+// The room's canvas settings, sent after client_init and whenever the owner changes them
+export interface RoomSettingsMessage {
+  type: 'room_settings';
+  settings: CanvasRoomSettings;
+}
+
+// Every comment thread of the room, sent after the initial state
+export interface CommentThreadsMessage {
+  type: 'comment_threads';
+  threads: CanvasCommentThread[];
+}
+
+// A thread that was opened, replied to, resolved or reopened, sent to everyone including the author
+export interface CommentThreadMessage {
+  type: 'comment_thread';
+  thread: CanvasCommentThread;
+}
+
+// A page of chat messages in seq order. The latest page is sent after the initial state (before
+// is null); older pages answer chat_load.
+export interface ChatHistoryMessage {
+  type: 'chat_history';
+  before: number | null;
+  messages: ChatMessage[];
+  hasMore: boolean; // Whether there are messages before this page
+}
+
+// A new message, sent to everyone including its author
+export interface ChatMessageMessage {
+  type: 'chat_message';
+  message: ChatMessage;
+}
+
+export interface ChatDeletedMessage {
+  type: 'chat_deleted';
+  id: string;
+}
+
+// Another client started or stopped typing
+export interface ChatTypingUpdateMessage {
+  type: 'chat_typing';
+  clientId: string;
+  userId: string;
+  userName: string;
+  typing: boolean;
+}
+
+export interface CanvasErrorMessage {
+  type: 'error';
+  code: CanvasErrorCode;
+  message: string;
+  id?: string; // The rejected event, when known
+  retryAfterMs?: number; // For rate_limited: when the event may be resent
+}
+
+export type CanvasServerMessage =
+  | ClientInitMessage
+  | InitialStateMessage
+  | MissedEventsMessage
+  | DuplicateEventMessage
+  | EventsMessage
+  | CursorUpdateMessage
+  | RoleUpdateMessage
+  | PresenceSnapshotMessage
+  | PresenceUpdateMessage
+  | PresenceLeaveMessage
+  | RoomSettingsMessage
+  | CommentThreadsMessage
+  | CommentThreadMessage
+  | ChatHistoryMessage
+  | ChatMessageMessage
+  | ChatDeletedMessage
+  | ChatTypingUpdateMessage
+  | CanvasErrorMessage;
+
+// --- Validators ---
+
+// Largest message a client may send, in bytes. Paths are the largest events (up to CANVAS_LIMITS.maxPathPoints points).
+export const MAX_CLIENT_MESSAGE_BYTES = 512 * 1024;
+
+/**
+ * Whether a WebSocket message exceeds MAX_CLIENT_MESSAGE_BYTES. Text frames arrive as strings of
+ * UTF-16 code units, which take up to 3 bytes each in UTF-8, so the text is only encoded when its
+ * length alone can't settle the check.
+ */
+export function isClientMessageTooLarge(message: string | ArrayBuffer): boolean {
+  if (typeof message !== 'string') return message.byteLength > MAX_CLIENT_MESSAGE_BYTES;
+  if (message.length > MAX_CLIENT_MESSAGE_BYTES) return true;
+  if (message.length * 3 <= MAX_CLIENT_MESSAGE_BYTES) return false;
+  return new TextEncoder().encode(message).byteLength > MAX_CLIENT_MESSAGE_BYTES;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isCoordinate = (value: unknown): value is number => isFiniteNumber(value) && Math.abs(value) <= CANVAS_LIMITS.maxCoordinate;
+const isShortId = (value: unknown): value is string => isString(value) && value.length > 0 && value.length <= 64;
+
+const parsePresenceViewport = (value: unknown): PresenceViewport | null =>
+  isRecord(value) && isCoordinate(value.x) && isCoordinate(value.y) && isFiniteNumber(value.zoom) && value.zoom > 0
+    ? { x: value.x, y: value.y, zoom: value.zoom }
+    : null;
+
+/**
+ * Validates a message from a client. Change payloads go through validateCanvasEventData, and the
+ * result only carries known fields, so nothing unvalidated reaches storage or other clients.
+ */
+export function parseCanvasClientMessage(value: unknown): CanvasValidationResult<CanvasClientMessage> {
+  if (!isRecord(value) || !isString(value.type)) {
+    return { ok: false, error: 'Messages must be JSON objects with a string type' };
+  }
+
+  if (value.type === 'cursor') {
+    const data = value.data;
+    return isRecord(data) && isCoordinate(data.x) && isCoordinate(data.y)
+      ? { ok: true, data: { type: 'cursor', data: { x: data.x, y: data.y } } }
+      : { ok: false, error: 'cursor data must have finite x and y' };
+  }
+
+  if (value.type === 'presence') {
+    const message: PresenceMessage = { type: 'presence' };
+    if (value.idle !== undefined) {
+      if (typeof value.idle !== 'boolean') return { ok: false, error: 'idle must be a boolean' };
+      message.idle = value.idle;
+    }
+    if (value.viewport !== undefined) {
+      const viewport = parsePresenceViewport(value.viewport);
+      if (!viewport) return { ok: false, error: 'viewport must have finite x and y and a positive zoom' };
+      message.viewport = viewport;
+    }
+    return { ok: true, data: message };
+  }
+
+  if (isCommentMessageType(value.type)) {
+    if (!isCommentId(value.threadId)) return { ok: false, error: 'threadId must be a string of 1 to 64 characters' };
+    if (value.type === 'comment_resolve') {
+      return typeof value.resolved === 'boolean'
+        ? { ok: true, data: { type: 'comment_resolve', threadId: value.threadId, resolved: value.resolved } }
+        : { ok: false, error: 'resolved must be a boolean' };
+    }
+    if (!isCommentId(value.commentId)) return { ok: false, error: 'commentId must be a string of 1 to 64 characters' };
+    const body = parseCommentBody(value.text, value.mentions);
+    if (!body.ok) return body;
+    if (value.type === 'comment_reply') {
+      return { ok: true, data: { type: 'comment_reply', threadId: value.threadId, commentId: value.commentId, ...body.data } };
+    }
+    const anchor = parseCommentAnchor(value.anchor);
+    if (!anchor.ok) return anchor;
+    return { ok: true, data: { type: 'comment_create', threadId: value.threadId, commentId: value.commentId, anchor: anchor.data, ...body.data } };
+  }
+
+  if (isChatMessageType(value.type)) {
+    switch (value.type) {
+      case 'chat_send': {
+        if (!isShortId(value.id)) return { ok: false, error: 'id must be a string of 1 to 64 characters' };
+        const text = parseChatText(value.text);
+        return text.ok ? { ok: true, data: { type: 'chat_send', id: value.id, text: text.data } } : text;
+      }
+      case 'chat_load':
+        return Number.isInteger(value.before) && (value.before as number) > 0
+          ? { ok: true, data: { type: 'chat_load', before: value.before as number } }
+          : { ok: false, error: 'before must be a positive integer' };
+      case 'chat_delete':
+        return isShortId(value.id)
+          ? { ok: true, data: { type: 'chat_delete', id: value.id } }
+          : { ok: false, error: 'id must be a string of 1 to 64 characters' };
+      case 'chat_typing':
+        return typeof value.typing === 'boolean'
+          ? { ok: true, data: { type: 'chat_typing', typing: value.typing } }
+          : { ok: false, error: 'typing must be a boolean' };
+    }
+  }
+
+  if (!isCanvasChangeType(value.type)) {
+    return { ok: false, error: `Unknown message type: ${value.type.slice(0, 32)}` };
+  }
+  if (value.id !== undefined && !(isString(value.id) && value.id.length > 0 && value.id.length <= 64)) {
+    return { ok: false, error: 'id must be a string of 1 to 64 characters' };
+  }
+  const validation = validateCanvasEventData(value.type, value.data);
+  if (!validation.ok) return validation;
+  // The eraser deletes whole objects; painting over shapes in the background color is no longer allowed
+  if (value.type === 'path' && (validation.data as PathData).tool === 'eraser') {
+    return { ok: false, error: 'Invalid path event: eraser paths are not accepted, delete the shapes instead' };
+  }
+  return { ok: true, data: { type: value.type, id: value.id as string | undefined, data: validation.data } };
+}
+
+const isCanvasEvent = (value: unknown): value is CanvasEvent =>
+  isRecord(value) && isString(value.id) && isString(value.user_id) && isCanvasChangeType(value.type) && isFiniteNumber(value.timestamp);
+
+const isRoomParticipant = (value: unknown): value is RoomParticipant =>
+  isRecord(value) && isString(value.clientId) && isString(value.userId) && isString(value.userName)
+    && isString(value.userColor) && isParticipantRole(value.role) && typeof value.idle === 'boolean';
+
+// One structural check per server message type; a new message type won't compile without one
+const SERVER_MESSAGE_CHECKS: { [K in CanvasServerMessage['type']]: (message: Record<string, unknown>) => boolean } = {
+  client_init: m => isString(m.clientId) && isString(m.userId) && isString(m.userColor) && isParticipantRole(m.role) && isFiniteNumber(m.protocolVersion),
+  init_state: m => (m.snapshot === null || isRecord(m.snapshot)) && Array.isArray(m.initialEvents) && m.initialEvents.every(isCanvasEvent) && isFiniteNumber(m.lastSeq),
+  missed_events: m => isFiniteNumber(m.since) && Array.isArray(m.events) && m.events.every(isCanvasEvent) && isFiniteNumber(m.lastSeq),
+  duplicate_event: m => isString(m.id),
+  events: m => Array.isArray(m.events) && m.events.every(isCanvasEvent),
+  cursor_update: m => isString(m.clientId) && isString(m.userColor) && isRecord(m.cursorData) && isFiniteNumber(m.cursorData.x) && isFiniteNumber(m.cursorData.y),
+  role_update: m => isParticipantRole(m.role),
+  presence_snapshot: m => Array.isArray(m.participants) && m.participants.every(isRoomParticipant),
+  presence_join: m => isRoomParticipant(m.participant),
+  presence_update: m => isRoomParticipant(m.participant),
+  presence_leave: m => isString(m.clientId) && isString(m.userId),
+  room_settings: m => isRecord(m.settings) && validateCanvasRoomSettings(m.settings).ok,
+  comment_threads: m => Array.isArray(m.threads) && m.threads.every(isCanvasCommentThread),
+  comment_thread: m => isCanvasCommentThread(m.thread),
+  chat_history: m => (m.before === null || isFiniteNumber(m.before)) && Array.isArray(m.messages) && m.messages.every(isChatMessage) && typeof m.hasMore === 'boolean',
+  chat_message: m => isChatMessage(m.message),
+  chat_deleted: m => isString(m.id),
+  chat_typing: m => isString(m.clientId) && isString(m.userId) && isString(m.userName) && typeof m.typing === 'boolean',
+  error: m => isString(m.code) && isString(m.message),
+};
+
+// Null for unknown message types and malformed messages
+export function parseCanvasServerMessage(value: unknown): CanvasServerMessage | null {
+  if (!isRecord(value) || !isString(value.type) || !Object.prototype.hasOwnProperty.call(SERVER_MESSAGE_CHECKS, value.type)) {
+    return null;
+  }
+  const check = SERVER_MESSAGE_CHECKS[value.type as CanvasServerMessage['type']];
+  return check(value) ? value as unknown as CanvasServerMessage : null;
+}
@@ -0,0 +1,144 @@
+// Room-level canvas settings: stored on canvas_rooms in D1, pushed into the room's Durable Object
+// (which enforces them) and sent to clients in room_settings messages. Shared by the API, the DO and
+// the canvas UI, so keep it free of browser- and Workers-specific APIs and of `~/` imports.
+
+import type { CanvasValidationResult } from './canvas-shapes';
+
+export type CanvasTool = 'select' | 'pen' | 'eraser' | 'rect' | 'ellipse' | 'line' | 'arrow' | 'text' | 'sticky' | 'image';
+
+export const CANVAS_TOOLS: ReadonlyArray<CanvasTool> = ['select', 'pen', 'eraser', 'rect', 'ellipse', 'line', 'arrow', 'text', 'sticky', 'image'];
+
+export type CanvasBackgroundPattern = 'none' | 'dots' | 'grid' | 'lines';
+
+export const CANVAS_BACKGROUND_PATTERNS: ReadonlyArray<CanvasBackgroundPattern> = ['none', 'dots', 'grid', 'lines'];
+
+export interface CanvasRoomSettings {
+  background_color: string | null; // #rrggbb; null keeps the app's default background
+  background_pattern: CanvasBackgroundPattern;
+  snap_to_grid: boolean;
+  grid_size: number; // World units between grid lines, used by the pattern and by snapping
+  is_locked: boolean; // Read-only for everyone, the owner included, until unlocked
+  allowed_tools: CanvasTool[] | null; // null allows every tool
+  user_colors: Record<string, string>; // Color overrides by user id, replacing the assigned color
+}
+
+export const DEFAULT_CANVAS_ROOM_SETTINGS: CanvasRoomSettings = {
+  background_color: null,
+  background_pattern: 'none',
+  snap_to_grid: false,
+  grid_size: 20,
+  is_locked: false,
+  allowed_tools: null,
+  user_colors: {},
+};
+
+export const CANVAS_GRID_SIZE_LIMITS = { min: 5, max: 200 };
+const MAX_USER_COLORS = 200;
+
+const HEX_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+export const isHexColor = (value: unknown): value is string => typeof value === 'string' && HEX_COLOR_PATTERN.test(value);
+
+const isCanvasTool = (value: unknown): value is CanvasTool =>
+  typeof value === 'string' && (CANVAS_TOOLS as ReadonlyArray<string>).includes(value);
+
+const fail = (error: string): CanvasValidationResult<never> => ({ ok: false, error });
+
+/**
+ * Validates a partial settings update, e.g. the body of a settings request. Only known keys are
+ * kept, so the result can be written to D1 as-is.
+ */
+export function validateCanvasRoomSettings(input: unknown): CanvasValidationResult<Partial<CanvasRoomSettings>> {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) return fail('Settings must be an object');
+  const value = input as Record<string, unknown>;
+  const settings: Partial<CanvasRoomSettings> = {};
+
+  if (value.background_color !== undefined) {
+    if (value.background_color !== null && !isHexColor(value.background_color)) return fail('background_color must be a #rrggbb color or null');
+    settings.background_color = value.background_color;
+  }
+  if (value.background_pattern !== undefined) {
+    if (!CANVAS_BACKGROUND_PATTERNS.includes(value.background_pattern as CanvasBackgroundPattern)) {
+      return fail(`background_pattern must be one of ${CANVAS_BACKGROUND_PATTERNS.join(', ')}`);
+    }
+    settings.background_pattern = value.background_pattern as CanvasBackgroundPattern;
+  }
+  if (value.snap_to_grid !== undefined) {
+    if (typeof value.snap_to_grid !== 'boolean') return fail('snap_to_grid must be a boolean');
+    settings.snap_to_grid = value.snap_to_grid;
+  }
+  if (value.grid_size !== undefined) {
+    const size = value.grid_size;
+    if (typeof size !== 'number' || !Number.isInteger(size) || size < CANVAS_GRID_SIZE_LIMITS.min || size > CANVAS_GRID_SIZE_LIMITS.max) {
+      return fail(`grid_size must be an integer from ${CANVAS_GRID_SIZE_LIMITS.min} to ${CANVAS_GRID_SIZE_LIMITS.max}`);
+    }
+    settings.grid_size = size;
+  }
+  if (value.is_locked !== undefined) {
+    if (typeof value.is_locked !== 'boolean') return fail('is_locked must be a boolean');
+    settings.is_locked = value.is_locked;
+  }
+  if (value.allowed_tools !== undefined) {
+    const tools = value.allowed_tools;
+    if (tools !== null && !(Array.isArray(tools) && tools.length > 0 && tools.every(isCanvasTool))) {
+      return fail(`allowed_tools must be null or a non-empty list of ${CANVAS_TOOLS.join(', ')}`);
+    }
+    // Kept in toolbar order without duplicates
+    settings.allowed_tools = tools === null ? null : CANVAS_TOOLS.filter(tool => tools.includes(tool));
+  }
+  if (value.user_colors !== undefined) {
+    const colors = value.user_colors;
+    if (typeof colors !== 'object' || colors === null || Array.isArray(colors)) return fail('user_colors must be an object');
+    const entries = Object.entries(colors);
+    if (entries.length > MAX_USER_COLORS) return fail(`user_colors may have at most ${MAX_USER_COLORS} entries`);
+    if (!entries.every(([userId, color]) => userId.length > 0 && isHexColor(color))) {
+      return fail('user_colors must map user ids to #rrggbb colors');
+    }
+    settings.user_colors = Object.fromEntries(entries) as Record<string, string>;
+  }
+  return { ok: true, data: settings };
+}
+
+// Settings of a canvas_rooms row; unset (null) columns fall back to the defaults
+export const pickCanvasRoomSettings = (room: { [K in keyof CanvasRoomSettings]?: CanvasRoomSettings[K] | null }): CanvasRoomSettings => ({
+  background_color: room.background_color ?? DEFAULT_CANVAS_ROOM_SETTINGS.background_color,
+  background_pattern: room.background_pattern ?? DEFAULT_CANVAS_ROOM_SETTINGS.background_pattern,
+  snap_to_grid: room.snap_to_grid ?? DEFAULT_CANVAS_ROOM_SETTINGS.snap_to_grid,
+  grid_size: room.grid_size ?? DEFAULT_CANVAS_ROOM_SETTINGS.grid_size,
+  is_locked: room.is_locked ?? DEFAULT_CANVAS_ROOM_SETTINGS.is_locked,
+  allowed_tools: room.allowed_tools ?? DEFAULT_CANVAS_ROOM_SETTINGS.allowed_tools,
+  user_colors: room.user_colors ?? DEFAULT_CANVAS_ROOM_SETTINGS.user_colors,
+});
+
+export const isToolAllowed = (settings: CanvasRoomSettings, tool: CanvasTool) =>
+  settings.allowed_tools === null || settings.allowed_tools.includes(tool);
+
+/**
+ * Whether the allowed tools permit a change of the given type: shapes need their tool, moving and
+ * resizing needs select, and deleting needs select or the eraser. Undo, redo and clear aren't tools.
+ */
+export function isChangeAllowedByTools(settings: CanvasRoomSettings, type: string): boolean {
+  switch (type) {
+    case 'path':
+      return isToolAllowed(settings, 'pen'); // Clients can't send eraser paths any more
+    case 'rect':
+    case 'ellipse':
+    case 'line':
+    case 'arrow':
+    case 'text':
+    case 'sticky':
+    case 'image':
+      return isToolAllowed(settings, type);
+    case 'transform':
+      return isToolAllowed(settings, 'select');
+    case 'delete':
+      return isToolAllowed(settings, 'select') || isToolAllowed(settings, 'eraser');
+    default:
+      return true;
+  }
+}
+
+// Rounds a point to the nearest grid intersection when snapping is on
+export const snapToGrid = <P extends { x: number; y: number }>(settings: CanvasRoomSettings, point: P): P =>
+  settings.snap_to_grid
+    ? { ...point, x: Math.round(point.x / settings.grid_size) * settings.grid_size, y: Math.round(point.y / settings.grid_size) * settings.grid_size }
+    : point;
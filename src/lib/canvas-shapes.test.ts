@@ -0,0 +1,50 @@
+// @vitest-environment node
+// canvas-shapes is shared with the Workers side and needs no DOM
+import { describe, expect, it } from 'vitest';
+import { CANVAS_LIMITS, transformShapeData, validateCanvasEventData, type TransformData } from './canvas-shapes';
+
+const shapes: Array<{ type: string; data: unknown }> = [
+  { type: 'path', data: { points: [{ x: 0, y: 0 }, { x: 50, y: -20, p: 0.5 }], strokeColor: '#000000', lineWidth: 2, tool: 'pen' } },
+  { type: 'rect', data: { x: 10, y: 10, width: 100, height: 50, strokeColor: '#000000', fillColor: null, strokeWidth: 2 } },
+  { type: 'line', data: { x1: -5, y1: 0, x2: 40, y2: 80, strokeColor: '#000000', strokeWidth: 2 } },
+  { type: 'text', data: { x: 0, y: 0, text: 'Hello', fontSize: 16, color: '#000000' } },
+  { type: 'sticky', data: { x: 0, y: 0, width: 200, height: 200, text: 'Note', color: '#fef08a', fontSize: 16 } },
+];
+
+const transform = (overrides: Partial<Omit<TransformData, 'ids'>>): Omit<TransformData, 'ids'> =>
+  ({ dx: 0, dy: 0, scaleX: 1, scaleY: 1, originX: 0, originY: 0, ...overrides });
+
+// Applies the transform over and over, as a user repeating it (or redoing it) would
+const applyRepeatedly = (type: string, data: unknown, step: Omit<TransformData, 'ids'>, times = 10) => {
+  let result = data;
+  for (let i = 0; i < times; i++) result = transformShapeData(type, result, step);
+  return result;
+};
+
+// Stored shapes go through JSON, which turns Infinity and NaN into null
+const expectValid = (type: string, data: unknown) => {
+  const validation = validateCanvasEventData(type, JSON.parse(JSON.stringify(data)));
+  expect(validation, `${type} ${JSON.stringify(data)}`).toEqual({ ok: true, data });
+};
+
+describe('transformShapeData', () => {
+  it('moves and scales shapes around the origin', () => {
+    expect(transformShapeData('rect', shapes[1].data, transform({ dx: 5, scaleX: 2, scaleY: -1, originX: 10, originY: 10 })))
+      .toMatchObject({ x: 15, y: -40, width: 200, height: 50 });
+  });
+
+  it('keeps shapes valid when repeated scaling would overflow the canvas', () => {
+    for (const { type, data } of shapes) {
+      expectValid(type, applyRepeatedly(type, data, transform({ scaleX: CANVAS_LIMITS.maxScale, scaleY: -CANVAS_LIMITS.maxScale, originX: -500, originY: 300 })));
+    }
+  });
+
+  it('keeps shapes valid when repeated moves would leave the canvas', () => {
+    for (const { type, data } of shapes) {
+      const moved = applyRepeatedly(type, data, transform({ dx: CANVAS_LIMITS.maxCoordinate, dy: -CANVAS_LIMITS.maxCoordinate }));
+      expectValid(type, moved);
+    }
+    expect(applyRepeatedly('rect', shapes[1].data, transform({ dx: CANVAS_LIMITS.maxCoordinate })))
+      .toMatchObject({ x: CANVAS_LIMITS.maxCoordinate, width: 0 });
+  });
+});
@@ -0,0 +1,483 @@
+// Typed payloads for canvas drawing events and their validation.
+// Shared by the CanvasRoom Durable Object (validates before persisting/broadcasting) and the
+// canvas UI (builds and renders the payloads), so keep it free of `~/` imports.
+
+import { isCanvasAssetId } from './canvas-assets';
+
+export interface CanvasPoint {
+  x: number;
+  y: number;
+}
+
+// Path points may carry stylus pressure (0-1); points without it are drawn at the full lineWidth
+export interface PathPoint extends CanvasPoint {
+  p?: number;
+}
+
+export interface PathData {
+  points: PathPoint[];
+  strokeColor: string;
+  lineWidth: number;
+  tool: 'pen' | 'eraser';
+}
+
+// Rectangles and ellipses are described by their bounding box
+export interface BoxShapeData {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  strokeColor: string;
+  fillColor: string | null; // null means no fill
+  strokeWidth: number;
+}
+
+export interface LineShapeData {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  strokeColor: string;
+  strokeWidth: number;
+}
+
+export interface TextData {
+  x: number;
+  y: number; // Top-left corner of the text box
+  text: string;
+  fontSize: number;
+  color: string;
+}
+
+// A filled note with text inside, clipped to the note
+export interface StickyNoteData {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  text: string; // May be empty
+  color: string; // Background of the note
+  fontSize: number;
+}
+
+// An uploaded image, drawn stretched to the box; the blob is fetched by asset id (see canvas-assets.ts)
+export interface ImageShapeData {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  assetId: string;
+}
+
+export interface DeleteData {
+  ids: string[];
+}
+
+// Moves and/or scales shapes: each point p becomes origin + (p - origin) * scale + (dx, dy)
+export interface TransformData {
+  ids: string[];
+  dx: number;
+  dy: number;
+  scaleX: number;
+  scaleY: number;
+  originX: number;
+  originY: number;
+}
+
+export interface CanvasShapePayloads {
+  path: PathData;
+  rect: BoxShapeData;
+  ellipse: BoxShapeData;
+  line: LineShapeData;
+  arrow: LineShapeData;
+  text: TextData;
+  sticky: StickyNoteData;
+  image: ImageShapeData;
+}
+
+export type CanvasShapeType = keyof CanvasShapePayloads;
+
+export const CANVAS_SHAPE_TYPES: ReadonlyArray<CanvasShapeType> = ['path', 'rect', 'ellipse', 'line', 'arrow', 'text', 'sticky', 'image'];
+
+export const isCanvasShapeType = (type: string): type is CanvasShapeType =>
+  (CANVAS_SHAPE_TYPES as ReadonlyArray<string>).includes(type);
+
+// Limits enforced on incoming payloads
+export const CANVAS_LIMITS = {
+  maxCoordinate: 1_000_000,
+  maxPathPoints: 10_000,
+  minStrokeWidth: 0.5,
+  maxStrokeWidth: 200,
+  minFontSize: 8,
+  maxFontSize: 200,
+  maxTextLength: 2_000,
+  maxDeleteIds: 1_000,
+  minScale: 0.01,
+  maxScale: 100,
+};
+
+export const TEXT_LINE_HEIGHT = 1.2; // Multiple of fontSize between text lines
+export const STICKY_NOTE_PADDING = 0.6; // Multiple of fontSize between a sticky note's edge and its text
+export const STICKY_NOTE_TEXT_COLOR = '#1f2937';
+const ARROW_HEAD_LENGTH = 14;
+
+// Pressure maps linearly onto this range of multiples of lineWidth, so 0.5 (the Pointer Events
+// default) draws at the nominal width
+const MIN_PRESSURE_WIDTH = 0.2;
+const MAX_PRESSURE_WIDTH = 1.8;
+
+/**
+ * Stroke width at a path point. Renderers on every client use this so pressure-sensitive
+ * strokes replay identically.
+ */
+export const pathPointWidth = (lineWidth: number, point: PathPoint): number =>
+  point.p === undefined ? lineWidth : lineWidth * (MIN_PRESSURE_WIDTH + (MAX_PRESSURE_WIDTH - MIN_PRESSURE_WIDTH) * point.p);
+
+// Ends of the two strokes forming an arrow head at (x2, y2); they scale with the stroke width
+export const getArrowHeadPoints = (data: LineShapeData): [CanvasPoint, CanvasPoint] => {
+  const angle = Math.atan2(data.y2 - data.y1, data.x2 - data.x1);
+  const headLength = ARROW_HEAD_LENGTH + data.strokeWidth * 2;
+  return [
+    { x: data.x2 - headLength * Math.cos(angle - Math.PI / 6), y: data.y2 - headLength * Math.sin(angle - Math.PI / 6) },
+    { x: data.x2 - headLength * Math.cos(angle + Math.PI / 6), y: data.y2 - headLength * Math.sin(angle + Math.PI / 6) },
+  ];
+};
+
+// Widest a path can be drawn, for bounds and hit-testing
+const maxPathWidth = (data: PathData) =>
+  data.points.some(point => point.p !== undefined) ? data.lineWidth * MAX_PRESSURE_WIDTH : data.lineWidth;
+
+const COLOR_PATTERN = /^#(?:[0-9a-f]{3}|[0-9a-f]{4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
+export type CanvasValidationResult<T> = { ok: true; data: T } | { ok: false; error: string };
+
+class CanvasValidationError extends Error {}
+
+const fail = (message: string): never => {
+  throw new CanvasValidationError(message);
+};
+
+const asObject = (value: unknown, what: string): Record<string, unknown> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : fail(`${what} must be an object`);
+
+const asCoordinate = (value: unknown, field: string): number =>
+  typeof value === 'number' && Number.isFinite(value) && Math.abs(value) <= CANVAS_LIMITS.maxCoordinate
+    ? value
+    : fail(`${field} must be a finite number within ±${CANVAS_LIMITS.maxCoordinate}`);
+
+const asSize = (value: unknown, field: string): number => {
+  const size = asCoordinate(value, field);
+  return size >= 0 ? size : fail(`${field} must not be negative`);
+};
+
+const asInRange = (value: unknown, field: string, min: number, max: number): number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max
+    ? value
+    : fail(`${field} must be a number between ${min} and ${max}`);
+
+const asColor = (value: unknown, field: string): string =>
+  typeof value === 'string' && COLOR_PATTERN.test(value) ? value : fail(`${field} must be a hex color`);
+
+const asPoint = (value: unknown, field: string): CanvasPoint => {
+  const point = asObject(value, field);
+  return { x: asCoordinate(point.x, `${field}.x`), y: asCoordinate(point.y, `${field}.y`) };
+};
+
+const asPathPoint = (value: unknown, field: string): PathPoint => {
+  const point = asPoint(value, field);
+  const pressure = (value as Record<string, unknown>).p;
+  return pressure === undefined || pressure === null ? point : { ...point, p: asInRange(pressure, `${field}.p`, 0, 1) };
+};
+
+const parseBox = (data: Record<string, unknown>): BoxShapeData => ({
+  x: asCoordinate(data.x, 'x'),
+  y: asCoordinate(data.y, 'y'),
+  width: asSize(data.width, 'width'),
+  height: asSize(data.height, 'height'),
+  strokeColor: asColor(data.strokeColor, 'strokeColor'),
+  fillColor: data.fillColor === null || data.fillColor === undefined ? null : asColor(data.fillColor, 'fillColor'),
+  strokeWidth: asInRange(data.strokeWidth, 'strokeWidth', CANVAS_LIMITS.minStrokeWidth, CANVAS_LIMITS.maxStrokeWidth),
+});
+
+const parseLine = (data: Record<string, unknown>): LineShapeData => ({
+  x1: asCoordinate(data.x1, 'x1'),
+  y1: asCoordinate(data.y1, 'y1'),
+  x2: asCoordinate(data.x2, 'x2'),
+  y2: asCoordinate(data.y2, 'y2'),
+  strokeColor: asColor(data.strokeColor, 'strokeColor'),
+  strokeWidth: asInRange(data.strokeWidth, 'strokeWidth', CANVAS_LIMITS.minStrokeWidth, CANVAS_LIMITS.maxStrokeWidth),
+});
+
+const shapeParsers: { [K in CanvasShapeType]: (data: Record<string, unknown>) => CanvasShapePayloads[K] } = {
+  path: (data) => {
+    if (!Array.isArray(data.points) || data.points.length < 2 || data.points.length > CANVAS_LIMITS.maxPathPoints) {
+      fail(`points must be an array of 2 to ${CANVAS_LIMITS.maxPathPoints} points`);
+    }
+    return {
+      points: (data.points as unknown[]).map((point, i) => asPathPoint(point, `points[${i}]`)),
+      strokeColor: asColor(data.strokeColor, 'strokeColor'),
+      lineWidth: asInRange(data.lineWidth, 'lineWidth', CANVAS_LIMITS.minStrokeWidth, CANVAS_LIMITS.maxStrokeWidth),
+      // Background-colored eraser paths survive in older history and exports; clients can no longer send them
+      tool: data.tool === 'eraser' ? 'eraser' : 'pen',
+    };
+  },
+  rect: parseBox,
+  ellipse: parseBox,
+  line: parseLine,
+  arrow: parseLine,
+  text: (data) => {
+    if (typeof data.text !== 'string' || data.text.trim() === '' || data.text.length > CANVAS_LIMITS.maxTextLength) {
+      fail(`text must be a non-empty string of at most ${CANVAS_LIMITS.maxTextLength} characters`);
+    }
+    return {
+      x: asCoordinate(data.x, 'x'),
+      y: asCoordinate(data.y, 'y'),
+      text: data.text as string,
+      fontSize: asInRange(data.fontSize, 'fontSize', CANVAS_LIMITS.minFontSize, CANVAS_LIMITS.maxFontSize),
+      color: asColor(data.color, 'color'),
+    };
+  },
+  sticky: (data) => {
+    if (typeof data.text !== 'string' || data.text.length > CANVAS_LIMITS.maxTextLength) {
+      fail(`text must be a string of at most ${CANVAS_LIMITS.maxTextLength} characters`);
+    }
+    return {
+      x: asCoordinate(data.x, 'x'),
+      y: asCoordinate(data.y, 'y'),
+      width: asSize(data.width, 'width'),
+      height: asSize(data.height, 'height'),
+      text: data.text as string,
+      color: asColor(data.color, 'color'),
+      fontSize: asInRange(data.fontSize, 'fontSize', CANVAS_LIMITS.minFontSize, CANVAS_LIMITS.maxFontSize),
+    };
+  },
+  image: (data) => ({
+    x: asCoordinate(data.x, 'x'),
+    y: asCoordinate(data.y, 'y'),
+    width: asSize(data.width, 'width'),
+    height: asSize(data.height, 'height'),
+    assetId: isCanvasAssetId(data.assetId) ? data.assetId : fail('assetId must be an uploaded asset id'),
+  }),
+};
+
+const parseDelete = (data: Record<string, unknown>): DeleteData => {
+  const ids = Array.isArray(data.ids) ? data.ids : typeof data.id === 'string' ? [data.id] : fail('ids must be an array of shape ids');
+  if (ids.length === 0 || ids.length > CANVAS_LIMITS.maxDeleteIds) {
+    fail(`ids must contain 1 to ${CANVAS_LIMITS.maxDeleteIds} shape ids`);
+  }
+  return { ids: ids.map((id: unknown) => typeof id === 'string' && id.length <= 64 ? id : fail('ids must be strings')) };
+};
+
+const asScale = (value: unknown, field: string): number => {
+  if (value === undefined) return 1;
+  const scale = typeof value === 'number' && Number.isFinite(value) ? Math.abs(value) : NaN;
+  return scale >= CANVAS_LIMITS.minScale && scale <= CANVAS_LIMITS.maxScale
+    ? value as number
+    : fail(`${field} must be a number whose magnitude is between ${CANVAS_LIMITS.minScale} and ${CANVAS_LIMITS.maxScale}`);
+};
+
+const parseTransform = (data: Record<string, unknown>): TransformData => ({
+  ids: parseDelete(data).ids,
+  dx: data.dx === undefined ? 0 : asCoordinate(data.dx, 'dx'),
+  dy: data.dy === undefined ? 0 : asCoordinate(data.dy, 'dy'),
+  scaleX: asScale(data.scaleX, 'scaleX'),
+  scaleY: asScale(data.scaleY, 'scaleY'),
+  originX: data.originX === undefined ? 0 : asCoordinate(data.originX, 'originX'),
+  originY: data.originY === undefined ? 0 : asCoordinate(data.originY, 'originY'),
+});
+
+/**
+ * Validates the payload of a drawing event and returns a normalized copy containing only
+ * known fields. Events without a payload of their own (clear, undo, redo) normalize to null.
+ */
+export function validateCanvasEventData(type: string, data: unknown): CanvasValidationResult<unknown> {
+  try {
+    if (isCanvasShapeType(type)) {
+      return { ok: true, data: shapeParsers[type](asObject(data, `${type} data`)) };
+    }
+    switch (type) {
+      case 'delete':
+        return { ok: true, data: parseDelete(asObject(data, 'delete data')) };
+      case 'transform':
+        return { ok: true, data: parseTransform(asObject(data, 'transform data')) };
+      case 'clear':
+      case 'undo':
+      case 'redo':
+        return { ok: true, data: null };
+      default:
+        return { ok: false, error: `Unsupported event type: ${type}` };
+    }
+  } catch (error) {
+    if (error instanceof CanvasValidationError) {
+      return { ok: false, error: `Invalid ${type} event: ${error.message}` };
+    }
+    throw error;
+  }
+}
+
+// Axis-aligned bounds of a shape, used for hit-testing and selection
+export interface CanvasBounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export function getShapeBounds(type: string, data: any): CanvasBounds | null {
+  switch (type) {
+    case 'path': {
+      const points = (data?.points ?? []) as PathPoint[];
+      if (points.length === 0) return null;
+      const pad = maxPathWidth({ ...data, lineWidth: data.lineWidth ?? 0 }) / 2;
+      return {
+        minX: Math.min(...points.map(p => p.x)) - pad,
+        minY: Math.min(...points.map(p => p.y)) - pad,
+        maxX: Math.max(...points.map(p => p.x)) + pad,
+        maxY: Math.max(...points.map(p => p.y)) + pad,
+      };
+    }
+    case 'rect':
+    case 'ellipse':
+    case 'sticky':
+    case 'image':
+      return { minX: data.x, minY: data.y, maxX: data.x + data.width, maxY: data.y + data.height };
+    case 'line':
+    case 'arrow':
+      return {
+        minX: Math.min(data.x1, data.x2),
+        minY: Math.min(data.y1, data.y2),
+        maxX: Math.max(data.x1, data.x2),
+        maxY: Math.max(data.y1, data.y2),
+      };
+    case 'text': {
+      // Approximation without a text-measuring context: ~0.6em per character
+      const lines = String(data.text ?? '').split('\n');
+      const longest = Math.max(...lines.map(line => line.length));
+      return {
+        minX: data.x,
+        minY: data.y,
+        maxX: data.x + longest * data.fontSize * 0.6,
+        maxY: data.y + lines.length * data.fontSize * TEXT_LINE_HEIGHT,
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+export const unionBounds = (bounds: CanvasBounds[]): CanvasBounds | null =>
+  bounds.length === 0 ? null : {
+    minX: Math.min(...bounds.map(b => b.minX)),
+    minY: Math.min(...bounds.map(b => b.minY)),
+    maxX: Math.max(...bounds.map(b => b.maxX)),
+    maxY: Math.max(...bounds.map(b => b.maxY)),
+  };
+
+export const boundsContain = (outer: CanvasBounds, inner: CanvasBounds) =>
+  inner.minX >= outer.minX && inner.maxX <= outer.maxX && inner.minY >= outer.minY && inner.maxY <= outer.maxY;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const clampCoordinate = (value: number) => clamp(value, -CANVAS_LIMITS.maxCoordinate, CANVAS_LIMITS.maxCoordinate);
+const clampSize = (value: number) => Math.min(value, CANVAS_LIMITS.maxCoordinate);
+
+/**
+ * Returns the payload of a shape after applying a transform. Negative scales mirror the
+ * shape; boxes are re-normalized so width/height stay positive. Coordinates and sizes are
+ * clamped to CANVAS_LIMITS, so repeated transforms can't produce shapes that fail validation.
+ */
+export function transformShapeData(type: string, data: any, transform: Omit<TransformData, 'ids'>): any {
+  const mapX = (x: number) => clampCoordinate(transform.originX + (x - transform.originX) * transform.scaleX + transform.dx);
+  const mapY = (y: number) => clampCoordinate(transform.originY + (y - transform.originY) * transform.scaleY + transform.dy);
+
+  switch (type) {
+    case 'path':
+      return { ...data, points: (data.points as PathPoint[]).map(p => ({ ...p, x: mapX(p.x), y: mapY(p.y) })) };
+    case 'rect':
+    case 'ellipse':
+    case 'image': {
+      const x1 = mapX(data.x);
+      const y1 = mapY(data.y);
+      const x2 = mapX(data.x + data.width);
+      const y2 = mapY(data.y + data.height);
+      return { ...data, x: Math.min(x1, x2), y: Math.min(y1, y2), width: clampSize(Math.abs(x2 - x1)), height: clampSize(Math.abs(y2 - y1)) };
+    }
+    case 'sticky': {
+      const x1 = mapX(data.x);
+      const y1 = mapY(data.y);
+      const x2 = mapX(data.x + data.width);
+      const y2 = mapY(data.y + data.height);
+      const fontSize = clamp(data.fontSize * Math.abs(transform.scaleY), CANVAS_LIMITS.minFontSize, CANVAS_LIMITS.maxFontSize);
+      return { ...data, x: Math.min(x1, x2), y: Math.min(y1, y2), width: clampSize(Math.abs(x2 - x1)), height: clampSize(Math.abs(y2 - y1)), fontSize };
+    }
+    case 'line':
+    case 'arrow':
+      return { ...data, x1: mapX(data.x1), y1: mapY(data.y1), x2: mapX(data.x2), y2: mapY(data.y2) };
+    case 'text': {
+      const fontSize = clamp(data.fontSize * Math.abs(transform.scaleY), CANVAS_LIMITS.minFontSize, CANVAS_LIMITS.maxFontSize);
+      // Keep the top-left corner as the anchor even when mirrored
+      const x = transform.scaleX < 0 ? mapX(data.x) - (getShapeBounds(type, { ...data, fontSize })!.maxX - data.x) : mapX(data.x);
+      const y = transform.scaleY < 0 ? mapY(data.y) - (getShapeBounds(type, { ...data, fontSize })!.maxY - data.y) : mapY(data.y);
+      return { ...data, x: clampCoordinate(x), y: clampCoordinate(y), fontSize };
+    }
+    default:
+      return data;
+  }
+}
+
+// Distance from p to the segment a-b
+const distanceToSegment = (p: CanvasPoint, a: CanvasPoint, b: CanvasPoint) => {
+  const lengthSquared = (b.x - a.x) ** 2 + (b.y - a.y) ** 2;
+  const t = lengthSquared === 0 ? 0 : clamp(((p.x - a.x) * (b.x - a.x) + (p.y - a.y) * (b.y - a.y)) / lengthSquared, 0, 1);
+  return Math.hypot(p.x - (a.x + t * (b.x - a.x)), p.y - (a.y + t * (b.y - a.y)));
+};
+
+/**
+ * Whether `point` touches the drawn part of a shape, within `tolerance` px. Unfilled boxes
+ * and ellipses are only hit on their outline so shapes inside them stay reachable.
+ */
+export function hitTestShape(type: string, data: any, point: CanvasPoint, tolerance = 4): boolean {
+  switch (type) {
+    case 'path': {
+      const points = data.points as PathPoint[];
+      const reach = maxPathWidth(data) / 2 + tolerance;
+      for (let i = 1; i < points.length; i++) {
+        if (distanceToSegment(point, points[i - 1], points[i]) <= reach) return true;
+      }
+      return false;
+    }
+    case 'line':
+    case 'arrow':
+      return distanceToSegment(point, { x: data.x1, y: data.y1 }, { x: data.x2, y: data.y2 }) <= data.strokeWidth / 2 + tolerance;
+    case 'rect': {
+      const reach = data.strokeWidth / 2 + tolerance;
+      const inOuter = point.x >= data.x - reach && point.x <= data.x + data.width + reach
+        && point.y >= data.y - reach && point.y <= data.y + data.height + reach;
+      if (!inOuter) return false;
+      if (data.fillColor) return true;
+      const inInner = point.x > data.x + reach && point.x < data.x + data.width - reach
+        && point.y > data.y + reach && point.y < data.y + data.height - reach;
+      return !inInner;
+    }
+    case 'ellipse': {
+      const rx = data.width / 2;
+      const ry = data.height / 2;
+      const reach = data.strokeWidth / 2 + tolerance;
+      if (rx === 0 || ry === 0) {
+        return distanceToSegment(point, { x: data.x, y: data.y }, { x: data.x + data.width, y: data.y + data.height }) <= reach;
+      }
+      const normalized = Math.hypot((point.x - data.x - rx) / rx, (point.y - data.y - ry) / ry);
+      const slack = reach / Math.min(rx, ry);
+      return data.fillColor ? normalized <= 1 + slack : Math.abs(normalized - 1) <= slack;
+    }
+    case 'text':
+    case 'sticky':
+    case 'image': {
+      const bounds = getShapeBounds(type, data);
+      return !!bounds && point.x >= bounds.minX - tolerance && point.x <= bounds.maxX + tolerance
+        && point.y >= bounds.minY - tolerance && point.y <= bounds.maxY + tolerance;
+    }
+    default:
+      return false;
+  }
+}
@@ -0,0 +1,122 @@
+// @vitest-environment node
+// canvas-state is shared with the Workers side and needs no DOM
+import { describe, expect, it } from 'vitest';
+import {
+  createCanvasHistoryState,
+  getRedoTarget,
+  getUndoTarget,
+  MAX_UNDO_DEPTH,
+  replayCanvasEvents,
+  type CanvasHistoryState,
+  type ReplayableCanvasEvent,
+} from './canvas-state';
+
+// Builds a history the way the CanvasRoom DO stores it: undo/redo requests are resolved against
+// the state at the time they arrive, so the stored events carry their targetId
+function historyBuilder() {
+  const events: ReplayableCanvasEvent[] = [];
+  let state = createCanvasHistoryState<ReplayableCanvasEvent>();
+  let clock = 0;
+
+  const push = (userId: string, type: string, data: any) => {
+    const event = { id: `e${events.length}`, user_id: userId, type, data, timestamp: ++clock };
+    events.push(event);
+    state = replayCanvasEvents([event], state);
+    return event.id;
+  };
+
+  return {
+    events,
+    rect: (userId: string, x = 0) =>
+      push(userId, 'rect', { x, y: 0, width: 10, height: 10, strokeColor: '#000000', fillColor: null, strokeWidth: 2 }),
+    remove: (userId: string, ...ids: string[]) => push(userId, 'delete', { ids }),
+    clear: (userId: string) => push(userId, 'clear', {}),
+    move: (userId: string, ids: string[], dx: number) =>
+      push(userId, 'transform', { ids, dx, dy: 0, scaleX: 1, scaleY: 1, originX: 0, originY: 0 }),
+    undo: (userId: string) => push(userId, 'undo', { targetId: getUndoTarget(state, userId) }),
+    redo: (userId: string) => push(userId, 'redo', { targetId: getRedoTarget(state, userId) }),
+  };
+}
+
+// Stored snapshots go through JSON, like the DO's compaction
+const roundTrip = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+// Replaying a snapshot taken after every possible event, plus the tail after it, must match a full replay
+function expectSnapshotReplayMatches(events: ReplayableCanvasEvent[]) {
+  const full = replayCanvasEvents(events);
+  for (let split = 0; split <= events.length; split++) {
+    const snapshot: CanvasHistoryState<ReplayableCanvasEvent> = roundTrip(replayCanvasEvents(events.slice(0, split)));
+    const resumed = replayCanvasEvents(events.slice(split), createCanvasHistoryState(snapshot.shapes, snapshot));
+    expect(roundTrip(resumed), `snapshot after ${split} events`).toEqual(roundTrip(full));
+  }
+  return full;
+}
+
+describe('replayCanvasEvents from a snapshot', () => {
+  it('matches a full replay for shapes and deletes', () => {
+    const history = historyBuilder();
+    const a = history.rect('alice', 0);
+    const b = history.rect('bob', 20);
+    history.rect('alice', 40);
+    history.remove('bob', a, b);
+
+    const full = expectSnapshotReplayMatches(history.events);
+    expect(full.shapes.map(shape => shape.data.x)).toEqual([40]);
+  });
+
+  it('matches a full replay for transforms and their undo', () => {
+    const history = historyBuilder();
+    const a = history.rect('alice', 0);
+    const b = history.rect('alice', 20);
+    history.move('bob', [a, b], 100);
+    history.move('alice', [a], 5);
+    history.undo('bob'); // Reverts bob's move, which came before alice's
+
+    const full = expectSnapshotReplayMatches(history.events);
+    expect(full.shapes.map(shape => shape.data.x)).toEqual([0, 20]);
+  });
+
+  it('matches a full replay when undo and redo cross the snapshot boundary', () => {
+    const history = historyBuilder();
+    const a = history.rect('alice', 0);
+    history.rect('bob', 20);
+    history.remove('alice', a);
+    history.undo('alice'); // Brings a back
+    history.undo('alice'); // Removes a, the shape itself
+    history.rect('bob', 40);
+    history.redo('alice'); // Draws a again
+    history.undo('bob');
+    history.redo('bob');
+
+    const full = expectSnapshotReplayMatches(history.events);
+    expect(full.shapes.map(shape => shape.data.x)).toEqual([0, 20, 40]);
+    expect(full.redoStacks.alice).toEqual(['e2']); // The delete can still be redone
+  });
+
+  it('matches a full replay for a clear and its undo by the owner', () => {
+    const history = historyBuilder();
+    history.rect('alice', 0);
+    history.rect('bob', 20);
+    history.clear('owner');
+    history.rect('alice', 40);
+    history.undo('owner'); // Restores the cleared shapes under the newer one
+    history.undo('alice');
+
+    const full = expectSnapshotReplayMatches(history.events);
+    expect(full.shapes.map(shape => shape.data.x)).toEqual([0, 20]);
+  });
+
+  it('matches a full replay once old actions age out of the undo history', () => {
+    const history = historyBuilder();
+    for (let i = 0; i < MAX_UNDO_DEPTH + 5; i++) history.rect('alice', i);
+    history.undo('alice');
+    history.redo('alice');
+
+    const full = replayCanvasEvents(history.events);
+    expect(full.undoStacks.alice).toHaveLength(MAX_UNDO_DEPTH);
+    const split = MAX_UNDO_DEPTH; // Inside the run of shapes, before the oldest ones age out
+    const snapshot = roundTrip(replayCanvasEvents(history.events.slice(0, split)));
+    const resumed = replayCanvasEvents(history.events.slice(split), createCanvasHistoryState(snapshot.shapes, snapshot));
+    expect(roundTrip(resumed)).toEqual(roundTrip(full));
+  });
+});
@@ -0,0 +1,198 @@
+// Resolves a canvas event history into the set of shapes currently on the canvas.
+// Shared by the CanvasRoom Durable Object (snapshots/compaction, undo resolution) and the canvas UI
+// (rendering), so keep this module free of browser- and Workers-specific APIs and of `~/` imports.
+
+import { isCanvasShapeType, transformShapeData } from './canvas-shapes';
+
+// Minimal event shape needed for replay; both the DO and client CanvasEvent types satisfy it
+export interface ReplayableCanvasEvent {
+  id: string;
+  user_id: string;
+  type: string;
+  data: any;
+  timestamp: number;
+}
+
+// An undoable action (shape, delete, clear or transform) and the shapes it removed from the
+// canvas; for a transform, `removed` holds the shapes as they were before being transformed
+export interface CanvasHistoryAction<E> {
+  event: E;
+  removed: E[];
+}
+
+// Per-user undo/redo stacks of action ids, plus the actions they still reference
+export interface CanvasUndoHistory<E> {
+  undoStacks: Record<string, string[]>;
+  redoStacks: Record<string, string[]>;
+  actions: Record<string, CanvasHistoryAction<E>>;
+}
+
+export interface CanvasHistoryState<E> extends CanvasUndoHistory<E> {
+  shapes: E[];
+}
+
+// How many actions each user can undo; older actions become permanent
+export const MAX_UNDO_DEPTH = 100;
+
+// Events that add a drawable object to the canvas
+export const isShapeEvent = (event: ReplayableCanvasEvent) => isCanvasShapeType(event.type);
+
+export const createCanvasHistoryState = <E extends ReplayableCanvasEvent>(
+  shapes: E[] = [],
+  history?: CanvasUndoHistory<E> | null,
+): CanvasHistoryState<E> => cloneCanvasHistoryState({
+  shapes,
+  undoStacks: history?.undoStacks ?? {},
+  redoStacks: history?.redoStacks ?? {},
+  actions: history?.actions ?? {},
+});
+
+// Copies the containers so applying events never mutates the source state
+export const cloneCanvasHistoryState = <E>(state: CanvasHistoryState<E>): CanvasHistoryState<E> => ({
+  shapes: [...state.shapes],
+  undoStacks: Object.fromEntries(Object.entries(state.undoStacks).map(([userId, ids]) => [userId, [...ids]])),
+  redoStacks: Object.fromEntries(Object.entries(state.redoStacks).map(([userId, ids]) => [userId, [...ids]])),
+  actions: { ...state.actions },
+});
+
+// The action id a user's next undo or redo would target, if any
+export const getUndoTarget = <E>(state: CanvasHistoryState<E>, userId: string): string | null =>
+  state.undoStacks[userId]?.slice(-1)[0] ?? null;
+
+export const getRedoTarget = <E>(state: CanvasHistoryState<E>, userId: string): string | null =>
+  state.redoStacks[userId]?.slice(-1)[0] ?? null;
+
+// Ids targeted by a delete or transform event: { id } or { ids: [...] }
+const getDeletedIds = (data: any): string[] => {
+  if (!data) return [];
+  if (Array.isArray(data.ids)) return data.ids.filter((id: unknown): id is string => typeof id === 'string');
+  if (typeof data.id === 'string') return [data.id];
+  return [];
+};
+
+const isUndone = <E extends ReplayableCanvasEvent>(state: CanvasHistoryState<E>, actionId: string) => {
+  const action = state.actions[actionId];
+  return !!action && !!state.redoStacks[action.event.user_id]?.includes(actionId);
+};
+
+// Puts shapes back in draw order (by timestamp), skipping ones already present or undone
+const restoreShapes = <E extends ReplayableCanvasEvent>(state: CanvasHistoryState<E>, shapes: E[]) => {
+  const presentIds = new Set(state.shapes.map(shape => shape.id));
+  const restored = shapes.filter(shape => !presentIds.has(shape.id) && !isUndone(state, shape.id));
+  if (restored.length === 0) return;
+  const last = state.shapes[state.shapes.length - 1];
+  if (restored.length === 1 && (!last || restored[0].timestamp >= last.timestamp)) {
+    state.shapes.push(restored[0]); // Common case: a new shape drawn on top
+    return;
+  }
+  state.shapes = [...state.shapes, ...restored].sort((a, b) => a.timestamp - b.timestamp);
+};
+
+// Swaps in new versions of shapes that are still on the canvas, keeping their draw order
+const replaceShapes = <E extends ReplayableCanvasEvent>(state: CanvasHistoryState<E>, versions: E[]) => {
+  const versionsById = new Map(versions.map(shape => [shape.id, shape]));
+  state.shapes = state.shapes.map(shape => versionsById.get(shape.id) ?? shape);
+};
+
+// Applies an action's effect and returns the shapes it removed (or replaced)
+const applyAction = <E extends ReplayableCanvasEvent>(state: CanvasHistoryState<E>, event: E): E[] => {
+  if (isShapeEvent(event)) {
+    restoreShapes(state, [event]);
+    return [];
+  }
+  if (event.type === 'transform') {
+    const targetIds = new Set(getDeletedIds(event.data));
+    const previous = state.shapes.filter(shape => targetIds.has(shape.id));
+    replaceShapes(state, previous.map(shape => ({ ...shape, data: transformShapeData(shape.type, shape.data, event.data) })));
+    return previous;
+  }
+  if (event.type === 'clear') {
+    const removed = state.shapes;
+    state.shapes = [];
+    return removed;
+  }
+  const deletedIds = new Set(getDeletedIds(event.data));
+  const removed = state.shapes.filter(shape => deletedIds.has(shape.id));
+  state.shapes = state.shapes.filter(shape => !deletedIds.has(shape.id));
+  return removed;
+};
+
+const revertAction = <E extends ReplayableCanvasEvent>(state: CanvasHistoryState<E>, action: CanvasHistoryAction<E>) => {
+  if (isShapeEvent(action.event)) {
+    state.shapes = state.shapes.filter(shape => shape.id !== action.event.id);
+  } else if (action.event.type === 'transform') {
+    replaceShapes(state, action.removed);
+  } else {
+    restoreShapes(state, action.removed);
+  }
+};
+
+// A new action starts a fresh redo branch for its user
+const recordAction = <E extends ReplayableCanvasEvent>(state: CanvasHistoryState<E>, event: E, removed: E[]) => {
+  const userId = event.user_id;
+  for (const actionId of state.redoStacks[userId] ?? []) {
+    delete state.actions[actionId];
+  }
+  state.redoStacks[userId] = [];
+
+  const undoStack = state.undoStacks[userId] ?? (state.undoStacks[userId] = []);
+  undoStack.push(event.id);
+  state.actions[event.id] = { event, removed };
+  while (undoStack.length > MAX_UNDO_DEPTH) {
+    delete state.actions[undoStack.shift()!];
+  }
+};
+
+// Moves an action id from one of its owner's stacks to the other; false if it was not there
+const moveBetweenStacks = (from: Record<string, string[]>, to: Record<string, string[]>, userId: string, actionId: string) => {
+  const source = from[userId] ?? [];
+  const index = source.lastIndexOf(actionId);
+  if (index === -1) return false;
+  source.splice(index, 1);
+  (to[userId] ?? (to[userId] = [])).push(actionId);
+  return true;
+};
+
+/**
+ * Applies one event to `state` in place. Undo and redo events carry the resolved
+ * `data.targetId`; the action's owner stacks are updated, so every client replaying
+ * the same events converges on the same shapes.
+ */
+export function applyCanvasEvent<E extends ReplayableCanvasEvent>(state: CanvasHistoryState<E>, event: E): void {
+  if (isShapeEvent(event) || event.type === 'clear' || event.type === 'delete' || event.type === 'transform') {
+    recordAction(state, event, applyAction(state, event));
+    return;
+  }
+
+  if (event.type === 'undo' || event.type === 'redo') {
+    const targetId = event.data?.targetId;
+    const action = typeof targetId === 'string' ? state.actions[targetId] : undefined;
+    if (!action) return; // Target has aged out of the history
+
+    const ownerId = action.event.user_id;
+    if (event.type === 'undo') {
+      if (moveBetweenStacks(state.undoStacks, state.redoStacks, ownerId, targetId)) {
+        revertAction(state, action);
+      }
+    } else if (moveBetweenStacks(state.redoStacks, state.undoStacks, ownerId, targetId)) {
+      state.actions[targetId] = { event: action.event, removed: applyAction(state, action.event) };
+    }
+  }
+  // Other event types (cursor) do not change the canvas
+}
+
+/**
+ * Applies events in order on top of `base` (the state of an earlier snapshot) and returns
+ * the resulting state; `shapes` holds the live shapes in draw order. Replaying a snapshot
+ * plus the events after it yields the same result as replaying the full history.
+ */
+export function replayCanvasEvents<E extends ReplayableCanvasEvent>(
+  events: E[],
+  base: CanvasHistoryState<E> = createCanvasHistoryState<E>(),
+): CanvasHistoryState<E> {
+  const state = cloneCanvasHistoryState(base);
+  for (const event of events) {
+    applyCanvasEvent(state, event);
+  }
+  return state;
+}
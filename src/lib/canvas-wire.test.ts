@@ -0,0 +1,151 @@
+// @vitest-environment node
+// canvas-wire is shared with the Workers side and needs no DOM
+import { describe, expect, it } from 'vitest';
+import { CANVAS_LIMITS } from './canvas-shapes';
+import {
+  decodeClientFrame,
+  decodeRelayedFrame,
+  encodeClientFrame,
+  encodeRelayedFrame,
+  MAX_STROKE_FRAME_POINTS,
+  type CursorFrame,
+  type StrokeFrame,
+} from './canvas-wire';
+
+// Values are exactly representable as float32, so round-trips compare equal
+const cursor: CursorFrame = { kind: 'cursor', x: -120.5, y: 4096.25 };
+
+const stroke = (overrides: Partial<StrokeFrame> = {}): StrokeFrame => ({
+  kind: 'stroke',
+  strokeId: 'f47ac10b-58cc-4372-a567-0e02b2c3d479',
+  lineWidth: 4.5,
+  points: [{ x: 0, y: 0 }, { x: 10.5, y: -3.25 }, { x: 999_999, y: -999_999 }],
+  end: false,
+  cancelled: false,
+  ...overrides,
+});
+
+// Copies a frame and lets a test overwrite bytes at an offset
+const patched = (buffer: ArrayBuffer, edit: (view: DataView) => void): ArrayBuffer => {
+  const copy = buffer.slice(0);
+  edit(new DataView(copy));
+  return copy;
+};
+
+// Offsets inside an encoded client stroke frame built by stroke()
+const STROKE_ID_LENGTH = 36;
+const LINE_WIDTH_OFFSET = 1 + 1 + STROKE_ID_LENGTH + 1;
+const COUNT_OFFSET = LINE_WIDTH_OFFSET + 4;
+const FIRST_POINT_OFFSET = COUNT_OFFSET + 2;
+
+describe('client frames', () => {
+  it('round-trips a cursor frame', () => {
+    expect(decodeClientFrame(encodeClientFrame(cursor))).toEqual(cursor);
+  });
+
+  it('round-trips a stroke frame without pressure', () => {
+    const frame = stroke();
+    expect(encodeClientFrame(frame).byteLength).toBe(FIRST_POINT_OFFSET + 3 * 8);
+    expect(decodeClientFrame(encodeClientFrame(frame))).toEqual(frame);
+  });
+
+  it('round-trips a stroke frame with pressure', () => {
+    const frame = stroke({ points: [{ x: 1, y: 2, p: 0 }, { x: 3, y: 4, p: 0.25 }, { x: 5, y: 6, p: 1 }], end: true });
+    expect(encodeClientFrame(frame).byteLength).toBe(FIRST_POINT_OFFSET + 3 * 10);
+    expect(decodeClientFrame(encodeClientFrame(frame))).toEqual(frame);
+  });
+
+  it('gives points without pressure the default once any point has some, and clamps pressure', () => {
+    const frame = stroke({ points: [{ x: 1, y: 2 }, { x: 3, y: 4, p: 1.5 }, { x: 5, y: 6, p: -1 }], cancelled: true });
+    expect(decodeClientFrame(encodeClientFrame(frame))).toEqual({
+      ...frame,
+      points: [{ x: 1, y: 2, p: 0.5 }, { x: 3, y: 4, p: 1 }, { x: 5, y: 6, p: 0 }],
+    });
+  });
+
+  it('refuses to encode invalid strokes', () => {
+    expect(() => encodeClientFrame(stroke({ strokeId: '' }))).toThrow();
+    expect(() => encodeClientFrame(stroke({ strokeId: 'x'.repeat(65) }))).toThrow();
+    expect(() => encodeClientFrame(stroke({ strokeId: 'stroke-é' }))).toThrow();
+    const points = Array.from({ length: MAX_STROKE_FRAME_POINTS + 1 }, (_, i) => ({ x: i, y: i }));
+    expect(() => encodeClientFrame(stroke({ points }))).toThrow();
+  });
+
+  it('rejects truncated frames', () => {
+    expect(decodeClientFrame(new ArrayBuffer(0))).toBeNull();
+    const cursorFrame = encodeClientFrame(cursor);
+    expect(decodeClientFrame(cursorFrame.slice(0, cursorFrame.byteLength - 1))).toBeNull();
+    const strokeFrame = encodeClientFrame(stroke());
+    for (const length of [1, 2, LINE_WIDTH_OFFSET, FIRST_POINT_OFFSET, strokeFrame.byteLength - 1]) {
+      expect(decodeClientFrame(strokeFrame.slice(0, length)), `first ${length} bytes`).toBeNull();
+    }
+  });
+
+  it('rejects frames with trailing bytes', () => {
+    const withTrailing = (buffer: ArrayBuffer) => {
+      const longer = new Uint8Array(buffer.byteLength + 1);
+      longer.set(new Uint8Array(buffer));
+      return longer.buffer;
+    };
+    expect(decodeClientFrame(withTrailing(encodeClientFrame(cursor)))).toBeNull();
+    expect(decodeClientFrame(withTrailing(encodeClientFrame(stroke())))).toBeNull();
+  });
+
+  it('rejects strokes claiming more than MAX_STROKE_FRAME_POINTS points', () => {
+    const count = MAX_STROKE_FRAME_POINTS + 1;
+    const buffer = new ArrayBuffer(FIRST_POINT_OFFSET + count * 8);
+    new Uint8Array(buffer).set(new Uint8Array(encodeClientFrame(stroke())).subarray(0, FIRST_POINT_OFFSET));
+    new DataView(buffer).setUint16(COUNT_OFFSET, count, true);
+    expect(decodeClientFrame(buffer)).toBeNull();
+  });
+
+  it('rejects out-of-range coordinates and line widths', () => {
+    const cursorFrame = encodeClientFrame(cursor);
+    expect(decodeClientFrame(patched(cursorFrame, view => view.setFloat32(1, NaN, true)))).toBeNull();
+    expect(decodeClientFrame(patched(cursorFrame, view => view.setFloat32(5, Infinity, true)))).toBeNull();
+    expect(decodeClientFrame(patched(cursorFrame, view => view.setFloat32(1, CANVAS_LIMITS.maxCoordinate * 2, true)))).toBeNull();
+
+    const strokeFrame = encodeClientFrame(stroke());
+    expect(decodeClientFrame(patched(strokeFrame, view => view.setFloat32(FIRST_POINT_OFFSET + 8, -Infinity, true)))).toBeNull();
+    expect(decodeClientFrame(patched(strokeFrame, view => view.setFloat32(LINE_WIDTH_OFFSET, CANVAS_LIMITS.maxStrokeWidth + 1, true)))).toBeNull();
+    expect(decodeClientFrame(patched(strokeFrame, view => view.setFloat32(LINE_WIDTH_OFFSET, NaN, true)))).toBeNull();
+  });
+
+  it('rejects unknown frame types, relayed frames and JSON sent as binary', () => {
+    expect(decodeClientFrame(patched(encodeClientFrame(cursor), view => view.setUint8(0, 3)))).toBeNull();
+    expect(decodeClientFrame(encodeRelayedFrame({ ...cursor, clientId: 'client-1' }))).toBeNull();
+    expect(decodeClientFrame(new TextEncoder().encode('{"type":"cursor_update"}').buffer)).toBeNull();
+  });
+});
+
+describe('relayed frames', () => {
+  it('round-trips cursor and stroke frames with the sender\'s clientId', () => {
+    const relayedCursor = { ...cursor, clientId: 'client-1' };
+    expect(decodeRelayedFrame(encodeRelayedFrame(relayedCursor))).toEqual(relayedCursor);
+    const relayedStroke = { ...stroke(), clientId: 'client-2' };
+    expect(decodeRelayedFrame(encodeRelayedFrame(relayedStroke))).toEqual(relayedStroke);
+    const withPressure = { ...stroke({ points: [{ x: 1, y: 2, p: 0.25 }], end: true }), clientId: 'client-3' };
+    expect(decodeRelayedFrame(encodeRelayedFrame(withPressure))).toEqual(withPressure);
+  });
+
+  it('refuses to encode an invalid clientId', () => {
+    expect(() => encodeRelayedFrame({ ...cursor, clientId: '' })).toThrow();
+    expect(() => encodeRelayedFrame({ ...cursor, clientId: 'c'.repeat(65) })).toThrow();
+  });
+
+  it('rejects truncated frames, client frames and an empty clientId', () => {
+    const frame = encodeRelayedFrame({ ...stroke(), clientId: 'client-1' });
+    for (const length of [0, 1, 2, 10, frame.byteLength - 1]) {
+      expect(decodeRelayedFrame(frame.slice(0, length)), `first ${length} bytes`).toBeNull();
+    }
+    expect(decodeRelayedFrame(encodeClientFrame(cursor))).toBeNull();
+    expect(decodeRelayedFrame(patched(encodeRelayedFrame({ ...cursor, clientId: 'client-1' }), view => view.setUint8(1, 0)))).toBeNull();
+  });
+
+  it('rejects out-of-range coordinates', () => {
+    const frame = encodeRelayedFrame({ ...cursor, clientId: 'client-1' });
+    const xOffset = 2 + 'client-1'.length;
+    expect(decodeRelayedFrame(patched(frame, view => view.setFloat32(xOffset, NaN, true)))).toBeNull();
+    expect(decodeRelayedFrame(patched(frame, view => view.setFloat32(xOffset + 4, -CANVAS_LIMITS.maxCoordinate * 2, true)))).toBeNull();
+  });
+});
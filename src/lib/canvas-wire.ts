@@ -0,0 +1,180 @@
+// Binary frames for the high-frequency parts of the canvas WebSocket protocol: cursor positions
+// and in-progress stroke points. Everything else (and everything persisted) stays JSON.
+// Shared by the CanvasRoom Durable Object and the canvas UI, so keep it free of browser- and
+// Workers-specific APIs and of `~/` imports.
+//
+// Client -> server frames:  [type u8] [body]
+// Server -> client frames:  [type | RELAYED u8] [clientId length u8] [clientId] [body]
+// Cursor body:              [x f32] [y f32]
+// Stroke body:              [strokeId length u8] [strokeId] [flags u8] [lineWidth f32] [count u16]
+//                           then per point [x f32] [y f32], plus [pressure u16] with FLAG_PRESSURE
+// All numbers are little-endian.
+
+import { CANVAS_LIMITS, type PathPoint } from './canvas-shapes';
+
+// 1: JSON only. 2: binary cursor and live stroke frames.
+// Clients announce the highest version they speak in the `protocol` query parameter and the DO
+// answers with the version it will use in client_init; clients that don't announce one get 1.
+export const CANVAS_PROTOCOL_VERSION = 2;
+
+export const MAX_STROKE_FRAME_POINTS = 500; // Longer batches are split across frames
+const MAX_ID_LENGTH = 64;
+
+const FRAME_CURSOR = 1;
+const FRAME_STROKE = 2;
+const RELAYED = 0x80; // Set on frames the DO forwards, which are prefixed with the sender's clientId
+
+const FLAG_PRESSURE = 1; // Every point carries pressure
+const FLAG_END = 2; // Last frame of the stroke; the finished path follows as a regular event
+const FLAG_CANCELLED = 4; // The stroke was abandoned and will never be stored
+
+const PRESSURE_SCALE = 0xffff;
+
+export interface CursorFrame {
+  kind: 'cursor';
+  x: number;
+  y: number;
+}
+
+// Points appended to a stroke being drawn; strokeId is also the id of the path event it becomes
+export interface StrokeFrame {
+  kind: 'stroke';
+  strokeId: string;
+  lineWidth: number;
+  points: PathPoint[];
+  end: boolean;
+  cancelled: boolean;
+}
+
+export type ClientFrame = CursorFrame | StrokeFrame;
+export type RelayedFrame = ClientFrame & { clientId: string };
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+const isFiniteCoordinate = (value: number) => Number.isFinite(value) && Math.abs(value) <= CANVAS_LIMITS.maxCoordinate;
+
+// Ids are ASCII (UUIDs in practice), so their encoded length is their string length
+const encodeId = (id: string): Uint8Array | null => {
+  const bytes = textEncoder.encode(id);
+  return bytes.length > 0 && bytes.length <= MAX_ID_LENGTH && bytes.length === id.length ? bytes : null;
+};
+
+const bodyLength = (frame: ClientFrame, strokeIdBytes: Uint8Array | null) => {
+  if (frame.kind === 'cursor') return 8;
+  const pointSize = frame.points.some(point => point.p !== undefined) ? 10 : 8;
+  return 1 + strokeIdBytes!.length + 1 + 4 + 2 + frame.points.length * pointSize;
+};
+
+const writeBody = (view: DataView, bytes: Uint8Array, offset: number, frame: ClientFrame, strokeIdBytes: Uint8Array | null) => {
+  if (frame.kind === 'cursor') {
+    view.setFloat32(offset, frame.x, true);
+    view.setFloat32(offset + 4, frame.y, true);
+    return;
+  }
+  const hasPressure = frame.points.some(point => point.p !== undefined);
+  view.setUint8(offset++, strokeIdBytes!.length);
+  bytes.set(strokeIdBytes!, offset);
+  offset += strokeIdBytes!.length;
+  view.setUint8(offset++, (hasPressure ? FLAG_PRESSURE : 0) | (frame.end ? FLAG_END : 0) | (frame.cancelled ? FLAG_CANCELLED : 0));
+  view.setFloat32(offset, frame.lineWidth, true);
+  view.setUint16(offset + 4, frame.points.length, true);
+  offset += 6;
+  for (const point of frame.points) {
+    view.setFloat32(offset, point.x, true);
+    view.setFloat32(offset + 4, point.y, true);
+    offset += 8;
+    if (hasPressure) {
+      view.setUint16(offset, Math.round(Math.min(1, Math.max(0, point.p ?? 0.5)) * PRESSURE_SCALE), true);
+      offset += 2;
+    }
+  }
+};
+
+// Reads a body written by writeBody; null if it is malformed or out of range
+const readBody = (view: DataView, bytes: Uint8Array, offset: number, type: number): ClientFrame | null => {
+  if (type === FRAME_CURSOR) {
+    if (view.byteLength !== offset + 8) return null;
+    const x = view.getFloat32(offset, true);
+    const y = view.getFloat32(offset + 4, true);
+    return isFiniteCoordinate(x) && isFiniteCoordinate(y) ? { kind: 'cursor', x, y } : null;
+  }
+  if (type !== FRAME_STROKE || view.byteLength < offset + 1) return null;
+
+  const idLength = view.getUint8(offset++);
+  if (idLength === 0 || idLength > MAX_ID_LENGTH || view.byteLength < offset + idLength + 7) return null;
+  const strokeId = textDecoder.decode(bytes.subarray(offset, offset + idLength));
+  offset += idLength;
+  const flags = view.getUint8(offset++);
+  const lineWidth = view.getFloat32(offset, true);
+  const count = view.getUint16(offset + 4, true);
+  offset += 6;
+  const pointSize = flags & FLAG_PRESSURE ? 10 : 8;
+  if (count > MAX_STROKE_FRAME_POINTS || view.byteLength !== offset + count * pointSize) return null;
+  if (!(lineWidth >= CANVAS_LIMITS.minStrokeWidth && lineWidth <= CANVAS_LIMITS.maxStrokeWidth)) return null;
+
+  const points: PathPoint[] = [];
+  for (let i = 0; i < count; i++) {
+    const x = view.getFloat32(offset, true);
+    const y = view.getFloat32(offset + 4, true);
+    if (!isFiniteCoordinate(x) || !isFiniteCoordinate(y)) return null;
+    offset += 8;
+    if (flags & FLAG_PRESSURE) {
+      points.push({ x, y, p: Math.round(view.getUint16(offset, true) / PRESSURE_SCALE * 1000) / 1000 });
+      offset += 2;
+    } else {
+      points.push({ x, y });
+    }
+  }
+  return { kind: 'stroke', strokeId, lineWidth, points, end: (flags & FLAG_END) !== 0, cancelled: (flags & FLAG_CANCELLED) !== 0 };
+};
+
+const frameType = (frame: ClientFrame) => frame.kind === 'cursor' ? FRAME_CURSOR : FRAME_STROKE;
+
+// Encodes a frame sent by a client. Throws if a stroke id isn't a short ASCII string or a frame
+// has more than MAX_STROKE_FRAME_POINTS points.
+export function encodeClientFrame(frame: ClientFrame): ArrayBuffer {
+  const strokeIdBytes = frame.kind === 'stroke' ? encodeId(frame.strokeId) : null;
+  if (frame.kind === 'stroke' && (!strokeIdBytes || frame.points.length > MAX_STROKE_FRAME_POINTS)) {
+    throw new Error('Invalid stroke frame');
+  }
+  const buffer = new ArrayBuffer(1 + bodyLength(frame, strokeIdBytes));
+  const view = new DataView(buffer);
+  view.setUint8(0, frameType(frame));
+  writeBody(view, new Uint8Array(buffer), 1, frame, strokeIdBytes);
+  return buffer;
+}
+
+// Null for anything that isn't a well-formed client frame, such as JSON sent as binary
+export function decodeClientFrame(buffer: ArrayBuffer): ClientFrame | null {
+  if (buffer.byteLength < 1) return null;
+  const view = new DataView(buffer);
+  return readBody(view, new Uint8Array(buffer), 1, view.getUint8(0));
+}
+
+// Encodes a client's frame for the other clients in the room
+export function encodeRelayedFrame(frame: RelayedFrame): ArrayBuffer {
+  const clientIdBytes = encodeId(frame.clientId);
+  const strokeIdBytes = frame.kind === 'stroke' ? encodeId(frame.strokeId) : null;
+  if (!clientIdBytes || (frame.kind === 'stroke' && !strokeIdBytes)) throw new Error('Invalid relayed frame');
+  const buffer = new ArrayBuffer(2 + clientIdBytes.length + bodyLength(frame, strokeIdBytes));
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  view.setUint8(0, frameType(frame) | RELAYED);
+  view.setUint8(1, clientIdBytes.length);
+  bytes.set(clientIdBytes, 2);
+  writeBody(view, bytes, 2 + clientIdBytes.length, frame, strokeIdBytes);
+  return buffer;
+}
+
+export function decodeRelayedFrame(buffer: ArrayBuffer): RelayedFrame | null {
+  if (buffer.byteLength < 2) return null;
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const type = view.getUint8(0);
+  const idLength = view.getUint8(1);
+  if (!(type & RELAYED) || idLength === 0 || buffer.byteLength < 2 + idLength) return null;
+  const clientId = textDecoder.decode(bytes.subarray(2, 2 + idLength));
+  const frame = readBody(view, bytes, 2 + idLength, type & ~RELAYED);
+  return frame ? { ...frame, clientId } : null;
+}
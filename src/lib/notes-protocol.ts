@@ -0,0 +1,182 @@
+// Messages of the notes WebSocket protocol, as discriminated unions with runtime validators.
+// Shared by the UserNotesDatabase Durable Object and notesAPI; keep it free of browser- and
+// Workers-specific APIs and of `~/` imports.
+
+// A note as sent over the wire; timestamps are ISO strings
+export interface Note {
+  id: string;
+  text: string;
+  userId: string;
+  created: string;
+  updated: string;
+}
+
+export type NoteOperation = 'create' | 'update' | 'delete';
+
+// Converts a stored note (Date timestamps) to its wire form
+export const serializeNote = (note: { id: string; text: string; userId: string; created: Date; updated: Date }): Note => ({
+  id: note.id,
+  text: note.text,
+  userId: note.userId,
+  created: note.created.toISOString(),
+  updated: note.updated.toISOString(),
+});
+
+// --- Client -> server ---
+// Every client message may carry the client's id so the DO can re-register it after a hibernation
+
+export interface NotesSubscribeMessage {
+  type: 'subscribe';
+  clientId?: string | null;
+}
+
+export interface NotesPingMessage {
+  type: 'ping';
+  clientId?: string | null;
+}
+
+// Asks for the current notes, answered with an update
+export interface NotesRefreshMessage {
+  type: 'refresh';
+  clientId?: string | null;
+}
+
+// Confirms an update, so the DO stops resending it
+export interface NotesAckMessage {
+  type: 'ack';
+  updateId: string;
+  clientId?: string | null;
+}
+
+// Answer to identifyRequest
+export interface NotesIdentifyMessage {
+  type: 'identify';
+  clientId: string;
+}
+
+export type NotesClientMessage =
+  | NotesSubscribeMessage
+  | NotesPingMessage
+  | NotesRefreshMessage
+  | NotesAckMessage
+  | NotesIdentifyMessage;
+
+// --- Server -> client ---
+
+// First message on a connection; the id is reused when reconnecting
+export interface NotesConnectedMessage {
+  type: 'connected';
+  clientId: string;
+}
+
+export interface NotesInitialSyncMessage {
+  type: 'initialSync';
+  notes: Note[];
+  timestamp: number;
+}
+
+// All notes after a change (or on request). Broadcast updates carry an updateId to acknowledge
+// and are resent with isRetry until they are.
+export interface NotesUpdateMessage {
+  type: 'update' | 'subscribed';
+  notes: Note[];
+  updateId?: string;
+  timestamp?: number;
+  isRetry?: boolean;
+  attempt?: number;
+  operation?: NoteOperation;
+  affectedNoteId?: string | null;
+}
+
+export interface NotesIdentityRecoveredMessage {
+  type: 'identityRecovered';
+  clientId: string;
+}
+
+// The DO lost track of the connection's client id (e.g. after hibernating) and asks for it
+export interface NotesIdentifyRequestMessage {
+  type: 'identifyRequest';
+  message: string;
+}
+
+export interface NotesPongMessage {
+  type: 'pong';
+}
+
+export interface NotesHealthcheckMessage {
+  type: 'healthcheck';
+}
+
+export interface NotesErrorMessage {
+  type: 'error';
+  message: string;
+}
+
+export type NotesServerMessage =
+  | NotesConnectedMessage
+  | NotesInitialSyncMessage
+  | NotesUpdateMessage
+  | NotesIdentityRecoveredMessage
+  | NotesIdentifyRequestMessage
+  | NotesPongMessage
+  | NotesHealthcheckMessage
+  | NotesErrorMessage;
+
+// --- Validators ---
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isOptional = <T>(value: unknown, check: (value: unknown) => value is T) => value === undefined || check(value);
+const isOptionalClientId = (value: unknown) => value === undefined || value === null || isString(value);
+
+const isNote = (value: unknown): value is Note =>
+  isRecord(value) && isString(value.id) && isString(value.text) && isString(value.userId)
+    && isString(value.created) && isString(value.updated);
+
+const isNoteOperation = (value: unknown): value is NoteOperation =>
+  value === 'create' || value === 'update' || value === 'delete';
+
+const isNumber = (value: unknown): value is number => typeof value === 'number';
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+
+const CLIENT_MESSAGE_CHECKS: { [K in NotesClientMessage['type']]: (message: Record<string, unknown>) => boolean } = {
+  subscribe: m => isOptionalClientId(m.clientId),
+  ping: m => isOptionalClientId(m.clientId),
+  refresh: m => isOptionalClientId(m.clientId),
+  ack: m => isString(m.updateId) && isOptionalClientId(m.clientId),
+  identify: m => isString(m.clientId),
+};
+
+const isUpdate = (m: Record<string, unknown>) =>
+  Array.isArray(m.notes) && m.notes.every(isNote)
+    && isOptional(m.updateId, isString) && isOptional(m.timestamp, isNumber)
+    && isOptional(m.isRetry, isBoolean) && isOptional(m.attempt, isNumber)
+    && isOptional(m.operation, isNoteOperation) && (m.affectedNoteId === undefined || m.affectedNoteId === null || isString(m.affectedNoteId));
+
+const SERVER_MESSAGE_CHECKS: { [K in NotesServerMessage['type']]: (message: Record<string, unknown>) => boolean } = {
+  connected: m => isString(m.clientId),
+  initialSync: m => Array.isArray(m.notes) && m.notes.every(isNote) && isNumber(m.timestamp),
+  update: isUpdate,
+  subscribed: isUpdate,
+  identityRecovered: m => isString(m.clientId),
+  identifyRequest: m => isString(m.message),
+  pong: () => true,
+  healthcheck: () => true,
+  error: m => isString(m.message),
+};
+
+const parseWith = <M extends { type: string }>(
+  checks: Record<M['type'], (message: Record<string, unknown>) => boolean>,
+  value: unknown,
+): M | null => {
+  if (!isRecord(value) || !isString(value.type) || !Object.prototype.hasOwnProperty.call(checks, value.type)) return null;
+  return checks[value.type as M['type']](value) ? value as unknown as M : null;
+};
+
+// Null for unknown message types and malformed messages
+export const parseNotesClientMessage = (value: unknown): NotesClientMessage | null =>
+  parseWith<NotesClientMessage>(CLIENT_MESSAGE_CHECKS, value);
+
+export const parseNotesServerMessage = (value: unknown): NotesServerMessage | null =>
+  parseWith<NotesServerMessage>(SERVER_MESSAGE_CHECKS, value);
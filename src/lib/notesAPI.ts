@@ -1,3 +1,10 @@
+import {
+  parseNotesServerMessage,
+  type Note,
+  type NotesClientMessage,
+  type NotesServerMessage,
+} from './notes-protocol';
+
 // Helper function to get the API URL
 export function getApiUrl(): string {
   if (typeof window === 'undefined') return '';
@@ -28,13 +35,7 @@ export function getWsUrl(): string {
   }
 }
 
-export interface Note {
-  id: string;
-  text: string;
-  userId: string;
-  created: string;
-  updated: string;
-}
+export type { Note } from './notes-protocol';
 
 type NotesUpdateCallback = (notes: Note[]) => void;
 
@@ -55,7 +56,7 @@ class NotesAPI {
   private _pendingRefresh: Promise<Note[]> | null = null;
   private _lastRefreshTime: number = 0;
   private _refreshDebounceTimeout: number | null = null;
-  private _webSocketMessageQueue: any[] = [];
+  private _webSocketMessageQueue: NotesServerMessage[] = [];
   private _messageFlushTimeout: number | null = null;
   
   // Store clientId in localStorage for persistence across page refreshes
@@ -96,15 +97,20 @@ class NotesAPI {
     }
   }
   
+  // Callers check that the socket is open
+  private sendMessage(message: NotesClientMessage) {
+    this.socket?.send(JSON.stringify(message));
+  }
+  
   // Keep the connection alive with ping/pong
   private startHeartbeat() {
     this.stopHeartbeat(); // Clear any existing interval
     this.pingInterval = window.setInterval(() => {
       if (this.socket?.readyState === WebSocket.OPEN) {
-        this.socket.send(JSON.stringify({ 
+        this.sendMessage({ 
           type: 'ping',
           clientId: this._clientId // Include client ID in heartbeats
-        }));
+        });
       } else {
         this.reconnect();
       }
@@ -192,7 +198,7 @@ class NotesAPI {
   }
   
   // Batch WebSocket messages to prevent flooding
-  private queueWebSocketMessage(message: any) {
+  private queueWebSocketMessage(message: NotesServerMessage) {
     this._webSocketMessageQueue.push(message);
     
     // Clear existing timeout
@@ -213,8 +219,8 @@ class NotesAPI {
     
     // Sort messages by timestamp to ensure proper ordering
     const sortedMessages = this._webSocketMessageQueue.sort((a, b) => {
-      const timestampA = a.timestamp || 0;
-      const timestampB = b.timestamp || 0;
+      const timestampA = ('timestamp' in a && a.timestamp) || 0;
+      const timestampB = ('timestamp' in b && b.timestamp) || 0;
       return timestampA - timestampB;
     });
     
@@ -231,7 +237,11 @@ class NotesAPI {
   // Handle incoming WebSocket messages
   private handleWebSocketMessage(event: MessageEvent) {
     try {
-      const data = JSON.parse(event.data);
+      const data = parseNotesServerMessage(JSON.parse(event.data));
+      if (!data) {
+        console.warn('Ignoring unknown or malformed WebSocket message:', event.data);
+        return;
+      }
       
       console.log("WebSocket message received:", data.type);
       
@@ -249,7 +259,7 @@ class NotesAPI {
   }
   
   // Process individual WebSocket messages
-  private processWebSocketMessage(data: any) {
+  private processWebSocketMessage(data: NotesServerMessage) {
       
       switch (data.type) {
         case 'connected':
@@ -263,10 +273,10 @@ class NotesAPI {
           // Server doesn't recognize us, send our stored clientId
           console.log('Server requested identification');
           if (this._clientId && this.socket?.readyState === WebSocket.OPEN) {
-            this.socket.send(JSON.stringify({
+            this.sendMessage({
               type: 'identify',
               clientId: this._clientId
-            }));
+            });
           } else {
             // Force reconnection if we don't have a client ID
             console.log('No client ID available, forcing reconnection');
@@ -279,10 +289,10 @@ class NotesAPI {
           console.log(`Identity recovered: ${data.clientId}`);
           // Request a refresh to ensure we have the latest data
           if (this.socket?.readyState === WebSocket.OPEN) {
-            this.socket.send(JSON.stringify({ 
+            this.sendMessage({ 
               type: 'refresh',
               clientId: this._clientId 
-            }));
+            });
           }
           break;
           
@@ -383,11 +393,11 @@ class NotesAPI {
                 
                 // Send acknowledgment
                 if (this.socket?.readyState === WebSocket.OPEN) {
-                  this.socket.send(JSON.stringify({
+                  this.sendMessage({
                     type: 'ack',
                     updateId: data.updateId,
                     clientId: this._clientId
-                  }));
+                  });
                 }
               }
             } else {
@@ -403,10 +413,10 @@ class NotesAPI {
         case 'healthcheck':
           // Server is checking if we're alive, respond with a ping
           if (this.socket?.readyState === WebSocket.OPEN) {
-            this.socket.send(JSON.stringify({ 
+            this.sendMessage({ 
               type: 'ping',
               clientId: this._clientId
-            }));
+            });
           }
           break;
           
@@ -549,10 +559,10 @@ class NotesAPI {
       
       if (this.socket?.readyState === WebSocket.OPEN) {
         // Subscribe to notes updates
-        this.socket.send(JSON.stringify({ 
+        this.sendMessage({ 
           type: 'subscribe',
           clientId: this._clientId // Include our client ID in all messages
-        }));
+        });
         // Start heartbeat
         this.startHeartbeat();
         
@@ -619,10 +629,10 @@ class NotesAPI {
   // Request fresh data from the server
   private refreshData() {
     if (this.socket?.readyState === WebSocket.OPEN) {
-      this.socket.send(JSON.stringify({ 
+      this.sendMessage({ 
         type: 'refresh',
         clientId: this._clientId // Include client ID for proper tracking
-      }));
+      });
     }
   }
   
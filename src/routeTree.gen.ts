@@ -16,11 +16,13 @@ import { Route as SignInImport } from './routes/sign-in'
 import { Route as DashboardImport } from './routes/dashboard'
 import { Route as IndexImport } from './routes/index'
 import { Route as DashboardIndexImport } from './routes/dashboard/index'
+import { Route as ShareTokenImport } from './routes/share/$token'
 import { Route as DashboardTasksImport } from './routes/dashboard/tasks'
 import { Route as DashboardNotesImport } from './routes/dashboard/notes'
 import { Route as DashboardAccountImport } from './routes/dashboard/account'
 import { Route as DashboardCanvasIndexImport } from './routes/dashboard/canvas/index'
 import { Route as DashboardCanvasRoomIdImport } from './routes/dashboard/canvas/$roomId'
+import { Route as DashboardCanvasInviteTokenImport } from './routes/dashboard/canvas/invite/$token'
 
 // Create/Update Routes
 
@@ -54,6 +56,12 @@ const DashboardIndexRoute = DashboardIndexImport.update({
   getParentRoute: () => DashboardRoute,
 } as any)
 
+const ShareTokenRoute = ShareTokenImport.update({
+  id: '/share/$token',
+  path: '/share/$token',
+  getParentRoute: () => rootRoute,
+} as any)
+
 const DashboardTasksRoute = DashboardTasksImport.update({
   id: '/tasks',
   path: '/tasks',
@@ -84,6 +92,14 @@ const DashboardCanvasRoomIdRoute = DashboardCanvasRoomIdImport.update({
   getParentRoute: () => DashboardRoute,
 } as any)
 
+const DashboardCanvasInviteTokenRoute = DashboardCanvasInviteTokenImport.update(
+  {
+    id: '/canvas/invite/$token',
+    path: '/canvas/invite/$token',
+    getParentRoute: () => DashboardRoute,
+  } as any,
+)
+
 // Populate the FileRoutesByPath interface
 
 declare module '@tanstack/solid-router' {
@@ -137,6 +153,13 @@ declare module '@tanstack/solid-router' {
       preLoaderRoute: typeof DashboardTasksImport
       parentRoute: typeof DashboardImport
     }
+    '/share/$token': {
+      id: '/share/$token'
+      path: '/share/$token'
+      fullPath: '/share/$token'
+      preLoaderRoute: typeof ShareTokenImport
+      parentRoute: typeof rootRoute
+    }
     '/dashboard/': {
       id: '/dashboard/'
       path: '/'
@@ -158,6 +181,13 @@ declare module '@tanstack/solid-router' {
       preLoaderRoute: typeof DashboardCanvasIndexImport
       parentRoute: typeof DashboardImport
     }
+    '/dashboard/canvas/invite/$token': {
+      id: '/dashboard/canvas/invite/$token'
+      path: '/canvas/invite/$token'
+      fullPath: '/dashboard/canvas/invite/$token'
+      preLoaderRoute: typeof DashboardCanvasInviteTokenImport
+      parentRoute: typeof DashboardImport
+    }
   }
 }
 
@@ -170,6 +200,7 @@ interface DashboardRouteChildren {
   DashboardIndexRoute: typeof DashboardIndexRoute
   DashboardCanvasRoomIdRoute: typeof DashboardCanvasRoomIdRoute
   DashboardCanvasIndexRoute: typeof DashboardCanvasIndexRoute
+  DashboardCanvasInviteTokenRoute: typeof DashboardCanvasInviteTokenRoute
 }
 
 const DashboardRouteChildren: DashboardRouteChildren = {
@@ -179,6 +210,7 @@ const DashboardRouteChildren: DashboardRouteChildren = {
   DashboardIndexRoute: DashboardIndexRoute,
   DashboardCanvasRoomIdRoute: DashboardCanvasRoomIdRoute,
   DashboardCanvasIndexRoute: DashboardCanvasIndexRoute,
+  DashboardCanvasInviteTokenRoute: DashboardCanvasInviteTokenRoute,
 }
 
 const DashboardRouteWithChildren = DashboardRoute._addFileChildren(
@@ -193,9 +225,11 @@ export interface FileRoutesByFullPath {
   '/dashboard/account': typeof DashboardAccountRoute
   '/dashboard/notes': typeof DashboardNotesRoute
   '/dashboard/tasks': typeof DashboardTasksRoute
+  '/share/$token': typeof ShareTokenRoute
   '/dashboard/': typeof DashboardIndexRoute
   '/dashboard/canvas/$roomId': typeof DashboardCanvasRoomIdRoute
   '/dashboard/canvas': typeof DashboardCanvasIndexRoute
+  '/dashboard/canvas/invite/$token': typeof DashboardCanvasInviteTokenRoute
 }
 
 export interface FileRoutesByTo {
@@ -205,9 +239,11 @@ export interface FileRoutesByTo {
   '/dashboard/account': typeof DashboardAccountRoute
   '/dashboard/notes': typeof DashboardNotesRoute
   '/dashboard/tasks': typeof DashboardTasksRoute
+  '/share/$token': typeof ShareTokenRoute
   '/dashboard': typeof DashboardIndexRoute
   '/dashboard/canvas/$roomId': typeof DashboardCanvasRoomIdRoute
   '/dashboard/canvas': typeof DashboardCanvasIndexRoute
+  '/dashboard/canvas/invite/$token': typeof DashboardCanvasInviteTokenRoute
 }
 
 export interface FileRoutesById {
@@ -219,9 +255,11 @@ export interface FileRoutesById {
   '/dashboard/account': typeof DashboardAccountRoute
   '/dashboard/notes': typeof DashboardNotesRoute
   '/dashboard/tasks': typeof DashboardTasksRoute
+  '/share/$token': typeof ShareTokenRoute
   '/dashboard/': typeof DashboardIndexRoute
   '/dashboard/canvas/$roomId': typeof DashboardCanvasRoomIdRoute
   '/dashboard/canvas/': typeof DashboardCanvasIndexRoute
+  '/dashboard/canvas/invite/$token': typeof DashboardCanvasInviteTokenRoute
 }
 
 export interface FileRouteTypes {
@@ -234,9 +272,11 @@ export interface FileRouteTypes {
     | '/dashboard/account'
     | '/dashboard/notes'
     | '/dashboard/tasks'
+    | '/share/$token'
     | '/dashboard/'
     | '/dashboard/canvas/$roomId'
     | '/dashboard/canvas'
+    | '/dashboard/canvas/invite/$token'
   fileRoutesByTo: FileRoutesByTo
   to:
     | '/'
@@ -245,9 +285,11 @@ export interface FileRouteTypes {
     | '/dashboard/account'
     | '/dashboard/notes'
     | '/dashboard/tasks'
+    | '/share/$token'
     | '/dashboard'
     | '/dashboard/canvas/$roomId'
     | '/dashboard/canvas'
+    | '/dashboard/canvas/invite/$token'
   id:
     | '__root__'
     | '/'
@@ -257,9 +299,11 @@ export interface FileRouteTypes {
     | '/dashboard/account'
     | '/dashboard/notes'
     | '/dashboard/tasks'
+    | '/share/$token'
     | '/dashboard/'
     | '/dashboard/canvas/$roomId'
     | '/dashboard/canvas/'
+    | '/dashboard/canvas/invite/$token'
   fileRoutesById: FileRoutesById
 }
 
@@ -268,6 +312,7 @@ export interface RootRouteChildren {
   DashboardRoute: typeof DashboardRouteWithChildren
   SignInRoute: typeof SignInRoute
   SignUpRoute: typeof SignUpRoute
+  ShareTokenRoute: typeof ShareTokenRoute
 }
 
 const rootRouteChildren: RootRouteChildren = {
@@ -275,6 +320,7 @@ const rootRouteChildren: RootRouteChildren = {
   DashboardRoute: DashboardRouteWithChildren,
   SignInRoute: SignInRoute,
   SignUpRoute: SignUpRoute,
+  ShareTokenRoute: ShareTokenRoute,
 }
 
 export const routeTree = rootRoute
@@ -290,7 +336,8 @@ export const routeTree = rootRoute
         "/",
         "/dashboard",
         "/sign-in",
-        "/sign-up"
+        "/sign-up",
+        "/share/$token"
       ]
     },
     "/": {
@@ -304,7 +351,8 @@ export const routeTree = rootRoute
         "/dashboard/tasks",
         "/dashboard/",
         "/dashboard/canvas/$roomId",
-        "/dashboard/canvas/"
+        "/dashboard/canvas/",
+        "/dashboard/canvas/invite/$token"
       ]
     },
     "/sign-in": {
@@ -325,6 +373,9 @@ export const routeTree = rootRoute
       "filePath": "dashboard/tasks.tsx",
       "parent": "/dashboard"
     },
+    "/share/$token": {
+      "filePath": "share/$token.tsx"
+    },
     "/dashboard/": {
       "filePath": "dashboard/index.tsx",
       "parent": "/dashboard"
@@ -336,6 +387,10 @@ export const routeTree = rootRoute
     "/dashboard/canvas/": {
       "filePath": "dashboard/canvas/index.tsx",
       "parent": "/dashboard"
+    },
+    "/dashboard/canvas/invite/$token": {
+      "filePath": "dashboard/canvas/invite/$token.tsx",
+      "parent": "/dashboard"
     }
   }
 }
@@ -1,12 +1,23 @@
-import { createFileRoute } from '@tanstack/solid-router';
-import { createSignal, onMount, onCleanup, Show, For, type Accessor } from 'solid-js';
-import { createQuery } from '@tanstack/solid-query';
+import { createFileRoute, useNavigate } from '@tanstack/solid-router';
+import { createEffect, createSignal, on, onMount, onCleanup, Show, For, type Accessor } from 'solid-js';
+import { createMutation, createQuery, useQueryClient } from '@tanstack/solid-query';
 import { CanvasComponent } from '~/components/Canvas/CanvasComponent';
 import { useCanvasWebSocket } from '~/hooks/useCanvasWebSocket';
 import { Button } from '~/components/ui/button';
 import RoomSettingsModal, { type ClientCanvasRoom } from '~/components/Canvas/RoomSettingsModal';
+import ExportModal from '~/components/Canvas/ExportModal';
+import SaveTemplateModal from '~/components/Canvas/SaveTemplateModal';
+import { PlaybackBar } from '~/components/Canvas/PlaybackBar';
+import { ParticipantBar } from '~/components/Canvas/ParticipantBar';
+import { CommentsSidebar } from '~/components/Canvas/CommentsSidebar';
+import { ChatPanel } from '~/components/Canvas/ChatPanel';
+import type { ClientCanvasParticipant } from '~/components/Canvas/MembersSection';
+import { resolveCommentAnchor, threadMentionsUser, type CommentAnchor } from '~/lib/canvas-comments';
+import type { CanvasPoint } from '~/lib/canvas-shapes';
+import { useCanvasPlayback } from '~/hooks/useCanvasPlayback';
 import { fetchWithAuth } from '~/lib/utils/fetchWithAuth';
 import { getApiUrl } from '~/lib/utils';
+import { GlobalAuth } from '~/lib/AuthProvider';
 
 // Placeholder for the actual canvas drawing component
 // import CanvasComponent from '~/components/Canvas'; 
@@ -60,12 +71,78 @@ const getCanvasRoomDetails = async (roomId: string): Promise<ClientCanvasRoom> =
   return response.json() as Promise<ClientCanvasRoom>; // Assuming response.ok means valid ClientCanvasRoom
 };
 
+// Create a new room from this room's canvas as it was right after event `seq`
+const forkCanvasRoom = async ({ roomId, seq }: { roomId: string; seq: number }): Promise<ClientCanvasRoom> => {
+  const response = await fetchWithAuth(`${getApiUrl()}/api/canvas/rooms/${roomId}/fork`, {
+    method: 'POST',
+    body: JSON.stringify({ seq }),
+  });
+  if (!response.ok) {
+    const errorBody = await response.json().catch(() => ({})) as ApiError;
+    throw new Error(errorBody.message || errorBody.error || `Failed to fork room (status ${response.status})`);
+  }
+  const result = await response.json() as { room: ClientCanvasRoom };
+  return result.room;
+};
+
+// Create a copy of the room with its settings and current drawing, owned by us
+const duplicateCanvasRoom = async (roomId: string): Promise<ClientCanvasRoom> => {
+  const response = await fetchWithAuth(`${getApiUrl()}/api/canvas/rooms/${roomId}/duplicate`, {
+    method: 'POST',
+    body: JSON.stringify({}),
+  });
+  if (!response.ok) {
+    const errorBody = await response.json().catch(() => ({})) as ApiError;
+    throw new Error(errorBody.message || errorBody.error || `Failed to duplicate room (status ${response.status})`);
+  }
+  const result = await response.json() as { room: ClientCanvasRoom };
+  return result.room;
+};
+
+// Room members, for @mentions in comments
+const getCanvasRoomMembers = async (roomId: string): Promise<ClientCanvasParticipant[]> => {
+  const response = await fetchWithAuth(`${getApiUrl()}/api/canvas/rooms/${roomId}/participants`);
+  if (!response.ok) {
+    const errorBody = await response.json().catch(() => ({})) as ApiError;
+    throw new Error(errorBody.message || errorBody.error || `Failed to fetch members (status ${response.status})`);
+  }
+  return response.json() as Promise<ClientCanvasParticipant[]>;
+};
+
+// Upload an image for the canvas; resolves to the asset id image shapes reference
+const uploadCanvasImage = async (roomId: string, file: File): Promise<string> => {
+  const response = await fetchWithAuth(`${getApiUrl()}/api/canvas/rooms/${roomId}/assets?name=${encodeURIComponent(file.name)}`, {
+    method: 'POST',
+    headers: new Headers({ 'Content-Type': file.type }),
+    body: file,
+  });
+  if (!response.ok) {
+    const errorBody = await response.json().catch(() => ({})) as ApiError;
+    throw new Error(errorBody.message || errorBody.error || `Failed to upload image (status ${response.status})`);
+  }
+  const result = await response.json() as { asset: { id: string } };
+  return result.asset.id;
+};
+
+const restoreCanvasRoom = async (roomId: string): Promise<void> => {
+  const response = await fetchWithAuth(`${getApiUrl()}/api/canvas/rooms/${roomId}/restore`, { method: 'POST' });
+  if (!response.ok) {
+    const errorBody = await response.json().catch(() => ({})) as ApiError;
+    throw new Error(errorBody.message || errorBody.error || `Failed to restore room (status ${response.status})`);
+  }
+};
+
 function CanvasRoomPage() {
   const params = Route.useParams(); 
   const roomId = () => params().roomId; // Create an accessor for roomId
   console.log("[RoomIdPage] Rendering/Re-rendering for roomId:", roomId()); // Added log
 
   const [isSettingsModalOpen, setIsSettingsModalOpen] = createSignal(false);
+  const [isExportModalOpen, setIsExportModalOpen] = createSignal(false);
+  const [isSaveTemplateModalOpen, setIsSaveTemplateModalOpen] = createSignal(false);
+  const [isPlaybackMode, setIsPlaybackMode] = createSignal(false);
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
 
   const roomDetailsQuery = createQuery(() => ({
     queryKey: ['canvas', 'room', roomId()],
@@ -75,18 +152,158 @@ function CanvasRoomPage() {
 
   // Create an accessor for the modal's room prop
   const roomDataAccessor: Accessor<ClientCanvasRoom | null> = () => roomDetailsQuery.data || null;
+  const isArchived = () => !!roomDetailsQuery.data?.archived_at;
 
   const {
     connect,
     disconnect,
     sendEvent,
-    receivedEvents,
+    canvasState, // Shapes and undo/redo stacks resolved from the room's events
     connectionStatus,
     userColor, // Get userColor from the hook
+    role, // Role assigned by the DO (owner/editor/viewer)
+    roomSettings, // Background, grid, lock and allowed tools, enforced by the DO
+    closeReason, // Set when the server ended the session (e.g. removed from room)
     sendCursorPosition, // Get sendCursorPosition from the hook
     otherUserCursors,   // Get otherUserCursors from the hook
-    clientId // <<< ADDED: Destructure clientId
-  } = useCanvasWebSocket(roomId);
+    clientId, // <<< ADDED: Destructure clientId
+    sendUndo,
+    sendRedo,
+    canUndo,
+    canRedo,
+    participants, // Everyone connected, with names, avatars, idle state and viewports
+    guestCount, // Signed-out viewers watching through the share link
+    sendViewport,
+    liveStrokes, // Strokes others are drawing right now, streamed as binary frames
+    sendStrokePoints,
+    endStroke,
+    commentThreads, // Pinned comment threads, kept in sync by the DO
+    createCommentThread,
+    replyToCommentThread,
+    resolveCommentThread,
+    chatMessages, // Room chat, stored apart from the drawing
+    chatHasMore,
+    chatLoadingOlder,
+    chatUnreadCount,
+    typingUsers,
+    sendChatMessage,
+    deleteChatMessage,
+    loadOlderChatMessages,
+    sendChatTyping,
+    markChatRead,
+  } = useCanvasWebSocket(() => isArchived() ? '' : roomId()); // Archived rooms can't be joined; restoring reconnects
+
+  // Follow mode: our viewport mirrors this participant's until we pan/zoom or they leave
+  const [followingClientId, setFollowingClientId] = createSignal<string | null>(null);
+  const followedParticipant = () => participants().find(participant => participant.clientId === followingClientId()) ?? null;
+  createEffect(on(roomId, () => setFollowingClientId(null), { defer: true }));
+  createEffect(() => {
+    if (followingClientId() && !followedParticipant() && connectionStatus() === 'connected') setFollowingClientId(null);
+  });
+
+  // One side panel at a time: comment threads or the chat
+  const [sidePanel, setSidePanel] = createSignal<'comments' | 'chat' | null>(null);
+  const toggleSidePanel = (panel: 'comments' | 'chat') => setSidePanel(open => open === panel ? null : panel);
+  // Messages arriving while the chat is open are read right away
+  createEffect(() => {
+    if (sidePanel() === 'chat' && chatMessages().length > 0) markChatRead();
+  });
+
+  // Comments: the sidebar lists threads, selecting one jumps the canvas to its pin
+  const [activeThreadId, setActiveThreadId] = createSignal<string | null>(null);
+  const [commentDraftAnchor, setCommentDraftAnchor] = createSignal<CommentAnchor | null>(null);
+  const [centerRequest, setCenterRequest] = createSignal<CanvasPoint | null>(null);
+  createEffect(on(roomId, () => {
+    setActiveThreadId(null);
+    setCommentDraftAnchor(null);
+  }, { defer: true }));
+  createEffect(on(sidePanel, (panel) => {
+    if (panel !== 'comments') setCommentDraftAnchor(null); // The draft's composer went away with the sidebar
+  }, { defer: true }));
+
+  const membersQuery = createQuery(() => ({
+    queryKey: ['canvas', 'room', roomId(), 'participants'],
+    queryFn: () => getCanvasRoomMembers(roomId()),
+    enabled: !!roomId() && sidePanel() === 'comments',
+  }));
+  const mentionableMembers = () => (membersQuery.data ?? [])
+    .filter(member => member.user_id !== GlobalAuth.user()?.id)
+    .map(member => ({ userId: member.user_id, name: member.name || member.email || 'Unknown' }));
+
+  const threadPoint = (anchor: CommentAnchor) => resolveCommentAnchor(anchor, canvasState().shapes);
+  const unresolvedMentions = () => {
+    const userId = GlobalAuth.user()?.id;
+    return userId ? commentThreads().filter(thread => !thread.resolved && threadMentionsUser(thread, userId)).length : 0;
+  };
+  // Open threads get pins, plus the selected thread even when resolved and the one being written
+  const commentPins = () => {
+    const userId = GlobalAuth.user()?.id;
+    const pins = commentThreads()
+      .filter(thread => !thread.resolved || thread.id === activeThreadId())
+      .map(thread => ({
+        id: thread.id,
+        point: threadPoint(thread.anchor),
+        count: thread.comments.length,
+        active: thread.id === activeThreadId(),
+        highlighted: !!userId && threadMentionsUser(thread, userId),
+      }));
+    const draft = commentDraftAnchor();
+    return draft ? [...pins, { id: '', point: threadPoint(draft), count: 0, active: true, highlighted: false }] : pins;
+  };
+
+  const selectThread = (threadId: string | null) => {
+    setActiveThreadId(threadId);
+    const thread = commentThreads().find(t => t.id === threadId);
+    if (thread) setCenterRequest(threadPoint(thread.anchor));
+  };
+  const handleCommentPlace = (anchor: CommentAnchor) => {
+    setCommentDraftAnchor(anchor);
+    setActiveThreadId(null);
+    setSidePanel('comments');
+  };
+  const handleCommentCreate = (text: string, mentions: Parameters<typeof createCommentThread>[2]) => {
+    const anchor = commentDraftAnchor();
+    if (!anchor || !createCommentThread(anchor, text, mentions)) return false;
+    setCommentDraftAnchor(null);
+    return true;
+  };
+
+  // Playback mode replaces the live canvas with a read-only view of the history
+  const playback = useCanvasPlayback(roomId, isPlaybackMode);
+
+  const forkMutation = createMutation(() => ({
+    mutationFn: forkCanvasRoom,
+    onSuccess: (room) => {
+      queryClient.invalidateQueries({ queryKey: ['canvasRooms'] });
+      setIsPlaybackMode(false);
+      navigate({ to: '/dashboard/canvas/$roomId', params: { roomId: room.id } });
+    },
+    onError: (error: Error) => {
+      alert(`Error forking room: ${error.message}`);
+    },
+  }));
+
+  const duplicateMutation = createMutation(() => ({
+    mutationFn: duplicateCanvasRoom,
+    onSuccess: (room) => {
+      queryClient.invalidateQueries({ queryKey: ['canvasRooms'] });
+      navigate({ to: '/dashboard/canvas/$roomId', params: { roomId: room.id } });
+    },
+    onError: (error: Error) => {
+      alert(`Error duplicating room: ${error.message}`);
+    },
+  }));
+
+  const restoreMutation = createMutation(() => ({
+    mutationFn: restoreCanvasRoom,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['canvasRooms'] });
+      queryClient.invalidateQueries({ queryKey: ['canvas', 'room', roomId()] });
+    },
+    onError: (error: Error) => {
+      alert(`Error restoring room: ${error.message}`);
+    },
+  }));
 
   // Signals for any page-specific loading/error states, distinct from WebSocket status
   const [pageError, setPageError] = createSignal<string | null>(null);
@@ -110,19 +327,45 @@ function CanvasRoomPage() {
   };
 
   // Log before rendering CanvasComponent
-  console.log("[RoomIdPage] About to render CanvasComponent. Key:", roomId(), "events length:", receivedEvents().length, "connectionStatus:", connectionStatus());
+  console.log("[RoomIdPage] About to render CanvasComponent. Key:", roomId(), "shapes:", canvasState().shapes.length, "connectionStatus:", connectionStatus());
 
   return (
     <div class="p-4 md:p-6 h-[calc(100vh-var(--header-height,4rem))] flex flex-col">
       <Show when={pageError()}>
         <p class="text-destructive">Page Error: {pageError()}</p>
       </Show>
+      <Show when={isArchived()} fallback={
+        <Show when={closeReason()}>
+          <p class="text-destructive">{closeReason()}</p>
+        </Show>
+      }>
+        <div class="mb-2 flex items-center gap-3 rounded-md bg-muted px-3 py-2 text-sm">
+          <p>This room is archived. Restore it to draw in it again.</p>
+          <Show when={roomDetailsQuery.data?.creator_id === GlobalAuth.user()?.id}>
+            <Button size="sm" variant="outline" onClick={() => restoreMutation.mutate(roomId())} disabled={restoreMutation.isPending}>
+              {restoreMutation.isPending ? 'Restoring...' : 'Restore'}
+            </Button>
+          </Show>
+        </div>
+      </Show>
 
       <div class="mb-2 flex justify-between items-center">
         <h1 class="text-xl font-bold">
           Canvas: {roomDetailsQuery.data?.name || roomId()}
         </h1>
         <div class="flex items-center space-x-2">
+          <Show when={!isPlaybackMode()}>
+            <Show when={followedParticipant()}>
+              {(participant) => <p class="text-sm text-muted-foreground">Following {participant().userName}</p>}
+            </Show>
+            <ParticipantBar
+              participants={participants()}
+              clientId={clientId()}
+              followingClientId={followingClientId()}
+              onFollow={setFollowingClientId}
+              guestCount={guestCount()}
+            />
+          </Show>
           <Button 
             variant="outline"
             size="sm"
@@ -131,6 +374,60 @@ function CanvasRoomPage() {
           >
             Settings
           </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setIsExportModalOpen(true)}
+          >
+            Export
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => duplicateMutation.mutate(roomId())}
+            disabled={duplicateMutation.isPending}
+            title="Copy this room's settings and drawing into a new room"
+          >
+            {duplicateMutation.isPending ? 'Duplicating...' : 'Duplicate'}
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setIsSaveTemplateModalOpen(true)}
+            title="Offer this room's drawing as a starting point for new rooms"
+          >
+            Save as template
+          </Button>
+          <Button
+            variant={sidePanel() === 'chat' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => toggleSidePanel('chat')}
+          >
+            Chat
+            <Show when={chatUnreadCount() > 0 && sidePanel() !== 'chat'}>
+              <span class="ml-1 rounded-full bg-blue-500 px-1.5 text-xs text-white" title="Unread messages">
+                {chatHasMore() && chatUnreadCount() >= chatMessages().length ? `${chatUnreadCount()}+` : chatUnreadCount()}
+              </span>
+            </Show>
+          </Button>
+          <Button
+            variant={sidePanel() === 'comments' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => toggleSidePanel('comments')}
+            title={unresolvedMentions() > 0 ? `${unresolvedMentions()} open thread(s) mention you` : undefined}
+          >
+            Comments ({commentThreads().filter(thread => !thread.resolved).length})
+            <Show when={unresolvedMentions() > 0}>
+              <span class="ml-1 rounded-full bg-amber-400 px-1.5 text-xs text-gray-900">@{unresolvedMentions()}</span>
+            </Show>
+          </Button>
+          <Button
+            variant={isPlaybackMode() ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setIsPlaybackMode(mode => !mode)}
+          >
+            History
+          </Button>
           <p class="text-sm capitalize px-2 py-1 rounded-md"
              classList={{
                'bg-green-100 text-green-700': connectionStatus() === 'connected',
@@ -139,10 +436,17 @@ function CanvasRoomPage() {
              }}>
             Status: {connectionStatus()}
           </p>
+          <Show when={role() === 'viewer'}>
+            <p class="text-sm px-2 py-1 rounded-md bg-muted text-muted-foreground">View only</p>
+          </Show>
+          <Show when={role() !== 'viewer' && roomSettings().is_locked}>
+            <p class="text-sm px-2 py-1 rounded-md bg-muted text-muted-foreground" title="The owner can unlock it in the room settings">Locked</p>
+          </Show>
         </div>
       </div>
         
-      <div class="flex-grow border border-border rounded-lg bg-background relative shadow-md min-h-[300px]">
+      <div class="flex flex-grow gap-2 min-h-[300px]">
+      <div class="flex-grow border border-border rounded-lg bg-background relative shadow-md">
         <Show when={roomId()} 
               fallback={<p class="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 text-muted-foreground">
                           Loading room data...
@@ -150,15 +454,83 @@ function CanvasRoomPage() {
           <CanvasComponent 
             key={roomId()}
             roomId={roomId()}
-            events={receivedEvents()}
+            events={isPlaybackMode() ? playback.shapes() : canvasState().shapes}
             onDraw={handleDrawEvent} 
             userColor={userColor()}
             clientId={clientId()} // <<< ADDED: Pass clientId as a prop
             onCursorMove={handleCursorMoveEvent} 
-            otherUserCursors={otherUserCursors()}
+            otherUserCursors={isPlaybackMode() ? {} : otherUserCursors()}
+            readOnly={role() === 'viewer' || roomSettings().is_locked || isPlaybackMode()}
+            canUndo={canUndo()}
+            canRedo={canRedo()}
+            canClear={role() === 'owner' && !roomSettings().is_locked && !isPlaybackMode()}
+            onUndo={sendUndo}
+            onRedo={sendRedo}
+            onViewportChange={sendViewport}
+            followViewport={isPlaybackMode() ? null : followedParticipant()?.viewport ?? null}
+            onStopFollowing={followingClientId() ? () => setFollowingClientId(null) : undefined}
+            liveStrokes={isPlaybackMode() ? [] : liveStrokes()}
+            onStrokePoints={sendStrokePoints}
+            onStrokeEnd={endStroke}
+            settings={roomSettings()}
+            onCommentPlace={isPlaybackMode() || isArchived() ? undefined : handleCommentPlace}
+            commentPins={isPlaybackMode() ? [] : commentPins()}
+            onCommentPinClick={(threadId) => {
+              if (!threadId) return; // The draft's pin
+              setSidePanel('comments');
+              selectThread(threadId);
+            }}
+            centerRequest={centerRequest()}
+            onImageUpload={(file) => uploadCanvasImage(roomId(), file)}
           />
         </Show>
       </div>
+      <Show when={sidePanel() === 'comments' && !isPlaybackMode()}>
+        <CommentsSidebar
+          threads={commentThreads()}
+          members={mentionableMembers()}
+          currentUserId={GlobalAuth.user()?.id ?? null}
+          canResolve={(thread) => role() !== 'viewer' || thread.createdBy === GlobalAuth.user()?.id}
+          activeThreadId={activeThreadId()}
+          onSelectThread={selectThread}
+          isDrafting={!!commentDraftAnchor()}
+          onCancelDraft={() => setCommentDraftAnchor(null)}
+          onCreate={handleCommentCreate}
+          onReply={replyToCommentThread}
+          onResolve={resolveCommentThread}
+          onClose={() => {
+            setSidePanel(null);
+            setCommentDraftAnchor(null);
+            setActiveThreadId(null);
+          }}
+        />
+      </Show>
+      <Show when={sidePanel() === 'chat'}>
+        <ChatPanel
+          messages={chatMessages()}
+          hasMore={chatHasMore()}
+          loadingOlder={chatLoadingOlder()}
+          onLoadOlder={loadOlderChatMessages}
+          typingUsers={typingUsers()}
+          currentUserId={GlobalAuth.user()?.id ?? null}
+          role={role()}
+          onSend={sendChatMessage}
+          onDelete={deleteChatMessage}
+          onTyping={sendChatTyping}
+          onClose={() => setSidePanel(null)}
+        />
+      </Show>
+      </div>
+
+      <Show when={isPlaybackMode()}>
+        <PlaybackBar
+          playback={playback}
+          currentUserId={GlobalAuth.user()?.id ?? null}
+          onFork={(seq) => forkMutation.mutate({ roomId: roomId(), seq })}
+          isForking={forkMutation.isPending}
+          onExit={() => setIsPlaybackMode(false)}
+        />
+      </Show>
 
       <Show when={roomDetailsQuery.isSuccess && roomDetailsQuery.data && roomId()}>
         <RoomSettingsModal 
@@ -166,9 +538,25 @@ function CanvasRoomPage() {
           onClose={() => setIsSettingsModalOpen(false)}
           roomId={roomId()!}
           room={roomDataAccessor}
+          isOwner={role() === 'owner'}
+          currentUserId={GlobalAuth.user()?.id ?? null}
         />
       </Show>
 
+      <ExportModal
+        isOpen={isExportModalOpen}
+        onClose={() => setIsExportModalOpen(false)}
+        roomName={roomDetailsQuery.data?.name || roomId()}
+        shapes={() => canvasState().shapes}
+      />
+
+      <SaveTemplateModal
+        isOpen={isSaveTemplateModalOpen}
+        onClose={() => setIsSaveTemplateModalOpen(false)}
+        roomId={roomId()}
+        roomName={roomDetailsQuery.data?.name || ''}
+      />
+
       {/* Optional: Debugging area for received events */}
       {/* 
       <Show when={otherUserCursors && Object.keys(otherUserCursors()).length > 0}>
@@ -1,33 +1,56 @@
-import { createFileRoute, Link } from '@tanstack/solid-router';
+import { createFileRoute, Link, useNavigate } from '@tanstack/solid-router';
 import { For, createSignal, Show, type JSX } from 'solid-js';
 import { createQuery, createMutation, useQueryClient } from '@tanstack/solid-query';
 import { Button } from '~/components/ui/button'; // Assuming Solid-UI button is here
 import { Input } from '~/components/ui/input';   // Assuming Solid-UI input is here
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from '~/components/ui/card'; // Assuming Solid-UI card
+import { Tabs, TabsList, TabsTrigger } from '~/components/ui/tabs';
 import { fetchWithAuth } from "~/lib/utils/fetchWithAuth"; // Import the shared utility
 import { getApiUrl } from '~/lib/utils';
+import { GlobalAuth } from '~/lib/AuthProvider';
 
 // Local type alias for CanvasRoom to avoid problematic cross-directory import for now
 // Ensure this matches the actual structure from your API and D1 schema
 interface CanvasRoom {
   id: string;
   name: string;
+  description: string | null;
   creator_id: string;
-  created_at: string | number | Date; 
-  updated_at: string | number | Date;
-  settings?: Record<string, any>;
+  is_public: boolean;
+  created: string; 
+  updated: string;
+  participant_count: number;
+  last_activity: string | null;
+  archived_at: string | null;
 }
 
+type RoomScope = 'mine' | 'shared' | 'public' | 'archived';
+
+// A template new rooms can start from: built in, or saved from a room by a user
+interface CanvasTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  creator_id: string | null; // null for built-in templates
+  is_public: boolean;
+  shape_count: number;
+  builtin: boolean;
+}
+
+const ROOMS_PAGE_SIZE = 12;
+
 // Define the expected structure of the API response when creating a room
 interface CreateRoomResponse {
     message: string;
     room: CanvasRoom;
 }
 
-// Define the expected structure of the API response when fetching rooms (if it's an object with a rooms array)
+// Define the expected structure of the API response when fetching rooms
 interface GetRoomsResponse {
     rooms: CanvasRoom[];
-    // Or if the API returns an array directly, this can be simplified
+    total: number;
+    page: number;
+    pageSize: number;
 }
 
 interface ApiErrorResponse {
@@ -39,25 +62,44 @@ export const Route = createFileRoute('/dashboard/canvas/')({
   component: CanvasRoomListPage,
 });
 
-// Fetch canvas rooms
-const getCanvasRooms = async (): Promise<CanvasRoom[]> => {
-  const response = await fetchWithAuth(`${getApiUrl()}/api/canvas/rooms`);
+// Fetch a page of canvas rooms in the given scope
+const getCanvasRooms = async (scope: RoomScope, page: number, search: string): Promise<GetRoomsResponse> => {
+  const params = new URLSearchParams({ scope, page: String(page), pageSize: String(ROOMS_PAGE_SIZE) });
+  if (search.trim()) {
+    params.set('search', search.trim());
+  }
+  const response = await fetchWithAuth(`${getApiUrl()}/api/canvas/rooms?${params.toString()}`);
   if (!response.ok) {
     const errorBody = await response.text();
     throw new Error(`Failed to fetch canvas rooms: ${response.status} ${errorBody || 'Unknown error'}`);
   }
-  // Assuming the API /api/canvas/rooms directly returns an array of CanvasRoom objects
-  // If it returns an object like { rooms: [...] }, adjust accordingly:
-  // const data: GetRoomsResponse = await response.json();
-  // return data.rooms;
   return response.json(); 
 };
 
-// Create a new canvas room
-const createCanvasRoomAPI = async (roomName: string): Promise<CanvasRoom> => {
+// Templates the gallery offers: built-in ones, our own and public ones
+const getCanvasTemplates = async (): Promise<CanvasTemplate[]> => {
+  const response = await fetchWithAuth(`${getApiUrl()}/api/canvas/templates`);
+  if (!response.ok) {
+    const parsedError = await response.json().catch(() => ({})) as ApiErrorResponse;
+    throw new Error(parsedError.message || parsedError.error || `Failed to fetch templates with status: ${response.status}`);
+  }
+  const result = await response.json() as { templates: CanvasTemplate[] };
+  return result.templates;
+};
+
+const deleteCanvasTemplateAPI = async (templateId: string): Promise<void> => {
+  const response = await fetchWithAuth(`${getApiUrl()}/api/canvas/templates/${templateId}`, { method: 'DELETE' });
+  if (!response.ok) {
+    const parsedError = await response.json().catch(() => ({})) as ApiErrorResponse;
+    throw new Error(parsedError.message || parsedError.error || `Failed to delete template with status: ${response.status}`);
+  }
+};
+
+// Create a new canvas room, blank or seeded from a template
+const createCanvasRoomAPI = async ({ name, templateId }: { name: string; templateId: string | null }): Promise<CanvasRoom> => {
   const response = await fetchWithAuth(`${getApiUrl()}/api/canvas/rooms`, {
     method: 'POST',
-    body: JSON.stringify({ name: roomName }),
+    body: JSON.stringify(templateId ? { name, template_id: templateId } : { name }),
   });
   if (!response.ok) {
     let errorMessage = 'Failed to create room with status: ' + response.status;
@@ -75,22 +117,112 @@ const createCanvasRoomAPI = async (roomName: string): Promise<CanvasRoom> => {
   return result.room;
 };
 
+// Create a room from an exported JSON document; an optional name overrides the document's
+const importCanvasRoomAPI = async ({ file, name }: { file: File; name: string }): Promise<CanvasRoom> => {
+  let document: unknown;
+  try {
+    document = JSON.parse(await file.text());
+  } catch (e) {
+    throw new Error('The selected file is not valid JSON.');
+  }
+  const params = name ? `?${new URLSearchParams({ name }).toString()}` : '';
+  const response = await fetchWithAuth(`${getApiUrl()}/api/canvas/rooms/import${params}`, {
+    method: 'POST',
+    body: JSON.stringify(document),
+  });
+  if (!response.ok) {
+    let errorMessage = 'Failed to import canvas with status: ' + response.status;
+    try {
+        const parsedError = await response.json() as ApiErrorResponse;
+        if (parsedError && typeof parsedError.message === 'string') {
+            errorMessage = parsedError.message;
+        } else if (parsedError && typeof parsedError.error === 'string') {
+            errorMessage = parsedError.error;
+        }
+    } catch (e) { /* Ignore if body isn't JSON or doesn't match expected error structure */ }
+    throw new Error(errorMessage);
+  }
+  const result: CreateRoomResponse = await response.json();
+  return result.room;
+};
+
+// Restore an archived room, or delete a room for good
+const archivedRoomActionAPI = async ({ roomId, action }: { roomId: string; action: 'restore' | 'delete' }): Promise<void> => {
+  const response = await fetchWithAuth(`${getApiUrl()}/api/canvas/rooms/${roomId}${action === 'restore' ? '/restore' : ''}`, {
+    method: action === 'restore' ? 'POST' : 'DELETE',
+  });
+  if (!response.ok) {
+    const parsedError = await response.json().catch(() => ({})) as ApiErrorResponse;
+    throw new Error(parsedError.message || parsedError.error || `Failed to ${action} room with status: ${response.status}`);
+  }
+};
+
+// One entry of the template gallery in the create form
+function TemplateCard(props: { name: string; description: string; badge?: string; selected: boolean; onSelect: () => void; onDelete?: () => void }) {
+  return (
+    <div class="relative">
+      <button type="button"
+              class="h-full w-full rounded-md border p-3 text-left text-sm hover:bg-muted"
+              classList={{ 'border-primary ring-2 ring-primary': props.selected }}
+              aria-pressed={props.selected}
+              onClick={() => props.onSelect()}>
+        <p class="pr-5 font-medium">{props.name}</p>
+        <p class="line-clamp-2 text-muted-foreground">{props.description}</p>
+        <Show when={props.badge}>
+          <p class="mt-1 text-xs text-muted-foreground">{props.badge}</p>
+        </Show>
+      </button>
+      <Show when={props.onDelete}>
+        <button type="button" class="absolute right-2 top-2 text-muted-foreground hover:text-destructive"
+                title="Delete template" onClick={() => props.onDelete?.()}>
+          ×
+        </button>
+      </Show>
+    </div>
+  );
+}
+
 function CanvasRoomListPage() {
   const queryClient = useQueryClient();
+  const navigate = useNavigate();
+  let importInputRef!: HTMLInputElement;
   const [newRoomName, setNewRoomName] = createSignal('');
+  const [scope, setScope] = createSignal<RoomScope>('mine');
+  const [page, setPage] = createSignal(1);
+  const [search, setSearch] = createSignal('');
+  const [templateId, setTemplateId] = createSignal<string | null>(null); // null starts a blank room
+
+  const templatesQuery = createQuery(() => ({
+    queryKey: ['canvasTemplates'],
+    queryFn: getCanvasTemplates,
+  }));
 
   const roomsQuery = createQuery(() => ({
-    queryKey: ['canvasRooms'],
-    queryFn: getCanvasRooms,
-    placeholderData: [], 
+    queryKey: ['canvasRooms', scope(), page(), search()],
+    queryFn: () => getCanvasRooms(scope(), page(), search()),
+    placeholderData: (previousData) => previousData,
   }));
 
+  const rooms = () => roomsQuery.data?.rooms ?? [];
+  const totalPages = () => Math.max(1, Math.ceil((roomsQuery.data?.total ?? 0) / ROOMS_PAGE_SIZE));
+
+  const handleScopeChange = (value: string) => {
+    setScope(value as RoomScope);
+    setPage(1);
+  };
+
+  const handleSearchChange = (value: string) => {
+    setSearch(value);
+    setPage(1);
+  };
+
   const mutation = createMutation(() => ({
     mutationFn: createCanvasRoomAPI,
     onSuccess: (newRoom) => {
       queryClient.invalidateQueries({ queryKey: ['canvasRooms'] });
       console.log('Room created:', newRoom);
       setNewRoomName(''); 
+      setTemplateId(null);
     },
     onError: (error: Error) => {
       console.error('Error creating room:', error);
@@ -98,10 +230,64 @@ function CanvasRoomListPage() {
     },
   }));
 
+  const importMutation = createMutation(() => ({
+    mutationFn: importCanvasRoomAPI,
+    onSuccess: (newRoom) => {
+      queryClient.invalidateQueries({ queryKey: ['canvasRooms'] });
+      setNewRoomName('');
+      navigate({ to: '/dashboard/canvas/$roomId', params: { roomId: newRoom.id } });
+    },
+    onError: (error: Error) => {
+      console.error('Error importing canvas:', error);
+      alert(`Error importing canvas: ${error.message}`);
+    },
+  }));
+
+  const deleteTemplateMutation = createMutation(() => ({
+    mutationFn: deleteCanvasTemplateAPI,
+    onSuccess: (_, deletedId) => {
+      if (templateId() === deletedId) setTemplateId(null);
+      queryClient.invalidateQueries({ queryKey: ['canvasTemplates'] });
+    },
+    onError: (error: Error) => {
+      alert(`Error deleting template: ${error.message}`);
+    },
+  }));
+
+  const handleDeleteTemplate = (template: CanvasTemplate) => {
+    if (confirm(`Delete the template "${template.name}"? Rooms created from it are not affected.`)) {
+      deleteTemplateMutation.mutate(template.id);
+    }
+  };
+
+  const archivedRoomMutation = createMutation(() => ({
+    mutationFn: archivedRoomActionAPI,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['canvasRooms'] });
+    },
+    onError: (error: Error) => {
+      alert(`Error: ${error.message}`);
+    },
+  }));
+
+  const handleDeleteRoom = (room: CanvasRoom) => {
+    if (confirm(`Delete "${room.name}" permanently? Its drawing, history, members and invites will be lost.`)) {
+      archivedRoomMutation.mutate({ roomId: room.id, action: 'delete' });
+    }
+  };
+
+  const handleImportFile = (e: Event & { currentTarget: HTMLInputElement }) => {
+    const file = e.currentTarget.files?.[0];
+    e.currentTarget.value = ''; // Allow picking the same file again
+    if (file) {
+      importMutation.mutate({ file, name: newRoomName().trim() });
+    }
+  };
+
   const handleCreateRoomSubmit = (e: Event) => {
     e.preventDefault();
     if (newRoomName().trim()) {
-      mutation.mutate(newRoomName().trim());
+      mutation.mutate({ name: newRoomName().trim(), templateId: templateId() });
     }
   };
 
@@ -116,9 +302,9 @@ function CanvasRoomListPage() {
       <Card>
         <CardHeader>
           <CardTitle>Create New Canvas Room</CardTitle>
-          <CardDescription>Enter a name for your new collaborative canvas.</CardDescription>
+          <CardDescription>Enter a name for your new collaborative canvas and pick a template to start from, or import a canvas exported as JSON.</CardDescription>
         </CardHeader>
-        <CardContent>
+        <CardContent class="space-y-4">
           <form onSubmit={handleCreateRoomSubmit} class="flex items-center space-x-2">
             <Input 
               type="text"
@@ -131,10 +317,53 @@ function CanvasRoomListPage() {
             <Button type="submit" disabled={mutation.isPending || !newRoomName().trim()}>
               {mutation.isPending ? 'Creating...' : 'Create Room'}
             </Button>
+            <Button type="button" variant="outline" disabled={importMutation.isPending} onClick={() => importInputRef.click()}>
+              {importMutation.isPending ? 'Importing...' : 'Import JSON'}
+            </Button>
+            <input ref={importInputRef} type="file" accept="application/json,.json" class="hidden" onChange={handleImportFile} />
           </form>
+          <div class="grid grid-cols-2 gap-2 sm:grid-cols-3 lg:grid-cols-5">
+            <TemplateCard
+              name="Blank"
+              description="An empty canvas."
+              selected={templateId() === null}
+              onSelect={() => setTemplateId(null)}
+            />
+            <For each={templatesQuery.data ?? []}>{(template) => (
+              <TemplateCard
+                name={template.name}
+                description={template.description || `${template.shape_count} ${template.shape_count === 1 ? 'shape' : 'shapes'}`}
+                badge={template.builtin ? 'Built-in' : template.creator_id === GlobalAuth.user()?.id ? (template.is_public ? 'Mine · Public' : 'Mine') : 'Public'}
+                selected={templateId() === template.id}
+                onSelect={() => setTemplateId(template.id)}
+                onDelete={!template.builtin && template.creator_id === GlobalAuth.user()?.id ? () => handleDeleteTemplate(template) : undefined}
+              />
+            )}</For>
+          </div>
+          <Show when={templatesQuery.isError}>
+            <p class="text-sm text-destructive">Couldn't load templates; you can still create a blank room.</p>
+          </Show>
         </CardContent>
       </Card>
 
+      <div class="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <Tabs value={scope()} onChange={handleScopeChange}>
+          <TabsList>
+            <TabsTrigger value="mine">My Rooms</TabsTrigger>
+            <TabsTrigger value="shared">Shared with Me</TabsTrigger>
+            <TabsTrigger value="public">Public</TabsTrigger>
+            <TabsTrigger value="archived">Archived</TabsTrigger>
+          </TabsList>
+        </Tabs>
+        <Input
+          type="search"
+          placeholder="Search rooms by name"
+          value={search()}
+          onChange={handleSearchChange}
+          class="sm:w-64"
+        />
+      </div>
+
       <Show when={roomsQuery.isLoading}>
         <p>Loading rooms...</p>
       </Show>
@@ -142,30 +371,65 @@ function CanvasRoomListPage() {
         <p class="text-destructive">Error loading rooms: {roomsQuery.error instanceof Error ? roomsQuery.error.message : 'Unknown error'}</p>
       </Show>
 
-      <Show when={roomsQuery.isSuccess && roomsQuery.data && roomsQuery.data.length > 0}>
-        <h2 class="text-2xl font-semibold mt-6 mb-4">Existing Rooms</h2>
+      <Show when={roomsQuery.isSuccess && rooms().length > 0}>
         <div class="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-          <For each={roomsQuery.data}>{(room: CanvasRoom) => (
+          <For each={rooms()}>{(room: CanvasRoom) => (
             <Card>
               <CardHeader>
                 <CardTitle>{room.name}</CardTitle>
-                <CardDescription>ID: {room.id}</CardDescription>
+                <CardDescription>{room.description || `ID: ${room.id}`}</CardDescription>
               </CardHeader>
-              <CardContent>
-                <p>Created by: {room.creator_id}</p> 
-                <p>Last updated: {new Date(room.updated_at).toLocaleString()}</p>
+              <CardContent class="space-y-1 text-sm">
+                <p>{room.participant_count} {room.participant_count === 1 ? 'member' : 'members'}{room.is_public ? ' · Public' : ''}</p>
+                <p>Last activity: {room.last_activity ? new Date(room.last_activity).toLocaleString() : 'Never'}</p>
+                <Show when={room.archived_at} fallback={<p class="text-muted-foreground">Updated: {new Date(room.updated).toLocaleString()}</p>}>
+                  <p class="text-muted-foreground">Archived: {new Date(room.archived_at!).toLocaleString()}</p>
+                </Show>
               </CardContent>
               <CardFooter>
-                <Link to="/dashboard/canvas/$roomId" params={{ roomId: room.id }} class="w-full">
-                  <Button variant='outline' class="w-full">Open Canvas</Button>
-                </Link>
+                <Show when={room.archived_at} fallback={
+                  <Link to="/dashboard/canvas/$roomId" params={{ roomId: room.id }} class="w-full">
+                    <Button variant='outline' class="w-full">Open Canvas</Button>
+                  </Link>
+                }>
+                  <div class="flex w-full gap-2">
+                    <Button variant="outline" class="flex-1" disabled={archivedRoomMutation.isPending}
+                            onClick={() => archivedRoomMutation.mutate({ roomId: room.id, action: 'restore' })}>
+                      Restore
+                    </Button>
+                    <Button variant="destructive" class="flex-1" disabled={archivedRoomMutation.isPending} onClick={() => handleDeleteRoom(room)}>
+                      Delete
+                    </Button>
+                  </div>
+                </Show>
               </CardFooter>
             </Card>
           )}</For>
         </div>
+        <Show when={totalPages() > 1}>
+          <div class="flex items-center justify-center gap-3">
+            <Button variant="outline" size="sm" disabled={page() <= 1} onClick={() => setPage(p => p - 1)}>
+              Previous
+            </Button>
+            <span class="text-sm text-muted-foreground">Page {page()} of {totalPages()}</span>
+            <Button variant="outline" size="sm" disabled={page() >= totalPages()} onClick={() => setPage(p => p + 1)}>
+              Next
+            </Button>
+          </div>
+        </Show>
       </Show>
-      <Show when={roomsQuery.isSuccess && roomsQuery.data && roomsQuery.data.length === 0}>
-         <p class="text-center text-gray-500 py-8">No canvas rooms yet. Create one to get started!</p>
+      <Show when={roomsQuery.isSuccess && rooms().length === 0}>
+         <p class="text-center text-gray-500 py-8">
+           {search().trim()
+             ? 'No rooms match your search.'
+             : scope() === 'mine'
+               ? 'No canvas rooms yet. Create one to get started!'
+               : scope() === 'shared'
+                 ? 'No rooms have been shared with you yet.'
+                 : scope() === 'archived'
+                   ? 'No archived rooms.'
+                   : 'No public rooms yet.'}
+         </p>
       </Show>
     </div>
   );
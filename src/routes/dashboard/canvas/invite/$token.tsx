@@ -0,0 +1,136 @@
+import { createFileRoute, useNavigate } from '@tanstack/solid-router';
+import { Show } from 'solid-js';
+import { createMutation, createQuery, useQueryClient } from '@tanstack/solid-query';
+import { Button } from '~/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from '~/components/ui/card';
+import { fetchWithAuth } from '~/lib/utils/fetchWithAuth';
+import { getApiUrl } from '~/lib/utils';
+
+interface ApiError {
+  message?: string;
+  error?: string;
+}
+
+// Shape of GET /api/canvas/invites/:token
+interface InvitePreview {
+  room: { id: string; name: string; description: string | null };
+  role: 'owner' | 'editor' | 'viewer';
+  email: string | null;
+  status: 'pending' | 'accepted' | 'expired' | 'revoked';
+  expires: string;
+}
+
+export const Route = createFileRoute('/dashboard/canvas/invite/$token')({
+  component: AcceptInvitePage,
+});
+
+const readApiError = async (response: Response, fallback: string): Promise<Error> => {
+  let errorDetail: ApiError = { message: `Request failed with status ${response.status}` };
+  try {
+    const parsedError = await response.json();
+    if (parsedError && typeof parsedError === 'object') {
+      const potentialError = parsedError as ApiError;
+      if (typeof potentialError.message === 'string' || typeof potentialError.error === 'string') {
+        errorDetail = potentialError;
+      }
+    }
+  } catch (e) {
+    console.error("Failed to parse error response JSON or unexpected format:", e);
+  }
+  return new Error(errorDetail.message || errorDetail.error || fallback);
+};
+
+const getInvitePreview = async (token: string): Promise<InvitePreview> => {
+  const response = await fetchWithAuth(`${getApiUrl()}/api/canvas/invites/${token}`);
+  if (!response.ok) {
+    throw await readApiError(response, 'Failed to fetch invite');
+  }
+  return response.json() as Promise<InvitePreview>;
+};
+
+const acceptInviteAPI = async (token: string): Promise<{ id: string }> => {
+  const response = await fetchWithAuth(`${getApiUrl()}/api/canvas/invites/${token}/accept`, { method: 'POST' });
+  if (!response.ok) {
+    throw await readApiError(response, 'Failed to accept invite');
+  }
+  const result = await response.json() as { room: { id: string } };
+  return result.room;
+};
+
+function AcceptInvitePage() {
+  const params = Route.useParams();
+  const token = () => params().token;
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const inviteQuery = createQuery(() => ({
+    queryKey: ['canvas', 'invite', token()],
+    queryFn: () => getInvitePreview(token()),
+    enabled: !!token(),
+    retry: false,
+  }));
+
+  const acceptMutation = createMutation(() => ({
+    mutationFn: acceptInviteAPI,
+    onSuccess: (room) => {
+      queryClient.invalidateQueries({ queryKey: ['canvasRooms'] });
+      navigate({ to: '/dashboard/canvas/$roomId', params: { roomId: room.id } });
+    },
+    onError: (error: Error) => {
+      console.error('Error accepting invite:', error);
+    },
+  }));
+
+  return (
+    <div class="p-4 md:p-6 flex justify-center">
+      <Card class="w-full max-w-md">
+        <Show when={inviteQuery.isLoading}>
+          <CardContent class="pt-6">
+            <p>Loading invite...</p>
+          </CardContent>
+        </Show>
+        <Show when={inviteQuery.isError}>
+          <CardHeader>
+            <CardTitle>Invite unavailable</CardTitle>
+            <CardDescription>{inviteQuery.error?.message}</CardDescription>
+          </CardHeader>
+        </Show>
+        <Show when={inviteQuery.data}>
+          {(invite) => (
+            <>
+              <CardHeader>
+                <CardTitle>Join "{invite().room.name}"</CardTitle>
+                <CardDescription>
+                  You've been invited to this canvas room as <span class="capitalize">{invite().role}</span>.
+                </CardDescription>
+              </CardHeader>
+              <CardContent class="space-y-2 text-sm">
+                <Show when={invite().room.description}>
+                  <p>{invite().room.description}</p>
+                </Show>
+                <Show when={invite().email}>
+                  <p class="text-muted-foreground">This invite is reserved for {invite().email}.</p>
+                </Show>
+                <Show when={invite().status !== 'pending'}>
+                  <p class="text-destructive">This invite has been {invite().status}.</p>
+                </Show>
+                <Show when={acceptMutation.isError}>
+                  <p class="text-destructive">{acceptMutation.error?.message}</p>
+                </Show>
+              </CardContent>
+              <CardFooter>
+                <Button
+                  class="w-full"
+                  onClick={() => acceptMutation.mutate(token())}
+                  disabled={invite().status !== 'pending' || acceptMutation.isPending}
+                >
+                  {acceptMutation.isPending ? 'Joining...' : 'Accept invite'}
+                </Button>
+              </CardFooter>
+            </>
+          )}
+        </Show>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+import { createFileRoute, Link } from '@tanstack/solid-router';
+import { createSignal, Show } from 'solid-js';
+import { createQuery } from '@tanstack/solid-query';
+import { CanvasComponent } from '~/components/Canvas/CanvasComponent';
+import { ParticipantBar } from '~/components/Canvas/ParticipantBar';
+import { useCanvasWebSocket } from '~/hooks/useCanvasWebSocket';
+import { canvasShareAssetPath } from '~/lib/canvas-assets';
+import { getApiUrl } from '~/lib/utils';
+
+interface ApiError {
+  message?: string;
+  error?: string;
+}
+
+// Shape of GET /api/canvas/share/:token
+interface SharedRoom {
+  room: { id: string; name: string; description: string | null };
+  expires: string | null;
+}
+
+export const Route = createFileRoute('/share/$token')({
+  component: SharedCanvasPage,
+});
+
+// Public: guests aren't signed in, so this is a plain fetch rather than fetchWithAuth
+const getSharedRoom = async (token: string): Promise<SharedRoom> => {
+  const response = await fetch(`${getApiUrl()}/api/canvas/share/${token}`);
+  if (!response.ok) {
+    const errorBody = await response.json().catch(() => ({})) as ApiError;
+    throw new Error(errorBody.message || errorBody.error || `Failed to open the shared room (status ${response.status})`);
+  }
+  return response.json() as Promise<SharedRoom>;
+};
+
+// A room watched live through its view-only share link, without signing in
+function SharedCanvasPage() {
+  const params = Route.useParams();
+  const token = () => params().token;
+
+  const sharedRoomQuery = createQuery(() => ({
+    queryKey: ['canvas', 'share', token()],
+    queryFn: () => getSharedRoom(token()),
+    enabled: !!token(),
+    retry: false,
+  }));
+
+  return (
+    <div class="p-4 md:p-6 h-screen flex flex-col">
+      <Show when={sharedRoomQuery.isLoading}>
+        <p class="text-muted-foreground">Loading shared room...</p>
+      </Show>
+      <Show when={sharedRoomQuery.isError}>
+        <div class="m-auto text-center">
+          <p class="text-destructive mb-2">{sharedRoomQuery.error?.message}</p>
+          <Link to="/" class="text-sm underline">Go to the home page</Link>
+        </div>
+      </Show>
+      <Show when={sharedRoomQuery.data}>
+        {(shared) => <SharedCanvas token={token()} roomId={shared().room.id} name={shared().room.name} />}
+      </Show>
+    </div>
+  );
+}
+
+function SharedCanvas(props: { token: string; roomId: string; name: string }) {
+  const {
+    canvasState,
+    connectionStatus,
+    userColor,
+    clientId,
+    roomSettings,
+    closeReason, // Set when the link is revoked, replaced or expires
+    otherUserCursors,
+    participants,
+    guestCount,
+    liveStrokes,
+  } = useCanvasWebSocket(() => props.roomId, props.token);
+
+  // Following only moves our own view, so guests may follow members like anyone else
+  const [followingClientId, setFollowingClientId] = createSignal<string | null>(null);
+  const followedParticipant = () => participants().find(participant => participant.clientId === followingClientId()) ?? null;
+
+  return (
+    <>
+      <Show when={closeReason()}>
+        <p class="text-destructive">{closeReason()}</p>
+      </Show>
+      <div class="mb-2 flex justify-between items-center">
+        <h1 class="text-xl font-bold">{props.name}</h1>
+        <div class="flex items-center space-x-2">
+          <Show when={followedParticipant()}>
+            {(participant) => <p class="text-sm text-muted-foreground">Following {participant().userName}</p>}
+          </Show>
+          <ParticipantBar
+            participants={participants()}
+            clientId={clientId()}
+            followingClientId={followingClientId()}
+            onFollow={setFollowingClientId}
+            guestCount={guestCount()}
+          />
+          <p class="text-sm capitalize px-2 py-1 rounded-md"
+             classList={{
+               'bg-green-100 text-green-700': connectionStatus() === 'connected',
+               'bg-yellow-100 text-yellow-700': connectionStatus() === 'connecting',
+               'bg-red-100 text-red-700': connectionStatus() === 'error' || connectionStatus() === 'disconnected',
+             }}>
+            Status: {connectionStatus()}
+          </p>
+          <p class="text-sm px-2 py-1 rounded-md bg-muted text-muted-foreground">View only</p>
+        </div>
+      </div>
+      <div class="flex-grow border border-border rounded-lg bg-background relative shadow-md min-h-[300px]">
+        <CanvasComponent
+          roomId={props.roomId}
+          events={canvasState().shapes}
+          onDraw={() => {}}
+          userColor={userColor()}
+          clientId={clientId()}
+          onCursorMove={() => {}}
+          otherUserCursors={otherUserCursors()}
+          readOnly
+          followViewport={followedParticipant()?.viewport ?? null}
+          onStopFollowing={followingClientId() ? () => setFollowingClientId(null) : undefined}
+          liveStrokes={liveStrokes()}
+          settings={roomSettings()}
+          assetPath={(assetId) => canvasShareAssetPath(props.token, assetId)}
+        />
+      </div>
+    </>
+  );
+}